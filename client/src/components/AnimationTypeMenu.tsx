@@ -59,6 +59,16 @@ const animationCategories = {
     AnimationType.InstantShow,
     AnimationType.InstantHide,
   ],
+  'Path Animations': [
+    AnimationType.MotionPath,
+  ],
+  'Text Animations': [
+    AnimationType.TextTypewriter,
+    AnimationType.TextLetterFade,
+    AnimationType.TextLetterSlide,
+    AnimationType.TextWordStagger,
+    AnimationType.TextLineMask,
+  ],
   'Special Effects': [
     AnimationType.Custom
   ]
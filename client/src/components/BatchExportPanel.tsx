@@ -0,0 +1,169 @@
+import { CheckCircle, XCircle, Loader2, Circle } from 'lucide-react';
+import { AdSize } from '../types/animation';
+import { AdPlatform } from '../utils/exportUtils';
+import { BatchExportItem, BatchExportType, BatchItemProgress } from '../utils/batchExport';
+import { formatKb } from '../utils/adPlatformSpecs';
+
+/**
+ * What is picked in the batch matrix
+ */
+export interface BatchSelection {
+  campaign: string;
+  adSizeIds: string[];
+  exportTypes: BatchExportType[];
+  platforms: AdPlatform[];
+}
+
+interface BatchExportPanelProps {
+  adSizes: AdSize[];
+  selection: BatchSelection;
+  onSelectionChange: (selection: BatchSelection) => void;
+  items: BatchExportItem[];
+  progress: Record<string, BatchItemProgress>;
+}
+
+const EXPORT_TYPES: { value: BatchExportType; label: string }[] = [
+  { value: 'html', label: 'HTML5' },
+  { value: 'gif', label: 'GIF' },
+  { value: 'mp4', label: 'MP4' },
+  { value: 'webm', label: 'WebM' },
+  { value: 'png', label: 'PNG sequence' },
+  { value: 'lottie', label: 'Lottie' }
+];
+
+// Networks offered in the batch matrix
+const BATCH_PLATFORMS: { value: AdPlatform; label: string }[] = [
+  { value: 'standard-css', label: 'HTML/JS (CSS)' },
+  { value: 'amphtml', label: 'AMPHTML' },
+  { value: 'google-ads', label: 'Google Ads' },
+  { value: 'dv360', label: 'DV360' },
+  { value: 'doubleclick-dcm', label: 'DoubleClick (DCM)' },
+  { value: 'adform', label: 'AdForm' },
+  { value: 'flashtalking', label: 'FlashTalking' },
+  { value: 'sizmek', label: 'Sizmek' },
+  { value: 'amazon-ads', label: 'Amazon Ads' },
+  { value: 'trade-desk', label: 'The Trade Desk' },
+  { value: 'iab', label: 'IAB' }
+];
+
+// Add or remove a value from a list
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+}
+
+const StatusIcon = ({ progress }: { progress?: BatchItemProgress }) => {
+  switch (progress?.status) {
+    case 'running':
+      return <Loader2 size={12} className="mr-2 flex-shrink-0 text-[#4A7CFF] animate-spin" />;
+    case 'done':
+      return <CheckCircle size={12} className="mr-2 flex-shrink-0 text-green-500" />;
+    case 'failed':
+      return <XCircle size={12} className="mr-2 flex-shrink-0 text-red-500" />;
+    default:
+      return <Circle size={12} className="mr-2 flex-shrink-0 text-neutral-600" />;
+  }
+};
+
+const BatchExportPanel = ({ adSizes, selection, onSelectionChange, items, progress }: BatchExportPanelProps) => {
+  const doneCount = items.filter(item => progress[item.id]?.status === 'done' || progress[item.id]?.status === 'failed').length;
+  const update = (changes: Partial<BatchSelection>) => onSelectionChange({ ...selection, ...changes });
+
+  return (
+    <div className="bg-[#151515] p-4 rounded-md">
+      <h3 className="text-white text-sm font-medium mb-3">Batch Export</h3>
+
+      <div className="mb-3">
+        <label className="block text-sm text-neutral-300 mb-1">Campaign name</label>
+        <input
+          type="text"
+          value={selection.campaign}
+          onChange={(e) => update({ campaign: e.target.value })}
+          placeholder="campaign"
+          className="w-full bg-[#1a1a1a] text-neutral-300 border border-neutral-700 rounded p-2 text-sm"
+        />
+      </div>
+
+      <div className="mb-3">
+        <label className="block text-sm text-neutral-300 mb-1">Ad sizes</label>
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          {adSizes.map(size => (
+            <label key={size.id} className="flex items-center text-xs text-neutral-300">
+              <input
+                type="checkbox"
+                checked={selection.adSizeIds.includes(size.id)}
+                onChange={() => update({ adSizeIds: toggle(selection.adSizeIds, size.id) })}
+                className="mr-1"
+              />
+              {size.width}×{size.height}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-3">
+        <label className="block text-sm text-neutral-300 mb-1">Formats</label>
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          {EXPORT_TYPES.map(type => (
+            <label key={type.value} className="flex items-center text-xs text-neutral-300">
+              <input
+                type="checkbox"
+                checked={selection.exportTypes.includes(type.value)}
+                onChange={() => update({ exportTypes: toggle(selection.exportTypes, type.value) })}
+                className="mr-1"
+              />
+              {type.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {selection.exportTypes.includes('html') && (
+        <div className="mb-3">
+          <label className="block text-sm text-neutral-300 mb-1">HTML5 platforms</label>
+          <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+            {BATCH_PLATFORMS.map(platform => (
+              <label key={platform.value} className="flex items-center text-xs text-neutral-300">
+                <input
+                  type="checkbox"
+                  checked={selection.platforms.includes(platform.value)}
+                  onChange={() => update({ platforms: toggle(selection.platforms, platform.value) })}
+                  className="mr-1"
+                />
+                {platform.label}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mb-1">
+        <label className="text-sm text-neutral-300">Files</label>
+        <span className="text-xs text-neutral-500">
+          {doneCount > 0 ? `${doneCount} of ${items.length} exported` : `${items.length} ${items.length === 1 ? 'file' : 'files'}`}
+        </span>
+      </div>
+      <ul className="max-h-40 overflow-y-auto rounded border border-neutral-800 bg-[#1a1a1a]">
+        {items.map(item => {
+          const itemProgress = progress[item.id];
+          return (
+            <li key={item.id} className="flex items-center px-2 py-1 text-xs border-b border-neutral-800 last:border-b-0">
+              <StatusIcon progress={itemProgress} />
+              <span className="text-neutral-300 truncate flex-1">{item.fileName}</span>
+              {itemProgress?.status === 'done' && itemProgress.size !== undefined && (
+                <span className="text-neutral-500 ml-2 whitespace-nowrap">{formatKb(itemProgress.size)}</span>
+              )}
+              {itemProgress?.status === 'failed' && (
+                <span className="text-red-400 ml-2 truncate" title={itemProgress.error}>{itemProgress.error}</span>
+              )}
+            </li>
+          );
+        })}
+        {items.length === 0 && (
+          <li className="px-2 py-2 text-xs text-neutral-500">Pick at least one size and format</li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default BatchExportPanel;
@@ -0,0 +1,156 @@
+import { useRef, useState } from 'react';
+import { evaluateEasing } from '../utils/easing';
+
+type BezierPoints = [number, number, number, number];
+
+interface BezierEditorProps {
+  points: BezierPoints;
+  onChange: (points: BezierPoints) => void;
+}
+
+interface EasingCurvePreviewProps {
+  easing: string;
+}
+
+// Size of the graph and the padding around the unit square
+const SIZE = 200;
+const PADDING = 40;
+const SCALE = SIZE - PADDING * 2;
+
+// Dragged handles can pull the curve as far past 0 and 1 as the graph shows
+const MIN_Y = -PADDING / SCALE;
+const MAX_Y = 1 + PADDING / SCALE;
+
+// Common curves to start from
+const BEZIER_PRESETS: { name: string; points: BezierPoints }[] = [
+  { name: 'Ease', points: [0.25, 0.1, 0.25, 1] },
+  { name: 'Out Quart', points: [0.25, 1, 0.5, 1] },
+  { name: 'In Out Cubic', points: [0.65, 0, 0.35, 1] },
+  { name: 'Back Out', points: [0.34, 1.3, 0.64, 1] },
+  { name: 'Anticipate', points: [0.36, 0, 0.66, -0.3] }
+];
+
+// Graph coordinates of a point of the easing curve
+const toGraph = (x: number, y: number) => ({ x: PADDING + x * SCALE, y: SIZE - PADDING - y * SCALE });
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Unit square with its axis labels, shared by both graphs
+const GraphFrame = () => (
+  <>
+    <rect x={PADDING} y={PADDING} width={SCALE} height={SCALE} fill="#191919" stroke="#333" />
+    <line x1={PADDING} y1={SIZE - PADDING} x2={SIZE - PADDING} y2={PADDING} stroke="#333" strokeDasharray="3 3" />
+    <text x={PADDING} y={SIZE - PADDING + 14} fill="#666" fontSize="10">time</text>
+    <text x={PADDING - 4} y={PADDING - 6} fill="#666" fontSize="10">progress</text>
+  </>
+);
+
+// Read-only graph of any easing, e.g. a spring or steps
+export const EasingCurvePreview = ({ easing }: EasingCurvePreviewProps) => {
+  const samples = Array.from({ length: 121 }, (_, index) => {
+    const t = index / 120;
+    const point = toGraph(t, evaluateEasing(easing, t));
+    return `${point.x},${point.y}`;
+  });
+
+  return (
+    <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-[200px] mx-auto block">
+      <GraphFrame />
+      <polyline points={samples.join(' ')} fill="none" stroke="#4A7CFF" strokeWidth="2" />
+    </svg>
+  );
+};
+
+// Visual cubic-bezier editor: drag the two handles or type the control points
+const BezierEditor = ({ points, onChange }: BezierEditorProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<0 | 1 | null>(null);
+  const [x1, y1, x2, y2] = points;
+
+  const start = toGraph(0, 0);
+  const end = toGraph(1, 1);
+  const handle1 = toGraph(x1, y1);
+  const handle2 = toGraph(x2, y2);
+
+  // Move the dragged handle to the pointer; time stays within 0-1
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragging === null || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * SIZE;
+    const y = ((e.clientY - rect.top) / rect.height) * SIZE;
+    const time = round(Math.min(1, Math.max(0, (x - PADDING) / SCALE)));
+    const progress = round(Math.min(MAX_Y, Math.max(MIN_Y, (SIZE - PADDING - y) / SCALE)));
+
+    onChange(dragging === 0 ? [time, progress, x2, y2] : [x1, y1, time, progress]);
+  };
+
+  const handlePointerDown = (index: 0 | 1) => (e: React.PointerEvent<SVGCircleElement>) => {
+    e.preventDefault();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    setDragging(index);
+  };
+
+  const handleInput = (index: number, value: string) => {
+    const parsed = parseFloat(value);
+    if (!isFinite(parsed)) return;
+    const next = [...points] as BezierPoints;
+    // Control point times have to stay within 0-1
+    next[index] = index % 2 === 0 ? Math.min(1, Math.max(0, parsed)) : parsed;
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className="w-full max-w-[200px] mx-auto block touch-none select-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragging(null)}
+        onPointerCancel={() => setDragging(null)}
+      >
+        <GraphFrame />
+        <line x1={start.x} y1={start.y} x2={handle1.x} y2={handle1.y} stroke="#888" />
+        <line x1={end.x} y1={end.y} x2={handle2.x} y2={handle2.y} stroke="#888" />
+        <path
+          d={`M ${start.x} ${start.y} C ${handle1.x} ${handle1.y}, ${handle2.x} ${handle2.y}, ${end.x} ${end.y}`}
+          fill="none"
+          stroke="#4A7CFF"
+          strokeWidth="2"
+        />
+        <circle cx={handle1.x} cy={handle1.y} r="6" fill="#ff4a8d" className="cursor-grab" onPointerDown={handlePointerDown(0)} />
+        <circle cx={handle2.x} cy={handle2.y} r="6" fill="#4affc3" className="cursor-grab" onPointerDown={handlePointerDown(1)} />
+      </svg>
+
+      <div className="grid grid-cols-4 gap-1 mt-2">
+        {points.map((value, index) => (
+          <input
+            key={index}
+            type="number"
+            className="w-full bg-[#191919] text-neutral-200 rounded px-1 py-1 text-xs border border-neutral-700"
+            value={value}
+            step={0.01}
+            min={index % 2 === 0 ? 0 : undefined}
+            max={index % 2 === 0 ? 1 : undefined}
+            onChange={(e) => handleInput(index, e.target.value)}
+            title={['x1', 'y1', 'x2', 'y2'][index]}
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-1 mt-2">
+        {BEZIER_PRESETS.map(preset => (
+          <button
+            key={preset.name}
+            className="px-2 py-0.5 rounded bg-[#191919] border border-neutral-700 text-xs text-neutral-300 hover:border-neutral-500"
+            onClick={() => onChange(preset.points)}
+          >
+            {preset.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BezierEditor;
@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { AnimationLayer } from '../types/animation';
+import { AdPlatform } from '../utils/exportUtils';
+import {
+  FeedBindings,
+  FeedExportOptions,
+  FRAME_TEXT_FIELDS,
+  getBindableLayers,
+  getDcoRuntime,
+  getFeedRowName,
+  parseFeed
+} from '../utils/dcoFeed';
+
+interface DcoFeedPanelProps {
+  layers: AnimationLayer[];
+  adPlatform: AdPlatform;
+  value: FeedExportOptions | null;
+  onChange: (value: FeedExportOptions | null) => void;
+}
+
+const EMPTY_BINDINGS: FeedBindings = { frame: {}, layers: {} };
+
+// Select of the feed's columns, with an unbound option
+const ColumnSelect = ({ columns, value, onChange }: { columns: string[]; value?: string; onChange: (column: string) => void }) => (
+  <select
+    value={value || ''}
+    onChange={(e) => onChange(e.target.value)}
+    className="flex-1 min-w-0 bg-[#1a1a1a] text-neutral-300 border border-neutral-700 rounded p-1 text-xs"
+  >
+    <option value="">Not bound</option>
+    {columns.map(column => (
+      <option key={column} value={column}>{column}</option>
+    ))}
+  </select>
+);
+
+const DcoFeedPanel = ({ layers, adPlatform, value, onChange }: DcoFeedPanelProps) => {
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const runtime = getDcoRuntime(adPlatform);
+  const bindableLayers = getBindableLayers(layers);
+
+  const update = (changes: Partial<FeedExportOptions>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const loadFeed = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const feed = parseFeed(await file.text(), file.name);
+      setFileName(file.name);
+      setError(null);
+      onChange({ feed, bindings: EMPTY_BINDINGS, output: runtime ? 'template' : 'variants' });
+    } catch (error: any) {
+      setError(error.message || 'The feed could not be read');
+    }
+  };
+
+  const clearFeed = () => {
+    setFileName('');
+    setError(null);
+    onChange(null);
+  };
+
+  const boundCount = value
+    ? Object.values(value.bindings.frame).filter(Boolean).length + Object.values(value.bindings.layers).filter(Boolean).length
+    : 0;
+
+  return (
+    <div className="bg-[#151515] p-4 rounded-md">
+      <h3 className="text-white text-sm font-medium mb-3">Dynamic Content Feed</h3>
+
+      <div className="mb-3">
+        <label className="block text-sm text-neutral-300 mb-1">Product feed (CSV or JSON)</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="file"
+            accept=".csv,.tsv,.txt,.json,text/csv,application/json"
+            onChange={(e) => loadFeed(e.target.files?.[0])}
+            className="flex-1 text-xs text-neutral-400"
+          />
+          {value && (
+            <button onClick={clearFeed} className="text-xs text-neutral-400 hover:text-white">
+              Remove
+            </button>
+          )}
+        </div>
+        {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+        {value && (
+          <p className="text-xs text-neutral-500 mt-1">
+            {fileName || 'Feed'}: {value.feed.rows.length} {value.feed.rows.length === 1 ? 'row' : 'rows'}, {value.feed.columns.length} columns
+          </p>
+        )}
+      </div>
+
+      {value && (
+        <>
+          <div className="mb-3">
+            <label className="block text-sm text-neutral-300 mb-1">Frame text</label>
+            {FRAME_TEXT_FIELDS.map(({ field, label }) => (
+              <div key={field} className="flex items-center gap-2 mb-1">
+                <span className="text-xs text-neutral-400 w-24">{label}</span>
+                <ColumnSelect
+                  columns={value.feed.columns}
+                  value={value.bindings.frame[field]}
+                  onChange={(column) => update({ bindings: { ...value.bindings, frame: { ...value.bindings.frame, [field]: column } } })}
+                />
+              </div>
+            ))}
+          </div>
+
+          {bindableLayers.length > 0 && (
+            <div className="mb-3">
+              <label className="block text-sm text-neutral-300 mb-1">Layers</label>
+              <div className="max-h-40 overflow-y-auto">
+                {bindableLayers.map(layer => (
+                  <div key={layer.id} className="flex items-center gap-2 mb-1">
+                    <span className="text-xs text-neutral-400 w-24 truncate" title={layer.name}>
+                      {layer.name}
+                      <span className="text-neutral-600"> ({layer.type === 'text' ? 'text' : 'image URL'})</span>
+                    </span>
+                    <ColumnSelect
+                      columns={value.feed.columns}
+                      value={value.bindings.layers[layer.id]}
+                      onChange={(column) => update({ bindings: { ...value.bindings, layers: { ...value.bindings.layers, [layer.id]: column } } })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="mb-3">
+            <label className="block text-sm text-neutral-300 mb-1">Output</label>
+            <select
+              value={value.output}
+              onChange={(e) => update({ output: e.target.value as FeedExportOptions['output'] })}
+              className="w-full bg-[#1a1a1a] text-neutral-300 border border-neutral-700 rounded p-2 text-sm"
+            >
+              <option value="variants">One banner per row ({value.feed.rows.length})</option>
+              <option value="template" disabled={!runtime}>
+                DCO template ({runtime === 'enabler' ? 'Studio Enabler' : runtime === 'flashtalking' ? 'Flashtalking' : 'DoubleClick Studio or Flashtalking only'})
+              </option>
+            </select>
+          </div>
+
+          {value.output === 'template' && runtime === 'enabler' && (
+            <div className="mb-3 grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm text-neutral-300 mb-1">Studio profile name</label>
+                <input
+                  type="text"
+                  value={value.profileName || ''}
+                  onChange={(e) => update({ profileName: e.target.value || undefined })}
+                  placeholder="Feed"
+                  className="w-full bg-[#1a1a1a] text-neutral-300 border border-neutral-700 rounded p-2 text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-neutral-300 mb-1">Studio profile ID</label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={value.profileId ?? ''}
+                  onChange={(e) => {
+                    const profileId = parseInt(e.target.value);
+                    update({ profileId: profileId > 0 ? profileId : undefined });
+                  }}
+                  placeholder="1234567"
+                  className="w-full bg-[#1a1a1a] text-neutral-300 border border-neutral-700 rounded p-2 text-sm"
+                />
+              </div>
+              {!value.profileId && (
+                <p className="col-span-2 text-xs text-yellow-500">
+                  Without the profile ID, Studio can't load the feed and the banner keeps its default content
+                </p>
+              )}
+            </div>
+          )}
+
+          <p className={`text-xs ${boundCount > 0 ? 'text-neutral-500' : 'text-yellow-500'}`}>
+            {boundCount === 0
+              ? 'Bind at least one column to a frame field or layer'
+              : value.output === 'variants'
+                ? `Banners are named ${getFeedRowName(value.feed.rows[0], 0)} … ${getFeedRowName(value.feed.rows[value.feed.rows.length - 1], value.feed.rows.length - 1)}`
+                : 'The first row is the default content; the ad server fills in the rest'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DcoFeedPanel;
@@ -1,20 +1,33 @@
 import { useState, useRef, useEffect } from 'react';
 import { X, Download, ChevronUp, ChevronDown, Play, Pause } from 'lucide-react';
-import { AdPlatform, exportGif, exportHtml, exportMp4, exportWebm } from '../utils/exportUtils';
+import { AdPlatform, BannerSource, exportGif, exportHtml, exportLottie, exportMp4, exportPngSequence, exportWebm } from '../utils/exportUtils';
+import { FrameSequenceLayout } from '../utils/frameSequence';
 import { AnimationFrame, AnimationLayer } from '../types/animation';
 import FrameSelector from './FrameSelector';
 import FrameEditDialog from './FrameEditDialog';
+import ExportReportPanel from './ExportReportPanel';
+import BatchExportPanel, { BatchSelection } from './BatchExportPanel';
+import DcoFeedPanel from './DcoFeedPanel';
+import PlatformSpecPanel from './PlatformSpecPanel';
+import ExportProfilesPanel from './ExportProfilesPanel';
+import { BundleReport, getAdPlatformSpec, getLoadedUrls, lintBannerProject } from '../utils/adPlatformSpecs';
+import { GSAP_CDN_URL, isGsapPlatform } from '../utils/gsapTimeline';
+import { describePlayback, getBannerPlayback } from '../utils/bannerPlayback';
+import { BackupImageFormat } from '../utils/backupImage';
+import { getTimelineDuration } from '../utils/animationSampler';
+import { BatchItemProgress, createBatchItems, exportBatch } from '../utils/batchExport';
 import { useAnimationContext } from '../context/AnimationContext';
+import { FeedExportOptions } from '../utils/dcoFeed';
+import { getTextSplitLayerIds } from '../utils/textSplit';
+import { describeExport, ExportHistoryEntry, ExportHistoryFile, ExportHistorySize, ExportSettings, ExportType, useExportProfiles } from '../hooks/useExportProfiles';
 
 interface ExportModalProps {
   onClose: () => void;
 }
 
-type ExportType = 'gif' | 'html' | 'mp4' | 'webm';
-
 const ExportModal = ({ onClose }: ExportModalProps) => {
   // Get frames, currentFrame, and layers from context
-  const { frames, currentFrame, layers } = useAnimationContext();
+  const { frames, currentFrame, layers, framesLayers, adSizes, duration } = useAnimationContext();
   const [exportType, setExportType] = useState<ExportType>('gif');
   const [quality, setQuality] = useState<'low' | 'medium' | 'high'>('medium');
   const [fps, setFps] = useState(30);
@@ -24,6 +37,7 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
   const [videoFormat, setVideoFormat] = useState<'h264' | 'vp9'>('h264'); // Codec selection
   const [transparent, setTransparent] = useState(false); // For WebM transparency
   const [specialGifFormat, setSpecialGifFormat] = useState(false); // Special client GIF format
+  const [pngLayout, setPngLayout] = useState<FrameSequenceLayout>('frames'); // Numbered frames or sprite sheet
   
   // HTML5 Export Advanced Options
   const [generatePreviewPage, setGeneratePreviewPage] = useState(true);
@@ -32,11 +46,18 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
   const [addBorder, setAddBorder] = useState(false);
   const [borderColor, setBorderColor] = useState('#000000');
   const [addPreloaderAnimation, setAddPreloaderAnimation] = useState(false);
+  const [politeLoading, setPoliteLoading] = useState(false);
   const [infiniteLoop, setInfiniteLoop] = useState(false);
+  const [loopCount, setLoopCount] = useState(1);
+  const [stopOnEndFrame, setStopOnEndFrame] = useState(false);
+  const [endFrameTime, setEndFrameTime] = useState<number | null>(null); // null = end of the timeline
   const [addBackupJpg, setAddBackupJpg] = useState(false);
+  const [backupImageFormat, setBackupImageFormat] = useState<BackupImageFormat>('jpg');
+  const [backupImageTime, setBackupImageTime] = useState<number | null>(null); // null = end of the timeline
+  const [backupAdSizeIds, setBackupAdSizeIds] = useState<string[]>(() => adSizes.map(size => size.id));
   const [renderRetina, setRenderRetina] = useState(false);
   const [maxFileSizeTarget, setMaxFileSizeTarget] = useState(150);
-  const [uploadToNetlify, setUploadToNetlify] = useState(false);
+  const [reviewSiteVersion, setReviewSiteVersion] = useState('v1');
   const [customHtml, setCustomHtml] = useState('');
   const [customCss, setCustomCss] = useState('');
   const [minifyCode, setMinifyCode] = useState(true);
@@ -46,6 +67,21 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
   const [bannerLink, setBannerLink] = useState('https://example.com');
   const [compressionSpeed, setCompressionSpeed] = useState<'faster' | 'balanced' | 'smaller'>('faster');
   const [adPlatform, setAdPlatform] = useState<AdPlatform>('standard-css');
+  const [feedExport, setFeedExport] = useState<FeedExportOptions | null>(null); // Product feed for single exports
+  
+  // Result of the last HTML5 export, checked against the platform spec
+  const [exportReports, setExportReports] = useState<BundleReport[] | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  
+  // Batch export of several sizes, formats and platforms into one ZIP
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchSelection, setBatchSelection] = useState<BatchSelection>(() => ({
+    campaign: 'campaign',
+    adSizeIds: adSizes.map(size => size.id),
+    exportTypes: ['html'],
+    platforms: ['google-ads', 'dv360', 'adform']
+  }));
+  const [batchProgress, setBatchProgress] = useState<Record<string, BatchItemProgress>>({});
   
   // Advanced GIF options
   const [showAdvancedGifOptions, setShowAdvancedGifOptions] = useState(false);
@@ -54,6 +90,13 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
   const [disposalMethod, setDisposalMethod] = useState<'none' | 'background' | 'previous'>('none');
   const [dithering, setDithering] = useState<'none' | 'pattern' | 'diffusion'>('diffusion');
   const [compression, setCompression] = useState(7); // 1-10 scale
+  const [gifMaxFileSize, setGifMaxFileSize] = useState(0); // KB, 0 = no limit
+  
+  // Saved option sets and past exports
+  const { profiles, history, saveProfile, deleteProfile, addHistoryEntry, clearHistory } = useExportProfiles();
+  const [pendingReExport, setPendingReExport] = useState(false);
+  // Sizes a re-export renders in place of the selected frame and ad sizes
+  const [reExportSizes, setReExportSizes] = useState<ExportHistorySize[] | null>(null);
   
   // GIF Preview
   const [previewPlaying, setPreviewPlaying] = useState(false);
@@ -66,6 +109,70 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
   const [isFrameDialogOpen, setIsFrameDialogOpen] = useState(false);
   const [editingFrameId, setEditingFrameId] = useState<string | null>(null);
   
+  const timelineDuration = getTimelineDuration(layers);
+  
+  // How the banner plays within the animation limits of the chosen platform
+  const platformSpec = getAdPlatformSpec(adPlatform);
+  const playback = getBannerPlayback(
+    timelineDuration,
+    { infiniteLoop, loopCount, stopOnEndFrame, endFrameTime: endFrameTime ?? undefined },
+    platformSpec
+  );
+  
+  // Lottie layers are images, so text animations can't play in a Lottie export
+  const textAnimatedLayerCount = getTextSplitLayerIds(layers).length;
+  
+  const toggleBackupAdSize = (adSizeId: string) => {
+    setBackupAdSizeIds(prev => prev.includes(adSizeId)
+      ? prev.filter(id => id !== adSizeId)
+      : [...prev, adSizeId]);
+  };
+  
+  // Get the frames and layer tree each of the given ad sizes is rendered from
+  const getBannerSources = (adSizeIds: string[]): BannerSource[] => adSizes
+    .filter(size => adSizeIds.includes(size.id))
+    .flatMap(size => {
+      const sizeFrames = frames.filter(f => size.frameIds.includes(f.id));
+      const frame = sizeFrames[0] || size.frames?.[0];
+      if (!frame) return [];
+      return [{
+        name: size.name,
+        width: size.width,
+        height: size.height,
+        frame,
+        layers: framesLayers[frame.id] || frame.layers || layers,
+        frames: sizeFrames
+      }];
+    });
+  
+  // Get the sources of the sizes a past export rendered, leaving out sizes
+  // whose frames have since been deleted
+  const getRecordedSources = (sizes: ExportHistorySize[]): BannerSource[] => sizes.flatMap(size => {
+    const sizeFrames = frames.filter(f => size.frameIds.includes(f.id));
+    if (sizeFrames.length === 0) return [];
+    return [{
+      name: size.name,
+      width: size.width,
+      height: size.height,
+      frame: sizeFrames[0],
+      layers: framesLayers[sizeFrames[0].id] || sizeFrames[0].layers || layers,
+      frames: sizeFrames
+    }];
+  });
+  
+  // Sizes of the batch matrix
+  const batchSources = reExportSizes
+    ? getRecordedSources(reExportSizes)
+    : getBannerSources(batchSelection.adSizeIds);
+  
+  // Files of the batch matrix
+  const batchItems = createBatchItems(
+    batchSelection.campaign,
+    batchSources,
+    batchSelection.exportTypes,
+    batchSelection.platforms
+  );
+  
   // Frame management functions
   const handleAddFrame = () => {
     setEditingFrameId(null);
@@ -138,6 +245,28 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
     };
   };
   
+  // What a single export renders: the size a re-export recorded, or the
+  // selected frame when there's no re-export or its frames are gone
+  const getExportTarget = () => {
+    const recorded = reExportSizes ? getRecordedSources(reExportSizes)[0] : undefined;
+    if (recorded) {
+      return { name: recorded.name, width: recorded.width, height: recorded.height, frames: recorded.frames!, layers: recorded.layers };
+    }
+    return { name: currentFrame?.name || 'Banner', ...getFrameDimensions(), frames: currentFrame ? [currentFrame] : frames, layers };
+  };
+  
+  // The project checked against the spec of the chosen platform
+  const specChecks = lintBannerProject({
+    platform: adPlatform,
+    sizes: batchMode ? batchSources : [getExportTarget()],
+    bannerLink,
+    playback,
+    externalUrls: [
+      ...(isGsapPlatform(adPlatform) ? [GSAP_CDN_URL] : []),
+      ...(injectCustomCode ? getLoadedUrls(customHtml) : [])
+    ]
+  });
+  
   // Cleanup preview interval on unmount
   useEffect(() => {
     return () => {
@@ -170,9 +299,247 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
     }
   };
   
+  // GIF encoding options, shared by single and batch exports
+  const getGifEncodingOptions = () => ({
+    quality: quality === 'high' ? 1 : quality === 'medium' ? 0.6 : 0.3,
+    dithering: showAdvancedGifOptions ? dithering : 
+              (quality === 'high' ? 'diffusion' : 
+               quality === 'medium' ? 'pattern' : 'none') as 'diffusion' | 'pattern' | 'none',
+    colorDepth: (quality === 'high' ? 24 : quality === 'medium' ? 16 : 8) as 8 | 16 | 24,
+    loop: true,
+    // Add advanced options if they're visible
+    ...(showAdvancedGifOptions && {
+      delay: frameDelay,
+      disposal: disposalMethod,
+      maxFileSizeTarget: gifMaxFileSize || undefined,
+      compressionSpeed,
+      // Apply compression by adjusting quality
+      quality: quality === 'high' ? 
+               (1 - (compression - 1) * 0.05) : // Scale from 0.95 (compression=1) to 0.5 (compression=10)
+               quality === 'medium' ? 
+               (0.6 - (compression - 1) * 0.03) : // Scale medium quality
+               (0.3 - (compression - 1) * 0.02)  // Scale low quality
+    })
+  });
+  
+  // HTML5 banner options, shared by single and batch exports
+  const getHtmlBannerOptions = () => ({
+    fps,
+    
+    // Banner options
+    addBorder,
+    borderColor,
+    addPreloaderAnimation,
+    politeLoading,
+    infiniteLoop,
+    loopCount,
+    stopOnEndFrame,
+    endFrameTime: endFrameTime ?? undefined,
+    addBackupJpg,
+    backupImageFormat,
+    backupImageTime: backupImageTime ?? undefined,
+    renderRetina,
+    maxFileSizeTarget,
+    
+    // Preview page options
+    generatePreviewPage,
+    previewPageLayout,
+    useDarkMode,
+    reviewSiteVersion,
+    customHtml,
+    customCss,
+    
+    // Code output settings
+    minifyCode,
+    injectCustomCode,
+    includeZipFiles,
+    usePTagsInsteadOfSvg,
+    bannerLink,
+    compressionSpeed,
+    
+    // Ad platform options (new)
+    adPlatform,
+    
+    // Legacy options (maintaining backwards compatibility)
+    includeClickTag: includeFallback,
+    optimizeForAdNetworks,
+    generateFallback: includeFallback
+  });
+  
+  // Every option of the modal, as saved in profiles and the export history
+  const getExportSettings = (): ExportSettings => ({
+    exportType,
+    quality,
+    fps,
+    includeFallback,
+    optimizeForAdNetworks,
+    videoBitrate,
+    videoFormat,
+    transparent,
+    specialGifFormat,
+    pngLayout,
+    generatePreviewPage,
+    previewPageLayout,
+    useDarkMode,
+    addBorder,
+    borderColor,
+    addPreloaderAnimation,
+    politeLoading,
+    infiniteLoop,
+    loopCount,
+    stopOnEndFrame,
+    endFrameTime,
+    addBackupJpg,
+    backupImageFormat,
+    backupImageTime,
+    backupAdSizeIds,
+    renderRetina,
+    maxFileSizeTarget,
+    reviewSiteVersion,
+    customHtml,
+    customCss,
+    minifyCode,
+    injectCustomCode,
+    includeZipFiles,
+    usePTagsInsteadOfSvg,
+    bannerLink,
+    compressionSpeed,
+    adPlatform,
+    batchMode,
+    batchSelection,
+    showAdvancedGifOptions,
+    frameCount,
+    frameDelay,
+    disposalMethod,
+    dithering,
+    compression,
+    gifMaxFileSize
+  });
+  
+  // Restore saved options. Options added since they were saved keep their
+  // current values.
+  const applyExportSettings = (saved: Partial<ExportSettings>) => {
+    const settings = { ...getExportSettings(), ...saved };
+    setExportType(settings.exportType);
+    setQuality(settings.quality);
+    setFps(settings.fps);
+    setIncludeFallback(settings.includeFallback);
+    setOptimizeForAdNetworks(settings.optimizeForAdNetworks);
+    setVideoBitrate(settings.videoBitrate);
+    setVideoFormat(settings.videoFormat);
+    setTransparent(settings.transparent);
+    setSpecialGifFormat(settings.specialGifFormat);
+    setPngLayout(settings.pngLayout);
+    setGeneratePreviewPage(settings.generatePreviewPage);
+    setPreviewPageLayout(settings.previewPageLayout);
+    setUseDarkMode(settings.useDarkMode);
+    setAddBorder(settings.addBorder);
+    setBorderColor(settings.borderColor);
+    setAddPreloaderAnimation(settings.addPreloaderAnimation);
+    setPoliteLoading(settings.politeLoading);
+    setInfiniteLoop(settings.infiniteLoop);
+    setLoopCount(settings.loopCount);
+    setStopOnEndFrame(settings.stopOnEndFrame);
+    setEndFrameTime(settings.endFrameTime);
+    setAddBackupJpg(settings.addBackupJpg);
+    setBackupImageFormat(settings.backupImageFormat);
+    setBackupImageTime(settings.backupImageTime);
+    setBackupAdSizeIds(settings.backupAdSizeIds);
+    setRenderRetina(settings.renderRetina);
+    setMaxFileSizeTarget(settings.maxFileSizeTarget);
+    setReviewSiteVersion(settings.reviewSiteVersion);
+    setCustomHtml(settings.customHtml);
+    setCustomCss(settings.customCss);
+    setMinifyCode(settings.minifyCode);
+    setInjectCustomCode(settings.injectCustomCode);
+    setIncludeZipFiles(settings.includeZipFiles);
+    setUsePTagsInsteadOfSvg(settings.usePTagsInsteadOfSvg);
+    setBannerLink(settings.bannerLink);
+    setCompressionSpeed(settings.compressionSpeed);
+    setAdPlatform(settings.adPlatform);
+    setBatchMode(settings.batchMode);
+    setBatchSelection(settings.batchSelection);
+    setShowAdvancedGifOptions(settings.showAdvancedGifOptions);
+    setFrameCount(settings.frameCount);
+    setFrameDelay(settings.frameDelay);
+    setDisposalMethod(settings.disposalMethod);
+    setDithering(settings.dithering);
+    setCompression(settings.compression);
+    setGifMaxFileSize(settings.gifMaxFileSize);
+  };
+  
+  // Apply a past export's settings and run it again once they are in place
+  const handleReExport = (entry: ExportHistoryEntry) => {
+    applyExportSettings(entry.settings);
+    setReExportSizes(entry.sizes || null);
+    setPendingReExport(true);
+  };
+  
+  // Log a finished export with the settings and sizes it ran with and the
+  // files it wrote; exports with a spec report list each banner's weight
+  const recordExport = (result: { blob: Blob; reports?: BundleReport[] } | null, files?: ExportHistoryFile[]) => {
+    if (!result) return;
+    const settings = getExportSettings();
+    const target = getExportTarget();
+    const sizes: ExportHistorySize[] = batchMode
+      ? batchSources.map(source => ({
+        name: source.name,
+        width: source.width,
+        height: source.height,
+        frameIds: (source.frames?.length ? source.frames : [source.frame]).map(frame => frame.id)
+      }))
+      : [{ name: target.name, width: target.width, height: target.height, frameIds: target.frames.map(frame => frame.id) }];
+    addHistoryEntry({
+      description: describeExport(settings, target),
+      settings,
+      sizes,
+      totalSize: result.blob.size,
+      files: files || (result.reports || []).map(report => ({ name: report.bannerName, size: report.zipSize }))
+    });
+  };
+  
+  // Export every size, format and platform picked in the batch matrix
+  const handleBatchExport = async () => {
+    const progress: Record<string, BatchItemProgress> = {};
+    batchItems.forEach(item => { progress[item.id] = { status: 'pending' }; });
+    setBatchProgress(progress);
+    setIsExporting(true);
+    
+    const files: ExportHistoryFile[] = [];
+    const result = await exportBatch(batchItems, {
+      campaign: batchSelection.campaign,
+      html: getHtmlBannerOptions(),
+      gif: { ...getGifEncodingOptions(), fps },
+      // Video, PNG and Lottie items take the settings of their single export
+      mp4: { fps, duration, videoBitrate, codec: 'h264' },
+      webm: { fps, duration, videoBitrate, codec: 'vp9', transparent },
+      png: { fps, layout: pngLayout, useCustomContent: false },
+      lottie: { fps, duration },
+      onProgress: (itemId, itemProgress) => {
+        setBatchProgress(prev => ({ ...prev, [itemId]: itemProgress }));
+        const item = batchItems.find(batchItem => batchItem.id === itemId);
+        if (item && itemProgress.status === 'done' && itemProgress.size !== undefined) {
+          files.push({ name: item.fileName, size: itemProgress.size });
+        }
+      }
+    });
+    setIsExporting(false);
+    recordExport(result, files);
+    
+    if (result) {
+      setExportReports(result.reports);
+    }
+  };
+  
   // Handle export
-  const handleExport = () => {
-    const { width, height } = getFrameDimensions();
+  const handleExport = async () => {
+    if (batchMode) {
+      await handleBatchExport();
+      return;
+    }
+    
+    const target = getExportTarget();
+    const { width, height } = target;
     
     // Prepare export options based on export type
     const commonOptions = {
@@ -217,7 +584,7 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
         };
         
         console.log('Exporting as Special Client GIF Format:', specialGifOptions);
-        exportGif(specialGifOptions);
+        recordExport(await exportGif(specialGifOptions));
       } else {
         // Select frames if frameCount is specified in advanced options
         let selectedFrames = [...framesSource];
@@ -235,85 +602,75 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
         const gifOptions = {
           frames: selectedFrames,
           ...commonOptions,
-          quality: quality === 'high' ? 1 : quality === 'medium' ? 0.6 : 0.3,
-          dithering: showAdvancedGifOptions ? dithering : 
-                    (quality === 'high' ? 'diffusion' : 
-                     quality === 'medium' ? 'pattern' : 'none') as 'diffusion' | 'pattern' | 'none',
-          colorDepth: (quality === 'high' ? 24 : quality === 'medium' ? 16 : 8) as 8 | 16 | 24,
-          loop: true,
-          useCustomContent: useContentFrames,
-          // Add advanced options if they're visible
-          ...(showAdvancedGifOptions && {
-            delay: frameDelay,
-            disposal: disposalMethod,
-            // Apply compression by adjusting quality
-            quality: quality === 'high' ? 
-                     (1 - (compression - 1) * 0.05) : // Scale from 0.95 (compression=1) to 0.5 (compression=10)
-                     quality === 'medium' ? 
-                     (0.6 - (compression - 1) * 0.03) : // Scale medium quality
-                     (0.3 - (compression - 1) * 0.02)  // Scale low quality
-          })
+          ...getGifEncodingOptions(),
+          useCustomContent: useContentFrames
         };
         
         console.log('Exporting as GIF with advanced options:', gifOptions);
-        exportGif(gifOptions);
+        setIsExporting(true);
+        const result = await exportGif(gifOptions);
+        setIsExporting(false);
+        recordExport(result);
+        
+        // Keep the modal open when the size target produced a report
+        if (result && result.reports.length > 0) {
+          setExportReports(result.reports);
+          return;
+        }
       }
     } 
     else if (exportType === 'html') {
       const htmlOptions = {
-        frames,
+        // The banner is built from the selected frame and its layer tree
+        frames: target.frames,
+        layers: target.layers,
         ...commonOptions,
-        // Banner options
-        addBorder,
-        borderColor,
-        addPreloaderAnimation,
-        infiniteLoop,
-        addBackupJpg,
-        renderRetina,
-        maxFileSizeTarget,
-        
-        // Preview page options
-        generatePreviewPage,
-        previewPageLayout,
-        useDarkMode,
-        uploadToNetlify,
-        customHtml,
-        customCss,
-        
-        // Code output settings
-        minifyCode,
-        injectCustomCode,
-        includeZipFiles,
-        usePTagsInsteadOfSvg,
-        bannerLink,
-        compressionSpeed,
-        
-        // Ad platform options (new)
-        adPlatform,
-        
-        // Legacy options (maintaining backwards compatibility)
-        includeClickTag: includeFallback,
-        optimizeForAdNetworks,
-        generateFallback: includeFallback
+        ...getHtmlBannerOptions(),
+        backupImageSizes: getBannerSources(backupAdSizeIds),
+        feed: feedExport ?? undefined
       };
       
+      const specIssues = specChecks.filter(check => !check.passed);
+      if (specIssues.length > 0 && !window.confirm(
+        `The project doesn't meet the ${platformSpec.name} spec:\n\n${specIssues.map(check => `${check.label}: ${check.message}`).join('\n')}\n\nExport anyway?`
+      )) {
+        return;
+      }
+      
       console.log('Exporting as HTML5 for platform:', adPlatform, htmlOptions);
-      exportHtml(htmlOptions);
+      setIsExporting(true);
+      const result = await exportHtml(htmlOptions);
+      setIsExporting(false);
+      recordExport(result);
+      
+      // Keep the modal open so the spec report can be reviewed
+      if (result) {
+        setExportReports(result.reports);
+        return;
+      }
     }
     else if (exportType === 'mp4') {
       const mp4Options = {
-        frames,
+        // The video is rendered from the selected frame over the whole timeline
+        frames: target.frames,
+        layers: target.layers,
+        duration,
         ...commonOptions,
         videoBitrate,
         codec: 'h264' as 'h264'  // Type assertion to match the expected type
       };
       
       console.log('Exporting as MP4:', mp4Options);
-      exportMp4(mp4Options);
+      setIsExporting(true);
+      const result = await exportMp4(mp4Options);
+      setIsExporting(false);
+      recordExport(result);
     }
     else if (exportType === 'webm') {
       const webmOptions = {
-        frames,
+        frames: target.frames,
+        layers: target.layers,
+        duration,
         ...commonOptions,
         videoBitrate,
         codec: 'vp9' as 'vp9',  // Type assertion to match the expected type
@@ -321,12 +678,53 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
       };
       
       console.log('Exporting as WebM:', webmOptions);
-      exportWebm(webmOptions);
+      setIsExporting(true);
+      const result = await exportWebm(webmOptions);
+      setIsExporting(false);
+      recordExport(result);
+    }
+    else if (exportType === 'png') {
+      // Same frames and timing as the GIF export
+      const useContentFrames = gifFrames.length > 0;
+      const pngOptions = {
+        frames: useContentFrames ? gifFrames : frames,
+        ...commonOptions,
+        layout: pngLayout,
+        useCustomContent: useContentFrames
+      };
+      
+      setIsExporting(true);
+      const result = await exportPngSequence(pngOptions);
+      setIsExporting(false);
+      recordExport(result);
+    }
+    else if (exportType === 'lottie') {
+      const lottieOptions = {
+        // The animation is built from the selected frame and its layer tree
+        frames: target.frames,
+        layers: target.layers,
+        duration,
+        ...commonOptions
+      };
+      
+      setIsExporting(true);
+      const result = await exportLottie(lottieOptions);
+      setIsExporting(false);
+      recordExport(result);
     }
     
     // Close the modal after export
     onClose();
   };
+  
+  // Run a re-export once the past settings have been rendered
+  useEffect(() => {
+    if (pendingReExport) {
+      setPendingReExport(false);
+      // Back to the selected frame and ad sizes once the re-export has run
+      handleExport().finally(() => setReExportSizes(null));
+    }
+  }, [pendingReExport]);
 
   return (
     <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-75 z-50">
@@ -342,6 +740,25 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
         </div>
         
         <div className="p-5 space-y-5 flex-1 overflow-y-auto">
+          {exportReports && (
+            <ExportReportPanel
+              reports={exportReports}
+              onDismiss={() => setExportReports(null)}
+            />
+          )}
+          
+          <ExportProfilesPanel
+            profiles={profiles}
+            history={history}
+            disabled={isExporting}
+            onSaveProfile={(name) => saveProfile(name, getExportSettings())}
+            onApplyProfile={(profile) => applyExportSettings(profile.settings)}
+            onDeleteProfile={deleteProfile}
+            onLoadHistoryEntry={(entry) => applyExportSettings(entry.settings)}
+            onReExport={handleReExport}
+            onClearHistory={clearHistory}
+          />
+          
           <div>
             <label className="block text-sm text-neutral-300 mb-2">Export Format</label>
             <div className="grid grid-cols-2 gap-3 mb-3">
@@ -376,9 +793,71 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
                 <div className={`text-lg font-medium ${exportType === 'webm' ? 'text-[#4A7CFF]' : 'text-neutral-400'}`}>WebM</div>
                 <div className="text-xs text-neutral-500 mt-1">Optimized web video</div>
               </button>
+              
+              <button
+                className={`py-3 rounded-md border ${exportType === 'png' ? 'border-[#4A7CFF] bg-[#1a1a1a]' : 'border-neutral-700 bg-[#151515]'} flex flex-col items-center justify-center`}
+                onClick={() => setExportType('png')}
+              >
+                <div className={`text-lg font-medium ${exportType === 'png' ? 'text-[#4A7CFF]' : 'text-neutral-400'}`}>PNG Sequence</div>
+                <div className="text-xs text-neutral-500 mt-1">Raw frames or sprite sheet</div>
+              </button>
+              
+              <button
+                className={`py-3 rounded-md border ${exportType === 'lottie' ? 'border-[#4A7CFF] bg-[#1a1a1a]' : 'border-neutral-700 bg-[#151515]'} flex flex-col items-center justify-center`}
+                onClick={() => setExportType('lottie')}
+              >
+                <div className={`text-lg font-medium ${exportType === 'lottie' ? 'text-[#4A7CFF]' : 'text-neutral-400'}`}>Lottie</div>
+                <div className="text-xs text-neutral-500 mt-1">Motion for apps</div>
+              </button>
+            </div>
+          </div>
+          
+          <div className="flex items-center">
+            <div className="relative inline-block w-10 mr-2 align-middle">
+              <input 
+                type="checkbox" 
+                id="batchMode" 
+                checked={batchMode}
+                onChange={(e) => setBatchMode(e.target.checked)}
+                className="opacity-0 w-0 h-0 absolute"
+              />
+              <label 
+                htmlFor="batchMode"
+                className={`block overflow-hidden h-6 rounded-full bg-neutral-700 cursor-pointer transition-colors duration-200 ${batchMode ? 'bg-[#4A7CFF]' : ''}`}
+              >
+                <span 
+                  className={`block h-6 w-6 rounded-full bg-white shadow transform transition-transform duration-200 ${batchMode ? 'translate-x-4' : 'translate-x-0'}`}
+                />
+              </label>
             </div>
+            <label htmlFor="batchMode" className="text-sm text-neutral-300">
+              Batch export several sizes, formats and platforms
+            </label>
           </div>
           
+          {batchMode && (
+            <BatchExportPanel
+              adSizes={adSizes}
+              selection={batchSelection}
+              onSelectionChange={setBatchSelection}
+              items={batchItems}
+              progress={batchProgress}
+            />
+          )}
+          
+          {batchMode && batchSelection.exportTypes.includes('lottie') && textAnimatedLayerCount > 0 && (
+            <p className="text-xs text-yellow-500">
+              Lottie doesn't support text animations: layers with letter, word or line effects will show their text whole in the Lottie files
+            </p>
+          )}
+          
+          {batchMode && feedExport && (
+            <p className="text-xs text-yellow-500">
+              Batch exports don't use the product feed: each size is exported once with the design's own content.
+              Turn off batch mode to export the feed's variants or dynamic template.
+            </p>
+          )}
+          
           {/* Frame Size information removed as Ad size will dictate export dimensions */}
           
           {/* Add GIF Preview for gif export type */}
@@ -635,6 +1114,30 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
                         <span>High (Smaller file)</span>
                       </div>
                     </div>
+                    
+                    <div>
+                      <label className="block text-sm text-neutral-300 mb-2">Maximum file size</label>
+                      <div className="flex items-center">
+                        <input
+                          type="number"
+                          value={gifMaxFileSize}
+                          onChange={(e) => setGifMaxFileSize(Math.max(0, Number(e.target.value)))}
+                          min={0}
+                          className="w-20 bg-[#1a1a1a] text-neutral-300 border border-neutral-700 rounded p-1 text-xs text-center"
+                        />
+                        <span className="text-sm text-neutral-300 ml-2 mr-2">KB</span>
+                        <select
+                          value={compressionSpeed}
+                          onChange={(e) => setCompressionSpeed(e.target.value as any)}
+                          className="bg-[#1a1a1a] text-neutral-300 border border-neutral-700 rounded p-1 text-xs"
+                        >
+                          <option value="faster">Faster (Default)</option>
+                          <option value="balanced">Balanced</option>
+                          <option value="smaller">Smaller Size</option>
+                        </select>
+                      </div>
+                      <p className="text-xs text-neutral-500 mt-1">Palette and color depth are reduced until the GIF fits (0 = no limit)</p>
+                    </div>
                   </div>
                 )}
               </div>
@@ -667,7 +1170,7 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
                       </label>
                     </div>
                     <label htmlFor="generatePreviewPage" className="text-sm text-neutral-300">
-                      Generate Preview Page
+                      Generate Review Site
                     </label>
                   </div>
                   
@@ -722,18 +1225,21 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
                   </div>
                 </div>
                 
-                <div className="flex items-center mb-3">
-                  <input
-                    type="checkbox"
-                    id="uploadToNetlify"
-                    checked={uploadToNetlify}
-                    onChange={(e) => setUploadToNetlify(e.target.checked)}
-                    className="mr-3"
-                  />
-                  <label htmlFor="uploadToNetlify" className="text-sm text-neutral-300">
-                    Upload Preview Page URL to Netlify
-                  </label>
-                </div>
+                {generatePreviewPage && (
+                  <div className="mb-3">
+                    <label className="block text-sm text-neutral-300 mb-1">Review Site Version Label</label>
+                    <input
+                      type="text"
+                      value={reviewSiteVersion}
+                      onChange={(e) => setReviewSiteVersion(e.target.value)}
+                      placeholder="v1"
+                      className="w-full bg-[#1a1a1a] text-neutral-300 border border-neutral-700 rounded p-2 text-sm"
+                    />
+                    <p className="text-xs text-neutral-500 mt-1">
+                      The review site is added to the ZIP's review folder, ready to upload to any static host
+                    </p>
+                  </div>
+                )}
                 
                 <div>
                   <label className="block text-sm text-neutral-300 mb-1">Custom HTML (inserted after &lt;/body&gt; tag)</label>
@@ -828,6 +1334,29 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
                   </label>
                 </div>
                 
+                <div className="flex items-center mb-3">
+                  <div className="relative inline-block w-10 mr-2 align-middle">
+                    <input 
+                      type="checkbox" 
+                      id="politeLoading" 
+                      checked={politeLoading}
+                      onChange={(e) => setPoliteLoading(e.target.checked)}
+                      className="opacity-0 w-0 h-0 absolute"
+                    />
+                    <label 
+                      htmlFor="politeLoading"
+                      className={`block overflow-hidden h-6 rounded-full bg-neutral-700 cursor-pointer transition-colors duration-200 ${politeLoading ? 'bg-[#4A7CFF]' : ''}`}
+                    >
+                      <span 
+                        className={`block h-6 w-6 rounded-full bg-white shadow transform transition-transform duration-200 ${politeLoading ? 'translate-x-4' : 'translate-x-0'}`}
+                      />
+                    </label>
+                  </div>
+                  <label htmlFor="politeLoading" className="text-sm text-neutral-300">
+                    Polite loading: load images after the page and play once in view
+                  </label>
+                </div>
+                
                 <div className="flex items-center mb-3">
                   <div className="relative inline-block w-10 mr-2 align-middle">
                     <input 
@@ -851,6 +1380,55 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
                   </label>
                 </div>
                 
+                <div className="mb-3 pl-12">
+                  <div className="flex items-center mb-2">
+                    <label className="text-xs text-neutral-400 w-24">Plays</label>
+                    <input
+                      type="number"
+                      value={loopCount}
+                      onChange={(e) => setLoopCount(Math.max(1, Math.round(Number(e.target.value)) || 1))}
+                      disabled={infiniteLoop}
+                      min={1}
+                      step={1}
+                      className="w-20 bg-[#1a1a1a] text-neutral-300 border border-neutral-700 rounded p-1 text-xs text-center"
+                    />
+                    <span className="text-xs text-neutral-500 ml-2">
+                      {infiniteLoop ? 'until the platform limit' : loopCount === 1 ? 'time' : 'times'}
+                    </span>
+                  </div>
+                  
+                  <div className="flex items-center mb-2">
+                    <label className="flex items-center text-xs text-neutral-400 w-24">
+                      <input
+                        type="checkbox"
+                        checked={stopOnEndFrame}
+                        onChange={(e) => setStopOnEndFrame(e.target.checked)}
+                        className="mr-1"
+                      />
+                      End frame
+                    </label>
+                    <input
+                      type="number"
+                      value={endFrameTime ?? ''}
+                      placeholder={timelineDuration.toFixed(1)}
+                      onChange={(e) => setEndFrameTime(e.target.value === '' ? null : Math.max(0, Number(e.target.value)))}
+                      disabled={!stopOnEndFrame}
+                      min={0}
+                      max={timelineDuration}
+                      step={0.1}
+                      className="w-20 bg-[#1a1a1a] text-neutral-300 border border-neutral-700 rounded p-1 text-xs text-center"
+                    />
+                    <span className="text-xs text-neutral-500 ml-2">
+                      {endFrameTime === null ? 's (end of the timeline)' : 's'}
+                    </span>
+                  </div>
+                  
+                  <p className={`text-xs ${playback.capped ? 'text-yellow-500' : 'text-neutral-500'}`}>
+                    {describePlayback(playback)}
+                    {playback.capped && ` — ${platformSpec.name} allows ${platformSpec.maxAnimationSeconds}s${platformSpec.maxLoops === null ? '' : ` and ${platformSpec.maxLoops} plays`}`}
+                  </p>
+                </div>
+                
                 <div className="flex items-center justify-between mb-3">
                   <div className="flex items-center">
                     <div className="relative inline-block w-10 mr-2 align-middle">
@@ -871,7 +1449,7 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
                       </label>
                     </div>
                     <label htmlFor="addBackupJpg" className="text-sm text-neutral-300">
-                      Add "backup.jpg"
+                      Add backup image
                     </label>
                   </div>
                   
@@ -886,6 +1464,58 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
                   <span className="text-sm text-neutral-300 ml-2">KB Size Target</span>
                 </div>
                 
+                {(addBackupJpg || includeFallback) && (
+                  <div className="mb-3 pl-12">
+                    <div className="flex items-center mb-2">
+                      <label className="text-xs text-neutral-400 w-24">Backup format</label>
+                      <select
+                        value={backupImageFormat}
+                        onChange={(e) => setBackupImageFormat(e.target.value as BackupImageFormat)}
+                        className="bg-[#1a1a1a] text-neutral-300 border border-neutral-700 rounded p-1 text-xs"
+                      >
+                        <option value="jpg">JPG</option>
+                        <option value="png">PNG</option>
+                        <option value="gif">GIF</option>
+                      </select>
+                    </div>
+                    
+                    <div className="flex items-center mb-2">
+                      <label className="text-xs text-neutral-400 w-24">Captured at</label>
+                      <input
+                        type="number"
+                        value={backupImageTime ?? ''}
+                        placeholder={timelineDuration.toFixed(1)}
+                        onChange={(e) => setBackupImageTime(e.target.value === '' ? null : Math.max(0, Number(e.target.value)))}
+                        min={0}
+                        step={0.1}
+                        className="w-20 bg-[#1a1a1a] text-neutral-300 border border-neutral-700 rounded p-1 text-xs text-center"
+                      />
+                      <span className="text-xs text-neutral-500 ml-2">
+                        {backupImageTime === null ? 's (end of the timeline)' : 's'}
+                      </span>
+                    </div>
+                    
+                    {adSizes.length > 0 && (
+                      <div className="flex items-start">
+                        <label className="text-xs text-neutral-400 w-24 pt-0.5">Ad sizes</label>
+                        <div className="flex flex-wrap gap-x-3 gap-y-1">
+                          {adSizes.map(size => (
+                            <label key={size.id} className="flex items-center text-xs text-neutral-300">
+                              <input
+                                type="checkbox"
+                                checked={backupAdSizeIds.includes(size.id)}
+                                onChange={() => toggleBackupAdSize(size.id)}
+                                className="mr-1"
+                              />
+                              {size.width}×{size.height}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+                
                 <div className="flex items-center mb-3">
                   <div className="relative inline-block w-10 mr-2 align-middle">
                     <input 
@@ -962,6 +1592,7 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
                       <optgroup label="Non-Platform Specific">
                         <option value="standard-css">HTML/JS (CSS @keyframes)</option>
                         <option value="standard-gsap">HTML/JS (GSAP/Greensock)</option>
+                        <option value="amphtml">AMPHTML (amp-animation, no custom JS)</option>
                       </optgroup>
                       
                       {/* Platforms with clickTag */}
@@ -1002,6 +1633,7 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
                       </optgroup>
                     </select>
                   </div>
+                  <PlatformSpecPanel platform={adPlatform} checks={specChecks} />
                 </div>
                 
                 <div className="mb-3">
@@ -1128,10 +1760,94 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
                     </label>
                   </div>
                   <label htmlFor="includeFallback" className="text-sm text-neutral-300">
-                    Add "backup.jpg" to individual zip files
+                    Add backup image to individual zip files
                   </label>
                 </div>
               </div>
+              
+              {/* Product feed (single exports only) */}
+              {!batchMode && (
+                <DcoFeedPanel
+                  layers={layers}
+                  adPlatform={adPlatform}
+                  value={feedExport}
+                  onChange={setFeedExport}
+                />
+              )}
+            </>
+          )}
+          
+          {exportType === 'lottie' && (
+            <div>
+              <label className="block text-sm text-neutral-300 mb-2">Frame Rate (FPS)</label>
+              <input
+                type="range"
+                min="15"
+                max="60"
+                step="1"
+                value={fps}
+                onChange={(e) => setFps(parseInt(e.target.value))}
+                className="w-full"
+              />
+              <div className="flex justify-between text-xs text-neutral-500">
+                <span>15 fps</span>
+                <span className="text-neutral-300">{fps} fps</span>
+                <span>60 fps</span>
+              </div>
+              <p className="text-xs text-neutral-500 mt-2">
+                Eased motion keeps its bezier curves; bounce, elastic and 3D rotation are sampled at this frame rate
+              </p>
+              {textAnimatedLayerCount > 0 && (
+                <p className="text-xs text-yellow-500 mt-2">
+                  Lottie doesn't support text animations: {textAnimatedLayerCount === 1 ? '1 layer' : `${textAnimatedLayerCount} layers`} with
+                  letter, word or line effects will show their text whole, without the effect
+                </p>
+              )}
+            </div>
+          )}
+          
+          {exportType === 'png' && (
+            <>
+              <div>
+                <label className="block text-sm text-neutral-300 mb-2">Frame Rate (FPS)</label>
+                <input
+                  type="range"
+                  min="1"
+                  max="60"
+                  step="1"
+                  value={fps}
+                  onChange={(e) => setFps(parseInt(e.target.value))}
+                  className="w-full"
+                />
+                <div className="flex justify-between text-xs text-neutral-500">
+                  <span>1 fps</span>
+                  <span className="text-neutral-300">{fps} fps</span>
+                  <span>60 fps</span>
+                </div>
+              </div>
+              
+              <div>
+                <label className="block text-sm text-neutral-300 mb-2">Output</label>
+                <div className="flex rounded-md overflow-hidden border border-neutral-700">
+                  <button
+                    className={`flex-1 py-2 ${pngLayout === 'frames' ? 'bg-[#1a1a1a] text-neutral-200' : 'bg-[#151515] text-neutral-400'}`}
+                    onClick={() => setPngLayout('frames')}
+                  >
+                    Numbered frames
+                  </button>
+                  <button
+                    className={`flex-1 py-2 ${pngLayout === 'spritesheet' ? 'bg-[#1a1a1a] text-neutral-200' : 'bg-[#151515] text-neutral-400'}`}
+                    onClick={() => setPngLayout('spritesheet')}
+                  >
+                    Sprite sheet + JSON
+                  </button>
+                </div>
+                <p className="text-xs text-neutral-500 mt-2">
+                  {pngLayout === 'frames'
+                    ? 'One PNG per frame at the frame rate, in a ZIP'
+                    : 'Every frame on one PNG with a TexturePacker/PixiJS JSON atlas'}
+                </p>
+              </div>
             </>
           )}
           
@@ -1214,14 +1930,15 @@ const ExportModal = ({ onClose }: ExportModalProps) => {
             className="px-4 py-2 rounded text-neutral-300 hover:bg-neutral-800"
             onClick={onClose}
           >
-            Cancel
+            {exportReports ? 'Close' : 'Cancel'}
           </button>
           <button
-            className="px-4 py-2 rounded bg-[#4A7CFF] hover:bg-[#3A6CEE] text-white flex items-center"
+            className="px-4 py-2 rounded bg-[#4A7CFF] hover:bg-[#3A6CEE] text-white flex items-center disabled:opacity-50"
             onClick={handleExport}
+            disabled={isExporting}
           >
             <Download size={16} className="mr-2" />
-            Export
+            {isExporting ? 'Exporting...' : 'Export'}
           </button>
         </div>
       </div>
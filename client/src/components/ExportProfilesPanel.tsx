@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { ExportHistoryEntry, ExportProfile } from '../hooks/useExportProfiles';
+import { formatKb } from '../utils/adPlatformSpecs';
+
+interface ExportProfilesPanelProps {
+  profiles: ExportProfile[];
+  history: ExportHistoryEntry[];
+  disabled: boolean; // While an export runs
+  onSaveProfile: (name: string) => void;
+  onApplyProfile: (profile: ExportProfile) => void;
+  onDeleteProfile: (profileId: string) => void;
+  onLoadHistoryEntry: (entry: ExportHistoryEntry) => void;
+  onReExport: (entry: ExportHistoryEntry) => void;
+  onClearHistory: () => void;
+}
+
+const ExportProfilesPanel = ({
+  profiles,
+  history,
+  disabled,
+  onSaveProfile,
+  onApplyProfile,
+  onDeleteProfile,
+  onLoadHistoryEntry,
+  onReExport,
+  onClearHistory
+}: ExportProfilesPanelProps) => {
+  const [expanded, setExpanded] = useState(false);
+  const [profileName, setProfileName] = useState('');
+  const [openEntryId, setOpenEntryId] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    onSaveProfile(name);
+    setProfileName('');
+  };
+
+  return (
+    <div className="rounded border border-neutral-800 bg-[#1a1a1a]">
+      <button
+        className="w-full flex items-center justify-between px-3 py-2 text-xs text-neutral-300"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <span>
+          Profiles & History
+          <span className="text-neutral-500 ml-2">
+            {profiles.length} {profiles.length === 1 ? 'profile' : 'profiles'} · {history.length} past {history.length === 1 ? 'export' : 'exports'}
+          </span>
+        </span>
+        {expanded ? <ChevronUp size={14} className="text-neutral-500" /> : <ChevronDown size={14} className="text-neutral-500" />}
+      </button>
+
+      {expanded && (
+        <div className="px-3 pb-3 space-y-3">
+          {/* Saved profiles */}
+          <div>
+            <div className="text-xs text-neutral-500 mb-1">Profiles</div>
+            {profiles.length === 0 && (
+              <div className="text-xs text-neutral-500 mb-2">Save the current options to reuse them later</div>
+            )}
+            <ul className="mb-2">
+              {profiles.map(profile => (
+                <li key={profile.id} className="flex items-center justify-between text-xs py-1">
+                  <span className="text-neutral-300 truncate mr-2">{profile.name}</span>
+                  <span className="flex items-center flex-shrink-0">
+                    <button
+                      className="px-2 py-0.5 rounded bg-neutral-800 text-neutral-300 hover:bg-neutral-700 mr-1"
+                      onClick={() => onApplyProfile(profile)}
+                    >
+                      Apply
+                    </button>
+                    <button
+                      className="p-1 rounded text-neutral-500 hover:text-red-400"
+                      onClick={() => onDeleteProfile(profile.id)}
+                      title="Delete profile"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <div className="flex">
+              <input
+                type="text"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                placeholder="Profile name, e.g. DV360 campaign set"
+                className="flex-1 min-w-0 bg-[#111111] text-neutral-300 border border-neutral-700 rounded p-1.5 text-xs mr-2"
+              />
+              <button
+                className="px-2 rounded bg-neutral-800 text-neutral-300 hover:bg-neutral-700 text-xs flex items-center disabled:opacity-50"
+                onClick={handleSave}
+                disabled={!profileName.trim()}
+              >
+                <Save size={12} className="mr-1" />
+                Save
+              </button>
+            </div>
+          </div>
+
+          {/* Past exports, newest first */}
+          <div>
+            <div className="flex items-center justify-between text-xs text-neutral-500 mb-1">
+              <span>History</span>
+              {history.length > 0 && (
+                <button className="hover:text-neutral-300" onClick={onClearHistory}>Clear</button>
+              )}
+            </div>
+            {history.length === 0 && (
+              <div className="text-xs text-neutral-500">No exports yet</div>
+            )}
+            <ul className="max-h-48 overflow-y-auto">
+              {history.map(entry => (
+                <li key={entry.id} className="text-xs py-1 border-t border-neutral-800 first:border-t-0">
+                  <div className="flex items-center justify-between">
+                    <button
+                      className="text-left min-w-0 mr-2"
+                      onClick={() => setOpenEntryId(openEntryId === entry.id ? null : entry.id)}
+                    >
+                      <div className="text-neutral-300 truncate">{entry.description}</div>
+                      <div className="text-neutral-500">
+                        {new Date(entry.exportedAt).toLocaleString()} · {formatKb(entry.totalSize)}
+                      </div>
+                    </button>
+                    <span className="flex items-center flex-shrink-0">
+                      <button
+                        className="px-2 py-0.5 rounded bg-neutral-800 text-neutral-300 hover:bg-neutral-700 mr-1"
+                        onClick={() => onLoadHistoryEntry(entry)}
+                      >
+                        Load
+                      </button>
+                      <button
+                        className="px-2 py-0.5 rounded bg-neutral-800 text-neutral-300 hover:bg-neutral-700 flex items-center disabled:opacity-50"
+                        onClick={() => onReExport(entry)}
+                        disabled={disabled}
+                        title="Export again with these settings"
+                      >
+                        <RotateCcw size={11} className="mr-1" />
+                        Re-export
+                      </button>
+                    </span>
+                  </div>
+                  {openEntryId === entry.id && entry.files.length > 0 && (
+                    <ul className="mt-1 pl-2">
+                      {entry.files.map(file => (
+                        <li key={file.name} className="flex justify-between text-neutral-500">
+                          <span className="truncate mr-2">{file.name}</span>
+                          <span className="whitespace-nowrap">{formatKb(file.size)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportProfilesPanel;
@@ -0,0 +1,66 @@
+import { CheckCircle, XCircle, X } from 'lucide-react';
+import { BundleReport, formatKb } from '../utils/adPlatformSpecs';
+
+interface ExportReportPanelProps {
+  reports: BundleReport[];
+  onDismiss: () => void;
+}
+
+const ExportReportPanel = ({ reports, onDismiss }: ExportReportPanelProps) => {
+  const allPassed = reports.every(report => report.passed);
+
+  return (
+    <div className={`mb-4 rounded border ${allPassed ? 'border-green-700' : 'border-red-700'} bg-[#1a1a1a]`}>
+      <div className="flex items-center justify-between px-3 py-2 border-b border-neutral-800">
+        <div className="flex items-center text-sm font-medium text-white">
+          {allPassed
+            ? <CheckCircle size={16} className="mr-2 text-green-500" />
+            : <XCircle size={16} className="mr-2 text-red-500" />}
+          {allPassed ? 'Export passed all checks' : 'Export failed some checks'}
+        </div>
+        <button
+          className="w-6 h-6 flex items-center justify-center rounded hover:bg-neutral-800"
+          onClick={onDismiss}
+        >
+          <X size={14} className="text-neutral-400" />
+        </button>
+      </div>
+
+      {reports.map(report => (
+        <div key={`${report.platform}-${report.bannerName}`} className="px-3 py-2 border-b border-neutral-800 last:border-b-0">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs text-neutral-300 truncate">{report.bannerName}</span>
+            <span className="text-xs text-neutral-500 ml-2 whitespace-nowrap">
+              {report.platformName} · {formatKb(report.zipSize)} · {report.fileCount} {report.fileCount === 1 ? 'file' : 'files'}
+            </span>
+          </div>
+
+          <ul>
+            {report.checks.map(check => (
+              <li key={check.id} className="flex items-start text-xs py-0.5">
+                {check.passed
+                  ? <CheckCircle size={12} className="mr-2 mt-0.5 flex-shrink-0 text-green-500" />
+                  : <XCircle size={12} className="mr-2 mt-0.5 flex-shrink-0 text-red-500" />}
+                <span className="text-neutral-300 w-20 flex-shrink-0">{check.label}</span>
+                <span className={check.passed ? 'text-neutral-500' : 'text-red-400'}>{check.message}</span>
+              </li>
+            ))}
+          </ul>
+
+          {report.degradations && report.degradations.length > 0 && (
+            <div className="mt-2">
+              <span className="text-xs text-yellow-500">Degraded to reach the size target:</span>
+              <ul className="list-disc list-inside">
+                {report.degradations.map(degradation => (
+                  <li key={degradation} className="text-xs text-neutral-400">{degradation}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ExportReportPanel;
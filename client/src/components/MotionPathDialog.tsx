@@ -0,0 +1,319 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Figma, Route, Trash2, X } from 'lucide-react';
+import { Animation, AnimationLayer, EasingType, MotionPathProps } from '../types/animation';
+import { getSelectedVectorPath, isPluginConnected } from '../lib/figmaPlugin';
+import {
+  createSmoothPath,
+  DEFAULT_MOTION_PATH,
+  extractPathData,
+  getMotionPathBounds,
+  getMotionPathGeometry,
+  getMotionPathPoint,
+  PathPoint
+} from '../utils/motionPath';
+
+interface MotionPathDialogProps {
+  isOpen: boolean;
+  layer: AnimationLayer | null;
+  animation: Animation | null; // The motion path animation being edited
+  onClose: () => void;
+  onSave: (updates: { customProps: MotionPathProps; easing: string }) => void;
+}
+
+// Area around the layer the pad shows at least, in px each way
+const PAD_RANGE = 160;
+const PAD_MARGIN = 20;
+
+// Drawn points closer than this (px) to the last one are skipped
+const DRAW_SPACING = 4;
+
+// Points the followed part of the path is drawn with
+const TRAVEL_SAMPLES = 80;
+
+const MotionPathDialog = ({ isOpen, layer, animation, onClose, onSave }: MotionPathDialogProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [path, setPath] = useState(DEFAULT_MOTION_PATH);
+  const [pathText, setPathText] = useState(DEFAULT_MOTION_PATH);
+  const [autoRotate, setAutoRotate] = useState(false);
+  const [startOffset, setStartOffset] = useState(0);
+  const [endOffset, setEndOffset] = useState(1);
+  const [easing, setEasing] = useState<string>(EasingType.EaseInOut);
+  const [error, setError] = useState<string | null>(null);
+  const [drawnPoints, setDrawnPoints] = useState<PathPoint[] | null>(null);
+  const [isPicking, setIsPicking] = useState(false);
+
+  useEffect(() => {
+    if (!animation) return;
+    const customProps = animation.customProps || {};
+    const initialPath = typeof customProps.path === 'string' && customProps.path ? customProps.path : DEFAULT_MOTION_PATH;
+    setPath(initialPath);
+    setPathText(initialPath);
+    setAutoRotate(Boolean(customProps.autoRotate));
+    setStartOffset(typeof customProps.startOffset === 'number' ? customProps.startOffset : 0);
+    setEndOffset(typeof customProps.endOffset === 'number' ? customProps.endOffset : 1);
+    setEasing(animation.easing || EasingType.EaseInOut);
+    setError(null);
+    setDrawnPoints(null);
+  }, [animation, isOpen]);
+
+  const geometry = getMotionPathGeometry(path);
+
+  // The pad shows the layer's surroundings and all of the path
+  const viewBox = useMemo(() => {
+    const bounds = geometry ? getMotionPathBounds(geometry) : { x: 0, y: 0, width: 0, height: 0 };
+    const minX = Math.min(-PAD_RANGE, bounds.x - PAD_MARGIN);
+    const minY = Math.min(-PAD_RANGE, bounds.y - PAD_MARGIN);
+    const maxX = Math.max(PAD_RANGE, bounds.x + bounds.width + PAD_MARGIN);
+    const maxY = Math.max(PAD_RANGE, bounds.y + bounds.height + PAD_MARGIN);
+    const size = Math.max(maxX - minX, maxY - minY);
+    return { x: minX, y: minY, size };
+  }, [geometry]);
+
+  // The viewBox stays put while a path is drawn
+  const drawViewBox = useRef(viewBox);
+
+  if (!isOpen || !layer || !animation) return null;
+
+  // The part of the path the layer travels, from the start to the end offset
+  const travelPoints = geometry
+    ? Array.from({ length: TRAVEL_SAMPLES + 1 }, (_, index) =>
+      getMotionPathPoint(geometry, startOffset + (endOffset - startOffset) * (index / TRAVEL_SAMPLES))
+    )
+    : [];
+  const startPoint = travelPoints[0];
+  const endPoint = travelPoints[travelPoints.length - 1];
+
+  const applyPath = (data: string) => {
+    setPath(data);
+    setPathText(data);
+    setError(null);
+  };
+
+  // Path coordinates of the pointer
+  const toPathPoint = (e: React.PointerEvent<SVGSVGElement>): PathPoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const box = drawViewBox.current;
+    return {
+      x: box.x + ((e.clientX - rect.left) / rect.width) * box.size,
+      y: box.y + ((e.clientY - rect.top) / rect.height) * box.size
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.preventDefault();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    drawViewBox.current = viewBox;
+    setDrawnPoints([toPathPoint(e)]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drawnPoints) return;
+    const point = toPathPoint(e);
+    const last = drawnPoints[drawnPoints.length - 1];
+    if (Math.hypot(point.x - last.x, point.y - last.y) >= DRAW_SPACING) {
+      setDrawnPoints([...drawnPoints, point]);
+    }
+  };
+
+  // A drawn path starts where the layer rests
+  const handlePointerUp = () => {
+    if (drawnPoints && drawnPoints.length > 1) {
+      const [first] = drawnPoints;
+      applyPath(createSmoothPath(drawnPoints.map(point => ({ x: point.x - first.x, y: point.y - first.y }))));
+    }
+    setDrawnPoints(null);
+  };
+
+  const handlePathTextChange = (text: string) => {
+    setPathText(text);
+    const data = extractPathData(text);
+    if (data) {
+      setPath(data);
+      setError(null);
+    } else {
+      setError('Paste SVG path data, or SVG markup with a path, polyline or polygon');
+    }
+  };
+
+  const handlePickVector = async () => {
+    setIsPicking(true);
+    try {
+      const { path: vectorPath } = await getSelectedVectorPath(layer.id);
+      applyPath(vectorPath);
+    } catch (error: any) {
+      setError(error.message || 'The selected vector could not be read');
+    } finally {
+      setIsPicking(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!geometry) return;
+    onSave({ customProps: { path, autoRotate, startOffset, endOffset }, easing });
+  };
+
+  const strokeWidth = viewBox.size / 150;
+  const easingIsKeyword = (Object.values(EasingType) as string[]).includes(easing);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+      <div className="bg-[#111111] rounded-lg w-[440px] max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h2 className="text-lg font-medium text-white flex items-center">
+            <Route size={18} className="mr-2 text-neutral-400" />
+            Motion Path · {layer.name}
+          </h2>
+          <button
+            className="w-8 h-8 flex items-center justify-center rounded hover:bg-neutral-800"
+            onClick={onClose}
+          >
+            <X size={18} className="text-neutral-400" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 flex-1 overflow-y-auto">
+          {/* Drawing pad, centered on where the layer rests */}
+          <div>
+            <div className="flex items-center justify-between text-xs text-neutral-400 mb-1">
+              <span>Drag to draw a path from the layer</span>
+              <button
+                className="flex items-center hover:text-neutral-200"
+                onClick={() => applyPath(DEFAULT_MOTION_PATH)}
+                title="Start again from the default arc"
+              >
+                <Trash2 size={12} className="mr-1" />
+                Reset
+              </button>
+            </div>
+            <svg
+              ref={svgRef}
+              viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.size} ${viewBox.size}`}
+              className="w-full aspect-square bg-[#191919] rounded border border-neutral-700 touch-none select-none cursor-crosshair"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setDrawnPoints(null)}
+            >
+              <line x1={viewBox.x} y1={0} x2={viewBox.x + viewBox.size} y2={0} stroke="#333" strokeWidth={strokeWidth} />
+              <line x1={0} y1={viewBox.y} x2={0} y2={viewBox.y + viewBox.size} stroke="#333" strokeWidth={strokeWidth} />
+              <rect
+                x={-strokeWidth * 6}
+                y={-strokeWidth * 6}
+                width={strokeWidth * 12}
+                height={strokeWidth * 12}
+                fill="none"
+                stroke="#888"
+                strokeWidth={strokeWidth}
+              />
+
+              {drawnPoints ? (
+                <polyline
+                  points={drawnPoints.map(point => `${point.x},${point.y}`).join(' ')}
+                  fill="none"
+                  stroke="#4A7CFF"
+                  strokeWidth={strokeWidth * 2}
+                />
+              ) : geometry && (
+                <>
+                  <path d={path} fill="none" stroke="#4A7CFF" strokeOpacity={0.35} strokeWidth={strokeWidth * 2} />
+                  <polyline
+                    points={travelPoints.map(point => `${point.x},${point.y}`).join(' ')}
+                    fill="none"
+                    stroke="#4A7CFF"
+                    strokeWidth={strokeWidth * 2}
+                  />
+                  <circle cx={startPoint.x} cy={startPoint.y} r={strokeWidth * 4} fill="#4affc3" />
+                  <circle cx={endPoint.x} cy={endPoint.y} r={strokeWidth * 4} fill="#ff4a8d" />
+                </>
+              )}
+            </svg>
+          </div>
+
+          {/* Path data, or pasted SVG markup */}
+          <div>
+            <label className="block text-xs text-neutral-400 mb-1">SVG path</label>
+            <textarea
+              className="w-full h-16 bg-[#191919] text-neutral-200 rounded px-2 py-1.5 text-xs font-mono border border-neutral-700"
+              value={pathText}
+              onChange={(e) => handlePathTextChange(e.target.value)}
+              placeholder="M 0 0 C 40 -60 120 -60 160 0"
+              spellCheck={false}
+            />
+            {error && <p className="text-xs text-yellow-500 mt-1">{error}</p>}
+            <button
+              className="mt-2 px-2 py-1 rounded bg-neutral-800 text-neutral-300 hover:bg-neutral-700 text-xs flex items-center disabled:opacity-50"
+              onClick={handlePickVector}
+              disabled={!isPluginConnected() || isPicking}
+              title={isPluginConnected() ? 'Follow the vector selected in Figma' : 'Picking a vector needs the Figma plugin'}
+            >
+              <Figma size={12} className="mr-1" />
+              {isPicking ? 'Reading vector...' : 'Use selected Figma vector'}
+            </button>
+          </div>
+
+          {/* Part of the path to follow */}
+          <div className="grid grid-cols-2 gap-3">
+            {([['Start', startOffset, setStartOffset], ['End', endOffset, setEndOffset]] as const).map(([label, value, setValue]) => (
+              <div key={label}>
+                <label className="block text-xs text-neutral-400 mb-1">{label} offset</label>
+                <input
+                  type="range"
+                  className="w-full"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                  value={value}
+                  onChange={(e) => setValue(parseFloat(e.target.value))}
+                />
+                <div className="text-xs text-neutral-300 text-right">{Math.round(value * 100)}%</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 items-end">
+            <div>
+              <label className="block text-xs text-neutral-400 mb-1">Easing</label>
+              <select
+                className="w-full bg-[#191919] text-neutral-200 rounded px-2 py-1.5 text-sm border border-neutral-700"
+                value={easing}
+                onChange={(e) => setEasing(e.target.value)}
+              >
+                {Object.values(EasingType).map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+                {!easingIsKeyword && <option value={easing}>{easing}</option>}
+              </select>
+            </div>
+            <label className="flex items-center text-xs text-neutral-300 pb-2">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={autoRotate}
+                onChange={(e) => setAutoRotate(e.target.checked)}
+              />
+              Rotate along the path
+            </label>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-1">
+            <button
+              className="px-4 py-2 rounded text-neutral-300 hover:bg-neutral-800"
+              onClick={onClose}
+            >
+              Cancel
+            </button>
+            <button
+              className="px-4 py-2 rounded bg-[#4A7CFF] hover:bg-[#3A6CEE] text-white disabled:opacity-50"
+              onClick={handleSave}
+              disabled={!geometry}
+            >
+              Apply Path
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MotionPathDialog;
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { CheckCircle, XCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { AdPlatform } from '../utils/exportUtils';
+import { BundleCheck, getAdPlatformSpec } from '../utils/adPlatformSpecs';
+
+interface PlatformSpecPanelProps {
+  platform: AdPlatform;
+  checks: BundleCheck[]; // Lint of the project against the platform's spec
+}
+
+// One row of the spec table
+const SpecRow = ({ label, value }: { label: string; value: string }) => (
+  <div className="flex text-xs py-0.5">
+    <span className="text-neutral-500 w-28 flex-shrink-0">{label}</span>
+    <span className="text-neutral-300 break-words min-w-0">{value}</span>
+  </div>
+);
+
+const PlatformSpecPanel = ({ platform, checks }: PlatformSpecPanelProps) => {
+  const [showSpec, setShowSpec] = useState(false);
+  const spec = getAdPlatformSpec(platform);
+  const failed = checks.filter(check => !check.passed);
+
+  return (
+    <div className="mt-2 rounded border border-neutral-800 bg-[#1a1a1a]">
+      <button
+        className="w-full flex items-center justify-between px-3 py-2 text-xs"
+        onClick={() => setShowSpec(!showSpec)}
+      >
+        <span className="flex items-center text-neutral-300">
+          {failed.length === 0
+            ? <CheckCircle size={12} className="mr-2 text-green-500" />
+            : <XCircle size={12} className="mr-2 text-red-500" />}
+          {failed.length === 0
+            ? `Project meets the ${spec.name} spec`
+            : `${failed.length} ${failed.length === 1 ? 'issue' : 'issues'} with the ${spec.name} spec`}
+        </span>
+        {showSpec ? <ChevronUp size={14} className="text-neutral-500" /> : <ChevronDown size={14} className="text-neutral-500" />}
+      </button>
+
+      {/* Failed checks stay visible while the spec is collapsed */}
+      {(showSpec ? checks : failed).length > 0 && (
+        <ul className="px-3 pb-2">
+          {(showSpec ? checks : failed).map(check => (
+            <li key={check.id} className="flex items-start text-xs py-0.5">
+              {check.passed
+                ? <CheckCircle size={12} className="mr-2 mt-0.5 flex-shrink-0 text-green-500" />
+                : <XCircle size={12} className="mr-2 mt-0.5 flex-shrink-0 text-red-500" />}
+              <span className="text-neutral-300 w-24 flex-shrink-0">{check.label}</span>
+              <span className={check.passed ? 'text-neutral-500' : 'text-red-400'}>{check.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showSpec && (
+        <div className="px-3 py-2 border-t border-neutral-800">
+          <SpecRow label="Ad sizes" value={spec.sizes ? spec.sizes.join(', ') : 'Any fixed size'} />
+          <SpecRow label="Initial load" value={`${spec.maxInitialLoadKb} KB`} />
+          <SpecRow label="Files" value={`Up to ${spec.maxFileCount}; ${spec.allowedFileTypes.join(', ')}`} />
+          <SpecRow label="Required files" value={spec.requiredFiles.join(', ')} />
+          <SpecRow label="Backup image" value={`${spec.maxBackupImageKb} KB`} />
+          <SpecRow label="clickTag" value={spec.clickTagVariable || 'Clicks go through the platform API'} />
+          <SpecRow label="External hosts" value={spec.allowedHosts ? spec.allowedHosts.join(', ') : 'Any https host'} />
+          <SpecRow
+            label="Animation"
+            value={`${spec.maxAnimationSeconds}s${spec.maxLoops === null ? '' : `, ${spec.maxLoops} plays`}`}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlatformSpecPanel;
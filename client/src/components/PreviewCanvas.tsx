@@ -1,14 +1,19 @@
 import { useRef, useEffect, useState } from 'react';
 import { mockFrames, mockLayers, mockGifFrames } from '../mock/animationData';
 import { 
-  AnimationType, 
-  EasingType, 
-  AnimationMode, 
   TimelineMode, 
   Animation, 
   AnimationLayer, 
   AnimationFrame 
 } from '../types/animation';
+import { getAnimationMotion, sampleLayerState } from '../utils/animationSampler';
+import { getCssMotionStyle } from '../utils/cssKeyframes';
+import { getLayerConstraints, resolveConstrainedBox } from '../utils/responsiveLayout';
+import { getTextPartLayers, splitLayerText, TextSplitUnit } from '../utils/textSplit';
+import SplitText from './SplitText';
+
+// Smallest size the banner can be resized to in the preview
+const MIN_PREVIEW_SIZE = 50;
 
 interface PreviewCanvasProps {
   selectedFrameId?: string;
@@ -28,6 +33,7 @@ const PreviewCanvas = ({
   const subtitleRef = useRef<HTMLParagraphElement>(null);
   const buttonRef = useRef<HTMLButtonElement>(null);
   const logoRef = useRef<HTMLDivElement>(null);
+  const layersRef = useRef<HTMLDivElement>(null);
   
   // State to track container dimensions
   const [containerDimensions, setContainerDimensions] = useState({
@@ -42,6 +48,11 @@ const PreviewCanvas = ({
   });
   const [isResizing, setIsResizing] = useState(false);
   
+  // Size the banner is previewed at to test responsive layouts; null shows
+  // the design size
+  const [bannerSize, setBannerSize] = useState<{ width: number; height: number } | null>(null);
+  const bannerResizeStart = useRef<{ x: number; y: number; width: number; height: number; scale: number } | null>(null);
+  
   // Find the selected frame or default to the first one
   // If it's a GIF frame ID, we need to extract the parent ad size and use that
   const isGifFrame = selectedFrameId && selectedFrameId.startsWith('gif-frame-');
@@ -71,38 +82,9 @@ const PreviewCanvas = ({
   // Set up canvas dimensions based on selected frame
   const frameWidth = selectedFrame?.width || 300;
   const frameHeight = selectedFrame?.height || 250;
+  const bannerWidth = bannerSize?.width ?? frameWidth;
+  const bannerHeight = bannerSize?.height ?? frameHeight;
   
-  // Apply easing function to progress
-  const applyEasing = (progress: number, easingType: EasingType): number => {
-    switch (easingType) {
-      case EasingType.Linear:
-        return progress;
-      case EasingType.EaseIn:
-        return progress * progress;
-      case EasingType.EaseOut:
-        return progress * (2 - progress);
-      case EasingType.EaseInOut:
-        return progress < 0.5 
-          ? 2 * progress * progress 
-          : -1 + (4 - 2 * progress) * progress;
-      case EasingType.Bounce:
-        if (progress < 1/2.75) {
-          return 7.5625 * progress * progress;
-        } else if (progress < 2/2.75) {
-          const adjusted = progress - 1.5/2.75;
-          return 7.5625 * adjusted * adjusted + 0.75;
-        } else if (progress < 2.5/2.75) {
-          const adjusted = progress - 2.25/2.75;
-          return 7.5625 * adjusted * adjusted + 0.9375;
-        } else {
-          const adjusted = progress - 2.625/2.75;
-          return 7.5625 * adjusted * adjusted + 0.984375;
-        }
-      default:
-        return progress;
-    }
-  };
-
   // Get the animation data for the current frame
   // For GIF frames, we need to use the parent ad size's layers
   const frameLayers = mockLayers[effectiveFrameId] || [];
@@ -152,284 +134,110 @@ const PreviewCanvas = ({
   const buttonLayer = findLayerByName(frameLayers, ['CTA Button', 'Button'], hiddenLayerIds);
   const logoLayer = findLayerByName(frameLayers, ['Logo'], hiddenLayerIds);
   
-  // Store references to all the layers we found
+  // Text of the previewed elements
+  const headlineText = selectedFrame.headlineText || "Amazing Offer";
+  const subtitleText = selectedFrame.description || "Limited time only!";
+  const buttonText = selectedFrame.buttonText || "Shop Now";
+  const logoText = selectedFrame.logoText || "LOGO";
   
-  // Helper function to find and apply animations for a layer
-  const processAnimations = (
-    element: HTMLElement | null,
-    layer: typeof headlineLayer,
-    defaultOpacity = '0',
-    defaultTransform = ''
-  ) => {
+  // Show a layer as the animation sampler places it at the current time,
+  // the same motion the exporters compile. A keyed color recolors the text;
+  // without one the element keeps the color of its class. Text animations
+  // place each part of the text the same way; lines rise by the line height.
+  const processAnimations = (element: HTMLElement | null, layer: AnimationLayer | null, text: string) => {
     if (!element || !layer) return;
+    const state = sampleLayerState(layer, currentTime);
+    Object.assign(element.style, getCssMotionStyle(state));
+    element.style.color = state.color || '';
     
-    // Find the active animation if any
-    let activeAnimation = null;
-    let finalAnimation = null;
-    let animationApplied = false;
-    
-    // Sort animations by start time to ensure they're processed in order
-    const sortedAnimations = layer.animations ? [...layer.animations].sort((a, b) => {
-      const startA = a.startTime || 0;
-      const startB = b.startTime || 0;
-      return startA - startB;
-    }) : [];
+    const split = splitLayerText(layer, text);
+    if (!split) return;
+    const style = getComputedStyle(element);
+    const partLayers = getTextPartLayers(layer, split, parseFloat(style.lineHeight) || parseFloat(style.fontSize) * 1.2);
+    element.querySelectorAll<HTMLElement>('[data-split-unit]').forEach(part => {
+      const partLayer = partLayers[part.dataset.splitUnit as TextSplitUnit]?.[Number(part.dataset.splitIndex)];
+      if (partLayer) Object.assign(part.style, getCssMotionStyle(sampleLayerState(partLayer, currentTime)));
+    });
+  };
+  
+  // Place a layer by its constraints at the previewed banner size. Layers
+  // without a position and size keep their default placement.
+  const getPlacement = (layer: AnimationLayer | null, defaultClassName: string): { className: string; style?: React.CSSProperties } => {
+    if (!layer?.position || !layer.dimensions) return { className: defaultClassName };
+    const box = resolveConstrainedBox(
+      { ...layer.position, ...layer.dimensions },
+      { width: frameWidth, height: frameHeight },
+      { width: bannerWidth, height: bannerHeight },
+      getLayerConstraints(layer.constraints, undefined, Boolean(layer.children?.length))
+    );
+    return {
+      className: 'absolute flex items-center justify-center',
+      style: { left: box.x, top: box.y, width: box.width, height: box.height }
+    };
+  };
+  
+  const headlinePlacement = getPlacement(headlineLayer, 'absolute top-10 left-0 right-0 text-center');
+  const subtitlePlacement = getPlacement(subtitleLayer, 'absolute top-20 left-0 right-0 text-center');
+  const buttonPlacement = getPlacement(buttonLayer, 'absolute bottom-12 left-0 right-0 flex justify-center');
+  const logoPlacement = getPlacement(logoLayer, 'absolute bottom-2 left-0 right-0 flex justify-center');
+  
+  // Guides of the motion paths the previewed layers follow, drawn from where
+  // each layer's transform origin rests. Element offsets leave out the
+  // motion, so the guides stay put while the layers travel.
+  const getMotionPathGuides = (): { key: string; data: string; x: number; y: number }[] => {
+    if (timelineMode !== 'animation') return [];
+    const previewed: [HTMLElement | null, AnimationLayer | null][] = [
+      [headlineRef.current, headlineLayer],
+      [subtitleRef.current, subtitleLayer],
+      [buttonRef.current, buttonLayer],
+      [logoRef.current, logoLayer]
+    ];
     
-    // Reset styles to default initially
-      element.style.opacity = defaultOpacity;
-      if (defaultTransform) element.style.transform = defaultTransform;
-      
-      // Find the active animation
-      for (const animation of sortedAnimations) {
-        const startTime = animation.startTime || 0;
-        const endTime = startTime + animation.duration;
+    return previewed.flatMap(([element, layer]) => {
+      if (!element || !layer) return [];
+      return (layer.animations || []).flatMap(animation => {
+        const motion = getAnimationMotion(animation);
+        if (!motion?.path) return [];
         
-        // Active animation takes precedence
-        if (currentTime >= startTime && currentTime <= endTime) {
-          activeAnimation = animation;
-          break;
-        }
-        // Keep track of the latest animation we've passed
-        else if (currentTime > endTime) {
-          finalAnimation = animation;
+        let x = element.offsetWidth * motion.origin[0];
+        let y = element.offsetHeight * motion.origin[1];
+        for (let node: HTMLElement | null = element; node && node !== layersRef.current; node = node.offsetParent as HTMLElement | null) {
+          x += node.offsetLeft;
+          y += node.offsetTop;
         }
-      }
+        return [{ key: `${layer.id}-${animation.id}`, data: motion.path.data, x, y }];
+      });
+    });
+  };
+  
+  // Handle dragging the banner's corner to preview it at another size
+  const handleBannerResizeStart = (e: React.MouseEvent) => {
+    e.preventDefault();
+    bannerResizeStart.current = { x: e.clientX, y: e.clientY, width: bannerWidth, height: bannerHeight, scale: scaleFactor };
     
-    // Apply active animation if found
-    if (activeAnimation) {
-      const startTime = activeAnimation.startTime || 0;
-      
-      // Get the animation duration and ensure it's properly respected
-      const animationDuration = Math.max(0.1, activeAnimation.duration || 1);
-      
-      // Calculate progress based on current time relative to animation duration
-      // Clamped between 0 and 1 to prevent values outside the valid range
-      const rawProgress = Math.min(1, Math.max(0, (currentTime - startTime) / animationDuration));
-      
-      // Apply easing to get the final progress value
-      const easedProgress = applyEasing(rawProgress, activeAnimation.easing);
-      
-      // Check if this is an exit animation
-      const isExit = activeAnimation.mode === AnimationMode.Exit;
-      
-      // For exit animations, we invert the progress (1 - easedProgress)
-      // This way elements fade/scale/slide out instead of in
-      const animationProgress = isExit ? (1 - easedProgress) : easedProgress;
-      
-      // Apply different animation types
-      if (activeAnimation.type === AnimationType.Fade) {
-        // For entrance animations, we want 0->1 opacity
-        // For exit animations, we want 1->0 opacity (handled by animationProgress)
-        if (isExit) {
-          element.style.opacity = `${animationProgress}`;
-        } else {
-          // For entrance, start at 0 and fade in
-          element.style.opacity = `${easedProgress}`;
-        }
-        animationApplied = true;
-      } else if (activeAnimation.type === AnimationType.Scale) {
-        // For entrance: 0.8 to 1.2, for exit: 1.2 to 0.8
-        const scale = isExit 
-          ? (1.2 - (easedProgress * 0.4)) 
-          : (0.8 + (easedProgress * 0.4));
-        element.style.transform = `scale(${scale})`;
-        element.style.opacity = isExit ? `${animationProgress}` : '1';
-        animationApplied = true;
-      } else if (activeAnimation.type === AnimationType.Slide) {
-        const direction = activeAnimation.direction || 'right';
-        
-        // For entrance: 20px to 0px, for exit: 0px to 20px
-        let offset = isExit 
-          ? (easedProgress * 20) 
-          : (20 - (easedProgress * 20));
-        
-        if (direction === 'right') {
-          element.style.transform = `translateX(${-offset}px)`;
-        } else if (direction === 'left') {
-          element.style.transform = `translateX(${offset}px)`;
-        } else if (direction === 'top') {
-          element.style.transform = `translateY(${offset}px)`;
-        } else if (direction === 'bottom') {
-          element.style.transform = `translateY(${-offset}px)`;
-        }
-        
-        element.style.opacity = isExit ? `${animationProgress}` : '1';
-        animationApplied = true;
-      } else if (activeAnimation.type === AnimationType.Rotate) {
-        // For entrance: 0 to rotation, for exit: rotation to 0
-        const rotationAmount = activeAnimation.rotation || 360;
-        const rotation = isExit 
-          ? ((1 - easedProgress) * rotationAmount) 
-          : (easedProgress * rotationAmount);
-        element.style.transform = `rotate(${rotation}deg)`;
-        element.style.opacity = isExit ? `${animationProgress}` : '1';
-        animationApplied = true;
-      } else if (activeAnimation.type === AnimationType.Bounce) {
-        // Simple bounce effect 
-        const bounceScale = isExit
-          ? (1 - (easedProgress * 0.2) + (Math.sin(easedProgress * Math.PI * 2) * 0.1))
-          : (1 + (Math.sin(easedProgress * Math.PI * 2) * 0.1));
-        element.style.transform = `scale(${bounceScale})`;
-        element.style.opacity = isExit ? `${animationProgress}` : '1';
-        animationApplied = true;
-      } else if (activeAnimation.type === AnimationType.Pulse) {
-        // Simple pulse effect - opacity pulsing
-        const basePulse = isExit ? animationProgress : 0.7;
-        const pulseAmount = isExit ? 0.2 : 0.3;
-        const pulseOpacity = basePulse + (Math.sin(easedProgress * Math.PI * 2) * pulseAmount);
-        element.style.opacity = `${pulseOpacity}`;
-        animationApplied = true;
-      } else if (activeAnimation.type === AnimationType.CircleIn || 
-                activeAnimation.type === AnimationType.CircleInTop || 
-                activeAnimation.type === AnimationType.CircleInBottom || 
-                activeAnimation.type === AnimationType.CircleInLeft || 
-                activeAnimation.type === AnimationType.CircleInRight) {
-        // Circle reveal animations using clip-path
-        let origin = 'center';
-        
-        if (activeAnimation.type === AnimationType.CircleInTop) {
-          origin = 'top center';
-        } else if (activeAnimation.type === AnimationType.CircleInBottom) {
-          origin = 'bottom center';
-        } else if (activeAnimation.type === AnimationType.CircleInLeft) {
-          origin = 'left center';
-        } else if (activeAnimation.type === AnimationType.CircleInRight) {
-          origin = 'right center';
-        }
-        
-        const circleSize = isExit 
-          ? (150 - easedProgress * 150) 
-          : (easedProgress * 150);
-        
-        element.style.clipPath = `circle(${circleSize}% at ${origin})`;
-        element.style.opacity = isExit ? `${animationProgress}` : '1';
-        animationApplied = true;
-      } else if (activeAnimation.type === AnimationType.CircleOut) {
-        // Circle out animation
-        const circleSize = isExit 
-          ? (easedProgress * 150)
-          : (150 - easedProgress * 150);
-        
-        element.style.clipPath = `circle(${circleSize}% at center)`;
-        element.style.opacity = isExit ? `${animationProgress}` : '1';
-        animationApplied = true;
-      } else if (activeAnimation.type === AnimationType.PuffInCenter || 
-                activeAnimation.type === AnimationType.PuffOutCenter) {
-        // Puff effect using scale and blur
-        const isPuffOut = activeAnimation.type === AnimationType.PuffOutCenter;
-        const scale = isPuffOut
-          ? 1 + easedProgress
-          : 2 - easedProgress;
-        
-        const blur = isPuffOut
-          ? easedProgress * 2
-          : (1 - easedProgress) * 2;
-          
-        element.style.transform = `scale(${scale})`;
-        element.style.filter = `blur(${blur}px)`;
-        element.style.opacity = isExit || isPuffOut ? `${1 - easedProgress}` : `${easedProgress}`;
-        animationApplied = true;
-      } else if (activeAnimation.type === AnimationType.RotateScale) {
-        // Combined rotation and scale effect
-        const rotation = isExit
-          ? (easedProgress * -180)
-          : ((1 - easedProgress) * -180);
-          
-        const scale = isExit
-          ? (1 - easedProgress)
-          : easedProgress;
-          
-        element.style.transform = `rotate(${rotation}deg) scale(${scale})`;
-        element.style.opacity = isExit ? `${animationProgress}` : `${easedProgress}`;
-        animationApplied = true;
-      } else if (activeAnimation.type === AnimationType.SlideLeft) {
-        // Slide from left
-        const offset = isExit
-          ? (easedProgress * -100) + '%'
-          : ((1 - easedProgress) * -100) + '%';
-          
-        element.style.transform = `translateX(${offset})`;
-        element.style.opacity = isExit ? `${animationProgress}` : '1';
-        animationApplied = true;
-      } else if (activeAnimation.type === AnimationType.SlideRight) {
-        // Slide from right
-        const offset = isExit
-          ? (easedProgress * 100) + '%'
-          : ((1 - easedProgress) * 100) + '%';
-          
-        element.style.transform = `translateX(${offset})`;
-        element.style.opacity = isExit ? `${animationProgress}` : '1';
-        animationApplied = true;
-      } else if (activeAnimation.type === AnimationType.Flicker3) {
-        // Flicker 3 times effect
-        const flickerStage = Math.floor(easedProgress * 6);
-        const isVisible = flickerStage % 2 === 0;
-        element.style.opacity = isVisible ? '1' : '0';
-        animationApplied = true;
-      }
-    } 
-    // If no active animation but we've passed one, show the final state
-    else if (finalAnimation) {
-      // Check if the final animation is an exit animation
-      const isExit = finalAnimation.mode === AnimationMode.Exit;
-      
-      // If it's an exit animation that has completed, hide the element
-      if (isExit) {
-        element.style.opacity = '0';
-      } else {
-        // For entrance animations that have completed, show the element
-        if (finalAnimation.type === AnimationType.Fade) {
-          element.style.opacity = '1';
-        } else if (finalAnimation.type === AnimationType.Scale) {
-          element.style.transform = 'scale(1.2)';
-          element.style.opacity = '1';
-        } else if (finalAnimation.type === AnimationType.Slide) {
-          element.style.transform = 'translateY(0)';
-          element.style.opacity = '1';
-        } else if (finalAnimation.type === AnimationType.Rotate) {
-          element.style.transform = `rotate(${finalAnimation.rotation || 360}deg)`;
-          element.style.opacity = '1';
-        } else if (finalAnimation.type === AnimationType.Bounce || 
-                  finalAnimation.type === AnimationType.Pulse) {
-          element.style.transform = 'scale(1)';
-          element.style.opacity = '1';
-        } else if (finalAnimation.type === AnimationType.CircleIn || 
-                  finalAnimation.type === AnimationType.CircleInTop || 
-                  finalAnimation.type === AnimationType.CircleInBottom || 
-                  finalAnimation.type === AnimationType.CircleInLeft || 
-                  finalAnimation.type === AnimationType.CircleInRight) {
-          element.style.clipPath = 'circle(150% at center)';
-          element.style.opacity = '1';
-        } else if (finalAnimation.type === AnimationType.CircleOut) {
-          element.style.clipPath = 'circle(0% at center)';
-          element.style.opacity = '0';
-        } else if (finalAnimation.type === AnimationType.PuffInCenter) {
-          element.style.transform = 'scale(1)';
-          element.style.filter = 'blur(0)';
-          element.style.opacity = '1';
-        } else if (finalAnimation.type === AnimationType.PuffOutCenter) {
-          element.style.transform = 'scale(2)';
-          element.style.filter = 'blur(2px)';
-          element.style.opacity = '0';
-        } else if (finalAnimation.type === AnimationType.RotateScale) {
-          element.style.transform = 'rotate(0) scale(1)';
-          element.style.opacity = '1';
-        } else if (finalAnimation.type === AnimationType.SlideLeft || 
-                  finalAnimation.type === AnimationType.SlideRight) {
-          element.style.transform = 'translateX(0)';
-          element.style.opacity = '1';
-        } else if (finalAnimation.type === AnimationType.Flicker3) {
-          element.style.opacity = '1';
-        }
-      }
-      animationApplied = true;
-    }
+    const handleBannerResize = (event: MouseEvent) => {
+      const start = bannerResizeStart.current;
+      if (!start) return;
+      setBannerSize({
+        width: Math.max(MIN_PREVIEW_SIZE, Math.round(start.width + (event.clientX - start.x) / start.scale)),
+        height: Math.max(MIN_PREVIEW_SIZE, Math.round(start.height + (event.clientY - start.y) / start.scale))
+      });
+    };
+    const handleBannerResizeEnd = () => {
+      bannerResizeStart.current = null;
+      document.removeEventListener('mousemove', handleBannerResize);
+      document.removeEventListener('mouseup', handleBannerResizeEnd);
+    };
     
-    // If no animation applied, keep element in default state
-    if (!animationApplied) {
-      element.style.opacity = defaultOpacity;
-      if (defaultTransform) element.style.transform = defaultTransform;
-    }
+    document.addEventListener('mousemove', handleBannerResize);
+    document.addEventListener('mouseup', handleBannerResizeEnd);
+  };
+  
+  // Set one side of the previewed banner size from its input
+  const handleBannerSizeInput = (side: 'width' | 'height', value: string) => {
+    const size = parseInt(value, 10);
+    if (!Number.isFinite(size)) return;
+    setBannerSize({ width: bannerWidth, height: bannerHeight, [side]: Math.max(MIN_PREVIEW_SIZE, size) });
   };
   
   // Handle mouse events for resizing
@@ -463,6 +271,11 @@ const PreviewCanvas = ({
     }
   };
 
+  // Show each frame at its design size first
+  useEffect(() => {
+    setBannerSize(null);
+  }, [effectiveFrameId]);
+  
   // Effect to handle resize events
   useEffect(() => {
     const updateContainerSize = () => {
@@ -502,19 +315,10 @@ const PreviewCanvas = ({
     let animationFrameId: number;
     
     const updateAnimations = () => {
-      // Determine if we have any animations at all for each element
-      const hasHeadlineAnimations = headlineLayer && headlineLayer.animations && headlineLayer.animations.length > 0;
-      const hasSubtitleAnimations = subtitleLayer && subtitleLayer.animations && subtitleLayer.animations.length > 0;
-      const hasButtonAnimations = buttonLayer && buttonLayer.animations && buttonLayer.animations.length > 0;
-      const hasLogoAnimations = logoLayer && logoLayer.animations && logoLayer.animations.length > 0;
-      
-      // Process animations for each element
-      // Only use '0' opacity for elements that have animations
-      // For elements with no animations, use '1' to show them by default
-      processAnimations(headlineRef.current, headlineLayer, hasHeadlineAnimations ? '0' : '1', 'translateY(0)');
-      processAnimations(subtitleRef.current, subtitleLayer, hasSubtitleAnimations ? '0' : '1', 'translateY(0)');
-      processAnimations(buttonRef.current, buttonLayer, hasButtonAnimations ? '0' : '1', 'scale(1)');
-      processAnimations(logoRef.current, logoLayer, hasLogoAnimations ? '0' : '1', 'rotate(0deg)');
+      processAnimations(headlineRef.current, headlineLayer, headlineText);
+      processAnimations(subtitleRef.current, subtitleLayer, subtitleText);
+      processAnimations(buttonRef.current, buttonLayer, buttonText);
+      processAnimations(logoRef.current, logoLayer, logoText);
     };
     
     // Schedule animation updates using requestAnimationFrame for better performance
@@ -526,7 +330,7 @@ const PreviewCanvas = ({
         cancelAnimationFrame(animationFrameId);
       }
     };
-  }, [currentTime, headlineLayer, subtitleLayer, buttonLayer, logoLayer, timelineMode]);
+  }, [currentTime, headlineLayer, subtitleLayer, buttonLayer, logoLayer, headlineText, subtitleText, buttonText, logoText, timelineMode]);
   
   // Handle GIF frame mode visibility settings
   useEffect(() => {
@@ -642,8 +446,8 @@ const PreviewCanvas = ({
     const containerHeight = containerDimensions.height;
     
     // Calculate scaling factors for both dimensions
-    const widthScale = containerWidth / frameWidth;
-    const heightScale = containerHeight / frameHeight;
+    const widthScale = containerWidth / bannerWidth;
+    const heightScale = containerHeight / bannerHeight;
     
     // Use the smaller scaling factor to ensure the frame fits within the preview area
     // Apply a small buffer (0.95) to ensure there's some margin
@@ -694,8 +498,8 @@ const PreviewCanvas = ({
         
         {/* Canvas preview area with scaling - using fixed height/width to prevent layout thrashing */}
         <div className="relative" style={{ 
-          width: `${frameWidth * scaleFactor}px`, 
-          height: `${frameHeight * scaleFactor}px`,
+          width: `${bannerWidth * scaleFactor}px`, 
+          height: `${bannerHeight * scaleFactor}px`,
           transform: 'translateZ(0)', /* Force GPU acceleration */
           willChange: 'transform', /* Hint to browser that this element will animate */
           perspective: '1000px', /* Creates a 3D rendering context */
@@ -705,90 +509,140 @@ const PreviewCanvas = ({
             ref={canvasRef}
             className="bg-white rounded shadow-lg overflow-hidden"
             style={{
-              width: `${frameWidth}px`,
-              height: `${frameHeight}px`,
+              width: `${bannerWidth}px`,
+              height: `${bannerHeight}px`,
               transform: `scale(${scaleFactor})`,
               transformOrigin: 'top left',
               willChange: 'transform, opacity' /* Optimize animations */
             }}
           >
             {/* Dynamic content based on visible layers */}
-            <div className="relative w-full h-full">
+            <div ref={layersRef} className="relative w-full h-full">
               {/* Background - only show if visible */}
               {backgroundLayer && backgroundLayer.visible && (
                 <div className="absolute inset-0 bg-gradient-to-br from-blue-500 to-indigo-700"></div>
               )}
               
               {/* Headline text - only show if visible */}
-              <div className="absolute top-10 left-0 right-0 text-center">
+              <div className={headlinePlacement.className} style={headlinePlacement.style}>
                 {headlineLayer && headlineLayer.visible && (
                   <h2 
                     ref={headlineRef} 
-                    className="text-white text-2xl font-bold mb-2 transition-all duration-300"
+                    className="text-white text-2xl font-bold mb-2"
                     style={{
                       willChange: 'transform, opacity',
                       transform: 'translateZ(0)',
                       backfaceVisibility: 'hidden'
                     }}
                   >
-                    {selectedFrame.headlineText || "Amazing Offer"}
+                    <SplitText text={headlineText} layer={headlineLayer} />
                   </h2>
                 )}
-                
+              </div>
+              
+              {/* Subtitle text - only show if visible */}
+              <div className={subtitlePlacement.className} style={subtitlePlacement.style}>
                 {subtitleLayer && subtitleLayer.visible && (
                   <p 
                     ref={subtitleRef} 
-                    className="text-white text-sm transition-all duration-300"
+                    className="text-white text-sm"
                     style={{
                       willChange: 'transform, opacity',
                       transform: 'translateZ(0)',
                       backfaceVisibility: 'hidden'
                     }}
                   >
-                    {selectedFrame.description || "Limited time only!"}
+                    <SplitText text={subtitleText} layer={subtitleLayer} />
                   </p>
                 )}
               </div>
               
               {/* CTA Button - only show if visible */}
-              <div className="absolute bottom-12 left-0 right-0 flex justify-center">
+              <div className={buttonPlacement.className} style={buttonPlacement.style}>
                 {buttonLayer && buttonLayer.visible && (
                   <button 
                     ref={buttonRef}
-                    className="bg-yellow-500 hover:bg-yellow-600 text-black px-4 py-2 rounded font-medium transition-all duration-300"
+                    className="bg-yellow-500 hover:bg-yellow-600 text-black px-4 py-2 rounded font-medium"
                     style={{
                       willChange: 'transform, opacity',
                       transform: 'translateZ(0)',
                       backfaceVisibility: 'hidden'
                     }}
                   >
-                    {selectedFrame.buttonText || "Shop Now"}
+                    <SplitText text={buttonText} layer={buttonLayer} />
                   </button>
                 )}
               </div>
               
               {/* Logo - only show if visible */}
-              <div className="absolute bottom-2 left-0 right-0 flex justify-center">
+              <div className={logoPlacement.className} style={logoPlacement.style}>
                 {logoLayer && logoLayer.visible && (
                   <div 
                     ref={logoRef} 
-                    className="text-white text-xs bg-white text-black px-2 py-1 rounded-full transition-all duration-300"
+                    className="text-white text-xs bg-white text-black px-2 py-1 rounded-full"
                     style={{
                       willChange: 'transform, opacity',
                       transform: 'translateZ(0)',
                       backfaceVisibility: 'hidden'
                     }}
                   >
-                    {selectedFrame.logoText || "LOGO"}
+                    <SplitText text={logoText} layer={logoLayer} />
                   </div>
                 )}
               </div>
+              
+              {/* Motion path guides */}
+              <svg className="absolute inset-0 w-full h-full pointer-events-none overflow-visible">
+                {getMotionPathGuides().map(guide => (
+                  <path
+                    key={guide.key}
+                    d={guide.data}
+                    transform={`translate(${guide.x} ${guide.y})`}
+                    fill="none"
+                    stroke="#ffffff"
+                    strokeOpacity={0.6}
+                    strokeDasharray="4 4"
+                  />
+                ))}
+              </svg>
             </div>
           </div>
+          
+          {/* Drag the corner to preview the banner at another size */}
+          <div
+            className="absolute -right-2 -bottom-2 w-4 h-4 cursor-nwse-resize border-r-2 border-b-2 border-neutral-500 hover:border-blue-400"
+            onMouseDown={handleBannerResizeStart}
+            title="Drag to resize the banner"
+          />
         </div>
         
-        <div className="mt-4 text-xs text-neutral-400 relative">
-          {selectedFrame.width} × {selectedFrame.height}
+        <div className="mt-4 text-xs text-neutral-400 relative flex items-center gap-1">
+          <input
+            type="number"
+            min={MIN_PREVIEW_SIZE}
+            value={bannerWidth}
+            onChange={(e) => handleBannerSizeInput('width', e.target.value)}
+            className="w-14 bg-transparent text-neutral-300 text-right border border-transparent hover:border-neutral-700 rounded px-1"
+            title="Preview width"
+          />
+          ×
+          <input
+            type="number"
+            min={MIN_PREVIEW_SIZE}
+            value={bannerHeight}
+            onChange={(e) => handleBannerSizeInput('height', e.target.value)}
+            className="w-14 bg-transparent text-neutral-300 border border-transparent hover:border-neutral-700 rounded px-1"
+            title="Preview height"
+          />
+          {bannerSize && (
+            <button
+              className="ml-1 text-blue-400 hover:text-blue-300"
+              onClick={() => setBannerSize(null)}
+              title={`Back to the design size, ${frameWidth} × ${frameHeight}`}
+            >
+              Reset
+            </button>
+          )}
           
           {/* Visual indicator when resizing from Timeline handle */}
           {isResizing && (
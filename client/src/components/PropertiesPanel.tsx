@@ -1,6 +1,25 @@
 import { useState } from 'react';
-import { ChevronLeftSquare, ChevronRightSquare, Clock, Zap, Palette, LogIn, LogOut } from 'lucide-react';
-import { AnimationType, EasingType, AnimationMode } from '../types/animation';
+import { ChevronLeftSquare, ChevronRightSquare, Clock, Zap, Palette, LogIn, LogOut, MousePointerClick } from 'lucide-react';
+import { AnimationType, EasingType, AnimationMode, ClickZone } from '../types/animation';
+import { useAnimationContext } from '../context/AnimationContext';
+import BezierEditor, { EasingCurvePreview } from './BezierEditor';
+import {
+  DEFAULT_SPRING,
+  EasingFunction,
+  formatEasingFunction,
+  getCubicBezierPoints,
+  parseEasingFunction,
+  StepPosition
+} from '../utils/easing';
+
+// Easing functions offered next to the keywords
+const EASING_FUNCTION_NAMES: Record<EasingFunction['type'], string> = {
+  'cubic-bezier': 'Custom curve',
+  'spring': 'Spring',
+  'steps': 'Steps'
+};
+
+const STEP_POSITIONS: StepPosition[] = ['jump-end', 'jump-start', 'jump-both', 'jump-none'];
 
 interface PropertiesPanelProps {
   isInSidebar?: boolean;
@@ -8,6 +27,8 @@ interface PropertiesPanelProps {
 
 const PropertiesPanel = ({ isInSidebar = false }: PropertiesPanelProps) => {
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const { getSelectedLayer, updateLayer } = useAnimationContext();
+  const selectedLayer = getSelectedLayer();
   
   // Define a local interface for the animation state
   interface AnimationState {
@@ -15,7 +36,7 @@ const PropertiesPanel = ({ isInSidebar = false }: PropertiesPanelProps) => {
     mode: AnimationMode;
     startTime: number;
     duration: number;
-    easing: EasingType;
+    easing: string; // A keyword, or an easing function such as cubic-bezier()
     opacity: number;
     scale: number;
     rotation: number;
@@ -40,6 +61,49 @@ const PropertiesPanel = ({ isInSidebar = false }: PropertiesPanelProps) => {
     console.log('Properties Panel: Animation updated', newAnimation);
   };
   
+  // Change the easing, and store it on the selected layer's animations
+  const handleEasingChange = (easing: string) => {
+    handleChange('easing', easing);
+    if (selectedLayer?.animations?.length) {
+      updateLayer(selectedLayer.id, {
+        animations: selectedLayer.animations.map(layerAnimation => ({ ...layerAnimation, easing }))
+      });
+    }
+  };
+  
+  // Switch to a keyword or an easing function, starting the function from
+  // the current curve or its defaults
+  const handleEasingTypeChange = (value: string) => {
+    switch (value) {
+      case 'cubic-bezier':
+        handleEasingChange(formatEasingFunction({
+          type: 'cubic-bezier',
+          points: getCubicBezierPoints(animation.easing) || [0.25, 0.1, 0.25, 1]
+        }));
+        break;
+      case 'spring':
+        handleEasingChange(formatEasingFunction({ type: 'spring', ...DEFAULT_SPRING }));
+        break;
+      case 'steps':
+        handleEasingChange(formatEasingFunction({ type: 'steps', count: 4, position: 'jump-end' }));
+        break;
+      default:
+        handleEasingChange(value);
+    }
+  };
+  
+  // Update one parameter of the current easing function
+  const updateEasingFunction = (easingFunction: EasingFunction) => {
+    handleEasingChange(formatEasingFunction(easingFunction));
+  };
+  
+  const easingFunction = parseEasingFunction(animation.easing);
+  
+  // Mark the selected layer as a click zone, or change its exit
+  const updateClickZone = (clickZone: ClickZone | undefined) => {
+    if (selectedLayer) updateLayer(selectedLayer.id, { clickZone });
+  };
+  
   // Toggle collapsed state
   const toggleCollapsed = () => {
     setIsCollapsed(!isCollapsed);
@@ -112,13 +176,89 @@ const PropertiesPanel = ({ isInSidebar = false }: PropertiesPanelProps) => {
         <label className="block text-xs text-neutral-400 mb-1">Easing</label>
         <select
           className="w-full bg-[#191919] text-neutral-200 rounded px-2 py-1.5 text-sm border border-neutral-700"
-          value={animation.easing}
-          onChange={(e) => handleChange('easing', e.target.value as EasingType)}
+          value={easingFunction ? easingFunction.type : animation.easing}
+          onChange={(e) => handleEasingTypeChange(e.target.value)}
         >
           {Object.values(EasingType).map(easing => (
             <option key={easing} value={easing}>{easing}</option>
           ))}
+          {(Object.keys(EASING_FUNCTION_NAMES) as EasingFunction['type'][]).map(type => (
+            <option key={type} value={type}>{EASING_FUNCTION_NAMES[type]}</option>
+          ))}
         </select>
+        
+        {easingFunction?.type === 'cubic-bezier' && (
+          <div className="mt-2">
+            <BezierEditor
+              points={easingFunction.points}
+              onChange={(points) => updateEasingFunction({ type: 'cubic-bezier', points })}
+            />
+          </div>
+        )}
+        
+        {easingFunction?.type === 'spring' && (
+          <div className="mt-2">
+            <EasingCurvePreview easing={animation.easing} />
+            <div className="grid grid-cols-3 gap-1 mt-2">
+              {(['mass', 'stiffness', 'damping'] as const).map(param => (
+                <div key={param}>
+                  <label className="block text-xs text-neutral-500 mb-0.5 capitalize">{param}</label>
+                  <input
+                    type="number"
+                    className="w-full bg-[#191919] text-neutral-200 rounded px-1 py-1 text-xs border border-neutral-700"
+                    value={easingFunction[param]}
+                    min={param === 'mass' ? 0.1 : 1}
+                    step={param === 'mass' ? 0.1 : 1}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      // Springs need positive parameters to settle
+                      if (value > 0) updateEasingFunction({ ...easingFunction, [param]: value });
+                    }}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        {easingFunction?.type === 'steps' && (
+          <div className="mt-2">
+            <EasingCurvePreview easing={animation.easing} />
+            <div className="grid grid-cols-2 gap-1 mt-2">
+              <div>
+                <label className="block text-xs text-neutral-500 mb-0.5">Steps</label>
+                <input
+                  type="number"
+                  className="w-full bg-[#191919] text-neutral-200 rounded px-1 py-1 text-xs border border-neutral-700"
+                  value={easingFunction.count}
+                  min={easingFunction.position === 'jump-none' ? 2 : 1}
+                  step={1}
+                  onChange={(e) => {
+                    const count = parseInt(e.target.value);
+                    if (count >= (easingFunction.position === 'jump-none' ? 2 : 1)) {
+                      updateEasingFunction({ ...easingFunction, count });
+                    }
+                  }}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-neutral-500 mb-0.5">Jump</label>
+                <select
+                  className="w-full bg-[#191919] text-neutral-200 rounded px-1 py-1 text-xs border border-neutral-700"
+                  value={easingFunction.position}
+                  onChange={(e) => {
+                    const position = e.target.value as StepPosition;
+                    updateEasingFunction({ ...easingFunction, position, count: Math.max(easingFunction.count, position === 'jump-none' ? 2 : 1) });
+                  }}
+                >
+                  {STEP_POSITIONS.map(position => (
+                    <option key={position} value={position}>{position}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+        )}
       </div>
       
       {(animation.type === AnimationType.Fade) && (
@@ -181,6 +321,46 @@ const PropertiesPanel = ({ isInSidebar = false }: PropertiesPanelProps) => {
         </div>
       )}
       
+      {/* Click Zone Section */}
+      {selectedLayer && (
+        <div className="mb-4 pt-4 border-t border-neutral-800">
+          <label className="flex items-center text-xs text-neutral-400 mb-2">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={Boolean(selectedLayer.clickZone)}
+              onChange={(e) => updateClickZone(e.target.checked ? { name: selectedLayer.name, url: '' } : undefined)}
+            />
+            <MousePointerClick size={14} className="mr-1" />
+            Click zone with its own exit
+          </label>
+          
+          {selectedLayer.clickZone && (
+            <>
+              <label className="block text-xs text-neutral-400 mb-1">Exit name</label>
+              <input
+                type="text"
+                className="w-full bg-[#191919] text-neutral-200 rounded px-2 py-1.5 text-sm border border-neutral-700 mb-2"
+                value={selectedLayer.clickZone.name}
+                placeholder={selectedLayer.name}
+                onChange={(e) => updateClickZone({ ...selectedLayer.clickZone!, name: e.target.value })}
+              />
+              <label className="block text-xs text-neutral-400 mb-1">Landing page URL</label>
+              <input
+                type="text"
+                className="w-full bg-[#191919] text-neutral-200 rounded px-2 py-1.5 text-sm border border-neutral-700"
+                value={selectedLayer.clickZone.url}
+                placeholder="https://example.com/offer"
+                onChange={(e) => updateClickZone({ ...selectedLayer.clickZone!, url: e.target.value })}
+              />
+              {!selectedLayer.clickZone.url.trim() && (
+                <p className="text-xs text-yellow-500 mt-1">Zones without a URL use the banner link</p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+      
       {/* Developer Info Section */}
       <div className="mt-6 pt-4 border-t border-neutral-800">
         <div className="text-xs text-neutral-500">
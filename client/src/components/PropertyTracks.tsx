@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { Diamond } from 'lucide-react';
+import * as ContextMenu from '@radix-ui/react-context-menu';
+import { AnimationLayer, EasingType, KeyframeProperty } from '../types/animation';
+import {
+  getKeyframePropertyDefinition,
+  getPropertyTracks,
+  getPropertyValue,
+  KEYFRAME_PROPERTIES,
+  KeyframeValue,
+  PropertyTrack,
+  TrackKeyframe
+} from '../utils/keyframeTracks';
+
+interface PropertyTrackNamesProps {
+  layer: AnimationLayer;
+  currentTime: number;
+  onKeyValue: (property: KeyframeProperty, value: KeyframeValue) => void; // Keys the value at the playhead
+  onDeleteKeyframe: (property: KeyframeProperty, keyframeId: string) => void;
+}
+
+interface PropertyTrackLanesProps {
+  layer: AnimationLayer;
+  timeToPosition: (time: number) => number;
+  positionToTime: (position: number) => number;
+  onTimeUpdate: (time: number) => void;
+  onMoveKeyframe: (property: KeyframeProperty, keyframeId: string, time: number) => void;
+  onSetEasing: (property: KeyframeProperty, keyframeId: string, easing: string) => void;
+  onDeleteKeyframe: (property: KeyframeProperty, keyframeId: string) => void;
+}
+
+// Holds the value until the next keyframe
+const HOLD_EASING = 'steps(1, jump-end)';
+
+// Easings offered for a keyframe
+const KEYFRAME_EASINGS: { name: string; easing: string }[] = [
+  ...Object.values(EasingType).map(easing => ({ name: easing, easing })),
+  { name: 'hold', easing: HOLD_EASING }
+];
+
+const menuItemClassName = 'text-sm text-white px-3 py-2 hover:bg-blue-600 cursor-pointer focus:outline-none focus:bg-blue-600';
+const menuContentClassName = 'min-w-[180px] bg-neutral-800 border border-neutral-700 rounded-md shadow-lg overflow-hidden z-50';
+
+// Keyframes closer than this (seconds) to the playhead are at the playhead
+const PLAYHEAD_TOLERANCE = 0.001;
+
+// Keyframes move in steps of 10ms
+const roundTime = (time: number) => Math.round(time * 100) / 100;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// The keyframe of a track at the playhead, if any
+const getKeyframeAt = (track: PropertyTrack | undefined, time: number): TrackKeyframe | undefined =>
+  track?.keyframes.find(keyframe => Math.abs(keyframe.time - time) < PLAYHEAD_TOLERANCE);
+
+// Rows of the layer's property tracks in the layer names column: the value
+// at the playhead, a toggle keying it, and a picker adding another track
+export const PropertyTrackNames = ({ layer, currentTime, onKeyValue, onDeleteKeyframe }: PropertyTrackNamesProps) => {
+  const tracks = getPropertyTracks(layer);
+  const untracked = KEYFRAME_PROPERTIES.filter(({ property }) => !tracks.some(track => track.property === property));
+
+  return (
+    <>
+      {tracks.map(track => {
+        const definition = getKeyframePropertyDefinition(track.property);
+        const value = getPropertyValue(layer, track.property, currentTime);
+        const keyframe = getKeyframeAt(track, currentTime);
+
+        return (
+          <div key={track.property} className="h-8 flex items-center pl-6 pr-2 text-xs text-neutral-400">
+            <span className="w-16 truncate">{definition.label}</span>
+            {track.property === 'color' ? (
+              <input
+                type="color"
+                className="w-16 h-5 bg-transparent border border-neutral-700 rounded cursor-pointer"
+                value={String(value)}
+                onChange={(e) => onKeyValue(track.property, e.target.value)}
+              />
+            ) : (
+              <input
+                type="number"
+                className="w-16 bg-[#191919] text-neutral-200 rounded px-1 py-0.5 border border-neutral-700"
+                value={round(Number(value))}
+                step={definition.step}
+                min={definition.min}
+                max={definition.max}
+                onChange={(e) => {
+                  const parsed = parseFloat(e.target.value);
+                  if (isFinite(parsed)) onKeyValue(track.property, parsed);
+                }}
+              />
+            )}
+            {definition.unit && <span className="ml-1 w-4 text-neutral-500">{definition.unit}</span>}
+            <button
+              className={`ml-auto p-1 rounded hover:bg-neutral-700 ${keyframe ? 'text-yellow-500' : 'text-neutral-500'}`}
+              onClick={() => (keyframe ? onDeleteKeyframe(track.property, keyframe.id) : onKeyValue(track.property, value))}
+              title={keyframe ? 'Remove keyframe at playhead' : 'Add keyframe at playhead'}
+            >
+              <Diamond size={10} fill={keyframe ? 'currentColor' : 'none'} />
+            </button>
+          </div>
+        );
+      })}
+
+      {untracked.length > 0 && (
+        <div className="h-8 flex items-center pl-6 pr-2">
+          <select
+            className="w-full bg-[#191919] text-neutral-400 rounded px-1 py-0.5 text-xs border border-neutral-700"
+            value=""
+            onChange={(e) => {
+              const property = e.target.value as KeyframeProperty;
+              if (property) onKeyValue(property, getPropertyValue(layer, property, currentTime));
+            }}
+          >
+            <option value="">+ Keyframe a property</option>
+            {untracked.map(({ property, label }) => (
+              <option key={property} value={property}>{label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </>
+  );
+};
+
+// Lanes of the layer's property tracks in the timeline: a diamond per
+// keyframe that can be dragged in time, with its easing and delete in the
+// context menu. Clicking a diamond moves the playhead to it.
+export const PropertyTrackLanes = ({
+  layer,
+  timeToPosition,
+  positionToTime,
+  onTimeUpdate,
+  onMoveKeyframe,
+  onSetEasing,
+  onDeleteKeyframe
+}: PropertyTrackLanesProps) => {
+  const [selectedKeyframeId, setSelectedKeyframeId] = useState<string | null>(null);
+  const tracks = getPropertyTracks(layer);
+  const hasAddRow = tracks.length < KEYFRAME_PROPERTIES.length;
+
+  const handleKeyframeMouseDown = (e: React.MouseEvent, property: KeyframeProperty, keyframe: TrackKeyframe) => {
+    e.stopPropagation();
+    // The right button opens the context menu
+    if (e.button !== 0) return;
+    e.preventDefault();
+    setSelectedKeyframeId(keyframe.id);
+
+    const startX = e.clientX;
+    const startPosition = timeToPosition(keyframe.time);
+    let moved = false;
+
+    const handleMouseMove = (event: MouseEvent) => {
+      moved = true;
+      onMoveKeyframe(property, keyframe.id, roundTime(positionToTime(startPosition + event.clientX - startX)));
+    };
+
+    const handleMouseUp = () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+      if (!moved) onTimeUpdate(keyframe.time);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
+
+  return (
+    <>
+      {tracks.map(track => (
+        <div key={track.property} className="h-8 relative border-t border-neutral-800/60">
+          {/* Segments between keyframes; colors show their blend */}
+          {track.keyframes.slice(0, -1).map((keyframe, index) => {
+            const next = track.keyframes[index + 1];
+            const left = timeToPosition(keyframe.time);
+            const width = timeToPosition(next.time) - left;
+            return track.property === 'color' ? (
+              <div
+                key={keyframe.id}
+                className="absolute top-3 h-2 rounded-sm"
+                style={{ left, width, background: `linear-gradient(to right, ${keyframe.value}, ${next.value})` }}
+              />
+            ) : (
+              <div key={keyframe.id} className="absolute top-4 h-px bg-neutral-600" style={{ left, width }} />
+            );
+          })}
+
+          {track.keyframes.map(keyframe => (
+            <ContextMenu.Root key={keyframe.id}>
+              <ContextMenu.Trigger asChild>
+                <div
+                  className={`absolute top-2.5 -ml-1.5 w-3 h-3 rotate-45 border cursor-ew-resize ${
+                    selectedKeyframeId === keyframe.id
+                      ? 'bg-yellow-300 border-white'
+                      : 'bg-yellow-500 border-yellow-600'
+                  }`}
+                  style={{ left: `${timeToPosition(keyframe.time)}px` }}
+                  title={`${getKeyframePropertyDefinition(track.property).label} ${keyframe.value} at ${round(keyframe.time)}s · ${keyframe.easing || 'linear'}`}
+                  onMouseDown={(e) => handleKeyframeMouseDown(e, track.property, keyframe)}
+                  onClick={(e) => e.stopPropagation()}
+                />
+              </ContextMenu.Trigger>
+
+              <ContextMenu.Portal>
+                <ContextMenu.Content className={menuContentClassName}>
+                  <ContextMenu.Sub>
+                    <ContextMenu.SubTrigger className={`${menuItemClassName} flex items-center justify-between`}>
+                      <span>Easing</span>
+                      <span>▶</span>
+                    </ContextMenu.SubTrigger>
+                    <ContextMenu.Portal>
+                      <ContextMenu.SubContent className={menuContentClassName}>
+                        <ContextMenu.RadioGroup
+                          value={keyframe.easing || EasingType.Linear}
+                          onValueChange={(easing) => onSetEasing(track.property, keyframe.id, easing)}
+                        >
+                          {KEYFRAME_EASINGS.map(({ name, easing }) => (
+                            <ContextMenu.RadioItem key={easing} value={easing} className={`${menuItemClassName} flex items-center`}>
+                              <ContextMenu.ItemIndicator className="mr-2">✓</ContextMenu.ItemIndicator>
+                              {name}
+                            </ContextMenu.RadioItem>
+                          ))}
+                        </ContextMenu.RadioGroup>
+                      </ContextMenu.SubContent>
+                    </ContextMenu.Portal>
+                  </ContextMenu.Sub>
+
+                  <ContextMenu.Separator className="h-px bg-neutral-700 my-1" />
+
+                  <ContextMenu.Item
+                    className={menuItemClassName}
+                    onClick={() => onDeleteKeyframe(track.property, keyframe.id)}
+                  >
+                    Delete Keyframe
+                  </ContextMenu.Item>
+                </ContextMenu.Content>
+              </ContextMenu.Portal>
+            </ContextMenu.Root>
+          ))}
+        </div>
+      ))}
+
+      {/* Matches the add property row of the names column */}
+      {hasAddRow && <div className="h-8 border-t border-neutral-800/60" />}
+    </>
+  );
+};
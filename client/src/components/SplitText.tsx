@@ -0,0 +1,54 @@
+import { Fragment } from 'react';
+import { AnimationLayer } from '../types/animation';
+import { splitLayerText, TextSplitUnit, TextSplitWord } from '../utils/textSplit';
+
+interface SplitTextProps {
+  text: string;
+  layer: AnimationLayer | null;
+}
+
+// Attributes the preview finds the parts of a split text by
+const partProps = (unit: TextSplitUnit, index: number) => ({ 'data-split-unit': unit, 'data-split-index': index });
+
+// The text of a previewed layer with an element per part its text
+// animations play on, laid out as the HTML5 export writes it: letters keep
+// their word together and each line rises inside a mask of its own
+const SplitText = ({ text, layer }: SplitTextProps) => {
+  const split = layer ? splitLayerText(layer, text) : null;
+  if (!split) return <>{text}</>;
+
+  const has = (unit: TextSplitUnit) => split.units.includes(unit);
+
+  const renderWord = (word: TextSplitWord) => {
+    if (!has('word') && !has('char')) return word.chars.map(char => char.text).join('');
+    return (
+      <span key={`word-${word.index}`} className="inline-block whitespace-nowrap" {...(has('word') ? partProps('word', word.index) : {})}>
+        {has('char')
+          ? word.chars.map(char => (
+            <span key={char.index} className="inline-block" {...partProps('char', char.index)}>{char.text}</span>
+          ))
+          : word.chars.map(char => char.text).join('')}
+      </span>
+    );
+  };
+
+  return (
+    <>
+      {split.lines.map(line => {
+        const content = line.parts.map((part, index) => (typeof part === 'string' ? <Fragment key={`space-${index}`}>{part}</Fragment> : renderWord(part)));
+        return has('line') ? (
+          <span key={line.index} className="block overflow-hidden">
+            <span className="inline-block" {...partProps('line', line.index)}>{content}</span>
+          </span>
+        ) : (
+          <Fragment key={line.index}>
+            {line.index > 0 && <br />}
+            {content}
+          </Fragment>
+        );
+      })}
+    </>
+  );
+};
+
+export default SplitText;
@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { Type, X } from 'lucide-react';
+import { Animation, AnimationLayer, AnimationType, TextSplitOrder, TextSplitProps } from '../types/animation';
+import { DEFAULT_TEXT_DISTANCE, DEFAULT_TEXT_STAGGER, getTextSplitUnit } from '../utils/textSplit';
+
+interface TextSplitDialogProps {
+  isOpen: boolean;
+  layer: AnimationLayer | null;
+  animation: Animation | null; // The text animation being edited
+  onClose: () => void;
+  onSave: (customProps: TextSplitProps) => void;
+}
+
+const ORDER_OPTIONS: { value: TextSplitOrder; label: string }[] = [
+  { value: 'forward', label: 'First to last' },
+  { value: 'reverse', label: 'Last to first' },
+  { value: 'center', label: 'From the center out' },
+  { value: 'random', label: 'Random' }
+];
+
+const UNIT_LABELS = { char: 'letter', word: 'word', line: 'line' };
+
+// Text animations whose parts slide in
+const SLIDING_TYPES: string[] = [AnimationType.TextLetterSlide, AnimationType.TextWordStagger];
+
+const TextSplitDialog = ({ isOpen, layer, animation, onClose, onSave }: TextSplitDialogProps) => {
+  const [order, setOrder] = useState<TextSplitOrder>('forward');
+  const [stagger, setStagger] = useState(DEFAULT_TEXT_STAGGER);
+  const [distance, setDistance] = useState(DEFAULT_TEXT_DISTANCE);
+
+  useEffect(() => {
+    if (!animation) return;
+    const customProps = animation.customProps || {};
+    setOrder(ORDER_OPTIONS.some(option => option.value === customProps.order) ? customProps.order : 'forward');
+    setStagger(typeof customProps.stagger === 'number' ? customProps.stagger : DEFAULT_TEXT_STAGGER);
+    setDistance(typeof customProps.distance === 'number' ? customProps.distance : DEFAULT_TEXT_DISTANCE);
+  }, [animation, isOpen]);
+
+  if (!isOpen || !layer || !animation) return null;
+
+  const unit = getTextSplitUnit(animation) || 'char';
+  const slides = SLIDING_TYPES.includes(animation.type);
+
+  const handleSave = () => {
+    onSave({ order, stagger, ...(slides ? { distance } : {}) });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+      <div className="bg-[#111111] rounded-lg w-[360px] flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-neutral-800 flex items-center justify-between">
+          <h2 className="text-lg font-medium text-white flex items-center">
+            <Type size={18} className="mr-2 text-neutral-400" />
+            Text Animation · {layer.name}
+          </h2>
+          <button
+            className="w-8 h-8 flex items-center justify-center rounded hover:bg-neutral-800"
+            onClick={onClose}
+          >
+            <X size={18} className="text-neutral-400" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div>
+            <label className="block text-xs text-neutral-400 mb-1">Order</label>
+            <select
+              className="w-full bg-[#191919] text-neutral-200 rounded px-2 py-1.5 text-sm border border-neutral-700"
+              value={order}
+              onChange={(e) => setOrder(e.target.value as TextSplitOrder)}
+            >
+              {ORDER_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className={slides ? 'grid grid-cols-2 gap-3' : ''}>
+            <div>
+              <label className="block text-xs text-neutral-400 mb-1">Stagger (s per {UNIT_LABELS[unit]})</label>
+              <input
+                type="number"
+                className="w-full bg-[#191919] text-neutral-200 rounded px-2 py-1.5 text-sm border border-neutral-700"
+                min="0"
+                step="0.01"
+                value={stagger}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (isFinite(value)) setStagger(Math.max(0, value));
+                }}
+              />
+            </div>
+            {slides && (
+              <div>
+                <label className="block text-xs text-neutral-400 mb-1">Slide distance (px)</label>
+                <input
+                  type="number"
+                  className="w-full bg-[#191919] text-neutral-200 rounded px-2 py-1.5 text-sm border border-neutral-700"
+                  step="1"
+                  value={distance}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (isFinite(value)) setDistance(value);
+                  }}
+                />
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-neutral-500">
+            The stagger shrinks when the {UNIT_LABELS[unit]}s wouldn't fit in the animation's duration.
+            {unit === 'line' && ' Lines are the line breaks of the text.'}
+          </p>
+
+          <div className="flex justify-end space-x-3 pt-1">
+            <button
+              className="px-4 py-2 rounded text-neutral-300 hover:bg-neutral-800"
+              onClick={onClose}
+            >
+              Cancel
+            </button>
+            <button
+              className="px-4 py-2 rounded bg-[#4A7CFF] hover:bg-[#3A6CEE] text-white"
+              onClick={handleSave}
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TextSplitDialog;
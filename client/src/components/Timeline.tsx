@@ -1,9 +1,12 @@
 import React, { useState, useRef, useEffect, useReducer, useCallback } from 'react';
-import { Play, Pause, SkipBack, Clock, LogIn, LogOut, Eye, EyeOff, Layers, Zap, Plus } from 'lucide-react';
+import { Play, Pause, SkipBack, Clock, LogIn, LogOut, Eye, EyeOff, Layers, Zap, Plus, ChevronDown, ChevronRight } from 'lucide-react';
 import { mockLayers, mockFrames, mockGifFrames, generateGifFramesForAdSize } from '../mock/animationData';
 import FrameEditDialog from './FrameEditDialog';
 import FrameCardGrid from './FrameCardGrid';
 import AnimationTypeMenu from './AnimationTypeMenu';
+import { PropertyTrackLanes, PropertyTrackNames } from './PropertyTracks';
+import MotionPathDialog from './MotionPathDialog';
+import TextSplitDialog from './TextSplitDialog';
 import { 
   Animation, 
   AnimationType, 
@@ -12,13 +15,19 @@ import {
   TimelineMode,
   AnimationFrame,
   AnimationLayer,
-  GifFrame
+  GifFrame,
+  KeyframeProperty,
+  MotionPathProps,
+  TextSplitProps
 } from '../types/animation';
 import * as ContextMenu from '@radix-ui/react-context-menu';
 import * as Tabs from '@radix-ui/react-tabs';
 import { useAnimationContext } from '../context/AnimationContext';
 import { autoLinkLayers, syncLinkedLayerAnimations, unlinkLayer, linkLayer, parseGifFrameId } from '../utils/linkingUtils';
 import { toggleLayerVisibilityOverride } from '../utils/directLayerLinking-fixed';
+import { KeyframeValue } from '../utils/keyframeTracks';
+import { DEFAULT_MOTION_PATH } from '../utils/motionPath';
+import { getTextSplitUnit } from '../utils/textSplit';
 
 // Helper function to safely check timeline mode
 function isTimelineMode(mode: TimelineMode, value: 'animation' | 'gifFrames'): boolean {
@@ -106,9 +115,15 @@ const Timeline = ({
   const [, forceUpdate] = useReducer(x => x + 1, 0);
   const [localSelectedFrameId, setSelectedFrameId] = useState<string>(selectedFrameId);
   const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  // Layers whose property tracks are expanded below them
+  const [trackLayerIds, setTrackLayerIds] = useState<string[]>([]);
+  // Motion path animation open in the path editor
+  const [motionPathEdit, setMotionPathEdit] = useState<{ layerId: string; animIndex: number } | null>(null);
+  // Text animation open in its options
+  const [textSplitEdit, setTextSplitEdit] = useState<{ layerId: string; animIndex: number } | null>(null);
   
   // Access the animation context to get the toggleLayerLock function
-  const { toggleLayerLock } = useAnimationContext();
+  const { toggleLayerLock, addKeyframe, updateKeyframe, deleteKeyframe } = useAnimationContext();
   
   // Handle mode changes
   const handleTimelineModeChange = (mode: TimelineMode) => {
@@ -770,12 +785,14 @@ const Timeline = ({
     });
   }
   
-  // Generate keyframes for visualization (dummy keyframes)
-  const keyframes = [
-    { time: 0.5, properties: {} },
-    { time: 2.0, properties: {} },
-    { time: 3.5, properties: {} }
-  ];
+  // Times a layer has keyframes at, shown on its collapsed row
+  const getKeyframeTimes = (layer: AnimationLayer): number[] =>
+    Array.from(new Set((layer.keyframes || []).map(keyframe => keyframe.time)));
+  
+  // Expand or collapse the property tracks of a layer
+  const toggleLayerTracks = (layerId: string) => {
+    setTrackLayerIds(prev => prev.includes(layerId) ? prev.filter(id => id !== layerId) : [...prev, layerId]);
+  };
 
   // Used to convert between animation time and pixel position
   const timeToPosition = (time: number) => {
@@ -968,15 +985,19 @@ const Timeline = ({
       ? 0 // Entrance animations start at beginning
       : 3; // Exit animations start later (adjust as needed)
     
+    // Motion paths start along a default arc
+    const isMotionPath = type === AnimationType.MotionPath;
+    
     // Create a new animation with unique ID and required properties
     const newAnimation: Animation = {
       id: `anim-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`, // Generate unique ID
       type: type.toString(), // Convert enum value to string for consistency
-      mode,
+      mode: isMotionPath ? AnimationMode.Path : mode,
       startTime: defaultStartTime,
       duration: 1.5, // Use 1.5 seconds duration by default for better visibility
       easing: EasingType.EaseOut, // Default easing
       delay: 0, // Add required delay property
+      ...(isMotionPath ? { customProps: { path: DEFAULT_MOTION_PATH } } : {})
     };
     
     // Log animation creation to debug duration issues
@@ -1003,10 +1024,78 @@ const Timeline = ({
       }
     }
     
+    // Open the path editor for a new motion path
+    if (isMotionPath) {
+      setMotionPathEdit({ layerId, animIndex: safeGetAnimations(layer).length - 1 });
+    }
+    
+    // Force a re-render
+    forceUpdate();
+  };
+
+  // Apply the path editor's changes to a motion path animation
+  const handleSaveMotionPath = (updates: { customProps: MotionPathProps; easing: string }) => {
+    const layer = motionPathEdit && frameLayers.find(l => l.id === motionPathEdit.layerId);
+    const animation = layer ? safeGetAnimations(layer)[motionPathEdit!.animIndex] : undefined;
+    setMotionPathEdit(null);
+    if (!layer || !animation) return;
+    
+    animation.customProps = { ...animation.customProps, ...updates.customProps };
+    animation.easing = updates.easing;
+    
+    // Sync to linked layers if this layer is linked
+    if (layer.linkedLayer) {
+      safeSyncLayerAnimations(mockLayers, layer.id);
+    }
+    
+    // Force a re-render
+    forceUpdate();
+    onTimeUpdate(currentTime);
+  };
+
+  // Apply the stagger and order of a text animation
+  const handleSaveTextSplit = (customProps: TextSplitProps) => {
+    const layer = textSplitEdit && frameLayers.find(l => l.id === textSplitEdit.layerId);
+    const animation = layer ? safeGetAnimations(layer)[textSplitEdit!.animIndex] : undefined;
+    setTextSplitEdit(null);
+    if (!layer || !animation) return;
+    
+    animation.customProps = { ...animation.customProps, ...customProps };
+    
+    // Sync to linked layers if this layer is linked
+    if (layer.linkedLayer) {
+      safeSyncLayerAnimations(mockLayers, layer.id);
+    }
+    
     // Force a re-render
     forceUpdate();
+    onTimeUpdate(currentTime);
   };
 
+  // Show a keyframe edit the context has made in the timeline and preview
+  const refreshKeyframes = () => {
+    forceUpdate();
+    onTimeUpdate(currentTime);
+  };
+  
+  // Key a property's value at the playhead
+  const handleKeyValue = (layerId: string, property: KeyframeProperty, value: KeyframeValue) => {
+    addKeyframe(layerId, property, currentTime, value);
+    refreshKeyframes();
+  };
+  
+  // Move a property's keyframe or change its easing
+  const handleUpdateKeyframe = (layerId: string, property: KeyframeProperty, keyframeId: string, updates: { time?: number; easing?: string }) => {
+    updateKeyframe(layerId, property, keyframeId, updates);
+    refreshKeyframes();
+  };
+  
+  // Delete a property's keyframe
+  const handleDeleteKeyframe = (layerId: string, property: KeyframeProperty, keyframeId: string) => {
+    deleteKeyframe(layerId, property, keyframeId);
+    refreshKeyframes();
+  };
+  
   // Handle deleting an animation from a layer
   const handleDeleteAnimation = (layerId: string, animIndex: number) => {
     const layer = frameLayers.find(l => l.id === layerId);
@@ -1063,7 +1152,20 @@ const Timeline = ({
     }
     
     // Update the animation type, ensuring it's a string
-    animations[animIndex].type = type.toString();
+    const animation = animations[animIndex];
+    animation.type = type.toString();
+    
+    // A motion path follows the layer's path, or a default arc to edit;
+    // other types leave path mode
+    if (type === AnimationType.MotionPath) {
+      animation.mode = AnimationMode.Path;
+      if (typeof animation.customProps?.path !== 'string') {
+        animation.customProps = { ...animation.customProps, path: DEFAULT_MOTION_PATH };
+      }
+      setMotionPathEdit({ layerId, animIndex });
+    } else if (animation.mode === AnimationMode.Path) {
+      animation.mode = AnimationMode.Entrance;
+    }
     
     // Log the type change for debugging
     console.log(`Changed animation type to "${type}" (${typeof type}) for layer ${layerId}`);
@@ -1584,6 +1686,12 @@ const Timeline = ({
         [AnimationType.ScaleUp]: 'Scale Up',
         [AnimationType.ScaleDown]: 'Scale Down',
         [AnimationType.Rotate]: 'Rotate',
+        [AnimationType.MotionPath]: 'Motion Path',
+        [AnimationType.TextTypewriter]: 'Typewriter',
+        [AnimationType.TextLetterFade]: 'Letter Fade',
+        [AnimationType.TextLetterSlide]: 'Letter Slide',
+        [AnimationType.TextWordStagger]: 'Word Stagger',
+        [AnimationType.TextLineMask]: 'Line Mask Reveal',
         [AnimationType.Custom]: 'Custom'
       };
       
@@ -1877,157 +1985,180 @@ const Timeline = ({
             </div>
             
             {frameLayers.map(layer => (
-              <div 
-                key={layer.id}
-                onClick={() => setSelectedLayerId(layer.id)}
-                className={`h-10 flex items-center justify-between px-2 rounded cursor-pointer 
-                  ${selectedLayerId === layer.id ? 'bg-neutral-800' : 'hover:bg-neutral-700'} 
-                  text-sm ${selectedLayerId === layer.id ? 'text-white' : 'text-neutral-300'}
-                  ${layer.linkedLayer ? 'border-l-2 border-blue-500' : ''}`}
-              >
-                <div className="flex items-center">
-                  {/* Show different icons based on timeline mode */}
-                  <div className="flex items-center space-x-2">
-                    {/* Always show link icon in both modes */}
-                    <span 
-                      className={`mr-2 flex items-center ${layer.linkedLayer 
-                        ? (layer.linkedLayer.isMain ? 'text-blue-400 bg-blue-900' : 'text-blue-300 bg-blue-800') 
-                        : 'text-neutral-600'
-                      } ${layer.linkedLayer ? 'bg-opacity-60 px-1 py-0.5 rounded-sm cursor-pointer hover:bg-opacity-80' : 'cursor-pointer hover:text-neutral-400'}`}
-                      title={layer.linkedLayer 
-                        ? `Click to unlink (${layer.linkedLayer.isMain ? 'Main' : 'Secondary'}) - ${layer.linkedLayer.syncMode} sync` 
-                        : 'Not linked'
-                      }
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        // Enhanced debugging
-                        console.log(`🔗🔗🔗 LINK ICON CLICKED FOR LAYER ${layer.id} IN MODE: ${timelineMode}`);
-                        console.log("🔗 Layer linked status:", !!layer.linkedLayer);
-                        if (layer.linkedLayer) {
-                          console.log("🔗 Layer linking details:", {
-                            isMain: layer.linkedLayer.isMain,
-                            syncMode: layer.linkedLayer.syncMode,
-                            groupId: layer.linkedLayer.groupId
-                          });
+              <React.Fragment key={layer.id}>
+                <div 
+                  onClick={() => setSelectedLayerId(layer.id)}
+                  className={`h-10 flex items-center justify-between px-2 rounded cursor-pointer 
+                    ${selectedLayerId === layer.id ? 'bg-neutral-800' : 'hover:bg-neutral-700'} 
+                    text-sm ${selectedLayerId === layer.id ? 'text-white' : 'text-neutral-300'}
+                    ${layer.linkedLayer ? 'border-l-2 border-blue-500' : ''}`}
+                >
+                  <div className="flex items-center">
+                    {/* Show different icons based on timeline mode */}
+                    <div className="flex items-center space-x-2">
+                      {/* Always show link icon in both modes */}
+                      <span 
+                        className={`mr-2 flex items-center ${layer.linkedLayer 
+                          ? (layer.linkedLayer.isMain ? 'text-blue-400 bg-blue-900' : 'text-blue-300 bg-blue-800') 
+                          : 'text-neutral-600'
+                        } ${layer.linkedLayer ? 'bg-opacity-60 px-1 py-0.5 rounded-sm cursor-pointer hover:bg-opacity-80' : 'cursor-pointer hover:text-neutral-400'}`}
+                        title={layer.linkedLayer 
+                          ? `Click to unlink (${layer.linkedLayer.isMain ? 'Main' : 'Secondary'}) - ${layer.linkedLayer.syncMode} sync` 
+                          : 'Not linked'
                         }
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          // Enhanced debugging
+                          console.log(`🔗🔗🔗 LINK ICON CLICKED FOR LAYER ${layer.id} IN MODE: ${timelineMode}`);
+                          console.log("🔗 Layer linked status:", !!layer.linkedLayer);
+                          if (layer.linkedLayer) {
+                            console.log("🔗 Layer linking details:", {
+                              isMain: layer.linkedLayer.isMain,
+                              syncMode: layer.linkedLayer.syncMode,
+                              groupId: layer.linkedLayer.groupId
+                            });
+                          }
                         
-                        // Use try/catch to catch any errors during the linking/unlinking process
-                        try {
-                          // We need to check the current mode and handle appropriately
-                          if (timelineMode === 'gifFrames' as TimelineMode) {
-                            // In GIF Frames mode, show the dialog but don't perform the action
-                            console.log(`🔗 In GIF Frames mode - showing dialog only`);
-                            alert(`Layer linking/unlinking is not available in GIF Frames mode.\nPlease switch to Animation mode to link or unlink layers.`);
-                            // No actual linking/unlinking happens in GIF Frames mode
-                          } else {
-                            // In Animation mode, proceed with the toggling without alert
-                            if (layer.linkedLayer) {
-                              // If already linked, unlink it
-                              console.log(`🔗 Unlinking layer ${layer.id} in Animation mode`);
-                              handleUnlinkLayer(layer.id);
+                          // Use try/catch to catch any errors during the linking/unlinking process
+                          try {
+                            // We need to check the current mode and handle appropriately
+                            if (timelineMode === 'gifFrames' as TimelineMode) {
+                              // In GIF Frames mode, show the dialog but don't perform the action
+                              console.log(`🔗 In GIF Frames mode - showing dialog only`);
+                              alert(`Layer linking/unlinking is not available in GIF Frames mode.\nPlease switch to Animation mode to link or unlink layers.`);
+                              // No actual linking/unlinking happens in GIF Frames mode
                             } else {
-                              // If not linked, link it
-                              console.log(`🔗 Linking layer ${layer.id} in Animation mode`);
+                              // In Animation mode, proceed with the toggling without alert
+                              if (layer.linkedLayer) {
+                                // If already linked, unlink it
+                                console.log(`🔗 Unlinking layer ${layer.id} in Animation mode`);
+                                handleUnlinkLayer(layer.id);
+                              } else {
+                                // If not linked, link it
+                                console.log(`🔗 Linking layer ${layer.id} in Animation mode`);
                               
-                              // Use the new linkLayer function to specifically link this layer by name
-                              const updatedLayers = linkLayer(mockLayers, layer.id);
+                                // Use the new linkLayer function to specifically link this layer by name
+                                const updatedLayers = linkLayer(mockLayers, layer.id);
                               
-                              // Update the layers in mockLayers
-                              Object.keys(updatedLayers).forEach(frameId => {
-                                mockLayers[frameId] = [...updatedLayers[frameId]];
-                              });
+                                // Update the layers in mockLayers
+                                Object.keys(updatedLayers).forEach(frameId => {
+                                  mockLayers[frameId] = [...updatedLayers[frameId]];
+                                });
                               
-                              // Still call the parent onLinkLayers handler to handle UI updates
-                              if (onLinkLayers) {
-                                onLinkLayers();
-                              } else {
-                                console.warn("🔗 onLinkLayers handler is not defined");
+                                // Still call the parent onLinkLayers handler to handle UI updates
+                                if (onLinkLayers) {
+                                  onLinkLayers();
+                                } else {
+                                  console.warn("🔗 onLinkLayers handler is not defined");
+                                }
                               }
                             }
+                            console.log("🔗 Link/unlink handler completed successfully");
+                          } catch (error) {
+                            console.error("🔗 ERROR in link icon click handler:", error);
+                            // Keep error alert in case something goes wrong
+                            alert(`Error toggling layer link status: ${error}`);
                           }
-                          console.log("🔗 Link/unlink handler completed successfully");
-                        } catch (error) {
-                          console.error("🔗 ERROR in link icon click handler:", error);
-                          // Keep error alert in case something goes wrong
-                          alert(`Error toggling layer link status: ${error}`);
-                        }
-                      }}
-                    >
-                      <svg 
-                        xmlns="http://www.w3.org/2000/svg" 
-                        width="14" 
-                        height="14" 
-                        viewBox="0 0 24 24" 
-                        fill={layer.linkedLayer ? "#3B82F6" : "none"} 
-                        stroke={layer.linkedLayer ? "#3B82F6" : "currentColor"} 
-                        strokeWidth="2" 
-                        strokeLinecap="round" 
-                        strokeLinejoin="round"
+                        }}
                       >
-                        <path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"></path>
-                        <path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"></path>
-                      </svg>
+                        <svg 
+                          xmlns="http://www.w3.org/2000/svg" 
+                          width="14" 
+                          height="14" 
+                          viewBox="0 0 24 24" 
+                          fill={layer.linkedLayer ? "#3B82F6" : "none"} 
+                          stroke={layer.linkedLayer ? "#3B82F6" : "currentColor"} 
+                          strokeWidth="2" 
+                          strokeLinecap="round" 
+                          strokeLinejoin="round"
+                        >
+                          <path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"></path>
+                          <path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"></path>
+                        </svg>
                       
-                      {/* Only show label if actually linked */}
-                      {layer.linkedLayer && (
-                        <span className="ml-1 text-xs font-bold">
-                          {layer.linkedLayer.isMain ? 'M' : 'L'}
+                        {/* Only show label if actually linked */}
+                        {layer.linkedLayer && (
+                          <span className="ml-1 text-xs font-bold">
+                            {layer.linkedLayer.isMain ? 'M' : 'L'}
+                          </span>
+                        )}
+                      </span>
+
+                      {/* Only in GIF Frames mode - show visibility toggle */}
+                      {isTimelineMode(timelineMode, 'gifFrames') && (
+                        <span 
+                          className={`flex items-center ${layer.visible 
+                            ? 'text-green-400 hover:text-green-300' 
+                            : 'text-neutral-500 hover:text-neutral-400'
+                          } cursor-pointer`}
+                          title={layer.visible ? 'Layer is visible (click to hide)' : 'Layer is hidden (click to show)'}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            // Since we're in the timeline, we need to toggle visibility in the currently selected frame
+                            if (localSelectedFrameId) {
+                              handleToggleLayerVisibility(layer.id);
+                            }
+                          }}
+                        >
+                          {layer.visible ? <Eye size={14} /> : <EyeOff size={14} />}
                         </span>
                       )}
-                    </span>
-
-                    {/* Only in GIF Frames mode - show visibility toggle */}
-                    {isTimelineMode(timelineMode, 'gifFrames') && (
-                      <span 
-                        className={`flex items-center ${layer.visible 
-                          ? 'text-green-400 hover:text-green-300' 
-                          : 'text-neutral-500 hover:text-neutral-400'
-                        } cursor-pointer`}
-                        title={layer.visible ? 'Layer is visible (click to hide)' : 'Layer is hidden (click to show)'}
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          // Since we're in the timeline, we need to toggle visibility in the currently selected frame
-                          if (localSelectedFrameId) {
-                            handleToggleLayerVisibility(layer.id);
-                          }
-                        }}
-                      >
-                        {layer.visible ? <Eye size={14} /> : <EyeOff size={14} />}
-                      </span>
-                    )}
-                  </div>
+                    </div>
+                  
+                    {/* Expand the layer's property tracks */}
+                    <button
+                      className="mr-1 text-neutral-500 hover:text-neutral-300"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        toggleLayerTracks(layer.id);
+                      }}
+                      title={trackLayerIds.includes(layer.id) ? 'Hide keyframe tracks' : 'Show keyframe tracks'}
+                    >
+                      {trackLayerIds.includes(layer.id) ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                    </button>
                   
-                  {/* Layer name */}
-                  {layer.name}
+                    {/* Layer name */}
+                    {layer.name}
+                  </div>
+                
+                  {/* Right side icons based on mode */}
+                  {timelineMode === 'animation' ? (
+                    // Animation mode - show layer sync status
+                    layer.linkedLayer && (
+                      <div className="flex space-x-1">
+                        <span className="text-xs text-blue-300 px-1 py-0.5 rounded-sm bg-blue-900 bg-opacity-30">
+                          {layer.linkedLayer.syncMode}
+                        </span>
+                      </div>
+                    )
+                  ) : (
+                    // GIF Frames mode - show visibility toggle
+                    <button
+                      className={`p-1 rounded ${layer.visible ? 'text-green-400 hover:bg-neutral-700' : 'text-neutral-500 hover:bg-neutral-700'}`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        // Since we're in the timeline, we need to toggle visibility in the currently selected frame
+                        if (localSelectedFrameId) {
+                            handleToggleLayerVisibility(layer.id);
+                        }
+                      }}
+                      title={layer.visible ? 'Hide layer' : 'Show layer'}
+                    >
+                      {layer.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+                    </button>
+                  )}
                 </div>
                 
-                {/* Right side icons based on mode */}
-                {timelineMode === 'animation' ? (
-                  // Animation mode - show layer sync status
-                  layer.linkedLayer && (
-                    <div className="flex space-x-1">
-                      <span className="text-xs text-blue-300 px-1 py-0.5 rounded-sm bg-blue-900 bg-opacity-30">
-                        {layer.linkedLayer.syncMode}
-                      </span>
-                    </div>
-                  )
-                ) : (
-                  // GIF Frames mode - show visibility toggle
-                  <button
-                    className={`p-1 rounded ${layer.visible ? 'text-green-400 hover:bg-neutral-700' : 'text-neutral-500 hover:bg-neutral-700'}`}
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      // Since we're in the timeline, we need to toggle visibility in the currently selected frame
-                      if (localSelectedFrameId) {
-                          handleToggleLayerVisibility(layer.id);
-                      }
-                    }}
-                    title={layer.visible ? 'Hide layer' : 'Show layer'}
-                  >
-                    {layer.visible ? <Eye size={14} /> : <EyeOff size={14} />}
-                  </button>
+                {/* Property tracks of the layer, aligned with their lanes */}
+                {trackLayerIds.includes(layer.id) && (
+                  <PropertyTrackNames
+                    layer={layer}
+                    currentTime={currentTime}
+                    onKeyValue={(property, value) => handleKeyValue(layer.id, property, value)}
+                    onDeleteKeyframe={(property, keyframeId) => handleDeleteKeyframe(layer.id, property, keyframeId)}
+                  />
                 )}
-              </div>
+              </React.Fragment>
             ))}
           </div>
         )}
@@ -2080,115 +2211,149 @@ const Timeline = ({
             {timelineMode === 'animation' ? (
               // Animation Mode - Show animation tracks
               frameLayers.map((layer) => (
-                <ContextMenu.Root key={layer.id}>
-                  <ContextMenu.Trigger asChild>
-                    <div 
-                      className={`h-10 relative ${selectedLayerId === layer.id ? 'bg-[#1A1A1A]' : ''}`}
-                    >
-                      {/* Animation blocks with drag handles */}
-                      {layer.animations.map((animation, animIndex) => (
-                        <ContextMenu.Root key={animIndex}>
-                          <ContextMenu.Trigger asChild>
-                            {renderAnimationBlock(layer, animation, animIndex)}
-                          </ContextMenu.Trigger>
+                <React.Fragment key={layer.id}>
+                  <ContextMenu.Root>
+                    <ContextMenu.Trigger asChild>
+                      <div 
+                        className={`h-10 relative ${selectedLayerId === layer.id ? 'bg-[#1A1A1A]' : ''}`}
+                      >
+                        {/* Animation blocks with drag handles */}
+                        {layer.animations.map((animation, animIndex) => (
+                          <ContextMenu.Root key={animIndex}>
+                            <ContextMenu.Trigger asChild>
+                              {renderAnimationBlock(layer, animation, animIndex)}
+                            </ContextMenu.Trigger>
                           
-                          {/* Context menu for individual animation blocks */}
-                          <ContextMenu.Portal>
-                            <ContextMenu.Content 
-                              className="min-w-[180px] bg-neutral-800 border border-neutral-700 rounded-md shadow-lg overflow-hidden z-50"
-                            >
-                              <ContextMenu.Item 
-                                className="text-sm text-white px-3 py-2 hover:bg-blue-600 cursor-pointer focus:outline-none focus:bg-blue-600"
-                                onClick={() => handleDeleteAnimation(layer.id, animIndex)}
+                            {/* Context menu for individual animation blocks */}
+                            <ContextMenu.Portal>
+                              <ContextMenu.Content 
+                                className="min-w-[180px] bg-neutral-800 border border-neutral-700 rounded-md shadow-lg overflow-hidden z-50"
                               >
-                                Delete Animation
-                              </ContextMenu.Item>
+                                <ContextMenu.Item 
+                                  className="text-sm text-white px-3 py-2 hover:bg-blue-600 cursor-pointer focus:outline-none focus:bg-blue-600"
+                                  onClick={() => handleDeleteAnimation(layer.id, animIndex)}
+                                >
+                                  Delete Animation
+                                </ContextMenu.Item>
                               
-                              <ContextMenu.Separator className="h-px bg-neutral-700 my-1" />
+                                <ContextMenu.Separator className="h-px bg-neutral-700 my-1" />
                               
-                              <ContextMenu.Item 
-                                className="text-sm text-white px-3 py-2 hover:bg-blue-600 cursor-pointer focus:outline-none focus:bg-blue-600"
-                                onClick={() => handleToggleAnimationMode(layer.id, animIndex)}
-                              >
-                                {animation.mode === AnimationMode.Exit 
-                                  ? 'Convert to Entrance' 
-                                  : 'Convert to Exit'}
-                              </ContextMenu.Item>
+                                {/* Motion paths set their direction with their start and end offsets */}
+                                {animation.mode === AnimationMode.Path ? (
+                                  <ContextMenu.Item 
+                                    className="text-sm text-white px-3 py-2 hover:bg-blue-600 cursor-pointer focus:outline-none focus:bg-blue-600"
+                                    onClick={() => setMotionPathEdit({ layerId: layer.id, animIndex })}
+                                  >
+                                    Edit Motion Path...
+                                  </ContextMenu.Item>
+                                ) : (
+                                  <ContextMenu.Item 
+                                    className="text-sm text-white px-3 py-2 hover:bg-blue-600 cursor-pointer focus:outline-none focus:bg-blue-600"
+                                    onClick={() => handleToggleAnimationMode(layer.id, animIndex)}
+                                  >
+                                    {animation.mode === AnimationMode.Exit 
+                                      ? 'Convert to Entrance' 
+                                      : 'Convert to Exit'}
+                                  </ContextMenu.Item>
+                                )}
+                                
+                                {getTextSplitUnit(animation) && (
+                                  <ContextMenu.Item 
+                                    className="text-sm text-white px-3 py-2 hover:bg-blue-600 cursor-pointer focus:outline-none focus:bg-blue-600"
+                                    onClick={() => setTextSplitEdit({ layerId: layer.id, animIndex })}
+                                  >
+                                    Text Animation Options...
+                                  </ContextMenu.Item>
+                                )}
                               
-                              <ContextMenu.Separator className="h-px bg-neutral-700 my-1" />
+                                <ContextMenu.Separator className="h-px bg-neutral-700 my-1" />
                               
-                              <ContextMenu.Sub>
-                                <ContextMenu.SubTrigger className="text-sm text-white px-3 py-2 flex items-center justify-between hover:bg-blue-600 cursor-pointer focus:outline-none focus:bg-blue-600">
-                                  <span>Change Type</span>
-                                  <span>▶</span>
-                                </ContextMenu.SubTrigger>
-                                <ContextMenu.Portal>
-                                  <ContextMenu.SubContent className="p-0 min-w-[260px] border-none shadow-none bg-transparent z-50">
-                                    <AnimationTypeMenu 
-                                      onSelect={(type) => handleChangeAnimationType(layer.id, animIndex, type)}
-                                    />
-                                  </ContextMenu.SubContent>
-                                </ContextMenu.Portal>
-                              </ContextMenu.Sub>
-                            </ContextMenu.Content>
-                          </ContextMenu.Portal>
-                        </ContextMenu.Root>
-                      ))}
+                                <ContextMenu.Sub>
+                                  <ContextMenu.SubTrigger className="text-sm text-white px-3 py-2 flex items-center justify-between hover:bg-blue-600 cursor-pointer focus:outline-none focus:bg-blue-600">
+                                    <span>Change Type</span>
+                                    <span>▶</span>
+                                  </ContextMenu.SubTrigger>
+                                  <ContextMenu.Portal>
+                                    <ContextMenu.SubContent className="p-0 min-w-[260px] border-none shadow-none bg-transparent z-50">
+                                      <AnimationTypeMenu 
+                                        onSelect={(type) => handleChangeAnimationType(layer.id, animIndex, type)}
+                                      />
+                                    </ContextMenu.SubContent>
+                                  </ContextMenu.Portal>
+                                </ContextMenu.Sub>
+                              </ContextMenu.Content>
+                            </ContextMenu.Portal>
+                          </ContextMenu.Root>
+                        ))}
                       
-                      {/* Only show keyframes for selected layer */}
-                      {selectedLayerId === layer.id && keyframes.map((keyframe, keyIndex) => (
-                        <div 
-                          key={keyIndex}
-                          className="absolute w-3 h-3 top-3.5 -ml-1.5 rounded-sm bg-yellow-500 border border-yellow-600"
-                          style={{ left: `${timeToPosition(keyframe.time)}px` }}
-                        ></div>
-                      ))}
-                    </div>
-                  </ContextMenu.Trigger>
+                        {/* Keyframe times, while the layer's tracks are collapsed */}
+                        {!trackLayerIds.includes(layer.id) && getKeyframeTimes(layer).map(time => (
+                          <div 
+                            key={time}
+                            className="absolute w-3 h-3 top-3.5 -ml-1.5 rounded-sm bg-yellow-500 border border-yellow-600"
+                            style={{ left: `${timeToPosition(time)}px` }}
+                          ></div>
+                        ))}
+                      </div>
+                    </ContextMenu.Trigger>
                   
-                  {/* Context menu for layer track (empty area) */}
-                  <ContextMenu.Portal>
-                    <ContextMenu.Content 
-                      className="min-w-[180px] bg-neutral-800 border border-neutral-700 rounded-md shadow-lg overflow-hidden z-50"
-                    >
-                      <ContextMenu.Sub>
-                        <ContextMenu.SubTrigger className="text-sm text-white px-3 py-2 flex items-center justify-between hover:bg-blue-600 cursor-pointer focus:outline-none focus:bg-blue-600">
-                          <span className="flex items-center">
-                            <LogIn size={14} className="mr-1.5" />
-                            Add Entrance Animation
-                          </span>
-                          <span>▶</span>
-                        </ContextMenu.SubTrigger>
-                        <ContextMenu.Portal>
-                          <ContextMenu.SubContent className="p-0 min-w-[260px] border-none shadow-none bg-transparent z-50">
-                            <AnimationTypeMenu 
-                              onSelect={(type) => handleAddAnimationToLayer(layer.id, type, AnimationMode.Entrance)}
-                              mode={AnimationMode.Entrance}
-                            />
-                          </ContextMenu.SubContent>
-                        </ContextMenu.Portal>
-                      </ContextMenu.Sub>
+                    {/* Context menu for layer track (empty area) */}
+                    <ContextMenu.Portal>
+                      <ContextMenu.Content 
+                        className="min-w-[180px] bg-neutral-800 border border-neutral-700 rounded-md shadow-lg overflow-hidden z-50"
+                      >
+                        <ContextMenu.Sub>
+                          <ContextMenu.SubTrigger className="text-sm text-white px-3 py-2 flex items-center justify-between hover:bg-blue-600 cursor-pointer focus:outline-none focus:bg-blue-600">
+                            <span className="flex items-center">
+                              <LogIn size={14} className="mr-1.5" />
+                              Add Entrance Animation
+                            </span>
+                            <span>▶</span>
+                          </ContextMenu.SubTrigger>
+                          <ContextMenu.Portal>
+                            <ContextMenu.SubContent className="p-0 min-w-[260px] border-none shadow-none bg-transparent z-50">
+                              <AnimationTypeMenu 
+                                onSelect={(type) => handleAddAnimationToLayer(layer.id, type, AnimationMode.Entrance)}
+                                mode={AnimationMode.Entrance}
+                              />
+                            </ContextMenu.SubContent>
+                          </ContextMenu.Portal>
+                        </ContextMenu.Sub>
                       
-                      <ContextMenu.Sub>
-                        <ContextMenu.SubTrigger className="text-sm text-white px-3 py-2 flex items-center justify-between hover:bg-blue-600 cursor-pointer focus:outline-none focus:bg-blue-600">
-                          <span className="flex items-center">
-                            <LogOut size={14} className="mr-1.5" />
-                            Add Exit Animation
-                          </span>
-                          <span>▶</span>
-                        </ContextMenu.SubTrigger>
-                        <ContextMenu.Portal>
-                          <ContextMenu.SubContent className="p-0 min-w-[260px] border-none shadow-none bg-transparent z-50">
-                            <AnimationTypeMenu 
-                              onSelect={(type) => handleAddAnimationToLayer(layer.id, type, AnimationMode.Exit)}
-                              mode={AnimationMode.Exit}
-                            />
-                          </ContextMenu.SubContent>
-                        </ContextMenu.Portal>
-                      </ContextMenu.Sub>
-                    </ContextMenu.Content>
-                  </ContextMenu.Portal>
-                </ContextMenu.Root>
+                        <ContextMenu.Sub>
+                          <ContextMenu.SubTrigger className="text-sm text-white px-3 py-2 flex items-center justify-between hover:bg-blue-600 cursor-pointer focus:outline-none focus:bg-blue-600">
+                            <span className="flex items-center">
+                              <LogOut size={14} className="mr-1.5" />
+                              Add Exit Animation
+                            </span>
+                            <span>▶</span>
+                          </ContextMenu.SubTrigger>
+                          <ContextMenu.Portal>
+                            <ContextMenu.SubContent className="p-0 min-w-[260px] border-none shadow-none bg-transparent z-50">
+                              <AnimationTypeMenu 
+                                onSelect={(type) => handleAddAnimationToLayer(layer.id, type, AnimationMode.Exit)}
+                                mode={AnimationMode.Exit}
+                              />
+                            </ContextMenu.SubContent>
+                          </ContextMenu.Portal>
+                        </ContextMenu.Sub>
+                      </ContextMenu.Content>
+                    </ContextMenu.Portal>
+                  </ContextMenu.Root>
+                  
+                  {/* Property tracks of the layer */}
+                  {trackLayerIds.includes(layer.id) && (
+                    <PropertyTrackLanes
+                      layer={layer}
+                      timeToPosition={timeToPosition}
+                      positionToTime={positionToTime}
+                      onTimeUpdate={onTimeUpdate}
+                      onMoveKeyframe={(property, keyframeId, time) => handleUpdateKeyframe(layer.id, property, keyframeId, { time })}
+                      onSetEasing={(property, keyframeId, easing) => handleUpdateKeyframe(layer.id, property, keyframeId, { easing })}
+                      onDeleteKeyframe={(property, keyframeId) => handleDeleteKeyframe(layer.id, property, keyframeId)}
+                    />
+                  )}
+                </React.Fragment>
               ))
             ) : (
               // GIF Frames Mode - Show card grid for frame management
@@ -2285,6 +2450,22 @@ const Timeline = ({
         availableLayers={frameLayers}
         timelineMode={timelineMode}
       />
+      
+      <MotionPathDialog
+        isOpen={motionPathEdit !== null}
+        layer={motionPathEdit ? frameLayers.find(l => l.id === motionPathEdit.layerId) || null : null}
+        animation={motionPathEdit ? safeGetAnimations(frameLayers.find(l => l.id === motionPathEdit.layerId))[motionPathEdit.animIndex] || null : null}
+        onClose={() => setMotionPathEdit(null)}
+        onSave={handleSaveMotionPath}
+      />
+      
+      <TextSplitDialog
+        isOpen={textSplitEdit !== null}
+        layer={textSplitEdit ? frameLayers.find(l => l.id === textSplitEdit.layerId) || null : null}
+        animation={textSplitEdit ? safeGetAnimations(frameLayers.find(l => l.id === textSplitEdit.layerId))[textSplitEdit.animIndex] || null : null}
+        onClose={() => setTextSplitEdit(null)}
+        onSave={handleSaveTextSplit}
+      />
     </div>
   );
 };
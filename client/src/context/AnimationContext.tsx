@@ -4,6 +4,7 @@ import {
   AnimationLayer, 
   AnimationFrame, 
   Keyframe, 
+  KeyframeProperty, 
   LinkSyncMode, 
   AdSize, 
   GifFrame, 
@@ -23,6 +24,12 @@ import {
   setAnimationOverride
 } from '../utils/animationSyncUtils';
 import { mockLayers, mockGifFrames, mockFrames } from '../mock/animationData';
+import {
+  KeyframeValue,
+  removePropertyKeyframe,
+  setPropertyKeyframe,
+  updatePropertyKeyframe
+} from '../utils/keyframeTracks';
 
 // Import the new utilities
 import { linkRegistry } from '../utils/linkRegistry';
@@ -102,8 +109,11 @@ interface AnimationContextType {
   timelineRefreshKey: number; // Added to force re-renders of timeline when layer hierarchy changes
   visibilityUpdateCount: number; // Added to force re-renders when layer visibility changes
   frames: AnimationFrame[]; // Expose frames to components
+  layers: AnimationLayer[]; // Layer tree of the current frame, used by exporters
+  framesLayers: Record<string, AnimationLayer[]>; // Layer trees keyed by frame ID
   
   // Ad Sizes
+  adSizes: AdSize[];
   addAdSize: (adSize: { name: string, width: number, height: number }) => AdSize;
   removeAdSize: (adSizeId: string) => void;
   selectAdSize: (adSizeId: string) => void;
@@ -133,8 +143,9 @@ interface AnimationContextType {
   
   // Animation
   updateLayerAnimation: (layerId: string, animation: Animation) => void;
-  addKeyframe: (layerId: string, time: number) => void;
-  deleteKeyframe: (layerId: string, time: number) => void;
+  addKeyframe: (layerId: string, property: KeyframeProperty, time: number, value: KeyframeValue) => void; // Keys a value on a property track
+  updateKeyframe: (layerId: string, property: KeyframeProperty, keyframeId: string, updates: { time?: number; easing?: string }) => void;
+  deleteKeyframe: (layerId: string, property: KeyframeProperty, keyframeId: string) => void;
   setCurrentTime: (time: number) => void;
   
   // Layer Linking
@@ -1989,42 +2000,66 @@ export const AnimationProvider = ({
     forceTimelineRefresh();
   }, [linkRegistry, forceTimelineRefresh]);
 
-  // Add a keyframe
-  const addKeyframe = useCallback((layerId: string, time: number) => {
-    setLayers(prev => 
-      prev.map(layer => {
-        if (layer.id !== layerId) return layer;
-        
-        // Check if keyframe at this time already exists
-        const existingIndex = layer.keyframes.findIndex(k => k.time === time);
-        
-        if (existingIndex >= 0) {
-          // Don't duplicate keyframes
-          return layer;
-        } else {
-          // Add new keyframe
-          const newKeyframe: Keyframe = {
-            time,
-            properties: {} // To be filled with current properties
-          };
-          return { ...layer, keyframes: [...layer.keyframes, newKeyframe] };
+  // Replace a layer's keyframes with an edit of them, wherever the layer sits
+  // in its frame's tree. The layer and its ancestors are copied rather than
+  // changed, in the frame store the timeline and preview read as well as in
+  // the layers and framesLayers state.
+  const editLayerKeyframes = useCallback((layerId: string, edit: (keyframes: Keyframe[]) => Keyframe[]) => {
+    let keyframes: Keyframe[] | null = null;
+
+    // The tree with the layer's keyframes replaced, or the same tree when it
+    // doesn't hold the layer
+    const replaceIn = (tree: AnimationLayer[]): AnimationLayer[] => {
+      let changed = false;
+      const next = tree.map(layer => {
+        if (layer.id === layerId) {
+          keyframes = keyframes || edit(layer.keyframes || []);
+          changed = true;
+          return { ...layer, keyframes };
         }
-      })
-    );
-  }, []);
+        if (!layer.children) return layer;
+        const children = replaceIn(layer.children);
+        if (children === layer.children) return layer;
+        changed = true;
+        return { ...layer, children };
+      });
+      return changed ? next : tree;
+    };
 
-  // Delete a keyframe
-  const deleteKeyframe = useCallback((layerId: string, time: number) => {
-    setLayers(prev => 
-      prev.map(layer => {
-        if (layer.id !== layerId) return layer;
-        return { 
-          ...layer, 
-          keyframes: layer.keyframes.filter(k => k.time !== time) 
-        };
-      })
-    );
-  }, []);
+    const editedFrames: Record<string, AnimationLayer[]> = {};
+    Object.keys(mockLayers).forEach(frameId => {
+      const next = replaceIn(mockLayers[frameId]);
+      if (next !== mockLayers[frameId]) {
+        editedFrames[frameId] = next;
+        mockLayers[frameId] = next;
+      }
+    });
+
+    setLayers(prev => replaceIn(prev));
+    setFramesLayers(prev => ({ ...prev, ...editedFrames }));
+    forceTimelineRefresh();
+  }, [forceTimelineRefresh]);
+
+  // Key a property's value at a time; a keyframe of the property already
+  // at that time takes the new value
+  const addKeyframe = useCallback((layerId: string, property: KeyframeProperty, time: number, value: KeyframeValue) => {
+    editLayerKeyframes(layerId, keyframes => setPropertyKeyframe(keyframes, property, time, value));
+  }, [editLayerKeyframes]);
+
+  // Move a property's keyframe or change its easing
+  const updateKeyframe = useCallback((
+    layerId: string,
+    property: KeyframeProperty,
+    keyframeId: string,
+    updates: { time?: number; easing?: string }
+  ) => {
+    editLayerKeyframes(layerId, keyframes => updatePropertyKeyframe(keyframes, property, keyframeId, updates));
+  }, [editLayerKeyframes]);
+
+  // Delete a property's keyframe
+  const deleteKeyframe = useCallback((layerId: string, property: KeyframeProperty, keyframeId: string) => {
+    editLayerKeyframes(layerId, keyframes => removePropertyKeyframe(keyframes, property, keyframeId));
+  }, [editLayerKeyframes]);
 
   // Toggle playback
   const togglePlayback = useCallback(() => {
@@ -2528,8 +2563,11 @@ export const AnimationProvider = ({
     timelineRefreshKey,
     visibilityUpdateCount,
     frames,
+    layers,
+    framesLayers,
     
     // Ad Size methods
+    adSizes,
     addAdSize,
     removeAdSize,
     selectAdSize,
@@ -2557,6 +2595,7 @@ export const AnimationProvider = ({
     // Animation methods
     updateLayerAnimation,
     addKeyframe,
+    updateKeyframe,
     deleteKeyframe,
     setCurrentTime,
     
@@ -0,0 +1,218 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AdPlatform } from '../utils/exportUtils';
+import { BackupImageFormat } from '../utils/backupImage';
+import { FrameSequenceLayout } from '../utils/frameSequence';
+import { getAdPlatformSpec } from '../utils/adPlatformSpecs';
+import type { BatchSelection } from '../components/BatchExportPanel';
+
+export type ExportType = 'gif' | 'html' | 'mp4' | 'webm' | 'png' | 'lottie';
+
+// Every option of the export modal. Frames and product feeds belong to the
+// project and are not part of the settings.
+export interface ExportSettings {
+  exportType: ExportType;
+  quality: 'low' | 'medium' | 'high';
+  fps: number;
+  includeFallback: boolean;
+  optimizeForAdNetworks: boolean;
+  videoBitrate: number; // kbps
+  videoFormat: 'h264' | 'vp9';
+  transparent: boolean;
+  specialGifFormat: boolean;
+  pngLayout: FrameSequenceLayout;
+
+  // HTML5
+  generatePreviewPage: boolean;
+  previewPageLayout: 'masonry' | 'grid' | 'list';
+  useDarkMode: boolean;
+  addBorder: boolean;
+  borderColor: string;
+  addPreloaderAnimation: boolean;
+  politeLoading: boolean;
+  infiniteLoop: boolean;
+  loopCount: number;
+  stopOnEndFrame: boolean;
+  endFrameTime: number | null;
+  addBackupJpg: boolean;
+  backupImageFormat: BackupImageFormat;
+  backupImageTime: number | null;
+  backupAdSizeIds: string[];
+  renderRetina: boolean;
+  maxFileSizeTarget: number;
+  reviewSiteVersion: string;
+  customHtml: string;
+  customCss: string;
+  minifyCode: boolean;
+  injectCustomCode: boolean;
+  includeZipFiles: boolean;
+  usePTagsInsteadOfSvg: boolean;
+  bannerLink: string;
+  compressionSpeed: 'faster' | 'balanced' | 'smaller';
+  adPlatform: AdPlatform;
+
+  // Batch
+  batchMode: boolean;
+  batchSelection: BatchSelection;
+
+  // Advanced GIF
+  showAdvancedGifOptions: boolean;
+  frameCount: number;
+  frameDelay: number; // ms
+  disposalMethod: 'none' | 'background' | 'previous';
+  dithering: 'none' | 'pattern' | 'diffusion';
+  compression: number;
+  gifMaxFileSize: number; // KB
+}
+
+// A named set of export settings, e.g. "DV360 campaign set"
+export interface ExportProfile {
+  id: string;
+  name: string;
+  settings: ExportSettings;
+  savedAt: string; // ISO date
+}
+
+// A file written by an export, with its size
+export interface ExportHistoryFile {
+  name: string;
+  size: number; // Bytes
+}
+
+// A banner size an export rendered, with the frames it was rendered from
+export interface ExportHistorySize {
+  name: string;
+  width: number;
+  height: number;
+  frameIds: string[];
+}
+
+// A past export run, with the settings and sizes it can be re-run with
+export interface ExportHistoryEntry {
+  id: string;
+  exportedAt: string; // ISO date
+  description: string;
+  settings: ExportSettings;
+  sizes?: ExportHistorySize[]; // Missing on runs logged before sizes were kept
+  totalSize: number; // Bytes of the download
+  files: ExportHistoryFile[];
+}
+
+// Only the latest runs are kept
+const MAX_HISTORY_ENTRIES = 20;
+
+const PROFILES_KEY = 'exportProfiles';
+const HISTORY_KEY = 'exportHistory';
+
+// Names of the export types, as shown in the history
+const EXPORT_TYPE_NAMES: Record<ExportType, string> = {
+  gif: 'GIF',
+  html: 'HTML5',
+  mp4: 'MP4',
+  webm: 'WebM',
+  png: 'PNG sequence',
+  lottie: 'Lottie'
+};
+
+// Describe what an export run produced, e.g. "HTML5 · Google Ads · 300x250"
+export function describeExport(settings: ExportSettings, size: { width: number; height: number }): string {
+  if (settings.batchMode) {
+    const { campaign, exportTypes, adSizeIds, platforms } = settings.batchSelection;
+    const parts = [
+      'Batch',
+      campaign,
+      `${adSizeIds.length} ${adSizeIds.length === 1 ? 'size' : 'sizes'}`,
+      exportTypes.map(type => EXPORT_TYPE_NAMES[type]).join(', ')
+    ];
+    if (exportTypes.includes('html')) {
+      parts.push(`${platforms.length} ${platforms.length === 1 ? 'platform' : 'platforms'}`);
+    }
+    return parts.join(' · ');
+  }
+
+  const type = EXPORT_TYPE_NAMES[settings.exportType];
+  const platform = settings.exportType === 'html' ? ` · ${getAdPlatformSpec(settings.adPlatform).name}` : '';
+  return `${type}${platform} · ${size.width}x${size.height}`;
+}
+
+// Load a list from localStorage
+function loadList<T>(key: string): T[] {
+  const stored = localStorage.getItem(key);
+  if (stored) {
+    try {
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error(`Error parsing ${key}:`, error);
+    }
+  }
+  return [];
+}
+
+// Custom hook for managing saved export profiles and the export history
+export function useExportProfiles() {
+  const [profiles, setProfiles] = useState<ExportProfile[]>([]);
+  const [history, setHistory] = useState<ExportHistoryEntry[]>([]);
+
+  // Load profiles and history from localStorage
+  useEffect(() => {
+    setProfiles(loadList<ExportProfile>(PROFILES_KEY));
+    setHistory(loadList<ExportHistoryEntry>(HISTORY_KEY));
+  }, []);
+
+  // Save the settings as a profile; a profile with the same name is replaced
+  const saveProfile = useCallback((name: string, settings: ExportSettings) => {
+    const newProfile: ExportProfile = {
+      id: `profile-${Date.now()}`,
+      name,
+      settings,
+      savedAt: new Date().toISOString()
+    };
+
+    setProfiles(prev => {
+      const updatedProfiles = [...prev.filter(p => p.name !== name), newProfile];
+      localStorage.setItem(PROFILES_KEY, JSON.stringify(updatedProfiles));
+      return updatedProfiles;
+    });
+
+    return newProfile.id;
+  }, []);
+
+  // Delete a profile
+  const deleteProfile = useCallback((profileId: string) => {
+    setProfiles(prev => {
+      const updatedProfiles = prev.filter(p => p.id !== profileId);
+      localStorage.setItem(PROFILES_KEY, JSON.stringify(updatedProfiles));
+      return updatedProfiles;
+    });
+  }, []);
+
+  // Record an export run, newest first
+  const addHistoryEntry = useCallback((entry: Omit<ExportHistoryEntry, 'id' | 'exportedAt'>) => {
+    const newEntry: ExportHistoryEntry = {
+      ...entry,
+      id: `export-${Date.now()}`,
+      exportedAt: new Date().toISOString()
+    };
+
+    setHistory(prev => {
+      const updatedHistory = [newEntry, ...prev].slice(0, MAX_HISTORY_ENTRIES);
+      localStorage.setItem(HISTORY_KEY, JSON.stringify(updatedHistory));
+      return updatedHistory;
+    });
+  }, []);
+
+  // Forget every past export
+  const clearHistory = useCallback(() => {
+    setHistory([]);
+    localStorage.removeItem(HISTORY_KEY);
+  }, []);
+
+  return {
+    profiles,
+    history,
+    saveProfile,
+    deleteProfile,
+    addHistoryEntry,
+    clearHistory
+  };
+}
@@ -1,8 +1,19 @@
 // This file handles communication with the Figma plugin API
+import { renderFrameFallback, renderLayerFallback } from '../utils/rasterUtils';
+import type { LayerConstraints } from '../types/animation';
 
 // Check if we're running in the Figma environment
 const isFigma = typeof parent !== 'undefined' && parent.postMessage;
 
+// Set once the plugin code has answered our READY message
+let pluginConnected = false;
+
+// Default time to wait for the plugin to answer a request
+const PLUGIN_REQUEST_TIMEOUT = 120000;
+
+// Requests sent so far, numbering the id of the next one
+let requestCount = 0;
+
 // Messages we can send to the plugin code
 export enum MessageType {
   READY = 'READY',
@@ -13,6 +24,8 @@ export enum MessageType {
   EXPORT_HTML = 'EXPORT_HTML',
   EXPORT_MP4 = 'EXPORT_MP4',
   EXPORT_WEBM = 'EXPORT_WEBM',
+  EXPORT_LOTTIE = 'EXPORT_LOTTIE',
+  GET_VECTOR_PATH = 'GET_VECTOR_PATH',
   LOAD_STATE = 'LOAD_STATE',
   SAVE_STATE = 'SAVE_STATE',
 }
@@ -23,6 +36,9 @@ export function initializePlugin(): void {
     // Listen for messages from the plugin
     window.onmessage = (event) => {
       if (event.data.pluginMessage) {
+        if (event.data.pluginMessage.type === 'READY_RESPONSE') {
+          pluginConnected = true;
+        }
         handlePluginMessage(event.data.pluginMessage);
       }
     };
@@ -63,6 +79,50 @@ export function onPluginMessage(type: string, callback: (data: any) => void): ()
   return () => window.removeEventListener(eventType, handler as EventListener);
 }
 
+// Check whether the plugin code is connected and able to answer requests
+export function isPluginConnected(): boolean {
+  return Boolean(isFigma) && pluginConnected;
+}
+
+// Send a message to the plugin and wait for its response message. The
+// request carries an id the plugin sends back with its response or error,
+// so overlapping requests only settle with their own.
+export function requestFromPlugin<T = any>(
+  type: MessageType,
+  responseType: string,
+  data?: any,
+  timeout: number = PLUGIN_REQUEST_TIMEOUT
+): Promise<T> {
+  const requestId = `${type}-${++requestCount}`;
+  
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      unsubscribeResponse();
+      unsubscribeError();
+      clearTimeout(timer);
+    };
+    
+    const unsubscribeResponse = onPluginMessage(responseType, ({ requestId: responseId, ...response }) => {
+      if (responseId !== requestId) return;
+      cleanup();
+      resolve(response as T);
+    });
+    
+    const unsubscribeError = onPluginMessage('ERROR', (error) => {
+      if (error.requestId !== requestId) return;
+      cleanup();
+      reject(new Error(error.message || `Plugin failed to handle ${type}`));
+    });
+    
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Timed out waiting for ${responseType} from the plugin`));
+    }, timeout);
+    
+    sendToPlugin(type, { ...data, requestId });
+  });
+}
+
 // Save state to Figma clientStorage
 export async function saveToClientStorage(key: string, data: any): Promise<void> {
   sendToPlugin(MessageType.SAVE_STATE, { key, data });
@@ -88,112 +148,171 @@ export function updateAnimation(nodeId: string, animationData: any): void {
   sendToPlugin(MessageType.UPDATE_ANIMATION, { nodeId, animationData });
 }
 
-// Export current animation as GIF
-export function exportGif(options: any): void {
-  if (isFigma) {
-    sendToPlugin(MessageType.EXPORT_GIF, { options });
-  } else {
-    // In development mode, fake a download by creating a demo GIF for testing
-    console.log('Dev mode: Creating demo GIF download');
-    try {
-      // Log full options for debugging
-      console.log('DEBUG: Full export options:', JSON.stringify(options));
-      
-      // Create a simple canvas with the frame content
-      const canvas = document.createElement('canvas');
-      canvas.width = options.width || 300;
-      canvas.height = options.height || 250;
-      const ctx = canvas.getContext('2d');
-      
-      if (ctx) {
-        // Draw a simple placeholder for the demo gif
-        ctx.fillStyle = '#4A7CFF';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        
-        // Add some text
-        ctx.fillStyle = 'white';
-        ctx.font = 'bold 24px Arial';
-        ctx.textAlign = 'center';
-        ctx.fillText('Demo GIF', canvas.width / 2, canvas.height / 2 - 20);
-        
-        // Add dimensions
-        ctx.font = '14px Arial';
-        ctx.fillText(`${canvas.width}x${canvas.height}`, canvas.width / 2, canvas.height / 2 + 20);
-        
-        // Convert to data URL and trigger download
-        const dataUrl = canvas.toDataURL('image/png');
-        const link = document.createElement('a');
-        link.download = `animation-${Date.now()}.gif`;
-        link.href = dataUrl;
-        link.click();
-      }
-    } catch (error) {
-      console.error('Error creating demo GIF download:', error);
-    }
+// A frame rasterized by the plugin, encoded as PNG
+export interface RenderedFrame {
+  id: string;
+  bytes: Uint8Array;
+  delay?: number;
+}
+
+// Render the frames of a GIF export as PNG images
+export async function renderGifFrames(options: any): Promise<RenderedFrame[]> {
+  if (isPluginConnected()) {
+    const response = await requestFromPlugin<{ frames: RenderedFrame[] }>(
+      MessageType.EXPORT_GIF,
+      'GIF_FRAMES_RENDERED',
+      { options }
+    );
+    return response.frames;
   }
+  
+  // In development mode, draw the frames with the fallback renderer
+  console.log('Dev mode: Rendering GIF frames with the fallback renderer');
+  const frames: any[] = Array.isArray(options.frames) ? options.frames : [];
+  return Promise.all(frames.map(async (frame) => ({
+    id: frame.id,
+    delay: frame.delay,
+    bytes: await renderFrameFallback(frame, options.width || 300, options.height || 250)
+  })));
 }
 
-// Export current animation as HTML5
-export function exportHtml(options: any): void {
-  if (isFigma) {
-    sendToPlugin(MessageType.EXPORT_HTML, { options });
-  } else {
-    // In development mode, fake a download of HTML file for testing
-    console.log('Dev mode: Creating demo HTML download');
-    try {
-      const htmlContent = `<!DOCTYPE html>
-<html>
-<head>
-  <title>Demo Animation</title>
-  <style>
-    body { margin: 0; padding: 0; display: flex; justify-content: center; align-items: center; height: 100vh; background: #222; }
-    .animation { width: ${options.width}px; height: ${options.height}px; background: linear-gradient(45deg, #4A7CFF, #6A5ACD); display: flex; flex-direction: column; justify-content: center; align-items: center; color: white; font-family: sans-serif; }
-    .headline { font-size: 24px; font-weight: bold; margin-bottom: 10px; }
-    .description { font-size: 14px; }
-    .cta { margin-top: 20px; background: yellow; color: black; padding: 10px 20px; border-radius: 4px; cursor: pointer; }
-  </style>
-</head>
-<body>
-  <div class="animation">
-    <div class="headline">Demo Animation</div>
-    <div class="description">This is a placeholder for your exported HTML5 animation</div>
-    <div class="cta">Click Me</div>
-  </div>
-</body>
-</html>`;
-      
-      const blob = new Blob([htmlContent], { type: 'text/html' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.download = `animation-${Date.now()}.html`;
-      link.href = url;
-      link.click();
-      
-      setTimeout(() => {
-        URL.revokeObjectURL(url);
-      }, 1000);
-    } catch (error) {
-      console.error('Error creating demo HTML download:', error);
-    }
+// Text layer styles, used when text is written as HTML instead of SVG
+export interface RenderedTextStyle {
+  characters: string;
+  fontSize: number;
+  fontFamily: string;
+  fontWeight: string;
+  fontStyle: string;
+  color: string;
+  textAlign: string;
+  lineHeight?: number;
+}
+
+// A banner layer exported by the plugin, positioned relative to the banner.
+// Container layers come without image or text data.
+export interface RenderedLayerAsset {
+  id: string;
+  name: string;
+  type: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  format?: 'png' | 'svg' | 'jpg' | 'webp'; // jpg/webp after recompression
+  bytes?: Uint8Array;
+  text?: RenderedTextStyle;
+  constraints?: LayerConstraints; // The layer's Figma constraints
+}
+
+// The banner frame and its exported layers
+export interface RenderedBannerAssets {
+  frame: {
+    id: string;
+    name: string;
+    width: number;
+    height: number;
+    background?: string;
+    backgroundBytes?: Uint8Array;
+    backgroundFormat?: 'png' | 'jpg' | 'webp';
+  };
+  layers: RenderedLayerAsset[];
+}
+
+// A layer the UI wants exported; containers are exported without rasterizing
+export interface HtmlLayerRequest {
+  id: string;
+  name: string;
+  type: string;
+  rasterize: boolean;
+  asText?: boolean; // Exported as text even when text is otherwise drawn as SVG
+}
+
+// Export the layers of an HTML5 banner as individual assets
+export async function renderHtmlAssets(options: any): Promise<RenderedBannerAssets> {
+  if (isPluginConnected()) {
+    return requestFromPlugin<RenderedBannerAssets>(
+      MessageType.EXPORT_HTML,
+      'HTML_ASSETS_RENDERED',
+      { options }
+    );
   }
+  
+  // In development mode, draw the layers with the fallback renderer
+  console.log('Dev mode: Rendering HTML5 layers with the fallback renderer');
+  return renderAssetsFallback(options);
 }
 
-// Export current animation as MP4
-export function exportMp4(options: any): void {
-  if (isFigma) {
-    sendToPlugin(MessageType.EXPORT_MP4, { options });
-  } else {
-    console.log('Dev mode: MP4 export is not supported in development mode');
-    alert('MP4 export is only available when running as a Figma plugin. This is a development mode simulation.');
+// Export the layers of a banner for frame-by-frame video rendering
+export async function renderVideoAssets(options: any): Promise<RenderedBannerAssets> {
+  if (isPluginConnected()) {
+    return requestFromPlugin<RenderedBannerAssets>(
+      options.codec === 'vp9' ? MessageType.EXPORT_WEBM : MessageType.EXPORT_MP4,
+      'VIDEO_ASSETS_RENDERED',
+      { options }
+    );
   }
+  
+  console.log('Dev mode: Rendering video layers with the fallback renderer');
+  return renderAssetsFallback({ ...options, renderRetina: false });
 }
 
-// Export current animation as WebM
-export function exportWebm(options: any): void {
-  if (isFigma) {
-    sendToPlugin(MessageType.EXPORT_WEBM, { options });
-  } else {
-    console.log('Dev mode: WebM export is not supported in development mode');
-    alert('WebM export is only available when running as a Figma plugin. This is a development mode simulation.');
+// Export the layers of a banner for a Lottie animation
+export async function renderLottieAssets(options: any): Promise<RenderedBannerAssets> {
+  if (isPluginConnected()) {
+    return requestFromPlugin<RenderedBannerAssets>(
+      MessageType.EXPORT_LOTTIE,
+      'LOTTIE_ASSETS_RENDERED',
+      { options }
+    );
+  }
+  
+  console.log('Dev mode: Rendering Lottie layers with the fallback renderer');
+  return renderAssetsFallback({ ...options, renderRetina: false });
+}
+
+// Time to wait for the path of the selected vector
+const VECTOR_PATH_TIMEOUT = 10000;
+
+// The path of the vector selected in Figma, measured from the center of a
+// layer, to use as the layer's motion path
+export async function getSelectedVectorPath(layerId: string): Promise<{ path: string; name: string }> {
+  if (!isPluginConnected()) {
+    throw new Error('Picking a vector needs the Figma plugin');
   }
+  
+  return requestFromPlugin<{ path: string; name: string }>(
+    MessageType.GET_VECTOR_PATH,
+    'VECTOR_PATH_RESPONSE',
+    { layerId },
+    VECTOR_PATH_TIMEOUT
+  );
+}
+
+// Draw the requested layers without Figma, using the fallback layout
+async function renderAssetsFallback(options: any): Promise<RenderedBannerAssets> {
+  const frame = Array.isArray(options.frames) && options.frames.length > 0 ? options.frames[0] : {};
+  const width = options.width || 300;
+  const height = options.height || 250;
+  const requests: HtmlLayerRequest[] = Array.isArray(options.layers) ? options.layers : [];
+  
+  const layers: RenderedLayerAsset[] = [];
+  for (const request of requests) {
+    const base = { id: request.id, name: request.name, type: request.type };
+    
+    if (!request.rasterize) {
+      // Containers span the whole banner in the fallback layout
+      layers.push({ ...base, x: 0, y: 0, width, height });
+      continue;
+    }
+    
+    const rendered = await renderLayerFallback(request, frame, width, height, options.renderRetina ? 2 : 1);
+    if (rendered) {
+      layers.push({ ...base, ...rendered, format: 'png' });
+    }
+  }
+  
+  return {
+    frame: { id: frame.id || 'frame', name: frame.name || 'Banner', width, height },
+    layers
+  };
 }
@@ -64,6 +64,16 @@ export enum AnimationType {
   InstantShow = 'instant-show',
   InstantHide = 'instant-hide',
   
+  // Path animations
+  MotionPath = 'motion-path',
+  
+  // Text animations, played per letter, word or line
+  TextTypewriter = 'text-typewriter',
+  TextLetterFade = 'text-letter-fade',
+  TextLetterSlide = 'text-letter-slide',
+  TextWordStagger = 'text-word-stagger',
+  TextLineMask = 'text-line-mask',
+  
   // Always keep Custom at the end
   Custom = 'custom'
 }
@@ -108,6 +118,30 @@ export interface Animation {
   customProps?: Record<string, any>;
 }
 
+/**
+ * MotionPathProps are the customProps of a motion path animation
+ */
+export interface MotionPathProps {
+  path: string; // SVG path data in px from where the layer rests
+  autoRotate?: boolean; // Turns the layer to the direction of travel
+  startOffset?: number; // Fraction (0-1) of the path's length the layer starts at
+  endOffset?: number; // Fraction (0-1) it ends at
+}
+
+/**
+ * TextSplitOrder is the order the parts of a split text animate in
+ */
+export type TextSplitOrder = 'forward' | 'reverse' | 'center' | 'random';
+
+/**
+ * TextSplitProps are the customProps of a text animation
+ */
+export interface TextSplitProps {
+  stagger?: number; // Seconds between the starts of two parts
+  order?: TextSplitOrder;
+  distance?: number; // px the letters and words slide in from
+}
+
 /**
  * Preset represents a predefined animation configuration
  */
@@ -125,13 +159,49 @@ export interface Preset {
   tags?: string[];
 }
 
+/**
+ * KeyframeProperty is a layer property with its own keyframe track
+ */
+export type KeyframeProperty = 'x' | 'y' | 'scale' | 'rotation' | 'opacity' | 'blur' | 'color';
+
+/**
+ * KeyframeValues are the property values a keyframe sets
+ */
+export interface KeyframeValues {
+  x?: number; // Offset in px
+  y?: number;
+  scale?: number;
+  rotation?: number; // Degrees
+  opacity?: number; // 0-1
+  blur?: number; // Radius in px
+  color?: string; // Hex color of the layer's text, e.g. #4a7cff
+}
+
 /**
  * Keyframe represents a point in time with specific property values
  */
 export interface Keyframe {
   id: string;
   time: number;
-  properties: Record<string, any>;
+  properties: KeyframeValues & Record<string, any>;
+  easing?: string; // Shapes the change of each property towards its next keyframe
+}
+
+/**
+ * ClickZone marks a layer that opens its own landing page
+ */
+export interface ClickZone {
+  name: string; // Exit name reported by the ad server
+  url: string;
+}
+
+/**
+ * LayerConstraints say how a layer follows its parent when a responsive
+ * banner is resized, like Figma's constraints
+ */
+export interface LayerConstraints {
+  horizontal: 'left' | 'right' | 'left-right' | 'center' | 'scale';
+  vertical: 'top' | 'bottom' | 'top-bottom' | 'center' | 'scale';
 }
 
 /**
@@ -158,6 +228,8 @@ export interface AnimationLayer {
   position?: { x: number; y: number };
   opacity?: number;
   lastUpdated?: number;
+  clickZone?: ClickZone; // Own exit in HTML5 exports instead of the banner link
+  constraints?: LayerConstraints; // Captured from Figma; used by responsive exports
   
   // Special indicators
   _isBackgroundLayer?: boolean;
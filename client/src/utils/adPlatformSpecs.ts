@@ -0,0 +1,507 @@
+/**
+ * Ad Platform Specs
+ *
+ * The spec database of the ad platforms: accepted sizes, file weight and
+ * packaging limits, required files, the clickTag variable, the hosts a banner
+ * may load from and animation limits, following each network's published
+ * HTML5 specs. Also the checks run against the project before export and
+ * against an exported banner before it is handed to the user. The spec pages
+ * saved in the repo root only partly cover these (google_ads_specs.html has
+ * Ad Manager's HTML5 guidelines; adform_specs.html, dv360_specs.html and
+ * iab_specs.html are error pages), so the specs are maintained here.
+ */
+
+import type { AdPlatform } from './exportUtils';
+import { createZip, getFileExtension, ZipFiles } from './zipUtils';
+import { validateAmp4AdsDocument } from './ampHtml';
+import { BannerPlayback, describePlayback } from './bannerPlayback';
+
+/**
+ * Packaging limits of an ad platform
+ */
+export interface AdPlatformSpec {
+  name: string;
+  maxInitialLoadKb: number; // Compressed weight of everything loaded up front
+  maxFileCount: number;
+  allowedFileTypes: string[];
+  maxBackupImageKb: number; // Static backup image served when HTML5 can't run
+  maxAnimationSeconds: number; // Total animation time, across every loop
+  maxLoops: number | null; // Times the animation may play; null when only the time is capped
+  sizes: string[] | null; // Accepted ad sizes as "WxH"; null accepts any fixed size
+  requiredFiles: string[]; // Files every bundle has to contain
+  clickTagVariable: string | null; // Set by the ad server; null when clicks go through the platform's API
+  allowedHosts: string[] | null; // Hosts scripts, styles and images may load from; null allows any
+}
+
+/**
+ * Result of a single spec check
+ */
+export interface BundleCheck {
+  id:
+    | 'initial-load' | 'size-target' | 'file-count' | 'file-types' | 'backup-image' | 'amp4ads' | 'animation-length'
+    | 'required-files' | 'click-tag' | 'external-hosts' | 'ad-size' | 'banner-link';
+  label: string;
+  passed: boolean;
+  message: string;
+}
+
+/**
+ * Pass/fail report of an exported banner against its platform spec
+ */
+export interface BundleReport {
+  bannerName: string;
+  platform: AdPlatform;
+  platformName: string;
+  zipSize: number; // Bytes
+  fileCount: number;
+  passed: boolean;
+  checks: BundleCheck[];
+  degradations?: string[]; // Quality reductions made to reach the size target
+}
+
+// File types every HTML5 ad server accepts
+const BASE_FILE_TYPES = ['html', 'css', 'js', 'gif', 'png', 'jpg', 'jpeg', 'svg'];
+
+// IAB New Ad Portfolio fixed sizes
+const IAB_SIZES = [
+  '300x250', '728x90', '160x600', '300x600', '320x50', '300x50', '320x100', '970x250',
+  '970x90', '468x60', '120x600', '250x250', '200x200', '336x280', '300x1050'
+];
+
+// Sizes Google Ads accepts for uploaded HTML5 ads
+const GOOGLE_ADS_SIZES = [
+  '200x200', '240x400', '250x250', '250x360', '300x250', '336x280', '580x400',
+  '120x600', '160x600', '300x600', '300x1050',
+  '468x60', '728x90', '930x180', '970x90', '970x250', '980x120',
+  '300x50', '320x50', '320x100',
+  '320x480', '480x320', '768x1024', '1024x768'
+];
+
+// Web fonts are allowed wherever external hosts are restricted
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+// Google serves its ad libraries (Enabler, cached GSAP) from its own CDN
+const GOOGLE_HOSTS = ['s0.2mdn.net', ...FONT_HOSTS];
+
+// IAB New Ad Portfolio limits, used for platforms without their own spec
+const IAB_SPEC: AdPlatformSpec = {
+  name: 'IAB Standard',
+  maxInitialLoadKb: 150,
+  maxFileCount: 15,
+  allowedFileTypes: [...BASE_FILE_TYPES, 'json', 'webp', 'woff', 'woff2'],
+  maxBackupImageKb: 150,
+  maxAnimationSeconds: 15,
+  maxLoops: 3,
+  sizes: null,
+  requiredFiles: ['index.html'],
+  clickTagVariable: null,
+  allowedHosts: null
+};
+
+const GOOGLE_ADS_SPEC: AdPlatformSpec = {
+  name: 'Google Ads',
+  maxInitialLoadKb: 150,
+  maxFileCount: 40,
+  allowedFileTypes: BASE_FILE_TYPES,
+  maxBackupImageKb: 150,
+  maxAnimationSeconds: 30,
+  maxLoops: null,
+  sizes: GOOGLE_ADS_SIZES,
+  requiredFiles: ['index.html'],
+  clickTagVariable: 'clickTag',
+  allowedHosts: GOOGLE_HOSTS
+};
+
+const DV360_SPEC: AdPlatformSpec = {
+  name: 'Display & Video 360',
+  maxInitialLoadKb: 150,
+  maxFileCount: 100,
+  allowedFileTypes: [...BASE_FILE_TYPES, 'json', 'woff', 'woff2'],
+  maxBackupImageKb: 200,
+  maxAnimationSeconds: 30,
+  maxLoops: null,
+  sizes: null,
+  requiredFiles: ['index.html'],
+  clickTagVariable: 'clickTag',
+  allowedHosts: GOOGLE_HOSTS
+};
+
+const ADFORM_SPEC: AdPlatformSpec = {
+  name: 'Adform',
+  maxInitialLoadKb: 200,
+  maxFileCount: 100,
+  allowedFileTypes: [...BASE_FILE_TYPES, 'json', 'webp', 'woff', 'woff2'],
+  maxBackupImageKb: 100,
+  maxAnimationSeconds: 30,
+  maxLoops: 3,
+  sizes: null,
+  requiredFiles: ['index.html', 'manifest.json'],
+  clickTagVariable: 'clickTAG',
+  allowedHosts: ['s1.adform.net', 'cdnjs.cloudflare.com', ...FONT_HOSTS]
+};
+
+export const AD_PLATFORM_SPECS: Partial<Record<AdPlatform, AdPlatformSpec>> = {
+  'google-ads': GOOGLE_ADS_SPEC,
+  'google-display-network': { ...GOOGLE_ADS_SPEC, name: 'Google Display Network' },
+  'google': GOOGLE_ADS_SPEC,
+  'dv360': DV360_SPEC,
+  'doubleclick-dcm': { ...DV360_SPEC, name: 'Campaign Manager 360' },
+  // Studio exits go through Enabler.exit
+  'doubleclick-studio': { ...DV360_SPEC, name: 'Studio', clickTagVariable: null },
+  'adform': ADFORM_SPEC,
+  // MRAID ads open their landing page with mraid.open
+  'adform-mraid': { ...ADFORM_SPEC, name: 'Adform MRAID', clickTagVariable: null },
+  'flashtalking': {
+    name: 'Flashtalking',
+    maxInitialLoadKb: 200,
+    maxFileCount: 100,
+    allowedFileTypes: [...BASE_FILE_TYPES, 'json', 'woff', 'woff2'],
+    maxBackupImageKb: 100,
+    maxAnimationSeconds: 30,
+    maxLoops: 3,
+    sizes: null,
+    requiredFiles: ['index.html', 'manifest.js'],
+    clickTagVariable: null, // myFT.clickTag
+    allowedHosts: ['cdn.flashtalking.com', ...FONT_HOSTS]
+  },
+  'sizmek': {
+    name: 'Sizmek',
+    maxInitialLoadKb: 200,
+    maxFileCount: 100,
+    allowedFileTypes: [...BASE_FILE_TYPES, 'json'],
+    maxBackupImageKb: 100,
+    maxAnimationSeconds: 30,
+    maxLoops: 3,
+    sizes: null,
+    requiredFiles: ['index.html'],
+    clickTagVariable: null, // EB.clickthrough
+    allowedHosts: ['secure-ds.serving-sys.com', ...FONT_HOSTS]
+  },
+  'amazon-ads': {
+    name: 'Amazon Ads',
+    maxInitialLoadKb: 200,
+    maxFileCount: 100,
+    allowedFileTypes: BASE_FILE_TYPES,
+    maxBackupImageKb: 200,
+    maxAnimationSeconds: 30,
+    maxLoops: 3,
+    sizes: ['300x250', '728x90', '160x600', '300x600', '320x50', '414x125', '970x250'],
+    requiredFiles: ['index.html'],
+    clickTagVariable: null, // %%CLICK_URL_UNESC%% macro
+    allowedHosts: null
+  },
+  'trade-desk': {
+    name: 'The Trade Desk',
+    maxInitialLoadKb: 200,
+    maxFileCount: 100,
+    allowedFileTypes: [...BASE_FILE_TYPES, 'json', 'woff', 'woff2'],
+    maxBackupImageKb: 150,
+    maxAnimationSeconds: 30,
+    maxLoops: 3,
+    sizes: null,
+    requiredFiles: ['index.html'],
+    clickTagVariable: null, // CLICK_URL macro
+    allowedHosts: null
+  },
+  'iab': { ...IAB_SPEC, sizes: IAB_SIZES, clickTagVariable: 'clickTag' },
+  'iab-standard': { ...IAB_SPEC, sizes: IAB_SIZES, clickTagVariable: 'clickTag' },
+  // AMP ads are a single document; everything but images is inlined
+  'amphtml': {
+    name: 'AMPHTML (Google Ad Manager)',
+    maxInitialLoadKb: 150,
+    maxFileCount: 40,
+    allowedFileTypes: ['html', 'gif', 'png', 'jpg', 'jpeg', 'svg', 'webp'],
+    maxBackupImageKb: 150,
+    maxAnimationSeconds: 30,
+    maxLoops: null,
+    sizes: null,
+    requiredFiles: ['index.html'],
+    clickTagVariable: null, // Exits are plain links
+    allowedHosts: ['cdn.ampproject.org']
+  }
+};
+
+/**
+ * Get the spec of a platform, falling back to the IAB limits
+ */
+export function getAdPlatformSpec(platform: AdPlatform = 'standard-css'): AdPlatformSpec {
+  return AD_PLATFORM_SPECS[platform] || IAB_SPEC;
+}
+
+/**
+ * Get the external URLs a document or stylesheet loads: scripts, styles,
+ * images and frames, and url() and @import references. Links aren't loaded,
+ * so they are left out.
+ */
+export function getLoadedUrls(source: string): string[] {
+  const urls: string[] = [];
+  const tagPattern = /<(?:script|link|img|amp-img|iframe|source|video|audio)\b[^>]*?\s(?:src|href)\s*=\s*["']((?:https?:)?\/\/[^"']+)["']/gi;
+  const cssPattern = /(?:url\(\s*["']?|@import\s+["'])((?:https?:)?\/\/[^"')\s]+)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(source))) urls.push(match[1]);
+  while ((match = cssPattern.exec(source))) urls.push(match[1]);
+  return urls;
+}
+
+// Host of an external URL, or null when it can't be parsed
+function getUrlHost(url: string): string | null {
+  try {
+    return new URL(url, 'https://localhost').hostname;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Check external URLs against the hosts a platform allows. Plain http URLs
+// fail too, since ads are served on https pages.
+function checkExternalUrls(urls: string[], spec: AdPlatformSpec): BundleCheck {
+  const insecure = urls.filter(url => url.startsWith('http:'));
+  const hosts = Array.from(new Set(urls.map(getUrlHost).filter((host): host is string => Boolean(host))));
+  const disallowedHosts = spec.allowedHosts
+    ? hosts.filter(host => !spec.allowedHosts!.includes(host))
+    : [];
+
+  const problems = [
+    ...(disallowedHosts.length > 0 ? [`Not allowed by ${spec.name}: ${disallowedHosts.join(', ')}`] : []),
+    ...(insecure.length > 0 ? [`Not served over https: ${insecure.join(', ')}`] : [])
+  ];
+  return {
+    id: 'external-hosts',
+    label: 'External hosts',
+    passed: problems.length === 0,
+    message: problems.length > 0
+      ? problems.join('; ')
+      : hosts.length > 0 ? `Loads from ${hosts.join(', ')}` : 'No external files'
+  };
+}
+
+/**
+ * Format a byte count as KB for reports
+ */
+export function formatKb(bytes: number): string {
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+/**
+ * Check an exported banner against its platform spec, the user's size target
+ * and, when given its playback, the platform's animation limits.
+ * Weight is measured as the size of the banner's own ZIP, which is what ad
+ * servers check on upload.
+ */
+export function checkBundleAgainstSpec(
+  banner: { name: string; files: ZipFiles },
+  options: { platform?: AdPlatform; maxFileSizeTarget?: number; degradations?: string[]; playback?: BannerPlayback } = {}
+): BundleReport {
+  const platform = options.platform || 'standard-css';
+  const spec = getAdPlatformSpec(platform);
+  const paths = Object.keys(banner.files);
+  const zipSize = createZip(banner.files).length;
+  const checks: BundleCheck[] = [];
+
+  checks.push({
+    id: 'initial-load',
+    label: 'Initial load',
+    passed: zipSize <= spec.maxInitialLoadKb * 1024,
+    message: `${formatKb(zipSize)} of ${spec.maxInitialLoadKb} KB allowed by ${spec.name}`
+  });
+
+  if (options.maxFileSizeTarget && options.maxFileSizeTarget > 0) {
+    checks.push({
+      id: 'size-target',
+      label: 'Size target',
+      passed: zipSize <= options.maxFileSizeTarget * 1024,
+      message: `${formatKb(zipSize)} of the ${options.maxFileSizeTarget} KB target`
+    });
+  }
+
+  checks.push({
+    id: 'file-count',
+    label: 'File count',
+    passed: paths.length <= spec.maxFileCount,
+    message: `${paths.length} of ${spec.maxFileCount} files allowed`
+  });
+
+  const disallowedFiles = paths.filter(path => !spec.allowedFileTypes.includes(getFileExtension(path)));
+  checks.push({
+    id: 'file-types',
+    label: 'File types',
+    passed: disallowedFiles.length === 0,
+    message: disallowedFiles.length === 0
+      ? `Only ${spec.allowedFileTypes.join(', ')} files`
+      : `Not allowed: ${disallowedFiles.join(', ')}`
+  });
+
+  const missingFiles = spec.requiredFiles.filter(path => !(path in banner.files));
+  checks.push({
+    id: 'required-files',
+    label: 'Required files',
+    passed: missingFiles.length === 0,
+    message: missingFiles.length === 0
+      ? `Has ${spec.requiredFiles.join(', ')}`
+      : `Missing: ${missingFiles.join(', ')}`
+  });
+
+  const html = banner.files['index.html'];
+  if (spec.clickTagVariable) {
+    const declared = typeof html === 'string' && new RegExp(`\\bvar\\s+${spec.clickTagVariable}\\s*=`).test(html);
+    checks.push({
+      id: 'click-tag',
+      label: 'clickTag',
+      passed: declared,
+      message: declared
+        ? `Declares ${spec.clickTagVariable}`
+        : `${spec.name} fills in the click URL through a ${spec.clickTagVariable} variable, which index.html doesn't declare`
+    });
+  }
+
+  const loadedUrls = paths
+    .filter(path => ['html', 'css'].includes(getFileExtension(path)))
+    .flatMap(path => {
+      const file = banner.files[path];
+      return typeof file === 'string' ? getLoadedUrls(file) : [];
+    });
+  checks.push(checkExternalUrls(loadedUrls, spec));
+
+  // Playback beyond the limits is cut by the banner's runtime, but the
+  // banner no longer plays as designed
+  if (options.playback) {
+    const limit = spec.maxLoops === null
+      ? `${spec.maxAnimationSeconds}s`
+      : `${spec.maxAnimationSeconds}s and ${spec.maxLoops} plays`;
+    checks.push({
+      id: 'animation-length',
+      label: 'Animation length',
+      passed: !options.playback.capped,
+      message: `${describePlayback(options.playback)}; ${spec.name} allows ${limit}`
+    });
+  }
+
+  if (platform === 'amphtml') {
+    const errors = typeof html === 'string' ? validateAmp4AdsDocument(html) : ['index.html is missing'];
+    checks.push({
+      id: 'amp4ads',
+      label: 'AMP4ADS',
+      passed: errors.length === 0,
+      message: errors.length === 0 ? 'Valid AMPHTML ad' : errors.join('; ')
+    });
+  }
+
+  return {
+    bannerName: banner.name,
+    platform,
+    platformName: spec.name,
+    zipSize,
+    fileCount: paths.length,
+    passed: checks.every(check => check.passed),
+    checks,
+    degradations: options.degradations
+  };
+}
+
+/**
+ * Check a single exported file (e.g. a GIF) against the user's size target
+ */
+export function checkFileAgainstTarget(
+  fileName: string,
+  size: number,
+  maxFileSizeTarget: number,
+  degradations: string[] = []
+): BundleReport {
+  const checks: BundleCheck[] = [{
+    id: 'size-target',
+    label: 'Size target',
+    passed: size <= maxFileSizeTarget * 1024,
+    message: `${formatKb(size)} of the ${maxFileSizeTarget} KB target`
+  }];
+
+  return {
+    bannerName: fileName,
+    platform: 'generic',
+    platformName: getFileExtension(fileName).toUpperCase(),
+    zipSize: size,
+    fileCount: 1,
+    passed: checks[0].passed,
+    checks,
+    degradations
+  };
+}
+
+/**
+ * Check a backup image against the backup image limit of its platform
+ */
+export function checkBackupImage(
+  fileName: string,
+  size: number,
+  platform: AdPlatform = 'standard-css',
+  degradations: string[] = []
+): BundleReport {
+  const spec = getAdPlatformSpec(platform);
+  const checks: BundleCheck[] = [{
+    id: 'backup-image',
+    label: 'Backup image',
+    passed: size <= spec.maxBackupImageKb * 1024,
+    message: `${formatKb(size)} of ${spec.maxBackupImageKb} KB allowed by ${spec.name}`
+  }];
+
+  return {
+    bannerName: fileName,
+    platform,
+    platformName: spec.name,
+    zipSize: size,
+    fileCount: 1,
+    passed: checks[0].passed,
+    checks,
+    degradations
+  };
+}
+
+/**
+ * Check the project against the spec of the platform it is about to be
+ * exported for: its ad sizes, banner link, animation length and the
+ * external files it will load besides the platform's own.
+ */
+export function lintBannerProject(project: {
+  platform: AdPlatform;
+  sizes: Array<{ name: string; width: number; height: number }>;
+  bannerLink: string;
+  playback?: BannerPlayback;
+  externalUrls?: string[];
+}): BundleCheck[] {
+  const spec = getAdPlatformSpec(project.platform);
+  const checks: BundleCheck[] = [];
+
+  if (spec.sizes) {
+    const unsupported = project.sizes.filter(size => !spec.sizes!.includes(`${size.width}x${size.height}`));
+    checks.push({
+      id: 'ad-size',
+      label: 'Ad sizes',
+      passed: unsupported.length === 0,
+      message: unsupported.length === 0
+        ? `${project.sizes.map(size => `${size.width}x${size.height}`).join(', ')} accepted by ${spec.name}`
+        : `Not accepted by ${spec.name}: ${unsupported.map(size => `${size.name} (${size.width}x${size.height})`).join(', ')}`
+    });
+  }
+
+  const linkHost = /^https?:\/\//.test(project.bannerLink.trim()) ? getUrlHost(project.bannerLink.trim()) : null;
+  checks.push({
+    id: 'banner-link',
+    label: 'Banner link',
+    passed: Boolean(linkHost),
+    message: linkHost
+      ? spec.clickTagVariable ? `Default ${spec.clickTagVariable} is ${project.bannerLink.trim()}` : `Opens ${project.bannerLink.trim()}`
+      : 'The banner link has to be an http or https URL'
+  });
+
+  if (project.playback) {
+    checks.push({
+      id: 'animation-length',
+      label: 'Animation length',
+      passed: !project.playback.capped,
+      message: `${describePlayback(project.playback)}; ${spec.name} allows ${spec.maxAnimationSeconds}s${spec.maxLoops === null ? '' : ` and ${spec.maxLoops} plays`}`
+    });
+  }
+
+  checks.push(checkExternalUrls(project.externalUrls || [], spec));
+
+  return checks;
+}
@@ -0,0 +1,592 @@
+/**
+ * AMPHTML Ads
+ *
+ * Writes a banner as an AMPHTML ad (`<html ⚡4ads>`), the format Google Ad
+ * Manager serves without a sandboxed iframe. AMP ads can't run custom
+ * scripts, so the timeline is compiled to CSS @keyframes, sampled from the
+ * animation sampler, and played by `amp-animation` once the ad is visible.
+ * Images become `amp-img` elements and the click-through is a plain link
+ * under the layers; click zones are links of their own.
+ *
+ * The validator checks the AMP4ADS rules an exported document has to meet:
+ * the runtime and boilerplate, no custom JavaScript, inline CSS only and
+ * animations limited to the properties AMP can run on the GPU.
+ */
+
+import type { AnimationLayer } from '../types/animation';
+import type { RenderedBannerAssets, RenderedLayerAsset } from '../lib/figmaPlugin';
+import {
+  getAnimationMotion,
+  getAnimationStart,
+  getMotionMatrix,
+  getSortedAnimations,
+  getTimelineDuration,
+  LayerMotionState,
+  sampleLayerState
+} from './animationSampler';
+import {
+  BannerLayerPlan,
+  createElementId,
+  escapeHtml,
+  getTextPartId,
+  minifyCss,
+  px,
+  renderSplitText,
+  SPLIT_TEXT_RULES
+} from './html5Bundle';
+import { getTextPartLayers, splitLayerText } from './textSplit';
+import { ZipFiles } from './zipUtils';
+import type { BannerClickZone } from './clickZones';
+
+/**
+ * Options of an AMPHTML ad
+ */
+export interface AmpBannerOptions {
+  width: number;
+  height: number;
+  imageDir: string;
+  bannerLink: string;
+  addBorder?: boolean;
+  borderColor?: string;
+  plays?: number; // Times the timeline plays; AMP ads always stop on its last frame
+  clickZones?: BannerClickZone[];
+  minify?: boolean;
+}
+
+// Runtime and extension scripts, the only scripts an AMP ad may load
+export const AMP4ADS_RUNTIME_URL = 'https://cdn.ampproject.org/amp4ads-v0.js';
+const AMP_EXTENSION_URL = /^https:\/\/cdn\.ampproject\.org\/v0\/(amp-[a-z0-9-]+)-0\.1\.js$/;
+
+// Extensions AMP allows in ads
+const AMP4ADS_EXTENSIONS = [
+  'amp-accordion', 'amp-ad-exit', 'amp-analytics', 'amp-anim', 'amp-animation',
+  'amp-audio', 'amp-bind', 'amp-carousel', 'amp-fit-text', 'amp-font', 'amp-form',
+  'amp-gwd-animation', 'amp-img', 'amp-layout', 'amp-lightbox', 'amp-mraid',
+  'amp-mustache', 'amp-pixel', 'amp-position-observer', 'amp-selector',
+  'amp-social-share', 'amp-video'
+];
+
+// Tags AMP replaces with its own components or doesn't allow at all
+const FORBIDDEN_TAGS = ['img', 'video', 'audio', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'param', 'base'];
+
+// The only properties AMP ads may animate or transition
+const ANIMATABLE_PROPERTIES = ['opacity', 'transform', 'visibility', 'offset-distance'];
+
+// Limit of the amp-custom stylesheet
+const MAX_CUSTOM_CSS_BYTES = 75000;
+
+// Samples per second of the compiled keyframes, before redundant ones are
+// dropped; fine enough to catch the turns of bounce and elastic easing
+const SAMPLE_RATE = 240;
+
+// Largest difference from the sampled motion a dropped keyframe may cause
+const TOLERANCES = { opacity: 0.005, translate: 0.25, rotate: 0.25, scale: 0.002 };
+
+// CSS values of a layer at a point in time, around a fixed transform origin
+interface CssMotionValues {
+  opacity: number;
+  x: number;
+  y: number;
+  rotate: number;
+  rotateDiagonal: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+// Round a number for CSS output
+function round(value: number, decimals = 3): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor || 0;
+}
+
+// Express a motion state around a fixed transform origin. A later animation
+// can turn around another origin; the translation makes up the difference.
+function toCssValues(
+  state: LayerMotionState,
+  origin: [number, number],
+  box: { width: number; height: number }
+): CssMotionValues {
+  const [a, b, c, d] = getMotionMatrix({ ...state, x: 0, y: 0, originX: 0, originY: 0 }, { x: 0, y: 0, width: 1, height: 1 });
+  const dx = (state.originX - origin[0]) * box.width;
+  const dy = (state.originY - origin[1]) * box.height;
+
+  return {
+    opacity: state.opacity,
+    x: state.x + dx - (a * dx + c * dy),
+    y: state.y + dy - (b * dx + d * dy),
+    rotate: state.rotate,
+    rotateDiagonal: state.rotateDiagonal,
+    scaleX: state.scaleX,
+    scaleY: state.scaleY
+  };
+}
+
+// Whether interpolating between two samples stays close to the ones in between
+function isLinearSpan(samples: { time: number; values: CssMotionValues }[], from: number, to: number): boolean {
+  const start = samples[from];
+  const end = samples[to];
+
+  for (let index = from + 1; index < to; index++) {
+    const sample = samples[index];
+    const progress = (sample.time - start.time) / (end.time - start.time);
+    const off = (key: keyof CssMotionValues) =>
+      Math.abs(start.values[key] + (end.values[key] - start.values[key]) * progress - sample.values[key]);
+
+    if (
+      off('opacity') > TOLERANCES.opacity ||
+      off('x') > TOLERANCES.translate || off('y') > TOLERANCES.translate ||
+      off('rotate') > TOLERANCES.rotate || off('rotateDiagonal') > TOLERANCES.rotate ||
+      off('scaleX') > TOLERANCES.scale || off('scaleY') > TOLERANCES.scale
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Times the motion of a layer can change abruptly or change direction
+function getMotionBoundaries(layer: AnimationLayer): number[] {
+  const times: number[] = [];
+  getSortedAnimations(layer).forEach(animation => {
+    const start = getAnimationStart(animation);
+    const duration = Math.max(0, animation.duration || 0);
+    const motion = getAnimationMotion(animation);
+    (motion ? motion.stops : [{ offset: 0 }, { offset: 1 }]).forEach(stop => times.push(start + stop.offset * duration));
+  });
+  (layer.keyframes || []).forEach(keyframe => times.push(keyframe.time));
+  return times;
+}
+
+// Sample a layer's motion over the timeline into as few keyframes as follow
+// it within a fraction of a pixel or degree. Jumps become two keyframes 1ms apart.
+function sampleCssKeyframes(
+  layer: AnimationLayer,
+  duration: number,
+  origin: [number, number],
+  box: { width: number; height: number }
+): { time: number; values: CssMotionValues }[] {
+  const times = new Set<number>([0, duration]);
+  for (let index = 1; index < duration * SAMPLE_RATE; index++) {
+    times.add(index / SAMPLE_RATE);
+  }
+  getMotionBoundaries(layer)
+    .filter(time => time > 0 && time <= duration)
+    .forEach(time => {
+      times.add(time);
+      times.add(Math.max(0, time - 0.001));
+    });
+
+  const samples = Array.from(times)
+    .map(time => round(time, 6))
+    .sort((a, b) => a - b)
+    .filter((time, index, sorted) => index === 0 || time !== sorted[index - 1])
+    .map(time => ({ time, values: toCssValues(sampleLayerState(layer, time), origin, box) }));
+
+  // Keep a sample only where skipping it would bend the motion
+  const kept = [samples[0]];
+  let anchor = 0;
+  for (let index = 2; index < samples.length; index++) {
+    if (!isLinearSpan(samples, anchor, index)) {
+      anchor = index - 1;
+      kept.push(samples[anchor]);
+    }
+  }
+  if (samples.length > 1) kept.push(samples[samples.length - 1]);
+  return kept;
+}
+
+// CSS transform of motion values; animated layers always use the full list
+// so every keyframe interpolates function by function
+function getCssTransform(values: CssMotionValues, full: boolean): string {
+  const parts: string[] = [];
+  if (full || values.x || values.y) parts.push(`translate(${px(values.x)}, ${px(values.y)})`);
+  if (full || values.rotate) parts.push(`rotate(${round(values.rotate)}deg)`);
+  if (full || values.rotateDiagonal) parts.push(`rotate3d(1, 1, 0, ${round(values.rotateDiagonal)}deg)`);
+  if (full || values.scaleX !== 1 || values.scaleY !== 1) parts.push(`scale(${round(values.scaleX, 4)}, ${round(values.scaleY, 4)})`);
+  return parts.join(' ') || 'none';
+}
+
+// Whether any value of a layer changes over the timeline
+function hasMotion(samples: { values: CssMotionValues }[]): boolean {
+  const first = samples[0].values;
+  return samples.some(sample => (Object.keys(first) as (keyof CssMotionValues)[])
+    .some(key => Math.abs(sample.values[key] - first[key]) > 1e-6));
+}
+
+/**
+ * Build the index.html and images of an AMPHTML ad
+ */
+export function buildAmpBanner(
+  plan: BannerLayerPlan[],
+  assets: RenderedBannerAssets,
+  options: AmpBannerOptions
+): ZipFiles {
+  const { width, height } = options;
+  const assetsById = new Map<string, RenderedLayerAsset>(assets.layers.map(asset => [asset.id, asset]));
+  const usedAssetIds = new Set<string>();
+  const usedElementIds = new Set(['ad', 'motion']);
+  const files: ZipFiles = {};
+  const cssRules: string[] = [];
+  const keyframeRules: string[] = [];
+  const animations: { selector: string; keyframes: string }[] = [];
+  const duration = getTimelineDuration(plan.map(node => node.layer));
+  const zonesById = new Map((options.clickZones || []).map(zone => [zone.elementId, zone]));
+
+  // Banner box and background
+  const adRules = [
+    'position: relative;',
+    `width: ${px(width)};`,
+    `height: ${px(height)};`,
+    'overflow: hidden;',
+    `background-color: ${assets.frame.background || 'white'};`
+  ];
+  if (assets.frame.backgroundBytes) {
+    const backgroundPath = `${options.imageDir}/frame-background.${assets.frame.backgroundFormat || 'png'}`;
+    files[backgroundPath] = assets.frame.backgroundBytes;
+    adRules.push(`background-image: url("${backgroundPath}");`, 'background-size: 100% 100%;');
+  }
+  if (options.addBorder) {
+    adRules.push(`border: 1px solid ${options.borderColor || '#000000'};`);
+  }
+  cssRules.push(
+    '* {\n  margin: 0;\n  padding: 0;\n  box-sizing: border-box;\n}',
+    `#ad {\n  ${adRules.join('\n  ')}\n}`,
+    // Clicks pass through the layers to the banner link, except on zones
+    '.layer {\n  position: absolute;\n  pointer-events: none;\n}',
+    'a.layer {\n  pointer-events: auto;\n}',
+    '.click-area {\n  position: absolute;\n  left: 0;\n  top: 0;\n  width: 100%;\n  height: 100%;\n}'
+  );
+  let hasSplitText = false;
+
+  // Sample the motion of a layer into keyframes for its element. The element
+  // starts where the timeline starts, so nothing jumps when amp-animation
+  // takes over.
+  const addMotion = (layer: AnimationLayer, elementId: string, box: { width: number; height: number }, rules: string[]) => {
+    if (duration <= 0) return;
+    const initial = sampleLayerState(layer, 0);
+    const origin: [number, number] = [initial.originX, initial.originY];
+    const samples = sampleCssKeyframes(layer, duration, origin, box);
+    const animated = hasMotion(samples);
+
+    rules.push(
+      `transform-origin: ${round(origin[0] * 100)}% ${round(origin[1] * 100)}%;`,
+      `opacity: ${round(samples[0].values.opacity)};`,
+      `transform: ${getCssTransform(samples[0].values, animated)};`
+    );
+
+    if (animated) {
+      const name = `${elementId}-motion`;
+      const frames = samples.map(sample => [
+        `  ${round((sample.time / duration) * 100)}% {`,
+        `    opacity: ${round(sample.values.opacity)};`,
+        `    transform: ${getCssTransform(sample.values, true)};`,
+        '  }'
+      ].join('\n'));
+      keyframeRules.push(`@keyframes ${name} {\n${frames.join('\n')}\n}`);
+      animations.push({ selector: `#${elementId}`, keyframes: name });
+    }
+  };
+
+  const renderElement = (
+    elementId: string,
+    asset: RenderedLayerAsset,
+    layer: AnimationLayer | null,
+    parent: { x: number; y: number },
+    renderChildren: () => string,
+    indent: string
+  ): string => {
+    usedAssetIds.add(asset.id);
+    usedElementIds.add(elementId);
+
+    const rules = [
+      `left: ${px(asset.x - parent.x)};`,
+      `top: ${px(asset.y - parent.y)};`,
+      `width: ${px(asset.width)};`,
+      `height: ${px(asset.height)};`
+    ];
+
+    if (layer) addMotion(layer, elementId, asset, rules);
+
+    // Click zones are links of their own
+    const zone = zonesById.get(elementId);
+    const link = zone ? ` href="${escapeHtml(zone.url)}" target="_blank" aria-label="${escapeHtml(zone.name)}"` : '';
+
+    if (asset.text) {
+      const text = asset.text;
+      rules.push(
+        `font-family: "${text.fontFamily}", sans-serif;`,
+        `font-size: ${px(text.fontSize)};`,
+        `font-weight: ${text.fontWeight};`,
+        `font-style: ${text.fontStyle};`,
+        `color: ${text.color};`,
+        `text-align: ${text.textAlign === 'justified' ? 'justify' : text.textAlign};`,
+        `white-space: pre-wrap;`
+      );
+      if (text.lineHeight) rules.push(`line-height: ${px(text.lineHeight)};`);
+      cssRules.push(`#${elementId} {\n  ${rules.join('\n  ')}\n}`);
+
+      // Text animations play on the parts of the text, as in the HTML5 bundle
+      const split = layer ? splitLayerText(layer, text.characters) : null;
+      if (split) {
+        if (!hasSplitText) {
+          hasSplitText = true;
+          cssRules.push(...SPLIT_TEXT_RULES);
+        }
+
+        const partLayers = getTextPartLayers(layer!, split, text.lineHeight || text.fontSize * 1.2);
+        split.units.forEach(unit => partLayers[unit]!.forEach((partLayer, index) => {
+          const partId = getTextPartId(elementId, unit, index);
+          const partRules: string[] = [];
+          usedElementIds.add(partId);
+          addMotion(partLayer, partId, { width: 0, height: 0 }, partRules);
+          if (partRules.length > 0) cssRules.push(`#${partId} {\n  ${partRules.join('\n  ')}\n}`);
+        }));
+      }
+
+      const tag = zone ? 'a' : 'p';
+      const content = split ? renderSplitText(split, elementId) : escapeHtml(text.characters);
+      return `${indent}<${tag} class="layer" id="${elementId}"${link}>${content}</${tag}>`;
+    }
+
+    cssRules.push(`#${elementId} {\n  ${rules.join('\n  ')}\n}`);
+    let inner = renderChildren();
+
+    if (asset.bytes && asset.format) {
+      const imagePath = `${options.imageDir}/${elementId}.${asset.format}`;
+      files[imagePath] = asset.bytes;
+      inner = `\n${indent}  <amp-img src="${imagePath}" layout="fill" alt="${escapeHtml(asset.name)}"></amp-img>${inner}`;
+    }
+
+    const closingIndent = inner ? `\n${indent}` : '';
+    const tag = zone ? 'a' : 'div';
+    return `${indent}<${tag} class="layer" id="${elementId}"${link}>${inner}${closingIndent}</${tag}>`;
+  };
+
+  const renderPlan = (nodes: BannerLayerPlan[], parent: { x: number; y: number }, indent: string): string[] =>
+    nodes.flatMap(node => {
+      const asset = assetsById.get(node.layer.id);
+      if (!asset) return node.children ? renderPlan(node.children, parent, indent) : [];
+
+      const renderChildren = () => {
+        const children = node.children ? renderPlan(node.children, asset, `${indent}  `) : [];
+        return children.length ? `\n${children.join('\n')}` : '';
+      };
+      return [renderElement(node.elementId, asset, node.layer, parent, renderChildren, indent)];
+    });
+
+  const elements = renderPlan(plan, { x: 0, y: 0 }, '    ');
+
+  // Layers the plugin exported on its own stay static, as in the HTML5 bundle
+  assets.layers
+    .filter(asset => !usedAssetIds.has(asset.id) && (asset.bytes || asset.text))
+    .forEach(asset => {
+      elements.push(renderElement(createElementId(asset.name, usedElementIds), asset, null, { x: 0, y: 0 }, () => '', '    '));
+    });
+
+  const css = cssRules.join('\n\n');
+  const keyframesCss = keyframeRules.join('\n\n');
+  const motion = {
+    duration: Math.round(duration * 1000),
+    fill: 'both',
+    iterations: options.plays || 1,
+    animations
+  };
+
+  files['index.html'] = `<!doctype html>
+<html ⚡4ads lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width,minimum-scale=1,initial-scale=1">
+  <meta name="ad.size" content="width=${width},height=${height}">
+  <title>AMPHTML Ad ${width}x${height}</title>
+  <script async src="${AMP4ADS_RUNTIME_URL}"></script>${animations.length ? `
+  <script async custom-element="amp-animation" src="https://cdn.ampproject.org/v0/amp-animation-0.1.js"></script>` : ''}
+  <style amp4ads-boilerplate>body{visibility:hidden}</style>
+  <style amp-custom>
+${options.minify ? minifyCss(css) : css}
+  </style>
+</head>
+<body>
+  <div id="ad">
+    <a class="click-area" href="${escapeHtml(options.bannerLink)}" target="_blank" aria-label="Open advertiser site"></a>
+${elements.join('\n')}
+  </div>${animations.length ? `
+  <amp-animation id="motion" layout="nodisplay" trigger="visibility">
+    <script type="application/json">${JSON.stringify(motion)}</script>
+  </amp-animation>
+  <style amp-keyframes>
+${options.minify ? minifyCss(keyframesCss) : keyframesCss}
+  </style>` : ''}
+</body>
+</html>
+`;
+
+  return files;
+}
+
+// Properties set by the declaration blocks of a stylesheet
+function getDeclaredProperties(css: string): string[] {
+  return Array.from(css.matchAll(/(?:^|[{;])\s*([a-z-]+)\s*:/gi)).map(match => match[1].toLowerCase());
+}
+
+// The body of every @keyframes rule in a stylesheet
+function getKeyframesBlocks(css: string): { name: string; body: string }[] {
+  const blocks: { name: string; body: string }[] = [];
+  const pattern = /@(?:-webkit-)?keyframes\s+([\w-]+)\s*\{/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(css))) {
+    let depth = 1;
+    let end = pattern.lastIndex;
+    while (end < css.length && depth > 0) {
+      if (css[end] === '{') depth++;
+      if (css[end] === '}') depth--;
+      end++;
+    }
+    blocks.push({ name: match[1], body: css.slice(pattern.lastIndex, end - 1) });
+    pattern.lastIndex = end;
+  }
+  return blocks;
+}
+
+// Check a stylesheet against the AMP4ADS CSS rules
+function validateAmpCss(css: string, label: string, errors: string[]): void {
+  if (/!important/i.test(css)) errors.push(`${label} uses !important`);
+  if (/@import/i.test(css)) errors.push(`${label} uses @import`);
+  if (/\bi-amphtml-/.test(css)) errors.push(`${label} targets i-amphtml- classes, which are reserved for AMP`);
+  if (/position\s*:\s*(fixed|sticky)/i.test(css)) errors.push(`${label} uses fixed or sticky positioning`);
+
+  Array.from(css.matchAll(/transition(?:-property)?\s*:\s*([^;}]+)/gi)).forEach(match => {
+    match[1].split(',')
+      .map(part => part.trim().split(/\s+/)[0])
+      .filter(property => !ANIMATABLE_PROPERTIES.includes(property) && property !== 'none')
+      .forEach(property => errors.push(`${label} transitions ${property}; only ${ANIMATABLE_PROPERTIES.join(', ')} may change`));
+  });
+
+  getKeyframesBlocks(css).forEach(block => {
+    getDeclaredProperties(block.body)
+      .filter(property => !ANIMATABLE_PROPERTIES.includes(property) && property !== 'animation-timing-function')
+      .forEach(property => errors.push(`@keyframes ${block.name} animates ${property}; only ${ANIMATABLE_PROPERTIES.join(', ')} may change`));
+  });
+}
+
+/**
+ * Check an AMPHTML ad against the AMP4ADS rules.
+ * Returns what breaks them; an empty list means the document is valid.
+ */
+export function validateAmp4AdsDocument(html: string): string[] {
+  const errors: string[] = [];
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const { head, body } = doc;
+
+  // Document format
+  if (!/^\s*<!doctype html>/i.test(html)) errors.push('The document must start with <!doctype html>');
+  if (!doc.documentElement.hasAttribute('⚡4ads') && !doc.documentElement.hasAttribute('amp4ads')) {
+    errors.push('The <html> tag needs the ⚡4ads attribute');
+  }
+  if (!head.querySelector('meta[charset="utf-8" i]')) errors.push('<meta charset="utf-8"> is missing');
+  if (head.querySelector('link[rel~="canonical" i]')) errors.push('AMP ads must not have a canonical link');
+
+  const boilerplate = head.querySelector('style[amp4ads-boilerplate]');
+  if (!boilerplate || boilerplate.textContent?.replace(/\s/g, '') !== 'body{visibility:hidden}') {
+    errors.push('<style amp4ads-boilerplate>body{visibility:hidden}</style> is missing');
+  }
+
+  // Scripts: the runtime, allowed extensions and JSON configuration only
+  const declaredExtensions = new Set<string>();
+  let hasRuntime = false;
+  Array.from(doc.querySelectorAll('script')).forEach(script => {
+    const src = script.getAttribute('src') || '';
+    const extension = script.getAttribute('custom-element') || script.getAttribute('custom-template');
+
+    if (src === AMP4ADS_RUNTIME_URL && script.hasAttribute('async')) {
+      hasRuntime = true;
+    } else if (extension) {
+      const match = src.match(AMP_EXTENSION_URL);
+      if (!match || match[1] !== extension || !script.hasAttribute('async')) {
+        errors.push(`The ${extension} script must load asynchronously from the AMP CDN`);
+      } else if (!AMP4ADS_EXTENSIONS.includes(extension)) {
+        errors.push(`${extension} is not allowed in AMP ads`);
+      }
+      declaredExtensions.add(extension);
+    } else if (script.getAttribute('type') === 'application/json' && script.parentElement?.tagName.startsWith('AMP-')) {
+      // Configuration of an AMP component
+    } else {
+      errors.push(`Custom JavaScript is not allowed${src ? `: ${src}` : ''}`);
+    }
+  });
+  if (!hasRuntime) errors.push(`The AMP4ADS runtime (${AMP4ADS_RUNTIME_URL}) must be loaded with async`);
+
+  // Elements
+  Array.from(doc.querySelectorAll('*')).forEach(element => {
+    const tag = element.tagName.toLowerCase();
+    if (FORBIDDEN_TAGS.includes(tag)) errors.push(`<${tag}> is not allowed; use the AMP component instead`);
+    if (tag === 'link' && /stylesheet/i.test(element.getAttribute('rel') || '')) {
+      errors.push('External stylesheets are not allowed; styles go in <style amp-custom>');
+    }
+    if (tag.startsWith('amp-') && tag !== 'amp-img' && tag !== 'amp-layout' && tag !== 'amp-pixel' && !declaredExtensions.has(tag)) {
+      errors.push(`<${tag}> is used without loading its extension script`);
+    }
+    if (tag === 'amp-img' && element.getAttribute('layout') !== 'fill' && !(element.hasAttribute('width') && element.hasAttribute('height'))) {
+      errors.push('<amp-img> needs width and height or layout="fill"');
+    }
+    Array.from(element.attributes)
+      .filter(attribute => /^on./i.test(attribute.name))
+      .forEach(attribute => errors.push(`Inline event handlers such as ${attribute.name} are not allowed`));
+    if (/^\s*javascript:/i.test(element.getAttribute('href') || '')) {
+      errors.push('javascript: links are not allowed');
+    }
+  });
+
+  // Stylesheets
+  const customStyles = Array.from(doc.querySelectorAll('style[amp-custom]'));
+  if (customStyles.length > 1) errors.push('Only one <style amp-custom> is allowed');
+  customStyles.forEach(style => {
+    if (style.parentElement !== head) errors.push('<style amp-custom> must be in the <head>');
+    const css = style.textContent || '';
+    const size = new TextEncoder().encode(css).length;
+    if (size > MAX_CUSTOM_CSS_BYTES) errors.push(`<style amp-custom> is ${size} bytes; AMP allows ${MAX_CUSTOM_CSS_BYTES}`);
+    validateAmpCss(css, '<style amp-custom>', errors);
+  });
+
+  const keyframeStyles = Array.from(doc.querySelectorAll('style[amp-keyframes]'));
+  keyframeStyles.forEach(style => {
+    if (style !== body.lastElementChild) errors.push('<style amp-keyframes> must be the last element of the <body>');
+    const css = style.textContent || '';
+    if (css.replace(/@(?:-webkit-)?keyframes\s+[\w-]+\s*\{(?:[^{}]*\{[^{}]*\})*[^{}]*\}/g, '').trim()) {
+      errors.push('<style amp-keyframes> may only contain @keyframes rules');
+    }
+    validateAmpCss(css, '<style amp-keyframes>', errors);
+  });
+
+  Array.from(doc.querySelectorAll('style:not([amp-custom]):not([amp-keyframes]):not([amp4ads-boilerplate])'))
+    .forEach(() => errors.push('Styles must be in <style amp-custom> or <style amp-keyframes>'));
+  Array.from(doc.querySelectorAll('[style]'))
+    .forEach(element => validateAmpCss(element.getAttribute('style') || '', `The style of <${element.tagName.toLowerCase()}>`, errors));
+
+  // Animations must target elements and keyframes the document has
+  const keyframeNames = new Set(
+    [...customStyles, ...keyframeStyles].flatMap(style => getKeyframesBlocks(style.textContent || '').map(block => block.name))
+  );
+  Array.from(doc.querySelectorAll('amp-animation > script[type="application/json"]')).forEach(script => {
+    let spec: any;
+    try {
+      spec = JSON.parse(script.textContent || '');
+    } catch (error) {
+      errors.push('The amp-animation configuration is not valid JSON');
+      return;
+    }
+
+    const entries: any[] = Array.isArray(spec.animations) ? spec.animations : [spec];
+    entries.forEach(entry => {
+      if (entry.selector && !doc.querySelector(entry.selector)) {
+        errors.push(`amp-animation targets ${entry.selector}, which is not in the document`);
+      }
+      if (typeof entry.keyframes === 'string' && !keyframeNames.has(entry.keyframes)) {
+        errors.push(`amp-animation plays @keyframes ${entry.keyframes}, which is not defined`);
+      }
+    });
+  });
+
+  return errors;
+}
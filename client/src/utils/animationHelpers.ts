@@ -1,24 +1,12 @@
 import { gsap } from 'gsap';
 import { AnimationType, EasingType } from '../types/animation';
+import { evaluateEasing, getGsapEase } from './easing';
 
-// Convert easing type to GSAP easing
-export function getGsapEasing(easing: EasingType): string {
-  switch (easing) {
-    case EasingType.Linear:
-      return 'none';
-    case EasingType.EaseIn:
-      return 'power2.in';
-    case EasingType.EaseOut:
-      return 'power2.out';
-    case EasingType.EaseInOut:
-      return 'power2.inOut';
-    case EasingType.Bounce:
-      return 'bounce.out';
-    case EasingType.Custom:
-      return 'power2.out'; // Default for custom
-    default:
-      return 'power2.out';
-  }
+// Convert an easing to a GSAP ease. Curves GSAP has no ease for are passed
+// as functions evaluated by the easing registry.
+export function getGsapEasing(easing: string): string | ((t: number) => number) {
+  const { ease, script } = getGsapEase(easing);
+  return script ? (t: number) => evaluateEasing(easing, t) : ease;
 }
 
 // Create a GSAP timeline for an animation
@@ -0,0 +1,542 @@
+/**
+ * Animation Sampler
+ *
+ * Describes the motion of every AnimationType as keyframe stops and samples a
+ * layer's opacity, transform, blur and color at any point of the timeline.
+ * The preview and the exporters that rasterize or compile the timeline use
+ * this so they all agree on what an animation looks like.
+ *
+ * Animations fill both ways: before an animation starts the layer shows its
+ * first stop, after it ends the last stop is held. Exit animations play the
+ * motion of their type in reverse, so a fade in set to exit fades out.
+ * Motion path animations move the layer along an SVG path with their
+ * easing applied to the whole path, optionally turning it to the direction
+ * of travel.
+ * Layer keyframes set absolute values and win over animations for the
+ * properties they key. Each keyframe's easing shapes the change of every
+ * property it keys towards that property's next keyframe.
+ */
+
+import { Animation, AnimationLayer, AnimationMode, AnimationType, Keyframe } from '../types/animation';
+import { evaluateEasing } from './easing';
+import { getMotionPathGeometry, getMotionPathPoint } from './motionPath';
+
+/**
+ * Opacity, transform, blur and color of a layer at a point in time
+ */
+export interface LayerMotionState {
+  opacity: number;
+  x: number; // Offset in px
+  y: number;
+  scaleX: number;
+  scaleY: number;
+  rotate: number; // Degrees
+  rotateDiagonal: number; // Degrees around the (1, 1, 0) axis, as in rotate3d()
+  blur: number; // Radius in px
+  originX: number; // Transform origin as a fraction of the layer box
+  originY: number;
+  color: string | null; // Keyed text color; null keeps the layer's own
+}
+
+// The numeric properties a motion can animate
+export type MotionProps = Partial<Omit<LayerMotionState, 'originX' | 'originY' | 'color'>>;
+
+/**
+ * A stop of a motion, at an offset (0-1) of the animation
+ */
+export interface MotionStop {
+  offset: number;
+  props: MotionProps;
+}
+
+/**
+ * A path a motion follows
+ */
+export interface MotionPathDefinition {
+  data: string; // SVG path data in px from where the layer rests
+  start: number; // Fraction (0-1) of the path's length the motion starts at
+  end: number;
+  autoRotate: boolean; // Turns the layer to the direction of travel
+}
+
+/**
+ * The motion of an animation type
+ */
+export interface MotionDefinition {
+  stops: MotionStop[];
+  origin: [number, number];
+  stepped?: boolean; // Jumps to the last stop as soon as it starts
+  path?: MotionPathDefinition; // Followed instead of the stops, which hold its ends
+}
+
+/**
+ * A keyed value of a motion property. The easing shapes the change towards
+ * the next keyframe.
+ */
+export interface PropertyKeyframe {
+  time: number; // Seconds
+  value: number;
+  easing?: string;
+}
+
+// Keyframed values per motion property, in time order
+export type KeyframeTracks = Partial<Record<keyof MotionProps, PropertyKeyframe[]>>;
+
+/**
+ * A keyed color of a layer, as a hex color
+ */
+export interface ColorKeyframe {
+  time: number; // Seconds
+  value: string;
+  easing?: string;
+}
+
+export const IDENTITY_MOTION_STATE: LayerMotionState = {
+  opacity: 1,
+  x: 0,
+  y: 0,
+  scaleX: 1,
+  scaleY: 1,
+  rotate: 0,
+  rotateDiagonal: 0,
+  blur: 0,
+  originX: 0.5,
+  originY: 0.5,
+  color: null
+};
+
+const MOTION_PROPS: (keyof MotionProps)[] = ['opacity', 'x', 'y', 'scaleX', 'scaleY', 'rotate', 'rotateDiagonal', 'blur'];
+
+// Transform origins used by the animation type suffixes
+const ORIGINS: Record<string, [number, number]> = {
+  center: [0.5, 0.5],
+  top: [0.5, 0],
+  bottom: [0.5, 1],
+  left: [0, 0.5],
+  right: [1, 0.5],
+  tl: [0, 0],
+  tr: [1, 0],
+  bl: [0, 1],
+  br: [1, 1]
+};
+
+// Animation types that move a layer out of view on their own
+const OUT_TYPES: string[] = [
+  AnimationType.FadeOut,
+  AnimationType.SlideOut,
+  AnimationType.ScaleDown,
+  AnimationType.SimpleFadeOut,
+  AnimationType.InstantHide
+];
+
+// Keyframe property names that set several motion properties
+const KEYFRAME_ALIASES: Record<string, (keyof MotionProps)[]> = {
+  scale: ['scaleX', 'scaleY'],
+  rotation: ['rotate']
+};
+
+const DEFAULT_SLIDE_DISTANCE = 100; // px
+const DEFAULT_ROTATION = 360; // deg
+
+function fromTo(from: MotionProps, to: MotionProps, origin: [number, number] = ORIGINS.center): MotionDefinition {
+  return { stops: [{ offset: 0, props: from }, { offset: 1, props: to }], origin };
+}
+
+// Offset a slide starts from. The direction is the way the layer travels,
+// so a slide to the right enters from the left.
+function getSlideOffset(direction: string | undefined, distance: number): MotionProps {
+  switch (direction) {
+    case 'left':
+      return { x: distance, y: 0 };
+    case 'top':
+    case 'up':
+      return { x: 0, y: distance };
+    case 'bottom':
+    case 'down':
+      return { x: 0, y: -distance };
+    case 'right':
+    default:
+      return { x: -distance, y: 0 };
+  }
+}
+
+// Keep only the numeric motion properties of a custom animation
+function pickMotionProps(value: unknown): MotionProps {
+  const props: MotionProps = {};
+  if (!value || typeof value !== 'object') return props;
+
+  MOTION_PROPS.forEach(key => {
+    const prop = (value as Record<string, unknown>)[key];
+    if (typeof prop === 'number' && isFinite(prop)) props[key] = prop;
+  });
+  return props;
+}
+
+// A fraction (0-1) of a path's length, or the fallback
+function getPathFraction(value: unknown, fallback: number): number {
+  return typeof value === 'number' && isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+}
+
+// Position, and direction when auto-rotating, at a fraction along a path
+function samplePathProps(path: MotionPathDefinition, fraction: number): MotionProps {
+  const point = getMotionPathPoint(getMotionPathGeometry(path.data)!, fraction);
+  return path.autoRotate ? { x: point.x, y: point.y, rotate: point.angle } : { x: point.x, y: point.y };
+}
+
+// Motion of a motion path animation; none without a usable path
+function getPathMotion(customProps: Record<string, any>): MotionDefinition | null {
+  const data = typeof customProps.path === 'string' ? customProps.path : '';
+  if (!getMotionPathGeometry(data)) return null;
+
+  const path: MotionPathDefinition = {
+    data,
+    start: getPathFraction(customProps.startOffset, 0),
+    end: getPathFraction(customProps.endOffset, 1),
+    autoRotate: Boolean(customProps.autoRotate)
+  };
+  return { ...fromTo(samplePathProps(path, path.start), samplePathProps(path, path.end)), path };
+}
+
+// Motion of the scale-up-*/scale-down-* families
+function getScaleMotion(type: string): MotionDefinition | null {
+  const match = /^scale-(up|down)-(hor-|ver-)?(.+)$/.exec(type);
+  if (!match) return null;
+
+  const [, way, axis, position] = match;
+  const origin = ORIGINS[position] || ORIGINS.center;
+  const small = axis ? (way === 'up' ? 0.4 : 0.3) : 0.5;
+  const scaled: MotionProps = axis === 'hor-'
+    ? { scaleX: small }
+    : axis === 'ver-'
+      ? { scaleY: small }
+      : { scaleX: small, scaleY: small };
+  const full: MotionProps = axis === 'hor-'
+    ? { scaleX: 1 }
+    : axis === 'ver-'
+      ? { scaleY: 1 }
+      : { scaleX: 1, scaleY: 1 };
+
+  return way === 'up' ? fromTo(scaled, full, origin) : fromTo(full, scaled, origin);
+}
+
+/**
+ * Get the motion of an animation as authored, before exit reversal.
+ * Returns null for types without motion.
+ */
+export function getMotionDefinition(animation: Animation): MotionDefinition | null {
+  const customProps = animation.customProps || {};
+  const distance = typeof customProps.distance === 'number' ? customProps.distance : DEFAULT_SLIDE_DISTANCE;
+  const rotation = typeof customProps.rotation === 'number' ? customProps.rotation : DEFAULT_ROTATION;
+
+  switch (animation.type) {
+    case AnimationType.FadeIn:
+    case AnimationType.SimpleFadeIn:
+      return fromTo({ opacity: 0 }, { opacity: 1 });
+    case AnimationType.FadeOut:
+    case AnimationType.SimpleFadeOut:
+      return fromTo({ opacity: 1 }, { opacity: 0 });
+
+    case AnimationType.SlideIn:
+      return fromTo(
+        { ...getSlideOffset(animation.direction, distance), opacity: 0 },
+        { x: 0, y: 0, opacity: 1 }
+      );
+    case AnimationType.SlideOut: {
+      // Slides out the way it travels, the opposite of where a slide in comes from
+      const offset = getSlideOffset(animation.direction, distance);
+      return fromTo({ x: 0, y: 0, opacity: 1 }, { x: -offset.x!, y: -offset.y!, opacity: 0 });
+    }
+
+    case AnimationType.ScaleUp:
+      return fromTo({ scaleX: 0.5, scaleY: 0.5 }, { scaleX: 1, scaleY: 1 });
+    case AnimationType.ScaleDown:
+      return fromTo({ scaleX: 1, scaleY: 1 }, { scaleX: 0.5, scaleY: 0.5 });
+
+    case AnimationType.Rotate:
+    case AnimationType.RotateCenter:
+      return fromTo({ rotate: 0 }, { rotate: rotation });
+    case AnimationType.RotateBL:
+      return fromTo({ rotate: 0 }, { rotate: rotation }, ORIGINS.bl);
+    case AnimationType.RotateBottom:
+      return fromTo({ rotate: 0 }, { rotate: rotation }, ORIGINS.bottom);
+    case AnimationType.RotateBR:
+      return fromTo({ rotate: 0 }, { rotate: rotation }, ORIGINS.br);
+    case AnimationType.RotateDiagonal1:
+      return {
+        stops: [
+          { offset: 0, props: { rotateDiagonal: 0 } },
+          { offset: 0.5, props: { rotateDiagonal: -180 } },
+          { offset: 1, props: { rotateDiagonal: -360 } }
+        ],
+        origin: ORIGINS.center
+      };
+
+    case AnimationType.InstantShow:
+      return { ...fromTo({ opacity: 0 }, { opacity: 1 }), stepped: true };
+    case AnimationType.InstantHide:
+      return { ...fromTo({ opacity: 1 }, { opacity: 0 }), stepped: true };
+
+    case AnimationType.MotionPath:
+      return getPathMotion(customProps);
+
+    case AnimationType.Custom: {
+      const from = pickMotionProps(customProps.from);
+      const to = pickMotionProps(customProps.to);
+      if (Object.keys(from).length === 0 && Object.keys(to).length === 0) return null;
+      return fromTo(from, to);
+    }
+
+    default:
+      return typeof animation.type === 'string' ? getScaleMotion(animation.type) : null;
+  }
+}
+
+/**
+ * Whether an animation plays its motion in reverse.
+ * Exit animations reverse unless their type already moves the layer out.
+ */
+export function isReversedAnimation(animation: Animation): boolean {
+  if (animation.mode !== AnimationMode.Exit) return false;
+  return !OUT_TYPES.includes(animation.type) && !animation.type?.startsWith('scale-down-');
+}
+
+/**
+ * Get the motion an animation plays, with exit animations reversed
+ */
+export function getAnimationMotion(animation: Animation): MotionDefinition | null {
+  const motion = getMotionDefinition(animation);
+  if (!motion || !isReversedAnimation(animation)) return motion;
+
+  return {
+    ...motion,
+    stops: motion.stops
+      .map(stop => ({ offset: 1 - stop.offset, props: stop.props }))
+      .reverse(),
+    path: motion.path && { ...motion.path, start: motion.path.end, end: motion.path.start }
+  };
+}
+
+/**
+ * Get the time (seconds) an animation starts moving
+ */
+export function getAnimationStart(animation: Animation): number {
+  return (animation.startTime || 0) + (animation.delay || 0);
+}
+
+/**
+ * Get the time (seconds) an animation ends
+ */
+export function getAnimationEnd(animation: Animation): number {
+  return getAnimationStart(animation) + Math.max(0, animation.duration || 0);
+}
+
+/**
+ * Get a layer's animations in the order they start
+ */
+export function getSortedAnimations(layer: AnimationLayer): Animation[] {
+  return [...(layer.animations || [])].sort((a, b) => getAnimationStart(a) - getAnimationStart(b));
+}
+
+/**
+ * Sample a motion at a progress (0-1) of its animation.
+ * The easing applies to each segment between two stops, as in CSS, or to
+ * the whole way along a path.
+ */
+export function sampleMotion(motion: MotionDefinition, progress: number, easing?: string): MotionProps {
+  const { stops, path } = motion;
+  const t = Math.min(1, Math.max(0, progress));
+
+  if (path) return samplePathProps(path, path.start + (path.end - path.start) * evaluateEasing(easing, t));
+
+  let index = 0;
+  while (index < stops.length - 2 && t > stops[index + 1].offset) index++;
+
+  const from = stops[index];
+  const to = stops[Math.min(index + 1, stops.length - 1)];
+  const span = to.offset - from.offset;
+  const local = span > 0 ? (t - from.offset) / span : 1;
+  const eased = motion.stepped ? (local > 0 ? 1 : 0) : evaluateEasing(easing, local);
+
+  const props: MotionProps = {};
+  MOTION_PROPS.forEach(key => {
+    if (from.props[key] === undefined && to.props[key] === undefined) return;
+    const start = from.props[key] ?? IDENTITY_MOTION_STATE[key];
+    const end = to.props[key] ?? IDENTITY_MOTION_STATE[key];
+    props[key] = start + (end - start) * eased;
+  });
+  return props;
+}
+
+/**
+ * Get the easing of a keyframe. Older keyframes keep it among their properties.
+ */
+export function getKeyframeEasing(keyframe: Keyframe): string | undefined {
+  if (keyframe.easing) return keyframe.easing;
+  const easing = keyframe.properties?.easing;
+  return typeof easing === 'string' ? easing : undefined;
+}
+
+// Red, green and blue of a #rgb or #rrggbb color, or null for other values
+function parseHexColor(value: unknown): [number, number, number] | null {
+  if (typeof value !== 'string') return null;
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value.trim());
+  if (!match) return null;
+
+  const hex = match[1].length === 3 ? match[1].replace(/./g, digit => digit + digit) : match[1];
+  return [0, 2, 4].map(index => parseInt(hex.slice(index, index + 2), 16)) as [number, number, number];
+}
+
+// The keyframes a time falls between, and the eased progress from one to
+// the other. Before the first and after the last keyframe it is held.
+function getKeyframeSegment<T extends { time: number; easing?: string }>(
+  keyframes: T[],
+  time: number
+): { from: T; to: T; progress: number } {
+  let index = 0;
+  while (index < keyframes.length - 1 && keyframes[index + 1].time <= time) index++;
+
+  const from = keyframes[index];
+  const to = keyframes[index + 1];
+  if (!to || time <= from.time) return { from, to: from, progress: 0 };
+
+  return { from, to, progress: evaluateEasing(from.easing, (time - from.time) / (to.time - from.time)) };
+}
+
+/**
+ * Get the keyframed values of a layer per motion property.
+ * Keyframe properties use the motion property names, or scale and rotation
+ * as shorthands; a keyframe's easing eases towards the next one.
+ */
+export function getKeyframeTracks(layer: AnimationLayer): KeyframeTracks {
+  const tracks: KeyframeTracks = {};
+  const keyframes = [...(layer.keyframes || [])].sort((a, b) => a.time - b.time);
+
+  keyframes.forEach(keyframe => {
+    const properties = keyframe.properties || {};
+    const easing = getKeyframeEasing(keyframe);
+
+    Object.entries(properties).forEach(([name, value]) => {
+      if (typeof value !== 'number' || !isFinite(value)) return;
+      const props = KEYFRAME_ALIASES[name] || (MOTION_PROPS.includes(name as keyof MotionProps) ? [name as keyof MotionProps] : []);
+      props.forEach(prop => {
+        (tracks[prop] = tracks[prop] || []).push({ time: keyframe.time, value, easing });
+      });
+    });
+  });
+  return tracks;
+}
+
+/**
+ * Sample keyframed values at a time. The first and last values are held.
+ */
+export function sampleKeyframes(keyframes: PropertyKeyframe[], time: number): number {
+  const { from, to, progress } = getKeyframeSegment(keyframes, time);
+  return from.value + (to.value - from.value) * progress;
+}
+
+/**
+ * Get the keyed colors of a layer in time order. Keyframes with a color
+ * other than a hex color are left out.
+ */
+export function getColorKeyframes(layer: AnimationLayer): ColorKeyframe[] {
+  return [...(layer.keyframes || [])]
+    .sort((a, b) => a.time - b.time)
+    .filter(keyframe => parseHexColor(keyframe.properties?.color))
+    .map(keyframe => ({ time: keyframe.time, value: keyframe.properties.color!, easing: getKeyframeEasing(keyframe) }));
+}
+
+/**
+ * Sample keyed colors at a time as a hex color, mixing the channels of the
+ * colors on either side. The first and last colors are held.
+ */
+export function sampleColorKeyframes(keyframes: ColorKeyframe[], time: number): string {
+  const { from, to, progress } = getKeyframeSegment(keyframes, time);
+  const start = parseHexColor(from.value)!;
+  const end = parseHexColor(to.value)!;
+
+  return `#${start.map((channel, index) => {
+    const value = Math.round(channel + (end[index] - channel) * progress);
+    return Math.min(255, Math.max(0, value)).toString(16).padStart(2, '0');
+  }).join('')}`;
+}
+
+/**
+ * Sample the opacity, transform, blur and color of a layer at a time (seconds).
+ * Animations apply in the order they start; a later animation overrides the
+ * properties it animates and leaves the others where earlier ones put them.
+ */
+export function sampleLayerState(layer: AnimationLayer, time: number): LayerMotionState {
+  const state: LayerMotionState = { ...IDENTITY_MOTION_STATE };
+
+  getSortedAnimations(layer).forEach((animation, index) => {
+    const start = getAnimationStart(animation);
+    // Only the first animation fills backwards
+    if (time < start && index > 0) return;
+
+    const motion = getAnimationMotion(animation);
+    if (!motion) return;
+
+    const duration = Math.max(0, animation.duration || 0);
+    const progress = duration > 0 ? (time - start) / duration : time >= start ? 1 : 0;
+    Object.assign(state, sampleMotion(motion, progress, animation.easing));
+    [state.originX, state.originY] = motion.origin;
+  });
+
+  Object.entries(getKeyframeTracks(layer)).forEach(([prop, keyframes]) => {
+    state[prop as keyof MotionProps] = sampleKeyframes(keyframes!, time);
+  });
+
+  const colorKeyframes = getColorKeyframes(layer);
+  if (colorKeyframes.length > 0) state.color = sampleColorKeyframes(colorKeyframes, time);
+
+  return state;
+}
+
+/**
+ * Get the length (seconds) of the timeline of a layer tree: the time the
+ * last animation ends or the last keyframe is reached
+ */
+export function getTimelineDuration(layers: AnimationLayer[]): number {
+  return layers.reduce((duration, layer) => Math.max(
+    duration,
+    ...(layer.animations || []).map(getAnimationEnd),
+    ...(layer.keyframes || []).map(keyframe => keyframe.time),
+    getTimelineDuration(layer.children || [])
+  ), 0);
+}
+
+/**
+ * Get the 2D matrix [a, b, c, d, e, f] of a motion state for a layer box,
+ * composed as CSS does for translate() rotate() rotate3d() scale() around
+ * the transform origin. 3D rotation is projected flat, as without perspective.
+ */
+export function getMotionMatrix(
+  state: LayerMotionState,
+  box: { x: number; y: number; width: number; height: number }
+): [number, number, number, number, number, number] {
+  const multiply = (
+    m: number[],
+    n: number[]
+  ): [number, number, number, number, number, number] => [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5]
+  ];
+
+  const originX = box.x + box.width * state.originX;
+  const originY = box.y + box.height * state.originY;
+  const angle = (state.rotate * Math.PI) / 180;
+  const diagonalCos = Math.cos((state.rotateDiagonal * Math.PI) / 180);
+
+  let matrix = multiply([1, 0, 0, 1, originX + state.x, originY + state.y], [
+    Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0
+  ]);
+  matrix = multiply(matrix, [
+    (1 + diagonalCos) / 2, (1 - diagonalCos) / 2, (1 - diagonalCos) / 2, (1 + diagonalCos) / 2, 0, 0
+  ]);
+  matrix = multiply(matrix, [state.scaleX, 0, 0, state.scaleY, 0, 0]);
+  return multiply(matrix, [1, 0, 0, 1, -originX, -originY]);
+}
@@ -23,6 +23,8 @@ import {
   testBackgroundLayerHandling,
   runSpecialLayerTests
 } from './specialLayerTests';
+import { runEasingRoundTripTests } from './easingTest';
+import { runMotionPathRoundTripTests } from './motionPathTest';
 import { 
   syncLayersByName, 
   resetLayerLinkData, 
@@ -236,6 +238,20 @@ function createTestSuites(): TestSuite[] {
       ],
       results: [],
       allPassed: false
+    },
+    {
+      name: 'Export Round Trip',
+      description: 'Tests that the exports play what the preview shows',
+      tests: [
+        async () => runTestWithCapture('Easing Round Trip', () => {
+          runEasingRoundTripTests();
+        }),
+        async () => runTestWithCapture('Motion Path Round Trip', () => {
+          runMotionPathRoundTripTests();
+        })
+      ],
+      results: [],
+      allPassed: false
     }
   ];
 }
@@ -0,0 +1,107 @@
+/**
+ * Backup Images
+ *
+ * Static fallback images of a banner, served by ad servers where HTML5 can't
+ * run. The banner is composited at a time of its timeline (the end unless
+ * another time is chosen) and encoded as JPG, PNG or GIF within the byte
+ * limit of the target platform.
+ */
+
+import type { RenderedBannerAssets } from '../lib/figmaPlugin';
+import type { BannerLayerPlan } from './html5Bundle';
+import { getTimelineDuration } from './animationSampler';
+import { drawBannerAtTime, loadBannerAssets } from './bannerRenderer';
+import { encodeGif } from './gifEncoder';
+import { blobToBytes, canvasToBlob, createCanvas } from './rasterUtils';
+import { CompressionSpeed, getQualityLadder, recompressGif } from './sizeOptimizer';
+
+export type BackupImageFormat = 'jpg' | 'png' | 'gif';
+
+/**
+ * An encoded backup image
+ */
+export interface BackupImage {
+  bytes: Uint8Array;
+  format: BackupImageFormat;
+  time: number; // Seconds into the timeline the image shows
+  fits: boolean;
+  degradations: string[];
+}
+
+// JPEG quality used when the image fits without stepping down
+const DEFAULT_JPEG_QUALITY = 0.92;
+
+// Encode a JPEG, stepping the quality down until it fits
+async function encodeJpeg(
+  canvas: HTMLCanvasElement,
+  maxBytes: number,
+  speed?: CompressionSpeed
+): Promise<Omit<BackupImage, 'format' | 'time'>> {
+  const qualities = [DEFAULT_JPEG_QUALITY, ...getQualityLadder(speed)];
+  let best: { bytes: Uint8Array; quality: number } | null = null;
+
+  for (const quality of qualities) {
+    const bytes = await blobToBytes(await canvasToBlob(canvas, 'image/jpeg', quality));
+    if (!best || bytes.length < best.bytes.length) {
+      best = { bytes, quality };
+    }
+    if (bytes.length <= maxBytes) break;
+  }
+
+  const degradations = best!.quality < DEFAULT_JPEG_QUALITY
+    ? [`Saved the backup image at ${Math.round(best!.quality * 100)}% JPEG quality`]
+    : [];
+  return { bytes: best!.bytes, fits: best!.bytes.length <= maxBytes, degradations };
+}
+
+/**
+ * Render and encode the backup image of a banner.
+ * Backup images are always opaque; transparent areas are filled with white.
+ */
+export async function renderBackupImage(
+  plan: BannerLayerPlan[],
+  assets: RenderedBannerAssets,
+  options: {
+    width: number;
+    height: number;
+    format: BackupImageFormat;
+    time?: number;
+    maxBytes: number;
+    speed?: CompressionSpeed;
+  }
+): Promise<BackupImage> {
+  const time = options.time ?? getTimelineDuration(plan.map(node => node.layer));
+  const loaded = await loadBannerAssets(assets);
+
+  const { canvas, ctx } = createCanvas(options.width, options.height);
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  drawBannerAtTime(ctx, plan, loaded, time, canvas.width, canvas.height);
+
+  switch (options.format) {
+    case 'png': {
+      const bytes = await blobToBytes(await canvasToBlob(canvas, 'image/png'));
+      return { bytes, format: 'png', time, fits: bytes.length <= options.maxBytes, degradations: [] };
+    }
+
+    case 'gif': {
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const result = recompressGif(
+        settings => encodeGif([{ imageData, delay: 0 }], {
+          width: canvas.width,
+          height: canvas.height,
+          dithering: 'diffusion',
+          colorDepth: settings.colorDepth,
+          maxColors: settings.maxColors,
+          loop: false
+        }),
+        { maxBytes: options.maxBytes, speed: options.speed, maxColors: 256, colorDepth: 24 }
+      );
+      return { bytes: result.value, format: 'gif', time, fits: result.fits, degradations: result.degradations };
+    }
+
+    case 'jpg':
+    default:
+      return { ...await encodeJpeg(canvas, options.maxBytes, options.speed), format: 'jpg', time };
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Banner Playback
+ *
+ * Decides how many times an HTML5 banner plays its timeline and where it
+ * stops. Ad networks cap the total animation time and the number of loops,
+ * so the requested loops are cut down to what the platform allows and the
+ * banner's runtime stops it at the cap, optionally freezing on a chosen end
+ * frame.
+ */
+
+import type { AdPlatformSpec } from './adPlatformSpecs';
+
+/**
+ * Loop settings of an export
+ */
+export interface PlaybackOptions {
+  loopCount?: number; // Times the timeline plays, defaults to once
+  infiniteLoop?: boolean; // Plays until the platform cap
+  stopOnEndFrame?: boolean;
+  endFrameTime?: number; // Seconds into the timeline, defaults to its end
+}
+
+/**
+ * How a banner plays within its platform limits
+ */
+export interface BannerPlayback {
+  duration: number; // Seconds of one play
+  plays: number;
+  stopAfter: number; // Seconds after which the banner stops
+  endFrame: number | null; // Seconds into the timeline it freezes on; null stays where it stops
+  requestedPlays: number; // Infinity for an infinite loop
+  capped: boolean; // Whether the platform limits cut the requested playback
+}
+
+// Slack for durations that divide the cap up to rounding
+const EPSILON = 1e-6;
+
+// Format seconds for messages and scripts
+function formatSeconds(value: number): string {
+  return `${Math.round(value * 100) / 100}`;
+}
+
+/**
+ * Get how a timeline of the given duration (seconds) plays with the loop
+ * settings, within the animation limits of a platform
+ */
+export function getBannerPlayback(
+  duration: number,
+  options: PlaybackOptions,
+  limits: Pick<AdPlatformSpec, 'maxAnimationSeconds' | 'maxLoops'>
+): BannerPlayback {
+  const requestedPlays = options.infiniteLoop ? Infinity : Math.max(1, Math.round(options.loopCount || 1));
+  const playsInCap = duration > 0 ? Math.max(1, Math.floor(limits.maxAnimationSeconds / duration + EPSILON)) : 1;
+  const plays = Math.min(requestedPlays, limits.maxLoops ?? Infinity, playsInCap);
+  const endFrame = options.stopOnEndFrame
+    ? Math.min(duration, Math.max(0, options.endFrameTime ?? duration))
+    : null;
+
+  return {
+    duration,
+    plays,
+    stopAfter: Math.min(plays * duration, limits.maxAnimationSeconds),
+    endFrame,
+    requestedPlays,
+    capped: requestedPlays * duration > limits.maxAnimationSeconds + EPSILON ||
+      (limits.maxLoops !== null && requestedPlays > limits.maxLoops)
+  };
+}
+
+/**
+ * Describe a playback for export reports
+ */
+export function describePlayback(playback: BannerPlayback): string {
+  const requested = playback.requestedPlays === Infinity ? 'an infinite loop' : `${playback.requestedPlays} × ${formatSeconds(playback.duration)}s`;
+  const stop = playback.endFrame === null ? '' : `, freezing on ${formatSeconds(playback.endFrame)}s`;
+  return playback.capped
+    ? `Requested ${requested}; stops after ${playback.plays} × ${formatSeconds(playback.duration)}s (${formatSeconds(playback.stopAfter)}s)${stop}`
+    : `${playback.plays} × ${formatSeconds(playback.duration)}s (${formatSeconds(playback.stopAfter)}s)${stop}`;
+}
+
+/**
+ * Whether a banner needs a runtime to loop or stop its animations, rather
+ * than playing them once to the end
+ */
+export function needsPlaybackRuntime(playback: BannerPlayback): boolean {
+  return playback.plays > 1 || playback.endFrame !== null || playback.stopAfter < playback.duration;
+}
+
+/**
+ * Write the script that loops the CSS animations of a banner's layers and
+ * the parts of their split text, and stops them at the end of the playback.
+ * Animations restart together at the end of each play, then pause, on the
+ * end frame when there is one.
+ */
+export function getCssPlaybackScript(playback: BannerPlayback): string {
+  return `(function () {
+  var ad = document.getElementById('ad');
+  var duration = ${Math.round(playback.duration * 1000)};
+  var plays = ${playback.plays};
+  var stopAfter = ${Math.round(playback.stopAfter * 1000)};
+  var endFrame = ${playback.endFrame === null ? 'null' : Math.round(playback.endFrame * 1000)};
+
+  function eachAnimation(callback) {
+    var layers = ad.querySelectorAll('.layer, .split');
+    for (var i = 0; i < layers.length; i++) {
+      if (layers[i].getAnimations) layers[i].getAnimations().forEach(callback);
+    }
+  }
+
+  ad.addEventListener('bannerready', function () {
+    var played = 1;
+    var loop = setInterval(function () {
+      if (played >= plays) return;
+      played += 1;
+      eachAnimation(function (animation) {
+        animation.currentTime = 0;
+      });
+    }, duration);
+
+    setTimeout(function () {
+      clearInterval(loop);
+      eachAnimation(function (animation) {
+        animation.pause();
+        if (endFrame !== null) animation.currentTime = endFrame;
+      });
+    }, stopAfter);
+  });
+})();
+`;
+}
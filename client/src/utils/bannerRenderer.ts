@@ -0,0 +1,248 @@
+/**
+ * Banner Renderer
+ *
+ * Composites the layer assets exported by the plugin into a still of the
+ * banner at any time of its timeline. Each planned layer is drawn with the
+ * opacity, transform and blur the animation sampler gives it, and text in
+ * its keyed color, nested the same way as the elements of the exported
+ * HTML5 banner. Text split for text animations is drawn part by part.
+ */
+
+import type { AnimationLayer } from '../types/animation';
+import type { RenderedBannerAssets, RenderedLayerAsset } from '../lib/figmaPlugin';
+import type { BannerLayerPlan } from './html5Bundle';
+import { getMotionMatrix, LayerMotionState, sampleLayerState } from './animationSampler';
+import { createCanvas, getImageMimeType, loadImage } from './rasterUtils';
+import { getTextPartLayers, splitLayerText, TextSplit, TextSplitUnit } from './textSplit';
+
+/**
+ * Layer assets with their images decoded, ready to be drawn repeatedly
+ */
+export interface LoadedBannerAssets {
+  assets: RenderedBannerAssets;
+  background: HTMLImageElement | null;
+  images: Map<string, HTMLImageElement>;
+}
+
+/**
+ * Decode the background and layer images of a banner
+ */
+export async function loadBannerAssets(assets: RenderedBannerAssets): Promise<LoadedBannerAssets> {
+  const images = new Map<string, HTMLImageElement>();
+  for (const layer of assets.layers) {
+    if (layer.bytes && layer.format) {
+      images.set(layer.id, await loadImage(layer.bytes, getImageMimeType(layer.format)));
+    }
+  }
+
+  const background = assets.frame.backgroundBytes
+    ? await loadImage(assets.frame.backgroundBytes, getImageMimeType(assets.frame.backgroundFormat || 'png'))
+    : null;
+
+  return { assets, background, images };
+}
+
+// Apply the opacity, transform and blur of a motion state of a box. Blur is
+// given in banner px and scaled to canvas px.
+function applyMotionState(
+  ctx: CanvasRenderingContext2D,
+  state: LayerMotionState,
+  box: { x: number; y: number; width: number; height: number },
+  scale: number
+): void {
+  ctx.globalAlpha *= Math.min(1, state.opacity);
+  ctx.transform(...getMotionMatrix(state, box));
+  if (state.blur > 0) ctx.filter = `blur(${state.blur * scale}px)`;
+}
+
+// Set the font and color a text asset is drawn with
+function setTextStyle(ctx: CanvasRenderingContext2D, asset: RenderedLayerAsset, color: string | null): void {
+  const text = asset.text!;
+  ctx.font = `${text.fontStyle === 'italic' ? 'italic ' : ''}${text.fontWeight} ${text.fontSize}px "${text.fontFamily}", sans-serif`;
+  ctx.fillStyle = color || text.color;
+  ctx.textBaseline = 'middle';
+}
+
+// Draw a text layer exported as text rather than an image
+function drawTextAsset(ctx: CanvasRenderingContext2D, asset: RenderedLayerAsset, color: string | null): void {
+  const text = asset.text!;
+  const lineHeight = text.lineHeight || text.fontSize * 1.2;
+  const align = text.textAlign === 'center' || text.textAlign === 'right' ? text.textAlign : 'left';
+  const x = align === 'center' ? asset.x + asset.width / 2 : align === 'right' ? asset.x + asset.width : asset.x;
+
+  setTextStyle(ctx, asset, color);
+  ctx.textAlign = align;
+
+  text.characters.split('\n').forEach((line, index) => {
+    ctx.fillText(line, x, asset.y + lineHeight * (index + 0.5));
+  });
+}
+
+// Draw a text layer split for its text animations, each part moved by its
+// own motion and each line rising inside the text box, as the HTML5 bundle
+// lays them out
+function drawSplitTextAsset(
+  ctx: CanvasRenderingContext2D,
+  asset: RenderedLayerAsset,
+  layer: AnimationLayer,
+  split: TextSplit,
+  time: number,
+  color: string | null,
+  scale: number
+): void {
+  const text = asset.text!;
+  const lineHeight = text.lineHeight || text.fontSize * 1.2;
+  const partLayers = getTextPartLayers(layer, split, lineHeight);
+
+  setTextStyle(ctx, asset, color);
+  ctx.textAlign = 'left';
+  const measure = (value: string) => ctx.measureText(value).width;
+
+  // Draw a part of a box; units the layer doesn't animate stay put
+  const drawPart = (unit: TextSplitUnit, index: number, box: { x: number; y: number; width: number; height: number }, draw: () => void) => {
+    const partLayer = partLayers[unit]?.[index];
+    const state = partLayer ? sampleLayerState(partLayer, time) : null;
+    if (state && state.opacity <= 0) return;
+
+    ctx.save();
+    if (state) applyMotionState(ctx, state, box, scale);
+    draw();
+    ctx.restore();
+  };
+
+  split.lines.forEach(line => {
+    const words = line.parts.map(part => (typeof part === 'string' ? part : part.chars.map(char => char.text).join('')));
+    const width = measure(words.join(''));
+    const left = text.textAlign === 'center'
+      ? asset.x + (asset.width - width) / 2
+      : text.textAlign === 'right' ? asset.x + asset.width - width : asset.x;
+    const top = asset.y + lineHeight * line.index;
+    const y = top + lineHeight / 2;
+
+    const drawWords = () => line.parts.forEach((part, partIndex) => {
+      if (typeof part === 'string') return;
+      const wordX = left + measure(words.slice(0, partIndex).join(''));
+      const wordBox = { x: wordX, y: top, width: measure(words[partIndex]), height: lineHeight };
+
+      drawPart('word', part.index, wordBox, () => {
+        if (!split.units.includes('char')) {
+          ctx.fillText(words[partIndex], wordX, y);
+          return;
+        }
+        part.chars.forEach((char, charIndex) => {
+          const charX = wordX + measure(part.chars.slice(0, charIndex).map(previous => previous.text).join(''));
+          const charBox = { x: charX, y: top, width: measure(char.text), height: lineHeight };
+          drawPart('char', char.index, charBox, () => ctx.fillText(char.text, charX, y));
+        });
+      });
+    });
+
+    if (!split.units.includes('line')) {
+      drawWords();
+      return;
+    }
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(asset.x, top, asset.width, lineHeight);
+    ctx.clip();
+    drawPart('line', line.index, { x: left, y: top, width, height: lineHeight }, drawWords);
+    ctx.restore();
+  });
+}
+
+// Draw a single layer asset at its banner position; a keyed color recolors text
+function drawAsset(
+  ctx: CanvasRenderingContext2D,
+  asset: RenderedLayerAsset,
+  image: HTMLImageElement | undefined,
+  color: string | null = null
+): void {
+  if (image) {
+    ctx.drawImage(image, asset.x, asset.y, asset.width, asset.height);
+  } else if (asset.text) {
+    drawTextAsset(ctx, asset, color);
+  }
+}
+
+/**
+ * Draw a banner as it looks at a time (seconds) of its timeline, on top of
+ * what the context already holds. The banner is scaled to fill width x height.
+ */
+export function drawBannerAtTime(
+  ctx: CanvasRenderingContext2D,
+  plan: BannerLayerPlan[],
+  loaded: LoadedBannerAssets,
+  time: number,
+  width: number,
+  height: number
+): void {
+  const { assets, background, images } = loaded;
+  const assetsById = new Map<string, RenderedLayerAsset>(assets.layers.map(asset => [asset.id, asset]));
+  const plannedIds = new Set<string>();
+  const collectIds = (nodes: BannerLayerPlan[]) => nodes.forEach(node => {
+    plannedIds.add(node.layer.id);
+    collectIds(node.children || []);
+  });
+  collectIds(plan);
+
+  // Blur is given in banner px, the canvas filter works in canvas px
+  const scale = width / (assets.frame.width || width);
+
+  ctx.save();
+  ctx.scale(scale, height / (assets.frame.height || height));
+
+  if (assets.frame.background) {
+    ctx.fillStyle = assets.frame.background;
+    ctx.fillRect(0, 0, assets.frame.width, assets.frame.height);
+  }
+  if (background) {
+    ctx.drawImage(background, 0, 0, assets.frame.width, assets.frame.height);
+  }
+
+  const drawPlan = (nodes: BannerLayerPlan[]) => {
+    nodes.forEach(node => {
+      const asset = assetsById.get(node.layer.id);
+      if (!asset) {
+        drawPlan(node.children || []);
+        return;
+      }
+
+      const state = sampleLayerState(node.layer, time);
+      if (state.opacity <= 0) return;
+
+      ctx.save();
+      applyMotionState(ctx, state, asset, scale);
+      const split = asset.text && !images.has(asset.id) ? splitLayerText(node.layer, asset.text.characters) : null;
+      if (split) {
+        drawSplitTextAsset(ctx, asset, node.layer, split, time, state.color, scale);
+      } else {
+        drawAsset(ctx, asset, images.get(asset.id), state.color);
+      }
+      drawPlan(node.children || []);
+      ctx.restore();
+    });
+  };
+  drawPlan(plan);
+
+  // Assets without a planned layer are static, as in the HTML5 bundle
+  assets.layers
+    .filter(asset => !plannedIds.has(asset.id))
+    .forEach(asset => drawAsset(ctx, asset, images.get(asset.id)));
+
+  ctx.restore();
+}
+
+/**
+ * Render a banner at a time of its timeline onto a new canvas
+ */
+export function renderBannerAtTime(
+  plan: BannerLayerPlan[],
+  loaded: LoadedBannerAssets,
+  time: number,
+  width: number,
+  height: number
+): HTMLCanvasElement {
+  const { canvas, ctx } = createCanvas(width, height);
+  drawBannerAtTime(ctx, plan, loaded, time, width, height);
+  return canvas;
+}
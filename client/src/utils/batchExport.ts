@@ -0,0 +1,284 @@
+/**
+ * Batch Export
+ *
+ * Renders every combination of ad size, export type and ad platform picked in
+ * the batch matrix into a single ZIP. Files are named
+ * {campaign}_{width}x{height}_{platform}.zip for HTML5 banners,
+ * {campaign}_{width}x{height}_frames.zip for PNG sequences and
+ * {campaign}_{width}x{height}.{gif,mp4,webm,json} for GIFs, videos and Lottie
+ * animations; sizes sharing their dimensions are numbered from the second
+ * on ({width}x{height}_2). Items run one after another and report their
+ * progress; an item that fails is recorded and the batch moves on.
+ * Banners are built from the design alone: a product feed only applies to
+ * single exports, and the export modal warns when one is set.
+ * With the preview page option on, the review site showing every HTML5
+ * banner and GIF is added to the ZIP as well.
+ */
+
+import {
+  AdPlatform,
+  BannerSource,
+  GifExportOptions,
+  HtmlExportOptions,
+  LottieExportOptions,
+  Mp4ExportOptions,
+  PngSequenceExportOptions,
+  WebmExportOptions,
+  buildGifExport,
+  buildHtml5Banner,
+  buildLottieExport,
+  buildPngSequenceExport,
+  buildVideoExport
+} from './exportUtils';
+import { BundleReport } from './adPlatformSpecs';
+import { buildReviewSite, ReviewSiteEntry } from './reviewSite';
+import { createZip, getFileExtension, toFileName, ZipFiles } from './zipUtils';
+import { downloadBlob } from './rasterUtils';
+
+export type BatchExportType = 'html' | 'gif' | 'mp4' | 'webm' | 'png' | 'lottie';
+
+/**
+ * A single file of a batch
+ */
+export interface BatchExportItem {
+  id: string;
+  source: BannerSource;
+  exportType: BatchExportType;
+  platform?: AdPlatform; // HTML5 items only
+  name: string; // File name without its extension, unique within the batch
+  fileName: string;
+}
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'failed';
+
+/**
+ * Progress of a batch item
+ */
+export interface BatchItemProgress {
+  status: BatchItemStatus;
+  size?: number; // Bytes, once done
+  error?: string;
+}
+
+/**
+ * Options shared by every item of a batch; size and platform come from the item
+ */
+export interface BatchExportOptions {
+  campaign: string;
+  html: Omit<HtmlExportOptions, 'frames' | 'layers' | 'width' | 'height' | 'adPlatform'>;
+  gif: Omit<GifExportOptions, 'frames' | 'width' | 'height'>;
+  mp4: Omit<Mp4ExportOptions, 'frames' | 'layers' | 'width' | 'height'>;
+  webm: Omit<WebmExportOptions, 'frames' | 'layers' | 'width' | 'height'>;
+  png: Omit<PngSequenceExportOptions, 'frames' | 'width' | 'height'>;
+  lottie: Omit<LottieExportOptions, 'frames' | 'layers' | 'width' | 'height'>;
+  onProgress?: (itemId: string, progress: BatchItemProgress) => void;
+}
+
+/**
+ * Result of a batch export
+ */
+export interface BatchExportResult {
+  blob: Blob;
+  reports: BundleReport[];
+  failedCount: number;
+}
+
+// File extension of the items of each type but HTML5, which are ZIPs
+const BATCH_FILE_EXTENSIONS: Record<Exclude<BatchExportType, 'html'>, string> = {
+  gif: 'gif',
+  mp4: 'mp4',
+  webm: 'webm',
+  png: 'zip',
+  lottie: 'json'
+};
+
+/**
+ * Get the file name of a batch item, without its extension
+ */
+export function getBatchItemName(campaign: string, sizeName: string, suffix?: string): string {
+  const name = `${toFileName(campaign, 'campaign')}_${sizeName}`;
+  return suffix ? `${name}_${suffix}` : name;
+}
+
+// Name each source by its dimensions, numbering the sizes that share them
+function getSizeNames(sources: BannerSource[]): string[] {
+  const counts: Record<string, number> = {};
+  return sources.map(source => {
+    const dimensions = `${source.width}x${source.height}`;
+    counts[dimensions] = (counts[dimensions] || 0) + 1;
+    return counts[dimensions] > 1 ? `${dimensions}_${counts[dimensions]}` : dimensions;
+  });
+}
+
+/**
+ * Expand the batch matrix into its items.
+ * Platforms only apply to HTML5; every other type gets one item per size.
+ */
+export function createBatchItems(
+  campaign: string,
+  sources: BannerSource[],
+  exportTypes: BatchExportType[],
+  platforms: AdPlatform[]
+): BatchExportItem[] {
+  const sizeNames = getSizeNames(sources);
+
+  return sources.flatMap((source, sourceIndex) => exportTypes.flatMap((exportType): BatchExportItem[] => {
+    const sizeName = sizeNames[sourceIndex];
+
+    if (exportType === 'html') {
+      return platforms.map(platform => {
+        const name = getBatchItemName(campaign, sizeName, platform);
+        return { id: `${sizeName}-html-${platform}`, source, exportType, platform, name, fileName: `${name}.zip` };
+      });
+    }
+
+    const name = getBatchItemName(campaign, sizeName, exportType === 'png' ? 'frames' : undefined);
+    return [{ id: `${sizeName}-${exportType}`, source, exportType, name, fileName: `${name}.${BATCH_FILE_EXTENSIONS[exportType]}` }];
+  }));
+}
+
+// Let the browser paint progress between items
+function nextTick(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * Run every item of a batch and package the results into one ZIP
+ */
+export async function runBatchExport(
+  items: BatchExportItem[],
+  options: BatchExportOptions
+): Promise<{ zipBytes: Uint8Array; reports: BundleReport[]; failedCount: number }> {
+  const files: ZipFiles = {};
+  const reports: BundleReport[] = [];
+  const reviewEntries: ReviewSiteEntry[] = [];
+  let failedCount = 0;
+
+  for (const item of items) {
+    options.onProgress?.(item.id, { status: 'running' });
+    await nextTick();
+
+    try {
+      const { source } = item;
+      let size: number;
+
+      if (item.exportType === 'html') {
+        const name = item.name;
+        const withBackup = Boolean(options.html.addBackupJpg || options.html.generateFallback);
+        const { banner, backup, reports: bannerReports } = await buildHtml5Banner(source, {
+          ...options.html,
+          frames: [source.frame],
+          layers: source.layers,
+          width: source.width,
+          height: source.height,
+          adPlatform: item.platform,
+          // Every batch item is the banner's own ZIP
+          includeZipFiles: true
+        }, { name, backup: withBackup });
+
+        const zipBytes = createZip({ ...banner.files, ...(banner.zipOnlyFiles || {}) });
+        files[item.fileName] = zipBytes;
+        if (backup && options.html.addBackupJpg) {
+          files[`${name}.${getFileExtension(backup.fileName)}`] = backup.bytes;
+        }
+        reports.push(...bannerReports);
+        size = zipBytes.length;
+        reviewEntries.push({
+          name,
+          width: source.width,
+          height: source.height,
+          label: bannerReports[0].platformName,
+          size,
+          passed: bannerReports[0].passed,
+          files: banner.files,
+          backup
+        });
+      } else if (item.exportType === 'gif') {
+        const gif = await buildGifExport({
+          ...options.gif,
+          frames: source.frames && source.frames.length > 0 ? source.frames : [source.frame],
+          width: source.width,
+          height: source.height
+        });
+        files[item.fileName] = gif.bytes;
+        reports.push(...gif.reports.map(report => ({ ...report, bannerName: item.fileName })));
+        size = gif.bytes.length;
+        reviewEntries.push({
+          name: item.name,
+          width: source.width,
+          height: source.height,
+          label: 'GIF',
+          size,
+          passed: gif.reports.every(report => report.passed),
+          image: { fileName: item.fileName, bytes: gif.bytes }
+        });
+      } else {
+        // Videos, PNG sequences and Lottie animations are rendered from the
+        // size's first frame and layer tree, as their single exports are
+        const target = { frames: [source.frame], layers: source.layers, width: source.width, height: source.height };
+        let bytes: Uint8Array;
+        if (item.exportType === 'mp4' || item.exportType === 'webm') {
+          bytes = (await buildVideoExport({ ...options[item.exportType], ...target })).bytes;
+        } else if (item.exportType === 'png') {
+          bytes = (await buildPngSequenceExport({
+            ...options.png,
+            frames: source.frames && source.frames.length > 0 ? source.frames : [source.frame],
+            width: source.width,
+            height: source.height
+          })).bytes;
+        } else {
+          const { animation } = await buildLottieExport({ ...options.lottie, ...target });
+          bytes = new TextEncoder().encode(JSON.stringify(animation));
+        }
+        files[item.fileName] = bytes;
+        size = bytes.length;
+      }
+
+      options.onProgress?.(item.id, { status: 'done', size });
+    } catch (error: any) {
+      console.error(`Batch item ${item.fileName} failed:`, error);
+      failedCount++;
+      options.onProgress?.(item.id, { status: 'failed', error: error.message || 'Unknown error' });
+    }
+  }
+
+  if (options.html.generatePreviewPage && reviewEntries.length > 0) {
+    Object.assign(files, buildReviewSite(reviewEntries, {
+      title: options.campaign,
+      version: options.html.reviewSiteVersion,
+      layout: options.html.previewPageLayout,
+      useDarkMode: options.html.useDarkMode,
+      customCss: options.html.customCss
+    }));
+  }
+
+  return { zipBytes: createZip(files), reports, failedCount };
+}
+
+/**
+ * Run a batch export and download its ZIP
+ */
+export async function exportBatch(
+  items: BatchExportItem[],
+  options: BatchExportOptions
+): Promise<BatchExportResult | null> {
+  try {
+    if (items.length === 0) {
+      alert('Error: Nothing to export. Please select at least one ad size, format and platform.');
+      return null;
+    }
+
+    const { zipBytes, reports, failedCount } = await runBatchExport(items, options);
+    const blob = new Blob([zipBytes], { type: 'application/zip' });
+
+    // Only download when at least one item made it into the ZIP
+    if (failedCount < items.length) {
+      downloadBlob(blob, `${toFileName(options.campaign, 'campaign')}_batch.zip`);
+    }
+    return { blob, reports, failedCount };
+  } catch (error: any) {
+    console.error('Error running batch export:', error);
+    alert(`Batch export failed: ${error.message || 'Unknown error'}`);
+    return null;
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Click Zones
+ *
+ * Layers marked as click zones open their own landing page instead of the
+ * banner link, so a CTA button and a logo can lead to different pages. Ad
+ * servers count and name exits differently, so the zones are written as the
+ * platform's own multi-exit code: numbered clickTags for Google and Adform,
+ * named Enabler exits in Studio and applyClickTag in Flashtalking. Clicks
+ * anywhere else keep using the banner's click handler.
+ */
+
+import type { AdPlatform } from './exportUtils';
+import type { BannerLayerPlan } from './html5Bundle';
+
+/**
+ * A click zone of a planned banner
+ */
+export interface BannerClickZone {
+  elementId: string;
+  name: string;
+  url: string;
+}
+
+// Platforms that read numbered clickTag variables
+const GOOGLE_PLATFORMS: AdPlatform[] = ['google-ads', 'google-display-network', 'doubleclick-dcm', 'dv360', 'google'];
+
+/**
+ * Get the click zones of a layer plan, in markup order. Zones without a URL
+ * are left out.
+ */
+export function getClickZones(plan: BannerLayerPlan[]): BannerClickZone[] {
+  return plan.flatMap(node => {
+    const zone = node.layer.clickZone;
+    return [
+      ...(zone && zone.url.trim() ? [{ elementId: node.elementId, name: zone.name.trim() || node.layer.name, url: zone.url.trim() }] : []),
+      ...getClickZones(node.children || [])
+    ];
+  });
+}
+
+/**
+ * Get the clickTAG variables an Adform manifest declares for click zones,
+ * numbered after the banner's own clickTAG
+ */
+export function getAdformClickTags(zones: BannerClickZone[]): Record<string, string> {
+  const clickTags: Record<string, string> = {};
+  zones.forEach((zone, index) => {
+    clickTags[`clickTAG${index + 1}`] = zone.url;
+  });
+  return clickTags;
+}
+
+// Write a value as a string literal that is safe inside a <script> element
+function toScriptString(value: string): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+// Variables a platform declares for the zones, and the statement that exits
+// through a zone
+function getZoneExits(platform: AdPlatform, zones: BannerClickZone[]): { declarations: string[]; exits: string[] } {
+  if (GOOGLE_PLATFORMS.includes(platform)) {
+    // Populated by the ad server, like the banner's clickTag
+    return {
+      declarations: zones.map((zone, index) => `var clickTag${index + 1} = ${toScriptString(zone.url)};`),
+      exits: zones.map((_, index) => `window.open(clickTag${index + 1}, '_blank');`)
+    };
+  }
+
+  switch (platform) {
+    case 'doubleclick-studio':
+      return {
+        declarations: [],
+        exits: zones.map(zone => `exit(${toScriptString(zone.name)}, ${toScriptString(zone.url)});`)
+      };
+
+    case 'adform':
+      return {
+        declarations: zones.map((zone, index) =>
+          `var clickTAG${index + 1} = window.dhtml ? dhtml.getVar('clickTAG${index + 1}', ${toScriptString(zone.url)}) : ${toScriptString(zone.url)};`
+        ),
+        exits: zones.map((_, index) => `window.open(clickTAG${index + 1}, '_blank');`)
+      };
+
+    case 'adform-mraid':
+      return {
+        declarations: [],
+        exits: zones.map(zone => `open(${toScriptString(zone.url)});`)
+      };
+
+    default:
+      return {
+        declarations: [],
+        exits: zones.map(zone => `window.open(${toScriptString(zone.url)}, '_blank');`)
+      };
+  }
+}
+
+/**
+ * Write the script that makes each click zone exit on its own. Zone clicks
+ * don't reach the banner's click handler on #ad.
+ * Returns an empty string when there are no zones.
+ */
+export function getClickZoneScript(platform: AdPlatform, zones: BannerClickZone[]): string {
+  if (zones.length === 0) return '';
+
+  // Flashtalking registers the zones itself; clickTag 1 is the banner's
+  if (platform === 'flashtalking') {
+    const zoneLines = zones.map((zone, index) => `      addZone('${zone.elementId}', ${index + 2}, ${toScriptString(zone.url)});`);
+    return `
+  <script type="text/javascript">
+    // Click zones: each opens its own clickTag
+    window.addEventListener('load', function() {
+      function addZone(id, clickTag, url) {
+        var element = document.getElementById(id);
+        if (!element) return;
+        element.style.cursor = 'pointer';
+        element.addEventListener('click', function(e) {
+          e.stopPropagation();
+          if (typeof myFT === 'undefined') window.open(url, '_blank');
+        });
+        if (typeof myFT !== 'undefined') myFT.applyClickTag(element, clickTag, url);
+      }
+
+${zoneLines.join('\n')}
+    });
+  </script>`;
+  }
+
+  const { declarations, exits } = getZoneExits(platform, zones);
+  const helpers: string[] = [];
+  if (platform === 'doubleclick-studio') {
+    helpers.push(`function exit(name, url) {
+        if (typeof Enabler !== 'undefined') {
+          Enabler.exit(name, url);
+        } else {
+          window.open(url, '_blank');
+        }
+      }`);
+  }
+  if (platform === 'adform-mraid') {
+    helpers.push(`function open(url) {
+        if (typeof mraid !== 'undefined' && mraid.getState() === 'default') {
+          mraid.open(url);
+        } else {
+          window.open(url, '_blank');
+        }
+      }`);
+  }
+  helpers.push(`function addZone(id, exit) {
+        var element = document.getElementById(id);
+        if (!element) return;
+        element.style.cursor = 'pointer';
+        element.addEventListener('click', function(e) {
+          e.stopPropagation();
+          exit();
+        });
+      }`);
+
+  const zoneLines = zones.map((zone, index) => `      addZone('${zone.elementId}', function() { ${exits[index]} });`);
+  return `
+  <script type="text/javascript">
+    // Click zones: each opens its own exit instead of the banner's${declarations.length ? `\n    ${declarations.join('\n    ')}\n` : ''}
+    window.addEventListener('load', function() {
+      ${helpers.join('\n      \n      ')}
+
+${zoneLines.join('\n')}
+    });
+  </script>`;
+}
@@ -0,0 +1,500 @@
+/**
+ * CSS Keyframes
+ *
+ * Compiles the animations and keyframes of a layer into CSS @keyframes rules
+ * and the `animation` shorthand that plays them. The motion of every
+ * animation type comes from the animation sampler, so an exported banner
+ * moves the way the preview shows it.
+ *
+ * Each animation gets its own @keyframes rule. Translation, rotation and
+ * scale are written to the individual `translate`, `rotate` and `scale`
+ * properties, so overlapping animations each keep what they animate; a later
+ * animation wins for the properties it sets, and only the first one fills
+ * backwards, as in the sampler. Motion path animations are written as an
+ * `offset-path` with the progress along it in `offset-distance`. Older ad
+ * webviews without the individual properties get copies of the rules with
+ * them combined into `transform`, played under `@supports not (translate: 0)`;
+ * there an animation's transform replaces the whole transform of an earlier
+ * one it overlaps. Layer
+ * keyframes are played after the animations so they win over them; keyed
+ * blur is written to `filter` and keyed colors to `color`, which recolors
+ * text layers.
+ *
+ * CSS has no timing function for bounce, elastic and spring easing, so those
+ * are baked into extra keyframes with linear timing.
+ */
+
+import { AnimationLayer } from '../types/animation';
+import {
+  ColorKeyframe,
+  getAnimationMotion,
+  getAnimationStart,
+  getColorKeyframes,
+  getKeyframeTracks,
+  getSortedAnimations,
+  IDENTITY_MOTION_STATE,
+  LayerMotionState,
+  MotionDefinition,
+  MotionPathDefinition,
+  MotionProps,
+  PropertyKeyframe,
+  sampleColorKeyframes,
+  sampleKeyframes
+} from './animationSampler';
+import { getCssTimingFunction, getEasingStops, isSampledEasing } from './easing';
+import { translatePathData } from './motionPath';
+
+// CSS property a motion property is written to
+type CssMotionProperty = 'opacity' | 'translate' | 'rotate' | 'scale' | 'transform' | 'filter';
+
+/**
+ * The @keyframes rules of a layer and the `animation` value that plays them
+ */
+export interface CompiledLayerMotion {
+  keyframes: string[];
+  animation: string | null;
+  fallbackAnimation: string | null; // Plays the combined transforms where the individual properties aren't supported
+}
+
+/**
+ * Inline styles of a sampled motion state
+ */
+export interface CssMotionStyle {
+  opacity: string;
+  transform: string;
+  transformOrigin: string;
+  filter: string;
+}
+
+// Motion properties per CSS property, in the order CSS applies them
+const CSS_PROPERTY_GROUPS: Record<CssMotionProperty, (keyof MotionProps)[]> = {
+  opacity: ['opacity'],
+  translate: ['x', 'y'],
+  rotate: ['rotate'],
+  scale: ['scaleX', 'scaleY'],
+  // Diagonal rotation has no individual property; it applies after scale
+  transform: ['rotateDiagonal'],
+  filter: ['blur']
+};
+
+// CSS properties that are combined into one `transform` for the fallback
+const TRANSFORM_PROPERTIES: CssMotionProperty[] = ['translate', 'rotate', 'scale', 'transform'];
+
+/**
+ * Condition under which the fallback animations with combined transforms play
+ */
+export const TRANSFORM_FALLBACK_CONDITION = 'not (translate: 0)';
+
+// Largest difference from the exact motion that baked keyframes may cause
+const BAKE_TOLERANCES: Record<CssMotionProperty, number> = {
+  opacity: 0.002,
+  translate: 0.1,
+  rotate: 0.1,
+  scale: 0.001,
+  transform: 0.1,
+  filter: 0.05
+};
+
+// Largest difference of a color channel (0-255) that baked keyframes may cause
+const COLOR_BAKE_TOLERANCE = 1;
+
+// Samples per second before baking drops the ones that interpolate linearly
+const BAKE_SAMPLES = 240;
+
+// Round a number for CSS output
+function round(value: number, decimals = 3): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor || 0;
+}
+
+// Format seconds as a CSS time
+function seconds(value: number): string {
+  return `${round(value)}s`;
+}
+
+// Format a fraction of an animation as a keyframe selector
+function percent(offset: number): string {
+  return `${round(offset * 100)}%`;
+}
+
+/**
+ * Get the CSS timing function of an easing, or null when CSS has none and
+ * the easing has to be baked into keyframes
+ */
+export function getCssEasing(easing: string | undefined): string | null {
+  // Baked rather than written as linear(), which older browsers don't play
+  return isSampledEasing(easing) ? null : getCssTimingFunction(easing);
+}
+
+// Indices of the samples to keep so that linear interpolation between them
+// stays within the tolerance of every sample dropped in between
+function simplifySamples(times: number[], values: number[][], tolerance: number): number[] {
+  const kept = [0];
+  let anchor = 0;
+
+  const isLinear = (from: number, to: number) => {
+    for (let index = from + 1; index < to; index++) {
+      const progress = (times[index] - times[from]) / (times[to] - times[from]);
+      const off = values[index].some((value, component) =>
+        Math.abs(values[from][component] + (values[to][component] - values[from][component]) * progress - value) > tolerance
+      );
+      if (off) return false;
+    }
+    return true;
+  };
+
+  for (let index = 2; index < times.length; index++) {
+    if (!isLinear(anchor, index)) {
+      anchor = index - 1;
+      kept.push(anchor);
+    }
+  }
+  if (times.length > 1) kept.push(times.length - 1);
+  return kept;
+}
+
+// Progress points (0-1) and eased values that follow an easing linearly
+function bakeEasing(easing: string): { progress: number; eased: number }[] {
+  return getEasingStops(easing).map(stop => ({ progress: stop.progress, eased: stop.value }));
+}
+
+// Declarations of motion values for the CSS properties that are set. With
+// combined transforms, translation, rotation and scale are written as
+// functions of one `transform`, in the order CSS applies the properties.
+function getDeclarations(values: MotionProps, properties: CssMotionProperty[], combineTransforms = false): string[] {
+  const value = (key: keyof MotionProps) => values[key] ?? IDENTITY_MOTION_STATE[key];
+  const transformFunction = (property: CssMotionProperty) => {
+    switch (property) {
+      case 'translate':
+        return `translate(${round(value('x'))}px, ${round(value('y'))}px)`;
+      case 'rotate':
+        return `rotate(${round(value('rotate'))}deg)`;
+      case 'scale':
+        return `scale(${round(value('scaleX'), 4)}, ${round(value('scaleY'), 4)})`;
+      default:
+        return `rotate3d(1, 1, 0, ${round(value('rotateDiagonal'))}deg)`;
+    }
+  };
+
+  if (combineTransforms) {
+    const transforms = properties.filter(property => TRANSFORM_PROPERTIES.includes(property));
+    return [
+      ...getDeclarations(values, properties.filter(property => !TRANSFORM_PROPERTIES.includes(property))),
+      ...(transforms.length > 0 ? [`transform: ${transforms.map(transformFunction).join(' ')};`] : [])
+    ];
+  }
+
+  return properties.map(property => {
+    switch (property) {
+      case 'opacity':
+        return `opacity: ${round(value('opacity'))};`;
+      case 'translate':
+        return `translate: ${round(value('x'))}px ${round(value('y'))}px;`;
+      case 'rotate':
+        return `rotate: ${round(value('rotate'))}deg;`;
+      case 'scale':
+        return `scale: ${round(value('scaleX'), 4)} ${round(value('scaleY'), 4)};`;
+      case 'transform':
+        return `transform: ${transformFunction('transform')};`;
+      case 'filter':
+        return `filter: blur(${round(value('blur'))}px);`;
+    }
+  });
+}
+
+// The CSS properties a set of motion properties is written to
+function getCssProperties(props: (keyof MotionProps)[]): CssMotionProperty[] {
+  return (Object.keys(CSS_PROPERTY_GROUPS) as CssMotionProperty[])
+    .filter(property => CSS_PROPERTY_GROUPS[property].some(prop => props.includes(prop)));
+}
+
+// The motion properties any stop of a motion sets
+function getMotionProps(motion: MotionDefinition): (keyof MotionProps)[] {
+  return Array.from(new Set(motion.stops.flatMap(stop => Object.keys(stop.props) as (keyof MotionProps)[])));
+}
+
+// Whether CSS properties include one the fallback combines into `transform`
+function hasTransforms(properties: CssMotionProperty[]): boolean {
+  return properties.some(property => TRANSFORM_PROPERTIES.includes(property));
+}
+
+// Write a @keyframes rule
+function formatKeyframes(name: string, frames: { offset: number; declarations: string[] }[]): string {
+  const blocks = frames.map(frame => `  ${percent(frame.offset)} {\n    ${frame.declarations.join('\n    ')}\n  }`);
+  return `@keyframes ${name} {\n${blocks.join('\n')}\n}`;
+}
+
+// Compile the motion of one animation. Stops leave out properties other
+// stops set, so each is completed from the identity as the sampler does.
+function compileMotion(
+  name: string,
+  motion: MotionDefinition,
+  easing: string | undefined,
+  combineTransforms = false
+): { rule: string; timing: string } {
+  const props = getMotionProps(motion);
+  const properties = getCssProperties(props);
+  const origin = `transform-origin: ${round(motion.origin[0] * 100)}% ${round(motion.origin[1] * 100)}%;`;
+  const frame = (offset: number, values: MotionProps) => ({
+    offset,
+    declarations: [...getDeclarations(values, properties, combineTransforms), origin]
+  });
+
+  if (motion.stepped) {
+    const last = motion.stops[motion.stops.length - 1];
+    return { rule: formatKeyframes(name, [frame(0, motion.stops[0].props), frame(1, last.props)]), timing: 'steps(1, start)' };
+  }
+
+  const timing = getCssEasing(easing);
+  if (timing) {
+    return { rule: formatKeyframes(name, motion.stops.map(stop => frame(stop.offset, stop.props))), timing };
+  }
+
+  // Bake the easing into every segment between two stops
+  const baked = bakeEasing(easing!);
+  const frames = motion.stops.slice(0, -1).flatMap((from, index) => {
+    const to = motion.stops[index + 1];
+    return baked
+      .filter(point => point.progress < 1 || index === motion.stops.length - 2)
+      .map(point => {
+        const values: MotionProps = {};
+        props.forEach(key => {
+          const start = from.props[key] ?? IDENTITY_MOTION_STATE[key];
+          const end = to.props[key] ?? IDENTITY_MOTION_STATE[key];
+          values[key] = start + (end - start) * point.eased;
+        });
+        return frame(from.offset + (to.offset - from.offset) * point.progress, values);
+      });
+  });
+  return { rule: formatKeyframes(name, frames), timing: 'linear' };
+}
+
+// Compile a motion along a path into offset-distance keyframes. CSS measures
+// path data from the top left of the layer box and places the offset anchor
+// on it, so the path is moved by the anchor, set to the transform origin
+// the motion turns around.
+function compilePathMotion(
+  name: string,
+  motion: MotionDefinition,
+  path: MotionPathDefinition,
+  easing: string | undefined,
+  box: { width: number; height: number }
+): { rule: string; timing: string } {
+  const [originX, originY] = motion.origin;
+  const data = translatePathData(path.data, originX * box.width, originY * box.height);
+  const anchor = `${round(originX * 100)}% ${round(originY * 100)}%`;
+  const frame = (offset: number, fraction: number) => ({
+    offset,
+    declarations: [
+      `offset-path: path('${data}');`,
+      `offset-anchor: ${anchor};`,
+      `offset-rotate: ${path.autoRotate ? 'auto' : '0deg'};`,
+      `offset-distance: ${round(fraction * 100)}%;`,
+      `transform-origin: ${anchor};`
+    ]
+  });
+
+  const timing = getCssEasing(easing);
+  if (timing) {
+    return { rule: formatKeyframes(name, [frame(0, path.start), frame(1, path.end)]), timing };
+  }
+
+  const frames = bakeEasing(easing!).map(point => frame(point.progress, path.start + (path.end - path.start) * point.eased));
+  return { rule: formatKeyframes(name, frames), timing: 'linear' };
+}
+
+// Compile the keyframe tracks written to CSS properties, one property or the
+// combined transforms. Tracks keyed at the same times keep their easing as
+// timing functions; otherwise the values are baked. Components without a
+// track are left at the identity.
+function compileKeyframeTracks(
+  name: string,
+  properties: CssMotionProperty[],
+  tracks: Partial<Record<keyof MotionProps, PropertyKeyframe[]>>,
+  combineTransforms = false
+): { rule: string; start: number; duration: number } {
+  const props = Object.keys(tracks) as (keyof MotionProps)[];
+  const times = Array.from(new Set(props.flatMap(prop => tracks[prop]!.map(keyframe => keyframe.time)))).sort((a, b) => a - b);
+  const start = times[0];
+  const duration = times[times.length - 1] - start;
+  const offset = (time: number) => (duration > 0 ? (time - start) / duration : 0);
+  const valuesAt = (time: number): MotionProps => {
+    const values: MotionProps = {};
+    props.forEach(prop => {
+      values[prop] = sampleKeyframes(tracks[prop]!, time);
+    });
+    return values;
+  };
+
+  const keyedTogether = props.every(prop => {
+    const keyframes = tracks[prop]!;
+    return keyframes.length === times.length && keyframes.every((keyframe, index) =>
+      keyframe.time === times[index] && keyframe.easing === tracks[props[0]]![index].easing
+    );
+  });
+  const easings = tracks[props[0]]!.map(keyframe => getCssEasing(keyframe.easing));
+
+  if (keyedTogether && easings.every(Boolean)) {
+    const frames = times.map((time, index) => ({
+      offset: offset(time),
+      declarations: [
+        ...getDeclarations(valuesAt(time), properties, combineTransforms),
+        ...(index < times.length - 1 ? [`animation-timing-function: ${easings[index]};`] : [])
+      ]
+    }));
+    return { rule: formatKeyframes(name, frames), start, duration };
+  }
+
+  const sampleTimes = Array.from(new Set([
+    ...times,
+    ...Array.from({ length: Math.ceil(duration * BAKE_SAMPLES) }, (_, index) => start + index / BAKE_SAMPLES)
+  ])).sort((a, b) => a - b);
+  const sampled = sampleTimes.map(valuesAt);
+  const kept = simplifySamples(
+    sampleTimes,
+    sampled.map(values => props.map(prop => values[prop]!)),
+    Math.min(...properties.map(property => BAKE_TOLERANCES[property]))
+  );
+  const frames = kept.map(index => ({
+    offset: offset(sampleTimes[index]),
+    declarations: getDeclarations(sampled[index], properties, combineTransforms)
+  }));
+  return { rule: formatKeyframes(name, frames), start, duration };
+}
+
+// Compile a layer's keyed colors. Colors keep their easing as timing
+// functions where CSS has one; otherwise the colors are baked.
+function compileColorKeyframes(name: string, keyframes: ColorKeyframe[]): { rule: string; start: number; duration: number } {
+  const start = keyframes[0].time;
+  const duration = keyframes[keyframes.length - 1].time - start;
+  const offset = (time: number) => (duration > 0 ? (time - start) / duration : 0);
+  const easings = keyframes.map(keyframe => getCssEasing(keyframe.easing));
+
+  if (easings.slice(0, -1).every(Boolean)) {
+    const frames = keyframes.map((keyframe, index) => ({
+      offset: offset(keyframe.time),
+      declarations: [
+        `color: ${sampleColorKeyframes(keyframes, keyframe.time)};`,
+        ...(index < keyframes.length - 1 ? [`animation-timing-function: ${easings[index]};`] : [])
+      ]
+    }));
+    return { rule: formatKeyframes(name, frames), start, duration };
+  }
+
+  const sampleTimes = Array.from(new Set([
+    ...keyframes.map(keyframe => keyframe.time),
+    ...Array.from({ length: Math.ceil(duration * BAKE_SAMPLES) }, (_, index) => start + index / BAKE_SAMPLES)
+  ])).sort((a, b) => a - b);
+  const colors = sampleTimes.map(time => sampleColorKeyframes(keyframes, time));
+  const kept = simplifySamples(
+    sampleTimes,
+    colors.map(color => [1, 3, 5].map(index => parseInt(color.slice(index, index + 2), 16))),
+    COLOR_BAKE_TOLERANCE
+  );
+  const frames = kept.map(index => ({ offset: offset(sampleTimes[index]), declarations: [`color: ${colors[index]};`] }));
+  return { rule: formatKeyframes(name, frames), start, duration };
+}
+
+/**
+ * Compile a layer's animations and keyframes into @keyframes rules named
+ * after the layer's element, and the `animation` value that plays them.
+ * Motion paths are placed on the layer's box, the size of its element.
+ * Returns no animation for a layer without motion, and no fallback
+ * animation for one that doesn't transform.
+ */
+export function compileLayerMotion(
+  layer: AnimationLayer,
+  name: string,
+  box: { width: number; height: number } = { width: 0, height: 0 }
+): CompiledLayerMotion {
+  const keyframes: string[] = [];
+  const animations: string[] = [];
+  const fallbackAnimations: string[] = [];
+  let transforms = false;
+
+  getSortedAnimations(layer).forEach((animation, index) => {
+    const motion = getAnimationMotion(animation);
+    if (!motion) return;
+
+    const keyframesName = `${name}-${index + 1}`;
+    const { rule, timing } = motion.path
+      ? compilePathMotion(keyframesName, motion, motion.path, animation.easing, box)
+      : compileMotion(keyframesName, motion, animation.easing);
+    const fill = animations.length === 0 ? 'both' : 'forwards';
+    const playback = `${seconds(Math.max(0, animation.duration || 0))} ${timing} ${seconds(getAnimationStart(animation))} 1 normal ${fill}`;
+    keyframes.push(rule);
+    animations.push(`${keyframesName} ${playback}`);
+
+    if (!motion.path && hasTransforms(getCssProperties(getMotionProps(motion)))) {
+      transforms = true;
+      keyframes.push(compileMotion(`${keyframesName}-fallback`, motion, animation.easing, true).rule);
+      fallbackAnimations.push(`${keyframesName}-fallback ${playback}`);
+    } else {
+      fallbackAnimations.push(`${keyframesName} ${playback}`);
+    }
+  });
+
+  const tracks = getKeyframeTracks(layer);
+  const transformTracks: Partial<Record<keyof MotionProps, PropertyKeyframe[]>> = {};
+  const transformProperties: CssMotionProperty[] = [];
+  (Object.keys(CSS_PROPERTY_GROUPS) as CssMotionProperty[]).forEach(property => {
+    const groupTracks: Partial<Record<keyof MotionProps, PropertyKeyframe[]>> = {};
+    CSS_PROPERTY_GROUPS[property].forEach(prop => {
+      if (tracks[prop]) groupTracks[prop] = tracks[prop];
+    });
+    if (Object.keys(groupTracks).length === 0) return;
+
+    const keyframesName = `${name}-${property}`;
+    const { rule, start, duration } = compileKeyframeTracks(keyframesName, [property], groupTracks);
+    keyframes.push(rule);
+    animations.push(`${keyframesName} ${seconds(duration)} linear ${seconds(start)} 1 normal both`);
+
+    if (TRANSFORM_PROPERTIES.includes(property)) {
+      Object.assign(transformTracks, groupTracks);
+      transformProperties.push(property);
+    } else {
+      fallbackAnimations.push(animations[animations.length - 1]);
+    }
+  });
+
+  // The fallback plays the keyed transforms as one `transform`
+  if (transformProperties.length > 0) {
+    transforms = true;
+    const keyframesName = `${name}-transform-fallback`;
+    const { rule, start, duration } = compileKeyframeTracks(keyframesName, transformProperties, transformTracks, true);
+    keyframes.push(rule);
+    fallbackAnimations.push(`${keyframesName} ${seconds(duration)} linear ${seconds(start)} 1 normal both`);
+  }
+
+  const colorKeyframes = getColorKeyframes(layer);
+  if (colorKeyframes.length > 0) {
+    const keyframesName = `${name}-color`;
+    const { rule, start, duration } = compileColorKeyframes(keyframesName, colorKeyframes);
+    keyframes.push(rule);
+    animations.push(`${keyframesName} ${seconds(duration)} linear ${seconds(start)} 1 normal both`);
+    fallbackAnimations.push(animations[animations.length - 1]);
+  }
+
+  return {
+    keyframes,
+    animation: animations.length > 0 ? animations.join(',\n    ') : null,
+    fallbackAnimation: transforms ? fallbackAnimations.join(',\n      ') : null
+  };
+}
+
+/**
+ * Get the inline styles that show a layer in a sampled motion state
+ */
+export function getCssMotionStyle(state: LayerMotionState): CssMotionStyle {
+  return {
+    opacity: `${round(state.opacity)}`,
+    transform: [
+      `translate(${round(state.x)}px, ${round(state.y)}px)`,
+      `rotate(${round(state.rotate)}deg)`,
+      `rotate3d(1, 1, 0, ${round(state.rotateDiagonal)}deg)`,
+      `scale(${round(state.scaleX, 4)}, ${round(state.scaleY, 4)})`
+    ].join(' '),
+    transformOrigin: `${round(state.originX * 100)}% ${round(state.originY * 100)}%`,
+    filter: state.blur > 0 ? `blur(${round(state.blur)}px)` : 'none'
+  };
+}
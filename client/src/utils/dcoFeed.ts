@@ -0,0 +1,509 @@
+/**
+ * Dynamic Creative Feeds
+ *
+ * Binds the text fields of a frame and the text and image layers of a banner
+ * to the columns of a CSV or JSON product feed. A feed either turns into one
+ * banner variant per row, with the row's text and images written into the
+ * banner, or into a single DCO template that reads the values at runtime
+ * from the Studio Enabler or the Flashtalking instant ads API.
+ *
+ * Frame fields bind the text layers named after them (Headline, CTA, ...).
+ * Bound text layers are exported as text so their content can change; bound
+ * image layers take the image at the URL in their column. A template splits
+ * the text of a layer with text animations into its parts again, as the
+ * HTML5 export does, when it writes a dynamic value.
+ */
+
+import type { AnimationLayer } from '../types/animation';
+import type { RenderedBannerAssets, RenderedLayerAsset } from '../lib/figmaPlugin';
+import type { AdPlatform } from './exportUtils';
+import type { BannerLayerPlan } from './html5Bundle';
+import { findPlannedLayer } from './html5Bundle';
+import { toFileName } from './zipUtils';
+
+export type FeedRow = Record<string, string>;
+
+/**
+ * Rows of a product feed and the columns they have
+ */
+export interface ProductFeed {
+  columns: string[];
+  rows: FeedRow[];
+}
+
+// Frame fields that can take their text from a feed
+export type FrameTextField = 'headlineText' | 'description' | 'buttonText' | 'logoText';
+
+// Frame fields with the names of the text layers that show them, as the
+// plugin matches them for custom content
+export const FRAME_TEXT_FIELDS: { field: FrameTextField; label: string; layerNames: string[] }[] = [
+  { field: 'headlineText', label: 'Headline', layerNames: ['headline', 'title'] },
+  { field: 'description', label: 'Description', layerNames: ['subhead', 'tagline', 'description'] },
+  { field: 'buttonText', label: 'Button', layerNames: ['cta', 'button'] },
+  { field: 'logoText', label: 'Logo', layerNames: ['logo'] }
+];
+
+/**
+ * Feed columns bound to frame fields and to layers (by layer id)
+ */
+export interface FeedBindings {
+  frame: Partial<Record<FrameTextField, string>>;
+  layers: Record<string, string>;
+}
+
+/**
+ * A feed and how an HTML5 export uses it
+ */
+export interface FeedExportOptions {
+  feed: ProductFeed;
+  bindings: FeedBindings;
+  output: 'variants' | 'template';
+  profileName?: string; // Studio dynamic profile (feed sheet) name, defaults to 'Feed'
+  profileId?: number; // Studio dynamic profile id the Enabler loads the feed of
+}
+
+export type DcoRuntime = 'enabler' | 'flashtalking';
+
+/**
+ * A value a DCO template reads at runtime
+ */
+export interface DcoVariable {
+  name: string;
+  type: 'text' | 'image';
+  elementId: string;
+  defaultValue: string;
+}
+
+/**
+ * A dynamic variable declared in a Flashtalking manifest
+ */
+export interface FlashtalkingInstantAd {
+  type: 'text' | 'image';
+  name: string;
+  default: string;
+}
+
+// Scripts that provide the dynamic values of each runtime
+export const DCO_RUNTIME_URLS: Record<DcoRuntime, string> = {
+  enabler: 'https://s0.2mdn.net/ads/studio/Enabler.js',
+  flashtalking: 'https://cdn.flashtalking.com/frameworks/js/api/2/10/html5API.js'
+};
+
+// Image formats a bound image may have, by MIME type
+const FEED_IMAGE_FORMATS: Record<string, RenderedLayerAsset['format']> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+};
+
+// Columns that identify a row, in order of preference
+const ROW_KEY_COLUMNS = ['id', 'sku', 'product_id', 'productid', 'name', 'title'];
+
+// Split CSV text into records, honouring quoted fields
+function parseCsvRecords(text: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) throw new Error('The CSV feed has an unterminated quoted field');
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+// Delimiter used by the header line: comma, semicolon or tab
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  return [',', ';', '\t'].reduce((best, delimiter) =>
+    header.split(delimiter).length > header.split(best).length ? delimiter : best
+  );
+}
+
+/**
+ * Parse a CSV feed. The first record names the columns.
+ */
+export function parseCsvFeed(text: string): ProductFeed {
+  const records = parseCsvRecords(text.replace(/^﻿/, ''), detectDelimiter(text));
+  if (records.length === 0) throw new Error('The CSV feed is empty');
+
+  const columns = records[0].map((column, index) => column.trim() || `column_${index + 1}`);
+  const rows = records.slice(1).map(fields => {
+    const row: FeedRow = {};
+    columns.forEach((column, index) => {
+      row[column] = (fields[index] ?? '').trim();
+    });
+    return row;
+  });
+  return { columns, rows };
+}
+
+// Feed value of a JSON field
+function toFeedValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Parse a JSON feed: an array of rows, or an object whose first array
+ * property holds them (e.g. { "products": [...] })
+ */
+export function parseJsonFeed(text: string): ProductFeed {
+  let data: unknown;
+  try {
+    data = JSON.parse(text.replace(/^﻿/, ''));
+  } catch (error) {
+    throw new Error(`The JSON feed is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const items = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' ? Object.values(data).find(Array.isArray) : undefined;
+  if (!items) throw new Error('The JSON feed has no array of rows');
+
+  const columns: string[] = [];
+  const rows = items
+    .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object' && !Array.isArray(item))
+    .map(item => {
+      const row: FeedRow = {};
+      Object.entries(item).forEach(([column, value]) => {
+        if (!columns.includes(column)) columns.push(column);
+        row[column] = toFeedValue(value);
+      });
+      return row;
+    });
+  return { columns, rows };
+}
+
+/**
+ * Parse a feed file, as JSON when its name or content says so and as CSV
+ * otherwise
+ */
+export function parseFeed(text: string, fileName = ''): ProductFeed {
+  const isJson = /\.json$/i.test(fileName) || (!/\.(csv|tsv|txt)$/i.test(fileName) && /^\s*[[{]/.test(text));
+  const feed = isJson ? parseJsonFeed(text) : parseCsvFeed(text);
+  if (feed.rows.length === 0) throw new Error('The feed has no rows');
+  return feed;
+}
+
+// Every layer of a layer tree
+function flattenLayers(layers: AnimationLayer[]): AnimationLayer[] {
+  return layers.flatMap(layer => [layer, ...flattenLayers(layer.children || [])]);
+}
+
+/**
+ * Get the feed column of every bound layer. Frame fields bind the text
+ * layers named after them, unless the layer has a binding of its own.
+ */
+export function resolveLayerBindings(layers: AnimationLayer[], bindings: FeedBindings): Record<string, string> {
+  const resolved: Record<string, string> = {};
+  const allLayers = flattenLayers(layers);
+
+  FRAME_TEXT_FIELDS.forEach(({ field, layerNames }) => {
+    const column = bindings.frame[field];
+    if (!column) return;
+    allLayers
+      .filter(layer => layer.type === 'text' && layerNames.includes(layer.name.trim().toLowerCase()))
+      .forEach(layer => {
+        resolved[layer.id] = column;
+      });
+  });
+
+  Object.entries(bindings.layers).forEach(([layerId, column]) => {
+    if (column) resolved[layerId] = column;
+  });
+  return resolved;
+}
+
+/**
+ * Get the layers of a layer tree that can be bound to a feed: text layers
+ * and layers that show an image
+ */
+export function getBindableLayers(layers: AnimationLayer[]): AnimationLayer[] {
+  return flattenLayers(layers).filter(layer => ['text', 'image', 'rectangle'].includes(layer.type));
+}
+
+/**
+ * Get a file-safe name for a feed row, numbered and keyed by its id column
+ */
+export function getFeedRowName(row: FeedRow, index: number): string {
+  const keyColumn = ROW_KEY_COLUMNS
+    .map(key => Object.keys(row).find(column => column.toLowerCase() === key))
+    .find(column => column && row[column]);
+  const number = String(index + 1).padStart(3, '0');
+  return keyColumn ? `${number}_${toFileName(row[keyColumn], '')}`.replace(/_$/, '') : number;
+}
+
+/**
+ * Download a feed image. Only formats every banner can show are accepted.
+ */
+export async function fetchFeedImage(url: string): Promise<{ bytes: Uint8Array; format: NonNullable<RenderedLayerAsset['format']> }> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Feed image ${url} could not be downloaded (${response.status})`);
+  }
+
+  const mimeType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+  const format = FEED_IMAGE_FORMATS[mimeType];
+  if (!format) {
+    throw new Error(`Feed image ${url} is ${mimeType || 'of an unknown type'}; use PNG, JPG, WebP or SVG`);
+  }
+  return { bytes: new Uint8Array(await response.arrayBuffer()), format };
+}
+
+/**
+ * Get the layer assets of a banner with the text and images of a feed row,
+ * for the layer bindings resolveLayerBindings() returns. Bound text layers
+ * take the row's text and bound image layers the image at the row's URL,
+ * kept in the layer's box. Empty values leave the layer as it is, as does
+ * text the plugin exported as an image.
+ */
+export async function applyFeedRow(
+  assets: RenderedBannerAssets,
+  layerBindings: Record<string, string>,
+  row: FeedRow,
+  fetchImage = fetchFeedImage
+): Promise<RenderedBannerAssets> {
+  const layers = await Promise.all(assets.layers.map(async asset => {
+    const column = layerBindings[asset.id];
+    const value = column ? row[column] : '';
+    if (!value) return asset;
+
+    if (asset.text) {
+      return { ...asset, text: { ...asset.text, characters: value } };
+    }
+    if (asset.type.toLowerCase() === 'text' || !asset.bytes) return asset;
+
+    const image = await fetchImage(value);
+    return { ...asset, bytes: image.bytes, format: image.format };
+  }));
+
+  return { ...assets, layers };
+}
+
+/**
+ * Get the runtime a platform reads dynamic values with, or null when it has
+ * no DCO support and feeds export as banner variants only
+ */
+export function getDcoRuntime(platform: AdPlatform): DcoRuntime | null {
+  switch (platform) {
+    case 'doubleclick-studio':
+      return 'enabler';
+    case 'flashtalking':
+      return 'flashtalking';
+    default:
+      return null;
+  }
+}
+
+// Name of a dynamic variable: a JavaScript identifier made from its column
+function toVariableName(column: string): string {
+  const name = column.trim().replace(/[^A-Za-z0-9_]+/g, '_');
+  return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+}
+
+/**
+ * Get the variables of a DCO template, with the values of the feed's first
+ * row as defaults. Images default to the exported layer image, which
+ * Flashtalking requires to be inside the bundle.
+ */
+export function getDcoVariables(
+  plan: BannerLayerPlan[],
+  assets: RenderedBannerAssets,
+  layerBindings: Record<string, string>,
+  feed: ProductFeed,
+  imageDir: string
+): DcoVariable[] {
+  const firstRow = feed.rows[0] || {};
+
+  return assets.layers.flatMap((asset): DcoVariable[] => {
+    const column = layerBindings[asset.id];
+    const node = column ? findPlannedLayer(plan, asset.id) : null;
+    if (!column || !node) return [];
+
+    if (asset.text) {
+      return [{ name: toVariableName(column), type: 'text', elementId: node.elementId, defaultValue: firstRow[column] || asset.text.characters }];
+    }
+    if (asset.type.toLowerCase() === 'text' || !asset.bytes || !asset.format) return [];
+    return [{ name: toVariableName(column), type: 'image', elementId: node.elementId, defaultValue: `${imageDir}/${node.elementId}.${asset.format}` }];
+  });
+}
+
+// Statements that write the runtime values into the banner
+function getApplyStatements(variables: DcoVariable[], read: (variable: DcoVariable) => string): string {
+  return variables.map(variable => variable.type === 'text'
+    ? `    setText('${variable.elementId}', ${read(variable)});`
+    : `    setImage('${variable.elementId}', ${read(variable)});`
+  ).join('\n');
+}
+
+/**
+ * Get the texts a DCO template may write into its bound text layers: the
+ * values of their columns in every row, by layer id
+ */
+export function getDcoTexts(layerBindings: Record<string, string>, feed: ProductFeed): Record<string, string[]> {
+  return Object.fromEntries(Object.entries(layerBindings).map(([layerId, column]) => [
+    layerId,
+    feed.rows.map(row => row[column]).filter(Boolean)
+  ]));
+}
+
+/**
+ * Write the script that fills a DCO template with the values of its runtime
+ * and fires dcoready on #ad, which the image loader waits for. Without the
+ * runtime the banner shows its exported content. Studio loads the feed of
+ * the dynamic profile with the given id.
+ */
+export function getDcoRuntimeScript(runtime: DcoRuntime, variables: DcoVariable[], profileName = 'Feed', profileId?: number): string {
+  const helpers = `  var ad = document.getElementById('ad');
+
+  function escapeHtml(text) {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  // Split a text into the parts its text animations play on, with the
+  // markup and ids of the exported parts
+  function splitText(element, value) {
+    var has = {
+      line: Boolean(element.querySelector('.split-line')),
+      word: Boolean(element.querySelector('.split.split-word')),
+      char: Boolean(element.querySelector('.split-char'))
+    };
+    var counts = { line: 0, word: 0, char: 0 };
+    function part(unit, content) {
+      counts[unit] += 1;
+      return '<span class="split split-' + unit + '" id="' + element.id + '-' + unit + '-' + counts[unit] + '">' + content + '</span>';
+    }
+
+    var lines = value.replace(/\\r\\n?/g, '\\n').split('\\n').map(function (line) {
+      var content = line.split(/(\\s+)/).filter(Boolean).map(function (item) {
+        if (/^\\s/.test(item)) return escapeHtml(item);
+        var chars = Array.from(item).map(function (char) {
+          return has.char ? part('char', escapeHtml(char)) : escapeHtml(char);
+        }).join('');
+        if (has.word) return part('word', chars);
+        return has.char ? '<span class="split-word">' + chars + '</span>' : chars;
+      }).join('');
+      return has.line ? '<span class="split-mask">' + part('line', content) + '</span>' : content;
+    });
+    element.innerHTML = lines.join(has.line ? '' : '\\n');
+  }
+
+  function setText(id, value) {
+    var element = document.getElementById(id);
+    if (!element || value == null) return;
+    if (element.querySelector('.split')) {
+      splitText(element, String(value));
+    } else {
+      element.textContent = value;
+    }
+  }
+
+  function setImage(id, url) {
+    var element = document.getElementById(id);
+    var image = element && element.getElementsByTagName('img')[0];
+    if (!image || !url) return;
+    // A polite banner hasn't loaded its images yet
+    if (image.hasAttribute('data-src')) {
+      image.setAttribute('data-src', url);
+    } else {
+      image.src = url;
+    }
+  }
+
+  function ready() {
+    ad.dispatchEvent(new Event('dcoready'));
+  }`;
+
+  if (runtime === 'enabler') {
+    const profile = toVariableName(profileName);
+    const setProfile = profileId ? `  // The dynamic profile Studio loads the feed of\n  Enabler.setProfileId(${profileId});\n\n` : '';
+    const devRow: Record<string, unknown> = { _id: 0 };
+    variables.forEach(variable => {
+      devRow[variable.name] = variable.type === 'image' ? { Url: variable.defaultValue } : variable.defaultValue;
+    });
+
+    return `(function () {
+${helpers}
+
+  if (typeof Enabler === 'undefined') {
+    ready();
+    return;
+  }
+
+${setProfile}  // Values shown when the banner is previewed outside Studio
+  var devDynamicContent = {};
+  devDynamicContent.${profile} = [${JSON.stringify(devRow)}];
+  Enabler.setDevDynamicContent(devDynamicContent);
+
+  function apply() {
+    var row = dynamicContent.${profile}[0];
+${getApplyStatements(variables, variable => variable.type === 'image' ? `row.${variable.name} && row.${variable.name}.Url` : `row.${variable.name}`)}
+    ready();
+  }
+
+  if (Enabler.isInitialized()) {
+    apply();
+  } else {
+    Enabler.addEventListener(studio.events.StudioEvent.INIT, apply);
+  }
+})();
+`;
+  }
+
+  return `(function () {
+${helpers}
+
+  if (typeof FT === 'undefined') {
+    ready();
+    return;
+  }
+
+  var myFT = window.myFT = window.myFT || new FT();
+  myFT.on('instantads', function () {
+${getApplyStatements(variables, variable => `myFT.instantAds.${variable.name}`)}
+    ready();
+  });
+})();
+`;
+}
+
+/**
+ * Get the instant ads a Flashtalking manifest declares for DCO variables
+ */
+export function getFlashtalkingInstantAds(variables: DcoVariable[]): FlashtalkingInstantAd[] {
+  // A column bound to several layers is declared once
+  return variables
+    .filter((variable, index) => variables.findIndex(other => other.name === variable.name) === index)
+    .map(variable => ({ type: variable.type, name: variable.name, default: variable.defaultValue }));
+}
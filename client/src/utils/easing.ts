@@ -0,0 +1,521 @@
+/**
+ * Easing
+ *
+ * The easing registry: evaluates the easing of an animation at a point of
+ * its progress for the preview, and writes the same curve for every export,
+ * as a CSS timing function, a GSAP ease and Lottie bezier handles. The
+ * keyword easings are GSAP's built-in eases (easeIn is power1.in, bounce is
+ * bounce.out), so GSAP exports use them as they are; CSS and Lottie write
+ * them as cubic-bezier curves, exact for easeIn and easeOut and within a few
+ * thousandths for easeInOut. Where an output has no exact form of a curve
+ * (bounce, elastic and springs in CSS and Lottie) it is approximated by
+ * linear stops within about a thousandth of it.
+ *
+ * Besides the keywords, an easing can be a function written as it is stored
+ * on `Animation.easing`: `cubic-bezier(x1, y1, x2, y2)` and
+ * `steps(count, position)` as in CSS, and `spring(mass, stiffness, damping)`
+ * for a damped spring that settles at the end of the animation.
+ */
+
+import { EasingType } from '../types/animation';
+
+// Control points (x1, y1, x2, y2) of the CSS cubic-bezier keywords
+export const CUBIC_BEZIER_EASINGS: Record<string, [number, number, number, number]> = {
+  'ease': [0.25, 0.1, 0.25, 1],
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1]
+};
+
+/**
+ * Create the timing function of a CSS cubic-bezier() curve
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): (t: number) => number {
+  const cx = 3 * x1;
+  const bx = 3 * (x2 - x1) - cx;
+  const ax = 1 - cx - bx;
+  const cy = 3 * y1;
+  const by = 3 * (y2 - y1) - cy;
+  const ay = 1 - cy - by;
+
+  const sampleX = (s: number) => ((ax * s + bx) * s + cx) * s;
+  const sampleY = (s: number) => ((ay * s + by) * s + cy) * s;
+  const sampleDerivativeX = (s: number) => (3 * ax * s + 2 * bx) * s + cx;
+
+  // Find the curve parameter for x, with Newton's method and bisection as fallback
+  const solveX = (x: number): number => {
+    let s = x;
+    for (let i = 0; i < 8; i++) {
+      const error = sampleX(s) - x;
+      if (Math.abs(error) < 1e-6) return s;
+      const derivative = sampleDerivativeX(s);
+      if (Math.abs(derivative) < 1e-6) break;
+      s -= error / derivative;
+    }
+
+    let low = 0;
+    let high = 1;
+    s = x;
+    while (low < high) {
+      const value = sampleX(s);
+      if (Math.abs(value - x) < 1e-6) return s;
+      if (x > value) low = s;
+      else high = s;
+      if (high - low < 1e-7) break;
+      s = (low + high) / 2;
+    }
+    return s;
+  };
+
+  return (t: number) => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    return sampleY(solveX(t));
+  };
+}
+
+// Quadratic ease-in-out, as GSAP's power1.inOut
+function quadInOut(t: number): number {
+  return t < 0.5 ? 2 * t * t : 1 - 2 * (1 - t) * (1 - t);
+}
+
+// Bounce settling at the end, as in easeOutBounce
+function bounceOut(t: number): number {
+  const n1 = 7.5625;
+  const d1 = 2.75;
+
+  if (t < 1 / d1) return n1 * t * t;
+  if (t < 2 / d1) return n1 * (t -= 1.5 / d1) * t + 0.75;
+  if (t < 2.5 / d1) return n1 * (t -= 2.25 / d1) * t + 0.9375;
+  return n1 * (t -= 2.625 / d1) * t + 0.984375;
+}
+
+// Spring that overshoots and settles at the end, as in easeOutElastic
+function elasticOut(t: number): number {
+  if (t <= 0) return 0;
+  if (t >= 1) return 1;
+  return Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * ((2 * Math.PI) / 3)) + 1;
+}
+
+/**
+ * Where a steps() easing jumps, as in CSS
+ */
+export type StepPosition = 'jump-start' | 'jump-end' | 'jump-none' | 'jump-both';
+
+/**
+ * An easing function with its parameters
+ */
+export type EasingFunction =
+  | { type: 'cubic-bezier'; points: [number, number, number, number] }
+  | { type: 'spring'; mass: number; stiffness: number; damping: number }
+  | { type: 'steps'; count: number; position: StepPosition };
+
+export const DEFAULT_SPRING = { mass: 1, stiffness: 100, damping: 10 };
+
+// CSS aliases of the step positions
+const STEP_POSITION_ALIASES: Record<string, StepPosition> = {
+  'start': 'jump-start',
+  'end': 'jump-end',
+  'jump-start': 'jump-start',
+  'jump-end': 'jump-end',
+  'jump-none': 'jump-none',
+  'jump-both': 'jump-both'
+};
+
+// Distance from rest at which a spring counts as settled
+const SPRING_TOLERANCE = 0.001;
+
+/**
+ * Parse an easing written as a function. Keywords and malformed functions
+ * give null.
+ */
+export function parseEasingFunction(easing: string | undefined): EasingFunction | null {
+  const match = easing?.trim().match(/^(cubic-bezier|spring|steps)\(([^)]*)\)$/);
+  if (!match) return null;
+
+  const args = match[2].split(',').map(arg => arg.trim());
+  const numbers = args.map(Number);
+
+  switch (match[1]) {
+    case 'cubic-bezier': {
+      if (numbers.length !== 4 || numbers.some(value => !isFinite(value))) return null;
+      // The curve has to move forward in time
+      const [x1, y1, x2, y2] = numbers;
+      if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) return null;
+      return { type: 'cubic-bezier', points: [x1, y1, x2, y2] };
+    }
+    case 'spring': {
+      // Without damping a spring never settles
+      if (numbers.length !== 3 || numbers.some(value => !isFinite(value) || value <= 0)) return null;
+      const [mass, stiffness, damping] = numbers;
+      return { type: 'spring', mass, stiffness, damping };
+    }
+    default: {
+      const count = numbers[0];
+      const position = args.length > 1 ? STEP_POSITION_ALIASES[args[1]] : 'jump-end';
+      if (!Number.isInteger(count) || count < 1 || !position || args.length > 2) return null;
+      if (position === 'jump-none' && count < 2) return null;
+      return { type: 'steps', count, position };
+    }
+  }
+}
+
+// Round an easing parameter for its string form
+function formatParameter(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+/**
+ * Write an easing function the way it is stored on `Animation.easing`
+ */
+export function formatEasingFunction(easing: EasingFunction): string {
+  switch (easing.type) {
+    case 'cubic-bezier':
+      return `cubic-bezier(${easing.points.map(formatParameter).join(', ')})`;
+    case 'spring':
+      return `spring(${[easing.mass, easing.stiffness, easing.damping].map(formatParameter).join(', ')})`;
+    case 'steps':
+      return `steps(${easing.count}, ${easing.position})`;
+  }
+}
+
+// Natural frequency and damping ratio of a spring
+function getSpringMotion(spring: { mass: number; stiffness: number; damping: number }): { omega: number; zeta: number } {
+  const omega = Math.sqrt(spring.stiffness / spring.mass);
+  return { omega, zeta: spring.damping / (2 * Math.sqrt(spring.stiffness * spring.mass)) };
+}
+
+// Position (0 at rest before, 1 at rest after) of a spring released from 0
+// at time (seconds) tau
+function springPosition(omega: number, zeta: number, tau: number): number {
+  if (zeta < 1) {
+    const damped = omega * Math.sqrt(1 - zeta * zeta);
+    return 1 - Math.exp(-zeta * omega * tau) * (Math.cos(damped * tau) + ((zeta * omega) / damped) * Math.sin(damped * tau));
+  }
+  if (zeta === 1) {
+    return 1 - Math.exp(-omega * tau) * (1 + omega * tau);
+  }
+  const root = Math.sqrt(zeta * zeta - 1);
+  const r1 = -omega * (zeta - root);
+  const r2 = -omega * (zeta + root);
+  return 1 - (r2 * Math.exp(r1 * tau) - r1 * Math.exp(r2 * tau)) / (r2 - r1);
+}
+
+/**
+ * Get the time (seconds) a spring takes to settle. The animation's duration
+ * is stretched over this time, so the spring always ends at rest.
+ */
+export function getSpringSettleTime(spring: { mass: number; stiffness: number; damping: number }): number {
+  const { omega, zeta } = getSpringMotion(spring);
+
+  // Scan up to well past the time its slowest motion decays within the
+  // tolerance, or ten periods for an undamped spring
+  const decay = zeta < 1 ? zeta * omega : omega * (zeta - Math.sqrt(zeta * zeta - 1));
+  const periods = (20 * Math.PI) / omega;
+  const limit = decay > 0 ? Math.max(periods, (1.5 * Math.log(1 / SPRING_TOLERANCE)) / decay) : periods;
+  const step = limit / 2000;
+
+  // The last time it's out of tolerance, scanned back from the limit
+  let settled = limit;
+  for (let tau = limit; tau > 0; tau -= step) {
+    if (Math.abs(1 - springPosition(omega, zeta, tau)) > SPRING_TOLERANCE) break;
+    settled = tau;
+  }
+  return settled;
+}
+
+// Timing function of a spring over the progress of an animation
+function springEasing(spring: { mass: number; stiffness: number; damping: number }): (t: number) => number {
+  const { omega, zeta } = getSpringMotion(spring);
+  const settleTime = getSpringSettleTime(spring);
+  return (t: number) => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    return springPosition(omega, zeta, t * settleTime);
+  };
+}
+
+// Timing function of steps(), as in CSS
+function stepsEasing(count: number, position: StepPosition): (t: number) => number {
+  const jumps = position === 'jump-both' ? count + 1 : position === 'jump-none' ? count - 1 : count;
+  return (t: number) => {
+    let step = Math.floor(t * count);
+    if (position === 'jump-start' || position === 'jump-both') step += 1;
+    return Math.min(jumps, Math.max(0, step)) / jumps;
+  };
+}
+
+// Number of samples an easing is approximated with by linear stops
+const STOP_SAMPLES = 240;
+
+// Largest difference between the stops and the easing
+const STOP_TOLERANCE = 0.001;
+
+// Progress points where the bounce changes direction abruptly
+const BOUNCE_BREAKS = [1 / 2.75, 2 / 2.75, 2.5 / 2.75];
+
+/**
+ * An easing as each output writes it. Every output is derived from the
+ * easing's timing function, so the preview and the exports agree.
+ */
+export interface EasingDefinition {
+  evaluate: (t: number) => number; // Progress (0-1) to eased progress
+  cubicBezier: [number, number, number, number] | null; // When a cubic-bezier curve is exact
+  steps: { count: number; position: StepPosition } | null;
+  gsapEase: string; // Built-in GSAP ease, or the name of a registered one
+  gsapScript: string | null; // Function to register the GSAP ease with, when it isn't built in
+  breaks: number[]; // Progress points where the curve has corners
+}
+
+const LINEAR_POINTS: [number, number, number, number] = [0, 0, 1, 1];
+
+const LINEAR_EASING: EasingDefinition = {
+  evaluate: t => t,
+  cubicBezier: LINEAR_POINTS,
+  steps: null,
+  gsapEase: 'none',
+  gsapScript: null,
+  breaks: []
+};
+
+// Name an easing is registered with as a GSAP ease, e.g.
+// cubic_bezier_0p2_m0p5_0p8_1 for cubic-bezier(0.2, -0.5, 0.8, 1)
+function getGsapEaseName(easing: string): string {
+  return easing
+    .replace(/-(?=\d|\.)/g, 'm')
+    .replace(/\./g, 'p')
+    .replace(/[^a-z0-9]+/gi, '_')
+    .replace(/_$/, '');
+}
+
+// Define an easing from its keyword or function
+function defineEasing(easing: string | undefined): EasingDefinition {
+  switch (easing) {
+    // A quadratic is the cubic-bezier with control points a third and two
+    // thirds along it
+    case EasingType.EaseIn:
+      return { ...LINEAR_EASING, evaluate: t => t * t, cubicBezier: [0.333, 0, 0.667, 0.333], gsapEase: 'power1.in' };
+    case EasingType.EaseOut:
+      return { ...LINEAR_EASING, evaluate: t => 1 - (1 - t) * (1 - t), cubicBezier: [0.333, 0.667, 0.667, 1], gsapEase: 'power1.out' };
+    case EasingType.EaseInOut:
+      // The closest cubic-bezier, within 0.004 of it
+      return { ...LINEAR_EASING, evaluate: quadInOut, cubicBezier: [0.485, 0.045, 0.515, 0.955], gsapEase: 'power1.inOut' };
+    case EasingType.Bounce:
+      return { ...LINEAR_EASING, evaluate: bounceOut, cubicBezier: null, gsapEase: 'bounce.out', breaks: BOUNCE_BREAKS };
+    case EasingType.Elastic:
+      // GSAP's elastic.out, with its default amplitude 1 and period 0.3, is the same curve
+      return { ...LINEAR_EASING, evaluate: elasticOut, cubicBezier: null, gsapEase: 'elastic.out' };
+  }
+
+  const keywordPoints = easing ? CUBIC_BEZIER_EASINGS[easing] : undefined;
+  const parsed: EasingFunction | null = keywordPoints
+    ? { type: 'cubic-bezier', points: keywordPoints }
+    : parseEasingFunction(easing);
+  if (!parsed) return LINEAR_EASING;
+
+  // CSS keywords and functions with the same curve share their GSAP ease
+  const name = getGsapEaseName(formatEasingFunction(parsed));
+  const gsap = { gsapEase: name, gsapScript: getEasingScript(parsed) };
+
+  switch (parsed.type) {
+    case 'cubic-bezier':
+      return { ...LINEAR_EASING, ...gsap, evaluate: cubicBezier(...parsed.points), cubicBezier: parsed.points };
+    case 'spring':
+      return { ...LINEAR_EASING, ...gsap, evaluate: springEasing(parsed), cubicBezier: null };
+    case 'steps':
+      return {
+        ...LINEAR_EASING,
+        ...gsap,
+        evaluate: stepsEasing(parsed.count, parsed.position),
+        cubicBezier: null,
+        steps: { count: parsed.count, position: parsed.position }
+      };
+  }
+}
+
+const easingCache = new Map<string, EasingDefinition>();
+
+/**
+ * Get the definition of an easing. Unknown easings are linear.
+ */
+export function getEasingDefinition(easing: string | undefined): EasingDefinition {
+  const key = easing?.trim() || '';
+  let definition = easingCache.get(key);
+  if (!definition) {
+    definition = defineEasing(key || undefined);
+    easingCache.set(key, definition);
+  }
+  return definition;
+}
+
+/**
+ * Evaluate an easing at progress t (0-1). Unknown easings are linear.
+ */
+export function evaluateEasing(easing: string | undefined, t: number): number {
+  return getEasingDefinition(easing).evaluate(Math.min(1, Math.max(0, t)));
+}
+
+/**
+ * Get the cubic-bezier control points of an easing, for keywords and
+ * cubic-bezier() alike; null when no cubic-bezier curve describes it
+ */
+export function getCubicBezierPoints(easing: string | undefined): [number, number, number, number] | null {
+  return getEasingDefinition(easing).cubicBezier;
+}
+
+/**
+ * Whether an easing can only be approximated by sampling it, because neither
+ * a cubic-bezier curve nor steps describe it (bounce, elastic and springs)
+ */
+export function isSampledEasing(easing: string | undefined): boolean {
+  const definition = getEasingDefinition(easing);
+  return !definition.cubicBezier && !definition.steps;
+}
+
+/**
+ * Approximate an easing with linear stops: progress points (0-1) and their
+ * eased values, as few as keep within a thousandth of the curve
+ */
+export function getEasingStops(easing: string | undefined): { progress: number; value: number }[] {
+  const definition = getEasingDefinition(easing);
+  const times = Array.from(new Set([
+    ...Array.from({ length: STOP_SAMPLES + 1 }, (_, index) => index / STOP_SAMPLES),
+    ...definition.breaks
+  ])).sort((a, b) => a - b);
+  const values = times.map(time => definition.evaluate(time));
+
+  // Keep a stop wherever the line from the last kept stop would leave the
+  // tolerance of a sample in between
+  const kept = [0];
+  let anchor = 0;
+  const isLinear = (from: number, to: number) => {
+    for (let index = from + 1; index < to; index++) {
+      const progress = (times[index] - times[from]) / (times[to] - times[from]);
+      if (Math.abs(values[from] + (values[to] - values[from]) * progress - values[index]) > STOP_TOLERANCE) return false;
+    }
+    return true;
+  };
+  for (let index = 2; index < times.length; index++) {
+    if (!isLinear(anchor, index)) {
+      anchor = index - 1;
+      kept.push(anchor);
+    }
+  }
+  kept.push(times.length - 1);
+
+  return kept.map(index => ({ progress: times[index], value: values[index] }));
+}
+
+// Round an easing value for CSS
+function formatCssNumber(value: number): string {
+  return String(Math.round(value * 10000) / 10000);
+}
+
+/**
+ * Write an easing as a CSS timing function: a keyword, cubic-bezier(),
+ * steps(), or linear() stops for the curves CSS has no function for
+ */
+export function getCssTimingFunction(easing: string | undefined): string {
+  const definition = getEasingDefinition(easing);
+  if (definition.cubicBezier) {
+    return definition.cubicBezier.every((value, index) => value === LINEAR_POINTS[index])
+      ? 'linear'
+      : `cubic-bezier(${definition.cubicBezier.join(', ')})`;
+  }
+  if (definition.steps) {
+    return formatEasingFunction({ type: 'steps', ...definition.steps });
+  }
+  const stops = getEasingStops(easing).map(stop =>
+    `${formatCssNumber(stop.value)} ${formatCssNumber(stop.progress * 100)}%`
+  );
+  return `linear(${stops.join(', ')})`;
+}
+
+/**
+ * Get the GSAP ease of an easing. Curves GSAP has no ease for come with the
+ * function to register them with, via gsap.registerEase(ease, script).
+ */
+export function getGsapEase(easing: string | undefined): { ease: string; script: string | null } {
+  const definition = getEasingDefinition(easing);
+  return { ease: definition.gsapEase, script: definition.gsapScript };
+}
+
+/**
+ * Get the Lottie bezier handles (out x, out y, in x, in y) of an easing;
+ * null when it has to be sampled into keyframes
+ */
+export function getLottieHandles(easing: string | undefined): [number, number, number, number] | null {
+  return getEasingDefinition(easing).cubicBezier;
+}
+
+// Write an easing function as a JavaScript function expression that
+// evaluates it exactly as the registry does
+function getEasingScript(parsed: EasingFunction): string {
+  switch (parsed.type) {
+    case 'cubic-bezier': {
+      const [x1, y1, x2, y2] = parsed.points;
+      const cx = 3 * x1;
+      const bx = 3 * (x2 - x1) - cx;
+      const ax = 1 - cx - bx;
+      const cy = 3 * y1;
+      const by = 3 * (y2 - y1) - cy;
+      const ay = 1 - cy - by;
+      return `function (t) {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    function x(s) { return ((${ax} * s + ${bx}) * s + ${cx}) * s; }
+    function y(s) { return ((${ay} * s + ${by}) * s + ${cy}) * s; }
+    var s = t;
+    for (var i = 0; i < 8; i++) {
+      var error = x(s) - t;
+      if (Math.abs(error) < 1e-6) return y(s);
+      var derivative = (${3 * ax} * s + ${2 * bx}) * s + ${cx};
+      if (Math.abs(derivative) < 1e-6) break;
+      s -= error / derivative;
+    }
+    var low = 0, high = 1;
+    s = t;
+    while (low < high) {
+      var value = x(s);
+      if (Math.abs(value - t) < 1e-6) break;
+      if (t > value) low = s; else high = s;
+      if (high - low < 1e-7) break;
+      s = (low + high) / 2;
+    }
+    return y(s);
+  }`;
+    }
+
+    case 'spring': {
+      const { omega, zeta } = getSpringMotion(parsed);
+      const settleTime = getSpringSettleTime(parsed);
+      let position: string;
+      if (zeta < 1) {
+        const damped = omega * Math.sqrt(1 - zeta * zeta);
+        position = `1 - Math.exp(${-zeta * omega} * tau) * (Math.cos(${damped} * tau) + ${(zeta * omega) / damped} * Math.sin(${damped} * tau))`;
+      } else if (zeta === 1) {
+        position = `1 - Math.exp(${-omega} * tau) * (1 + ${omega} * tau)`;
+      } else {
+        const root = Math.sqrt(zeta * zeta - 1);
+        const r1 = -omega * (zeta - root);
+        const r2 = -omega * (zeta + root);
+        position = `1 - (${r2} * Math.exp(${r1} * tau) - ${r1} * Math.exp(${r2} * tau)) / ${r2 - r1}`;
+      }
+      return `function (t) {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    var tau = t * ${settleTime};
+    return ${position};
+  }`;
+    }
+
+    case 'steps': {
+      const { count, position } = parsed;
+      const jumps = position === 'jump-both' ? count + 1 : position === 'jump-none' ? count - 1 : count;
+      const offset = position === 'jump-start' || position === 'jump-both' ? ' + 1' : '';
+      return `function (t) {
+    return Math.min(${jumps}, Math.max(0, Math.floor(t * ${count})${offset})) / ${jumps};
+  }`;
+    }
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Easing round-trip tests
+ *
+ * Checks that every output of the easing registry plays the curve the
+ * preview evaluates: the CSS timing function, the GSAP ease (built in or
+ * registered from its script) and the curve Lottie rebuilds from the bezier
+ * handles, each sampled against evaluateEasing().
+ */
+
+import { gsap } from 'gsap';
+import { EasingType } from '../types/animation';
+import {
+  CUBIC_BEZIER_EASINGS,
+  cubicBezier,
+  evaluateEasing,
+  getCssTimingFunction,
+  getGsapEase,
+  getLottieHandles
+} from './easing';
+
+// Easings outside the keywords, one of each kind of function
+const FUNCTION_EASINGS = [
+  'cubic-bezier(0.2, -0.5, 0.8, 1.5)',
+  'cubic-bezier(0.68, -0.6, 0.32, 1.6)',
+  'spring(1, 100, 10)',
+  'spring(1, 100, 20)',
+  'spring(2, 80, 40)',
+  'steps(4, jump-start)',
+  'steps(4, jump-end)',
+  'steps(4, jump-none)',
+  'steps(4, jump-both)'
+];
+
+// Largest difference allowed between an output and the preview
+const TOLERANCE = 0.005;
+
+// Progress points compared, halfway between samples so none falls on a step
+const SAMPLES = 200;
+const PROGRESS = Array.from({ length: SAMPLES }, (_, index) => (index + 0.5) / SAMPLES);
+
+// Evaluate a CSS timing function as a browser does
+function parseCssTimingFunction(timing: string): ((t: number) => number) | null {
+  if (timing === 'linear') return t => t;
+
+  const match = timing.match(/^(cubic-bezier|steps|linear)\((.*)\)$/);
+  if (!match) return null;
+
+  if (match[1] === 'cubic-bezier') {
+    const [x1, y1, x2, y2] = match[2].split(',').map(Number);
+    return cubicBezier(x1, y1, x2, y2);
+  }
+
+  if (match[1] === 'steps') {
+    const [countArg, position = 'jump-end'] = match[2].split(',').map(arg => arg.trim());
+    const count = Number(countArg);
+    const jumps = position === 'jump-both' ? count + 1 : position === 'jump-none' ? count - 1 : count;
+    const offset = position === 'jump-start' || position === 'jump-both' || position === 'start' ? 1 : 0;
+    return t => Math.min(jumps, Math.max(0, Math.floor(t * count) + offset)) / jumps;
+  }
+
+  const stops = match[2].split(',').map(stop => {
+    const [value, percent] = stop.trim().split(/\s+/);
+    return { value: Number(value), progress: parseFloat(percent) / 100 };
+  });
+  return t => {
+    const index = stops.findIndex(stop => stop.progress >= t);
+    if (index <= 0) return stops[Math.max(0, index)].value;
+    const from = stops[index - 1];
+    const to = stops[index];
+    return from.value + (to.value - from.value) * ((t - from.progress) / (to.progress - from.progress));
+  };
+}
+
+// The GSAP ease of an easing, registering it the way the exported script does
+function getGsapEaseFunction(easing: string): (t: number) => number {
+  const { ease, script } = getGsapEase(easing);
+  if (script) {
+    gsap.registerEase(ease, new Function(`return ${script};`)());
+  }
+  return gsap.parseEase(ease);
+}
+
+// Largest difference between a curve and the preview's
+function getMaxDifference(easing: string, curve: (t: number) => number): number {
+  return Math.max(...PROGRESS.map(t => Math.abs(curve(t) - evaluateEasing(easing, t))));
+}
+
+/**
+ * Compare the CSS, GSAP and Lottie forms of every registry easing with the
+ * preview. Failures are logged as errors.
+ */
+export function runEasingRoundTripTests(): void {
+  console.log('%c === EASING ROUND-TRIP TEST ===', 'background: #00796b; color: #fff; padding: 5px; font-weight: bold;');
+
+  const easings = Array.from(new Set([
+    ...Object.values(EasingType),
+    ...Object.keys(CUBIC_BEZIER_EASINGS),
+    ...FUNCTION_EASINGS
+  ]));
+  let failures = 0;
+
+  const check = (easing: string, output: string, difference: number) => {
+    if (difference > TOLERANCE) {
+      failures++;
+      console.error(`❌ ${easing}: ${output} is off the preview by ${difference.toFixed(4)}`);
+    } else {
+      console.log(`✅ ${easing}: ${output} within ${difference.toFixed(4)}`);
+    }
+  };
+
+  easings.forEach(easing => {
+    const timing = getCssTimingFunction(easing);
+    const css = parseCssTimingFunction(timing);
+    if (css) {
+      check(easing, `CSS ${timing.length > 40 ? `${timing.slice(0, 40)}…` : timing}`, getMaxDifference(easing, css));
+    } else {
+      failures++;
+      console.error(`❌ ${easing}: CSS timing function ${timing} can't be read`);
+    }
+
+    check(easing, `GSAP ${getGsapEase(easing).ease}`, getMaxDifference(easing, getGsapEaseFunction(easing)));
+
+    // Lottie samples the curves no bezier describes (springs, bounces and
+    // steps) into keys at the frame rate
+    const handles = getLottieHandles(easing);
+    if (handles) {
+      check(easing, `Lottie [${handles.join(', ')}]`, getMaxDifference(easing, cubicBezier(...handles)));
+    } else if (timing === 'linear' || timing.startsWith('cubic-bezier')) {
+      failures++;
+      console.error(`❌ ${easing}: Lottie has no handles for ${timing}`);
+    } else {
+      console.log(`✅ ${easing}: Lottie samples it at the frame rate`);
+    }
+  });
+
+  console.log(failures === 0
+    ? `All ${easings.length} easings match the preview in every export`
+    : `${failures} easing outputs don't match the preview`);
+}
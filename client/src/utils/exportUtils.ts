@@ -1,16 +1,64 @@
 import { 
-  exportGif as pluginExportGif, 
-  exportHtml as pluginExportHtml,
-  exportMp4 as pluginExportMp4,
-  exportWebm as pluginExportWebm
+  renderGifFrames as pluginRenderGifFrames, 
+  renderHtmlAssets as pluginRenderHtmlAssets,
+  renderVideoAssets as pluginRenderVideoAssets,
+  renderLottieAssets as pluginRenderLottieAssets
 } from '../lib/figmaPlugin';
-import { AnimationFrame } from '../types/animation';
+import { AnimationFrame, AnimationLayer } from '../types/animation';
+import { encodeGif, GifColorDepth, GifEncoderFrame } from './gifEncoder';
+import { decodeImageBytes, downloadBlob } from './rasterUtils';
+import {
+  planBannerLayers,
+  getLayerRequests,
+  getPlatformBundleLayout,
+  buildBannerContent,
+  packageHtml5Banners,
+  BannerLayerPlan,
+  Html5BannerBundle
+} from './html5Bundle';
+import { ZipFiles, createZip, getFileExtension, toFileName } from './zipUtils';
+import {
+  BundleReport,
+  checkBackupImage,
+  checkBundleAgainstSpec,
+  checkFileAgainstTarget,
+  getAdPlatformSpec
+} from './adPlatformSpecs';
+import { CompressionSpeed, recompressBannerAssets, recompressGif } from './sizeOptimizer';
+import { BackupImageFormat, renderBackupImage } from './backupImage';
+import { drawBannerAtTime, loadBannerAssets } from './bannerRenderer';
+import { getTimelineDuration } from './animationSampler';
+import { encodeVideo } from './videoEncoder';
+import { buildFrameSequence, FrameSequenceLayout } from './frameSequence';
+import { buildLottieAnimation, LottieAnimation, validateLottieAnimation } from './lottieUtils';
+import { buildAmpBanner } from './ampHtml';
+import { GSAP_CDN_URL, isGsapPlatform } from './gsapTimeline';
+import { getBannerPlayback } from './bannerPlayback';
+import { BannerClickZone, getClickZoneScript, getClickZones } from './clickZones';
+import { getPoliteLoadingScript, needsEnablerForPoliteLoading } from './politeLoading';
+import { getBannerLayoutCss, getBannerLayoutMode } from './responsiveLayout';
+import { buildReviewSite } from './reviewSite';
+import { getTextSplitLayerIds } from './textSplit';
+import {
+  applyFeedRow,
+  DCO_RUNTIME_URLS,
+  FeedExportOptions,
+  getDcoRuntime,
+  getDcoRuntimeScript,
+  getDcoTexts,
+  getDcoVariables,
+  getFeedRowName,
+  getFlashtalkingInstantAds,
+  resolveLayerBindings
+} from './dcoFeed';
+import type { RenderedBannerAssets } from '../lib/figmaPlugin';
 
 // Ad platform types
 export type AdPlatform = 
   // Standard formats
   | 'standard-css' // HTML/JS (CSS @keyframes)
   | 'standard-gsap' // HTML/JS (GSAP/Greensock)
+  | 'amphtml' // AMPHTML ad (amp-animation, no custom JS)
   // Platforms with clickTag
   | 'adform'
   | 'adform-mraid'
@@ -54,7 +102,7 @@ export type AdPlatform =
   | 'generic';
 
 // GIF Export options
-interface GifExportOptions {
+export interface GifExportOptions {
   frames: AnimationFrame[];
   width: number;
   height: number;
@@ -64,12 +112,17 @@ interface GifExportOptions {
   disposal?: 'none' | 'background' | 'previous';
   delay?: number;
   loop?: number | boolean;
+  fps?: number; // Used for frame timing when neither the options nor the frame set a delay
+  maxColors?: number; // Palette size, defaults to a value derived from quality
+  maxFileSizeTarget?: number; // KB; the palette is reduced until the GIF fits
+  compressionSpeed?: CompressionSpeed;
   useCustomContent?: boolean; // Whether frames are custom content frames
 }
 
 // HTML5 Export options
-interface HtmlExportOptions {
+export interface HtmlExportOptions {
   frames: AnimationFrame[];
+  layers: AnimationLayer[]; // Layer tree of the banner
   width: number;
   height: number;
   fps: number;
@@ -78,16 +131,24 @@ interface HtmlExportOptions {
   addBorder?: boolean;
   borderColor?: string;
   addPreloaderAnimation?: boolean;
-  infiniteLoop?: boolean;
-  addBackupJpg?: boolean;
+  politeLoading?: boolean; // Loads the layer images after the host page and plays once in view
+  infiniteLoop?: boolean; // Loops until the platform's animation limit
+  loopCount?: number; // Times the timeline plays when not looping infinitely
+  stopOnEndFrame?: boolean;
+  endFrameTime?: number; // Seconds into the timeline the banner freezes on, defaults to its end
+  addBackupJpg?: boolean; // Adds a backup image next to each banner
+  backupImageFormat?: BackupImageFormat;
+  backupImageTime?: number; // Seconds into the timeline, defaults to its end
+  backupImageSizes?: BannerSource[]; // Ad sizes to render backup images for, defaults to the exported banner
   renderRetina?: boolean;
   maxFileSizeTarget?: number;
+  feed?: FeedExportOptions; // Product feed the banner's layers are bound to
   
   // Preview page options
   generatePreviewPage?: boolean;
   previewPageLayout?: 'masonry' | 'grid' | 'list';
   useDarkMode?: boolean;
-  uploadToNetlify?: boolean;
+  reviewSiteVersion?: string; // Version label shown on the review site
   customHtml?: string;
   customCss?: string;
   
@@ -97,7 +158,7 @@ interface HtmlExportOptions {
   includeZipFiles?: boolean;
   usePTagsInsteadOfSvg?: boolean;
   bannerLink?: string;
-  compressionSpeed?: 'faster' | 'balanced' | 'smaller';
+  compressionSpeed?: CompressionSpeed;
   
   // Ad platform options
   adPlatform?: AdPlatform;
@@ -105,135 +166,638 @@ interface HtmlExportOptions {
   // Legacy options (for backwards compatibility)
   includeClickTag?: boolean;
   optimizeForAdNetworks?: boolean;
-  generateFallback?: boolean;
+  generateFallback?: boolean; // Adds the backup image inside each banner's own ZIP
   
   // Internal use only - set by the export function
   templatePreview?: string;
   previewPage?: string;
 }
 
+// A banner size to render, with the frame and layer tree it is built from
+export interface BannerSource {
+  name: string;
+  width: number;
+  height: number;
+  frame: AnimationFrame;
+  layers: AnimationLayer[];
+  frames?: AnimationFrame[]; // Every frame of the size, for frame-based exports such as GIF
+}
+
+// Result of a GIF export
+export interface GifExportResult {
+  blob: Blob;
+  reports: BundleReport[]; // Size target check, when a target is set
+}
+
+// An encoded GIF, before it is downloaded
+export interface GifExportFile {
+  fileName: string;
+  bytes: Uint8Array;
+  reports: BundleReport[];
+}
+
+// A built HTML5 banner with its backup image, before packaging
+export interface Html5BannerExport {
+  banner: Html5BannerBundle;
+  backup: { fileName: string; bytes: Uint8Array } | null;
+  reports: BundleReport[];
+}
+
+// Result of an HTML5 export
+export interface HtmlExportResult {
+  blob: Blob;
+  reports: BundleReport[]; // Spec check of every exported banner
+}
+
+// PNG sequence Export options
+export interface PngSequenceExportOptions {
+  frames: AnimationFrame[];
+  width: number;
+  height: number;
+  fps: number; // Frame rate of the numbered frames
+  layout: FrameSequenceLayout; // Numbered PNG files or a sprite sheet with a JSON atlas
+  delay?: number; // Milliseconds per frame, overrides the frame delays
+  useCustomContent?: boolean; // Whether frames are custom content frames
+}
+
+// Result of a PNG sequence export
+export interface PngSequenceExportResult {
+  blob: Blob;
+}
+
+// Lottie Export options
+export interface LottieExportOptions {
+  frames: AnimationFrame[];
+  layers: AnimationLayer[]; // Layer tree of the banner
+  width: number;
+  height: number;
+  fps: number;
+  duration?: number; // Seconds, defaults to the end of the last animation
+}
+
+// Result of a Lottie export
+export interface LottieExportResult {
+  blob: Blob;
+  animation: LottieAnimation;
+}
+
 // MP4 Export options
-interface Mp4ExportOptions {
+export interface Mp4ExportOptions {
   frames: AnimationFrame[];
+  layers: AnimationLayer[]; // Layer tree of the banner
   width: number;
   height: number;
   fps: number;
-  videoBitrate: number;
+  videoBitrate: number; // kbps
   codec: 'h264';
+  duration?: number; // Seconds, defaults to the end of the last animation
 }
 
 // WebM Export options
-interface WebmExportOptions {
+export interface WebmExportOptions {
   frames: AnimationFrame[];
+  layers: AnimationLayer[]; // Layer tree of the banner
   width: number;
   height: number;
   fps: number;
-  videoBitrate: number;
+  videoBitrate: number; // kbps
   codec: 'vp9';
-  transparent?: boolean;
+  transparent?: boolean; // Keeps an alpha channel and leaves the frame background out
+  duration?: number; // Seconds, defaults to the end of the last animation
 }
 
-// Export animation as GIF
-export async function exportGif(options: GifExportOptions): Promise<void> {
+// An encoded video, before it is downloaded
+export interface VideoExportFile {
+  fileName: string;
+  bytes: Uint8Array;
+  mimeType: string;
+}
+
+// Result of a video export
+export interface VideoExportResult {
+  blob: Blob;
+}
+
+// Get the palette size for a GIF quality value (0-1)
+function getGifPaletteSize(quality: number): number {
+  return Math.max(16, Math.min(256, Math.round(256 * quality)));
+}
+
+// Get the delay (ms) of a GIF frame. An explicit delay in the options wins,
+// then the frame's own delay (seconds), then the frame rate.
+function getGifFrameDelay(frameDelay: number | undefined, options: { delay?: number; fps?: number }): number {
+  if (options.delay !== undefined) return options.delay;
+  if (frameDelay !== undefined && frameDelay > 0) return frameDelay * 1000;
+  return 1000 / (options.fps || 10);
+}
+
+// Rasterize the frames of a frame-based export with their delays (ms)
+async function renderAnimationFrames(
+  options: Pick<GifExportOptions, 'frames' | 'width' | 'height' | 'delay' | 'fps' | 'useCustomContent'>
+): Promise<{ bytes: Uint8Array; delay: number }[]> {
+  const { frames, useCustomContent, ...otherOptions } = options;
+  
+  // Make sure frames is always an array
+  const frameArray = Array.isArray(frames) ? frames : [];
+  
+  if (frameArray.length === 0) {
+    throw new Error('No frames available for export. Please make sure you have frames selected.');
+  }
+  
+  // If frames are custom content frames, we need to modify them for export
+  const processedFrames = useCustomContent
+    ? frameArray.map(frame => ({
+        ...frame,
+        // Add custom content properties so the plugin can use them
+        customContent: {
+          headlineText: frame.headlineText || '',
+          description: frame.description || '',
+          isCustomContent: true
+        }
+      }))
+    : frameArray;
+  
+  // Rasterize every frame (in Figma this is done by the plugin)
+  const renderedFrames = await pluginRenderGifFrames({
+    ...otherOptions,
+    frames: processedFrames,
+    hasCustomContent: Boolean(useCustomContent)
+  });
+  
+  return renderedFrames.map(rendered => ({
+    bytes: rendered.bytes,
+    delay: getGifFrameDelay(rendered.delay, options)
+  }));
+}
+
+// Encode the animation as a GIF
+// Rasterizes the frames, encodes them and steps the palette down until the
+// GIF fits the size target. Throws when there is nothing to export.
+export async function buildGifExport(options: GifExportOptions): Promise<GifExportFile> {
+  const renderedFrames = await renderAnimationFrames(options);
+  
+  // Decode the rendered PNGs into pixels for the encoder
+  const encoderFrames: GifEncoderFrame[] = await Promise.all(
+    renderedFrames.map(async (rendered) => ({
+      imageData: await decodeImageBytes(rendered.bytes, options.width, options.height),
+      delay: rendered.delay
+    }))
+  );
+  
+  const encode = (settings: { maxColors: number; colorDepth: GifColorDepth }) => encodeGif(encoderFrames, {
+    width: options.width,
+    height: options.height,
+    dithering: options.dithering,
+    colorDepth: settings.colorDepth,
+    maxColors: settings.maxColors,
+    disposal: options.disposal,
+    loop: options.loop
+  });
+  const initialSettings = {
+    maxColors: options.maxColors || getGifPaletteSize(options.quality),
+    colorDepth: options.colorDepth || 24
+  };
+  const fileName = `animation-${options.width}x${options.height}.gif`;
+  
+  // Step the palette down until the GIF fits the size target
+  const reports: BundleReport[] = [];
+  let bytes: Uint8Array;
+  if (options.maxFileSizeTarget && options.maxFileSizeTarget > 0) {
+    const recompressed = recompressGif(encode, {
+      ...initialSettings,
+      maxBytes: options.maxFileSizeTarget * 1024,
+      speed: options.compressionSpeed
+    });
+    bytes = recompressed.value;
+    reports.push(checkFileAgainstTarget(fileName, bytes.length, options.maxFileSizeTarget, recompressed.degradations));
+  } else {
+    bytes = encode(initialSettings);
+  }
+  
+  return { fileName, bytes, reports };
+}
+
+// Export animation as GIF and download it
+export async function exportGif(options: GifExportOptions): Promise<GifExportResult | null> {
   try {
     console.log('exportGif called with options:', options);
-    const { frames, useCustomContent, ...otherOptions } = options;
-    
-    // Make sure frames is always an array
-    const frameArray = Array.isArray(frames) ? frames : [];
+    const { fileName, bytes, reports } = await buildGifExport(options);
     
-    if (frameArray.length === 0) {
-      console.error('No frames provided for GIF export');
-      alert('Error: No frames available for export. Please make sure you have frames selected.');
-      return;
-    }
-    
-    // If frames are custom content frames, we need to modify them for export
-    if (useCustomContent) {
-      // Create a modified version of frames that includes the custom content
-      const processedFrames = frameArray.map(frame => {
-        // Generate a frame with custom content from the original frame data
-        return {
-          ...frame,
-          // Add custom content properties so the plugin can use them
-          customContent: {
-            headlineText: frame.headlineText || '',
-            description: frame.description || '',
-            isCustomContent: true
-          }
-        };
-      });
-      
-      // Forward the export request to the plugin with processed frames
-      pluginExportGif({ 
-        ...otherOptions, 
-        frames: processedFrames,
-        // Include a flag to let the plugin know these are content-specific frames
-        hasCustomContent: true
-      });
-    } else {
-      // Standard animation frames, forward as is but make sure we're passing the array
-      pluginExportGif({
-        ...otherOptions,
-        frames: frameArray
-      });
-    }
+    const blob = new Blob([bytes], { type: 'image/gif' });
+    downloadBlob(blob, fileName);
+    return { blob, reports };
   } catch (error: any) {
     console.error('Error exporting GIF:', error);
     alert(`Export failed: ${error.message || 'Unknown error'}`);
+    return null;
   }
 }
 
-// Export animation as HTML5 ad
-export async function exportHtml(options: HtmlExportOptions): Promise<void> {
+// Write the animation frames as numbered PNGs or a sprite sheet, in a ZIP
+export async function buildPngSequenceExport(options: PngSequenceExportOptions): Promise<{ fileName: string; bytes: Uint8Array }> {
+  const renderedFrames = await renderAnimationFrames(options);
+  const name = `animation-${options.width}x${options.height}`;
+  
+  const files = await buildFrameSequence(renderedFrames, {
+    name,
+    width: options.width,
+    height: options.height,
+    fps: options.fps,
+    layout: options.layout
+  });
+  
+  return {
+    fileName: `${name}-${options.layout === 'spritesheet' ? 'spritesheet' : 'frames'}.zip`,
+    bytes: createZip(files)
+  };
+}
+
+// Export animation as a PNG sequence or sprite sheet and download it
+export async function exportPngSequence(options: PngSequenceExportOptions): Promise<PngSequenceExportResult | null> {
   try {
-    console.log('Generating HTML5 export with platform:', options.adPlatform);
+    const { fileName, bytes } = await buildPngSequenceExport(options);
+    const blob = new Blob([bytes], { type: 'application/zip' });
+    downloadBlob(blob, fileName);
+    return { blob };
+  } catch (error: any) {
+    console.error('Error exporting PNG sequence:', error);
+    alert(`PNG sequence export failed: ${error.message || 'Unknown error'}`);
+    return null;
+  }
+}
+
+// Plan the layers of a banner and have the plugin export their assets.
+// Layers bound to a feed get elements of their own, with text as text, as
+// does the text of layers with text animations so it can be split, unless
+// the export can't draw text.
+async function renderBannerAssets(
+  frame: AnimationFrame,
+  layers: AnimationLayer[],
+  options: object,
+  renderAssets: (options: any) => Promise<RenderedBannerAssets> = pluginRenderHtmlAssets,
+  boundLayerIds: string[] = [],
+  splitsText = true
+): Promise<{ plan: BannerLayerPlan[]; assets: RenderedBannerAssets }> {
+  const plan = planBannerLayers(layers, frame.hiddenLayers || [], undefined, boundLayerIds);
+  const textLayerIds = splitsText ? [...boundLayerIds, ...getTextSplitLayerIds(layers)] : boundLayerIds;
+  let assets = await renderAssets({
+    ...options,
+    frames: [frame],
+    layers: getLayerRequests(plan, textLayerIds)
+  });
+  
+  // Layer ids that don't exist in the document (e.g. unsaved demo layers)
+  // fall back to the frame's top-level layers
+  if (assets.layers.length === 0 && plan.length > 0) {
+    assets = await renderAssets({ ...options, frames: [frame], layers: undefined });
+  }
+  return { plan, assets };
+}
+
+// Render the backup image of a banner and check it against the platform limit
+async function renderBannerBackup(
+  name: string,
+  rendered: { plan: BannerLayerPlan[]; assets: RenderedBannerAssets },
+  source: { width: number; height: number },
+  options: HtmlExportOptions
+): Promise<{ fileName: string; bytes: Uint8Array; report: BundleReport }> {
+  const adPlatform = options.adPlatform || 'standard-css';
+  const backup = await renderBackupImage(rendered.plan, rendered.assets, {
+    width: source.width,
+    height: source.height,
+    format: options.backupImageFormat || 'jpg',
+    time: options.backupImageTime,
+    maxBytes: getAdPlatformSpec(adPlatform).maxBackupImageKb * 1024,
+    speed: options.compressionSpeed
+  });
+  const fileName = `${name}.${backup.format}`;
+  
+  return {
+    fileName,
+    bytes: backup.bytes,
+    report: checkBackupImage(fileName, backup.bytes.length, adPlatform, backup.degradations)
+  };
+}
+
+// Decide which layers of a banner source become elements and have the
+// plugin export them, with the layers bound to the export's feed
+async function renderHtml5BannerAssets(
+  source: BannerSource,
+  options: HtmlExportOptions
+): Promise<{ plan: BannerLayerPlan[]; assets: RenderedBannerAssets; layerBindings: Record<string, string> }> {
+  const layerBindings = options.feed ? resolveLayerBindings(source.layers, options.feed.bindings) : {};
+  const rendered = await renderBannerAssets(
+    source.frame,
+    source.layers,
+    { ...options, width: source.width, height: source.height },
+    pluginRenderHtmlAssets,
+    Object.keys(layerBindings)
+  );
+  return { ...rendered, layerBindings };
+}
+
+// Get the default name of a banner: its frame name and size
+function getBannerName(source: BannerSource, assets: RenderedBannerAssets): string {
+  return `${toFileName(assets.frame.name || source.frame.name)}_${source.width}x${source.height}`;
+}
+
+// Build a single HTML5 banner of a banner source.
+// Exports the banner layers from Figma and writes index.html with its
+// stylesheet, script and images, recompressing the images until the banner
+// fits the size target. The backup image is rendered when requested.
+// With a feed exported as a template, the banner reads its bound layers
+// from the platform's DCO runtime; throws when the platform has none.
+export async function buildHtml5Banner(
+  source: BannerSource,
+  options: HtmlExportOptions,
+  settings: { name?: string; backup?: boolean } = {}
+): Promise<Html5BannerExport> {
+  const rendered = await renderHtml5BannerAssets(source, options);
+  return assembleHtml5Banner(source, options, rendered, {
+    ...settings,
+    name: settings.name || getBannerName(source, rendered.assets)
+  });
+}
+
+// Build one HTML5 banner per row of the export's feed, with the row's text
+// and images in the bound layers. The layers are exported once and every
+// variant is named after its row.
+export async function buildHtml5BannerVariants(
+  source: BannerSource,
+  options: HtmlExportOptions,
+  settings: { backup?: boolean } = {}
+): Promise<Html5BannerExport[]> {
+  if (!options.feed || options.feed.feed.rows.length === 0) {
+    throw new Error('Banner variants need a feed with at least one row');
+  }
+  
+  const rendered = await renderHtml5BannerAssets(source, options);
+  const baseName = getBannerName(source, rendered.assets);
+  const variantOptions = { ...options, feed: { ...options.feed, output: 'variants' as const } };
+  const variants: Html5BannerExport[] = [];
+  
+  const rows = options.feed.feed.rows;
+  for (let index = 0; index < rows.length; index++) {
+    const row = rows[index];
+    const assets = await applyFeedRow(rendered.assets, rendered.layerBindings, row);
+    variants.push(await assembleHtml5Banner(source, variantOptions, { ...rendered, assets }, {
+      ...settings,
+      name: `${baseName}_${getFeedRowName(row, index)}`
+    }));
+  }
+  return variants;
+}
+
+// Write the files of a banner from its exported layers, check them against
+// the platform spec and render the backup image when requested
+async function assembleHtml5Banner(
+  source: BannerSource,
+  options: HtmlExportOptions,
+  rendered: { plan: BannerLayerPlan[]; assets: RenderedBannerAssets; layerBindings: Record<string, string> },
+  settings: { name: string; backup?: boolean }
+): Promise<Html5BannerExport> {
+  const adPlatform = options.adPlatform || 'standard-css';
+  const { plan, layerBindings } = rendered;
+  let assets = rendered.assets;
+  
+  const layout = getPlatformBundleLayout(adPlatform);
+  const bannerName = settings.name;
+  const bannerLink = options.bannerLink || 'https://example.com';
+  
+  // Layers with their own landing page
+  const clickZones = getClickZones(plan);
+  
+  // A DCO template fills its bound layers from the platform's runtime
+  const dcoRuntime = options.feed && options.feed.output === 'template' ? getDcoRuntime(adPlatform) : null;
+  if (options.feed && options.feed.output === 'template' && !dcoRuntime) {
+    throw new Error(`${getAdPlatformSpec(adPlatform).name} has no dynamic creative runtime; export the feed as banner variants instead`);
+  }
+  
+  // Loops and end frame, within the platform's animation limits
+  const playback = getBannerPlayback(
+    getTimelineDuration(plan.map(node => node.layer)),
+    options,
+    getAdPlatformSpec(adPlatform)
+  );
+  
+  // Write the banner files for a set of layer assets
+  const buildFiles = (bannerAssets: RenderedBannerAssets): ZipFiles => {
+    // AMP ads can't load scripts, so they have their own document
+    if (adPlatform === 'amphtml') {
+      return buildAmpBanner(plan, bannerAssets, {
+        width: source.width,
+        height: source.height,
+        imageDir: layout.imageDir,
+        bannerLink,
+        addBorder: options.addBorder,
+        borderColor: options.borderColor,
+        plays: playback.plays,
+        clickZones,
+        minify: options.minifyCode
+      });
+    }
+    
+    // Studio exits and polite loading go through the Enabler, which DCO
+    // templates load anyway
+    const scripts = dcoRuntime ? [DCO_RUNTIME_URLS[dcoRuntime], layout.jsFile] : [layout.jsFile];
+    const needsEnabler = adPlatform === 'doubleclick-studio' && clickZones.length > 0
+      || Boolean(options.politeLoading) && needsEnablerForPoliteLoading(adPlatform);
+    if (needsEnabler && dcoRuntime !== 'enabler') {
+      scripts.unshift(DCO_RUNTIME_URLS.enabler);
+    }
     
-    // Generate banner HTML template
-    const bannerTemplate = generateHtml5Template(
-      options.width,
-      options.height,
-      options.adPlatform,
+    const dcoVariables = dcoRuntime && options.feed
+      ? getDcoVariables(plan, bannerAssets, layerBindings, options.feed.feed, layout.imageDir)
+      : [];
+    const { content, files } = buildBannerContent(plan, bannerAssets, layout, {
+      minify: options.minifyCode,
+      motion: isGsapPlatform(adPlatform) ? 'gsap' : 'css',
+      playback,
+      dynamicContentScript: dcoRuntime
+        ? getDcoRuntimeScript(dcoRuntime, dcoVariables, options.feed!.profileName, options.feed!.profileId)
+        : undefined,
+      dynamicTexts: dcoRuntime ? getDcoTexts(layerBindings, options.feed!.feed) : undefined,
+      politeLoadingScript: options.politeLoading ? getPoliteLoadingScript(adPlatform) : undefined,
+      layout: getBannerLayoutMode(adPlatform)
+    });
+    
+    // Generate banner HTML around the exported layers
+    files['index.html'] = generateHtml5Template(
+      source.width,
+      source.height,
+      adPlatform,
       {
         addBorder: options.addBorder,
         borderColor: options.borderColor,
         addPreloaderAnimation: options.addPreloaderAnimation,
-        infiniteLoop: options.infiniteLoop,
+        politeLoading: options.politeLoading,
         renderRetina: options.renderRetina,
-        bannerLink: options.bannerLink,
+        bannerLink,
         usePTagsInsteadOfSvg: options.usePTagsInsteadOfSvg,
         injectCustomCode: options.injectCustomCode,
-        customCode: options.customHtml // Use the custom HTML as custom code
+        customCode: options.customHtml, // Use the custom HTML as custom code
+        content,
+        stylesheets: [layout.cssFile],
+        scripts,
+        clickZones
       }
     );
     
-    // Generate preview page if needed
-    let previewPage: string | undefined = undefined;
+    if (layout.getExtraFiles) {
+      Object.assign(files, layout.getExtraFiles({
+        name: bannerName,
+        width: source.width,
+        height: source.height,
+        bannerLink,
+        clickZones,
+        instantAds: dcoRuntime === 'flashtalking' ? getFlashtalkingInstantAds(dcoVariables) : undefined
+      }));
+    }
+    return files;
+  };
+  
+  // Recompress the layer images until the banner fits the size target
+  let degradations: string[] = [];
+  if (options.maxFileSizeTarget && options.maxFileSizeTarget > 0) {
+    const recompressed = await recompressBannerAssets(assets, {
+      maxBytes: options.maxFileSizeTarget * 1024,
+      measure: bannerAssets => createZip(buildFiles(bannerAssets)).length,
+      speed: options.compressionSpeed,
+      renderRetina: options.renderRetina,
+      allowedFileTypes: getAdPlatformSpec(adPlatform).allowedFileTypes
+    });
+    assets = recompressed.value;
+    degradations = recompressed.degradations;
+  }
+  
+  const files = buildFiles(assets);
+  const report = checkBundleAgainstSpec(
+    { name: bannerName, files },
+    { platform: adPlatform, maxFileSizeTarget: options.maxFileSizeTarget, degradations, playback }
+  );
+  if (!report.passed) {
+    console.warn(`HTML5 banner ${bannerName} does not meet the ${report.platformName} spec:`, report.checks);
+  }
+  
+  const result: Html5BannerExport = {
+    banner: { name: bannerName, width: source.width, height: source.height, files },
+    backup: null,
+    reports: [report]
+  };
+  
+  // The backup image is rendered from the unrecompressed layer assets and
+  // can also go inside the banner's own ZIP
+  if (settings.backup) {
+    const backup = await renderBannerBackup(bannerName, rendered, source, options);
+    result.backup = { fileName: backup.fileName, bytes: backup.bytes };
+    result.reports.push(backup.report);
+    
+    if (options.generateFallback && options.includeZipFiles) {
+      result.banner.zipOnlyFiles = { [`backup.${getFileExtension(backup.fileName)}`]: backup.bytes };
+    }
+  }
+  
+  return result;
+}
+
+// Export animation as HTML5 ad
+// Builds the banner of the exported frame (or one banner per feed row when a
+// feed is exported as variants), adds backup images for the chosen ad sizes
+// and the review site, and downloads everything as a ZIP.
+// Every banner is checked against its platform spec for the export report.
+export async function exportHtml(options: HtmlExportOptions): Promise<HtmlExportResult | null> {
+  try {
+    const adPlatform = options.adPlatform || 'standard-css';
+    const frame = Array.isArray(options.frames) && options.frames.length > 0 ? options.frames[0] : null;
+    
+    if (!frame) {
+      console.error('No frames provided for HTML5 export');
+      alert('Error: No frames available for export. Please make sure you have frames selected.');
+      return null;
+    }
+    
+    const layout = getPlatformBundleLayout(adPlatform);
+    const mainSource: BannerSource = {
+      name: frame.name,
+      width: options.width,
+      height: options.height,
+      frame,
+      layers: options.layers || []
+    };
+    
+    // Backup images are rendered for the chosen ad sizes, or the exported banner
+    const withBackups = Boolean(options.addBackupJpg || options.generateFallback);
+    const backupSources = options.backupImageSizes && options.backupImageSizes.length > 0
+      ? options.backupImageSizes
+      : [mainSource];
+    const isMainSource = (source: BannerSource) =>
+      source.frame.id === frame.id && source.width === options.width && source.height === options.height;
+    
+    const bannerSettings = { backup: withBackups && backupSources.some(isMainSource) };
+    const bannerExports = options.feed && options.feed.output === 'variants'
+      ? await buildHtml5BannerVariants(mainSource, options, bannerSettings)
+      : [await buildHtml5Banner(mainSource, options, bannerSettings)];
+    const banners = bannerExports.map(({ banner }) => banner);
+    const reports = bannerExports.flatMap(bannerExport => bannerExport.reports);
+    
+    // Backup images go next to their banner
+    const extraFiles: ZipFiles = {};
+    bannerExports.forEach(({ banner, backup }) => {
+      if (backup && (options.addBackupJpg || !banner.zipOnlyFiles)) {
+        extraFiles[`${layout.folder}/${backup.fileName}`] = backup.bytes;
+      }
+    });
+    if (withBackups) {
+      for (const source of backupSources.filter(source => !isMainSource(source))) {
+        const rendered = await renderBannerAssets(source.frame, source.layers, {
+          ...options,
+          width: source.width,
+          height: source.height
+        });
+        const name = `${toFileName(rendered.assets.frame.name || source.frame.name || source.name)}_${source.width}x${source.height}`;
+        const sizeBackup = await renderBannerBackup(name, rendered, source, options);
+        
+        extraFiles[`${layout.folder}/${sizeBackup.fileName}`] = sizeBackup.bytes;
+        reports.push(sizeBackup.report);
+      }
+    }
+    
+    // The review site shows every banner of the export
     if (options.generatePreviewPage) {
-      previewPage = generatePreviewPage(
-        [{
-          html: bannerTemplate,
-          width: options.width,
-          height: options.height,
-          name: `HTML5 Ad ${options.width}x${options.height}`
-        }],
+      Object.assign(extraFiles, buildReviewSite(
+        bannerExports.map(({ banner, backup, reports: [report] }) => ({
+          name: banner.name,
+          width: banner.width,
+          height: banner.height,
+          label: report.platformName,
+          size: report.zipSize,
+          passed: report.passed,
+          files: banner.files,
+          backup
+        })),
         {
+          version: options.reviewSiteVersion,
           layout: options.previewPageLayout,
           useDarkMode: options.useDarkMode,
           customCss: options.customCss
         }
-      );
+      ));
     }
     
-    // Forward the export request to the plugin with the enhanced options
-    pluginExportHtml({
-      ...options,
-      templatePreview: bannerTemplate,
-      previewPage
+    const zipBytes = packageHtml5Banners(banners, {
+      platform: adPlatform,
+      includeZipFiles: options.includeZipFiles,
+      extraFiles
     });
+    
+    const blob = new Blob([zipBytes], { type: 'application/zip' });
+    
+    downloadBlob(blob, `html5-${adPlatform}-${options.width}x${options.height}.zip`);
+    return { blob, reports };
   } catch (error: any) {
     console.error('Error exporting HTML5:', error);
     alert(`HTML5 export failed: ${error.message || 'Unknown error'}`);
+    return null;
   }
 }
 
@@ -246,30 +810,39 @@ export function generateHtml5Template(
     addBorder?: boolean;
     borderColor?: string;
     addPreloaderAnimation?: boolean;
-    infiniteLoop?: boolean;
+    politeLoading?: boolean; // The preloader stays until the banner is revealed
     renderRetina?: boolean;
     bannerLink?: string;
     usePTagsInsteadOfSvg?: boolean;
     injectCustomCode?: boolean;
     customCode?: string;
+    content?: string; // Markup of the banner layers
+    stylesheets?: string[]; // Stylesheets linked after the base styles
+    scripts?: string[]; // Scripts loaded at the end of the body
+    clickZones?: BannerClickZone[]; // Layers with their own exit
   } = {}
 ): string {
   const {
     addBorder = false,
     borderColor = '#000000',
     addPreloaderAnimation = false,
-    infiniteLoop = false,
+    politeLoading = false,
     renderRetina = false,
     bannerLink = 'https://example.com',
     usePTagsInsteadOfSvg = false,
     injectCustomCode = false,
-    customCode = ''
+    customCode = '',
+    content = '',
+    stylesheets = [],
+    scripts = [],
+    clickZones = []
   } = options;
   
   // Determine if we need to include GSAP
-  const useGsap = adPlatform === 'standard-gsap' || 
-                  adPlatform === 'jivox-gsap' || 
-                  adPlatform.includes('gsap');
+  const useGsap = isGsapPlatform(adPlatform);
+  
+  // Responsive platforms follow the size of the ad slot
+  const layoutMode = getBannerLayoutMode(adPlatform);
   
   // Determine correct click tag implementation based on platform
   const getClickTagImplementation = () => {
@@ -573,6 +1146,7 @@ export function generateHtml5Template(
       
       // For responsive ads add viewport scale
       case 'responsive':
+      case 'responsive-display-ad':
       case 'scalable':
         return `${commonMeta}
   <meta name="format-detection" content="telephone=no">
@@ -605,25 +1179,11 @@ ${getPlatformMetaTags()}
       background-color: white;
       ${addBorder ? `border: 1px solid ${borderColor};` : ''}
     }
-    /* Responsive scaling */
-    ${adPlatform === 'responsive' || adPlatform === 'scalable' ? `
-    @media only screen and (max-width: ${width}px) {
-      #ad {
-        width: 100%;
-        height: auto;
-        aspect-ratio: ${width} / ${height};
-      }
-    }` : ''}
+    ${getBannerLayoutCss(layoutMode)}
     ${renderRetina ? `
-    /* Retina support */
-    @media (-webkit-min-device-pixel-ratio: 2), (min-resolution: 192dpi) {
-      #ad {
-        /* Retina-specific styles */
-        transform: scale(0.5);
-        transform-origin: top left;
-        width: ${width * 2}px;
-        height: ${height * 2}px;
-      }
+    /* Retina support: layer images are exported at 2x and drawn at 1x */
+    #ad img {
+      image-rendering: -webkit-optimize-contrast;
     }` : ''}
     ${addPreloaderAnimation ? `
     /* Preloader styles */
@@ -651,7 +1211,8 @@ ${getPlatformMetaTags()}
       to { transform: rotate(360deg); }
     }` : ''}
   </style>
-  ${useGsap ? `<script src="https://cdnjs.cloudflare.com/ajax/libs/gsap/3.12.0/gsap.min.js"></script>` : ''}
+  ${stylesheets.map(href => `<link rel="stylesheet" href="${href}">`).join('\n  ')}
+  ${useGsap ? `<script src="${GSAP_CDN_URL}"></script>` : ''}
   ${injectCustomCode && customCode ? customCode : ''}
 </head>
 <body>
@@ -660,16 +1221,19 @@ ${getPlatformMetaTags()}
     <div id="preloader">
       <div class="loader"></div>
     </div>` : ''}
-    <!-- Ad content will be inserted here -->
+    ${content || '<!-- Ad content will be inserted here -->'}
   </div>
   
+  ${scripts.map(src => `<script src="${src}"></script>`).join('\n  ')}
+  
   ${getClickTagImplementation()}
+  ${getClickZoneScript(adPlatform, clickZones)}
   
   <script>
     // Animation script will be inserted here
     ${addPreloaderAnimation ? `
     // Hide preloader once content is loaded
-    window.addEventListener('load', function() {
+    function hidePreloader() {
       const preloader = document.getElementById('preloader');
       if (preloader) {
         setTimeout(function() {
@@ -680,218 +1244,126 @@ ${getPlatformMetaTags()}
           }, 500);
         }, 500);
       }
-    });` : ''}
-    ${infiniteLoop ? `
-    // Infinite loop animation
-    function restartAnimation() {
-      // Animation restart code will be inserted here
     }
-    // Restart animation when it ends
-    document.addEventListener('animationend', restartAnimation);` : ''}
+    ${politeLoading ? `// A polite banner loads its content after the page, once it is revealed
+    const ad = document.getElementById('ad');
+    if (/\\bready\\b/.test(ad.className)) {
+      hidePreloader();
+    } else {
+      ad.addEventListener('bannerready', hidePreloader);
+    }` : `window.addEventListener('load', hidePreloader);`}` : ''}
   </script>
 </body>
 </html>`;
 }
 
-// Helper function for preview page generation
-export function generatePreviewPage(
-  banners: Array<{html: string, width: number, height: number, name: string}>,
-  options: {
-    layout?: 'masonry' | 'grid' | 'list',
-    useDarkMode?: boolean,
-    customCss?: string
-  } = {}
-): string {
-  const { 
-    layout = 'masonry', 
-    useDarkMode = false,
-    customCss = '' 
-  } = options;
+// Timeline length used for video and Lottie when no layer is animated
+const DEFAULT_TIMELINE_DURATION = 3; // Seconds
+
+// Render the animation frame by frame and encode it as video.
+// The banner layers are exported once, then animated and composited for
+// every frame at the requested frame rate.
+export async function buildVideoExport(options: Mp4ExportOptions | WebmExportOptions): Promise<VideoExportFile> {
+  const frame = Array.isArray(options.frames) && options.frames.length > 0 ? options.frames[0] : null;
+  if (!frame) {
+    throw new Error('No frames available for export. Please make sure you have frames selected.');
+  }
   
-  const backgroundColor = useDarkMode ? '#121212' : '#ffffff';
-  const textColor = useDarkMode ? '#ffffff' : '#000000';
-  const borderColor = useDarkMode ? '#333333' : '#dddddd';
-  
-  const bannerHtml = banners.map(banner => {
-    return `
-      <div class="banner-container">
-        <div class="banner-header">
-          <h3>${banner.name || `${banner.width}x${banner.height}`}</h3>
-          <span class="banner-size">${banner.width}x${banner.height}</span>
-        </div>
-        <div class="banner-content">
-          <iframe 
-            src="data:text/html;charset=utf-8,${encodeURIComponent(banner.html)}" 
-            width="${banner.width}" 
-            height="${banner.height}" 
-            frameborder="0">
-          </iframe>
-        </div>
-      </div>
-    `;
-  }).join('');
-  
-  const layoutClass = 
-    layout === 'masonry' ? 'preview-masonry-layout' :
-    layout === 'grid' ? 'preview-grid-layout' :
-    'preview-list-layout';
+  const transparent = options.codec === 'vp9' && Boolean(options.transparent);
+  const { plan, assets } = await renderBannerAssets(frame, options.layers || [], options, pluginRenderVideoAssets);
+  const loaded = await loadBannerAssets(assets);
+  const duration = options.duration || getTimelineDuration(options.layers || []) || DEFAULT_TIMELINE_DURATION;
   
-  return `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>HTML5 Banner Preview</title>
-  <style>
-    body {
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, 'Open Sans', 'Helvetica Neue', sans-serif;
-      margin: 0;
-      padding: 20px;
-      background-color: ${backgroundColor};
-      color: ${textColor};
-      transition: background-color 0.3s, color 0.3s;
-    }
-    .container {
-      max-width: 1200px;
-      margin: 0 auto;
-    }
-    .header {
-      display: flex;
-      justify-content: space-between;
-      align-items: center;
-      margin-bottom: 20px;
-      padding-bottom: 20px;
-      border-bottom: 1px solid ${borderColor};
-    }
-    .theme-toggle {
-      background: ${useDarkMode ? '#333' : '#eee'};
-      border: none;
-      color: ${textColor};
-      padding: 8px 16px;
-      border-radius: 4px;
-      cursor: pointer;
-      display: flex;
-      align-items: center;
-      gap: 6px;
-    }
-    .banner-container {
-      background-color: ${useDarkMode ? '#1e1e1e' : '#f5f5f5'};
-      border-radius: 6px;
-      overflow: hidden;
-      margin-bottom: 20px;
-      border: 1px solid ${borderColor};
-    }
-    .banner-header {
-      padding: 12px 15px;
-      background-color: ${useDarkMode ? '#272727' : '#eaeaea'};
-      display: flex;
-      justify-content: space-between;
-      align-items: center;
-    }
-    .banner-header h3 {
-      margin: 0;
-      font-size: 16px;
-      font-weight: 500;
-    }
-    .banner-size {
-      font-size: 13px;
-      color: ${useDarkMode ? '#aaa' : '#666'};
-    }
-    .banner-content {
-      padding: 15px;
-      display: flex;
-      justify-content: center;
-      align-items: center;
-      background-color: ${useDarkMode ? '#333' : '#fff'};
-    }
-    .banner-content iframe {
-      max-width: 100%;
-      border: 1px solid ${borderColor};
-      background-color: white;
-    }
-    
-    /* Layout styles */
-    .preview-masonry-layout {
-      column-count: 2;
-      column-gap: 20px;
-    }
-    .preview-masonry-layout .banner-container {
-      break-inside: avoid;
-      page-break-inside: avoid;
-    }
-    .preview-grid-layout {
-      display: grid;
-      grid-template-columns: repeat(auto-fill, minmax(300px, 1fr));
-      gap: 20px;
-    }
-    .preview-list-layout .banner-container {
-      max-width: 800px;
-      margin: 0 auto 20px;
-    }
-    
-    @media (max-width: 768px) {
-      .preview-masonry-layout {
-        column-count: 1;
-      }
-      .preview-grid-layout {
-        grid-template-columns: 1fr;
+  const video = await encodeVideo({
+    width: options.width,
+    height: options.height,
+    fps: options.fps,
+    duration,
+    bitrate: options.videoBitrate,
+    codec: options.codec,
+    transparent,
+    drawFrame: (ctx, time) => {
+      // Opaque video shows white where the banner has no background
+      if (!transparent) {
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
       }
+      drawBannerAtTime(ctx, plan, loaded, time, options.width, options.height);
     }
-    
-    ${customCss}
-  </style>
-</head>
-<body>
-  <div class="container">
-    <div class="header">
-      <h1>HTML5 Banner Preview</h1>
-      <button class="theme-toggle" onclick="toggleTheme()">
-        <span>
-          ${useDarkMode ? 'Light Mode' : 'Dark Mode'}
-        </span>
-      </button>
-    </div>
-    
-    <div class="${layoutClass}">
-      ${bannerHtml}
-    </div>
-  </div>
+  });
   
-  <script>
-    function toggleTheme() {
-      // Save current URL
-      const url = new URL(window.location.href);
-      
-      // Toggle dark mode parameter
-      const isDarkMode = url.searchParams.get('dark') === 'true';
-      url.searchParams.set('dark', isDarkMode ? 'false' : 'true');
-      
-      // Navigate to new URL to reload with different theme
-      window.location.href = url.toString();
-    }
-  </script>
-</body>
-</html>`;
+  if (transparent && !video.hasAlpha) {
+    console.warn('Transparent WebM was requested but the video was encoded without alpha');
+  }
+  
+  const extension = options.codec === 'vp9' ? 'webm' : 'mp4';
+  return {
+    fileName: `animation-${options.width}x${options.height}.${extension}`,
+    bytes: video.bytes,
+    mimeType: video.mimeType
+  };
 }
 
 // Export animation as MP4 video
-export async function exportMp4(options: Mp4ExportOptions): Promise<void> {
+export async function exportMp4(options: Mp4ExportOptions): Promise<VideoExportResult | null> {
   try {
-    // Forward the export request to the plugin
-    pluginExportMp4(options);
+    const { fileName, bytes, mimeType } = await buildVideoExport(options);
+    const blob = new Blob([bytes], { type: mimeType });
+    downloadBlob(blob, fileName);
+    return { blob };
   } catch (error: any) {
     console.error('Error exporting MP4:', error);
     alert(`MP4 export failed: ${error.message || 'Unknown error'}`);
+    return null;
   }
 }
 
 // Export animation as WebM video
-export async function exportWebm(options: WebmExportOptions): Promise<void> {
+export async function exportWebm(options: WebmExportOptions): Promise<VideoExportResult | null> {
   try {
-    // Forward the export request to the plugin
-    pluginExportWebm(options);
+    const { fileName, bytes, mimeType } = await buildVideoExport(options);
+    const blob = new Blob([bytes], { type: mimeType });
+    downloadBlob(blob, fileName);
+    return { blob };
   } catch (error: any) {
     console.error('Error exporting WebM:', error);
     alert(`WebM export failed: ${error.message || 'Unknown error'}`);
+    return null;
+  }
+}
+
+// Convert the banner's layers and animations into a Lottie animation and
+// check that lottie-web can play it
+export async function buildLottieExport(options: LottieExportOptions): Promise<{ fileName: string; animation: LottieAnimation }> {
+  const frame = Array.isArray(options.frames) && options.frames.length > 0 ? options.frames[0] : null;
+  if (!frame) {
+    throw new Error('No frames available for export. Please make sure you have frames selected.');
+  }
+  
+  // Lottie layers are images, so text animations leave their text whole
+  const { plan, assets } = await renderBannerAssets(frame, options.layers || [], options, pluginRenderLottieAssets, [], false);
+  const animation = await buildLottieAnimation(plan, assets, {
+    name: assets.frame.name || frame.name,
+    width: options.width,
+    height: options.height,
+    fps: options.fps,
+    duration: options.duration || getTimelineDuration(options.layers || []) || DEFAULT_TIMELINE_DURATION
+  });
+  await validateLottieAnimation(animation);
+  
+  return { fileName: `animation-${options.width}x${options.height}.json`, animation };
+}
+
+// Export animation as Lottie JSON and download it
+export async function exportLottie(options: LottieExportOptions): Promise<LottieExportResult | null> {
+  try {
+    const { fileName, animation } = await buildLottieExport(options);
+    const blob = new Blob([JSON.stringify(animation)], { type: 'application/json' });
+    downloadBlob(blob, fileName);
+    return { blob, animation };
+  } catch (error: any) {
+    console.error('Error exporting Lottie:', error);
+    alert(`Lottie export failed: ${error.message || 'Unknown error'}`);
+    return null;
   }
 }
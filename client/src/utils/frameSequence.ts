@@ -0,0 +1,188 @@
+/**
+ * Frame Sequences
+ *
+ * Writes the rendered frames of an animation as raw images instead of an
+ * encoded GIF or video: either numbered PNG files or a single sprite sheet
+ * with a JSON frame atlas. Frame timing follows the same delays as the GIF
+ * export, resampled to a constant frame rate.
+ *
+ * The atlas uses the TexturePacker "JSON (Hash)" layout that PixiJS, Phaser
+ * and most DOOH players read, with an `animations` entry listing the frames
+ * in playback order at the export frame rate.
+ */
+
+import { blobToBytes, canvasToBlob, createCanvas, decodeImageBitmap } from './rasterUtils';
+import { ZipFiles } from './zipUtils';
+
+export type FrameSequenceLayout = 'frames' | 'spritesheet';
+
+/**
+ * A rendered frame and how long it stays on screen
+ */
+export interface SequenceSourceFrame {
+  bytes: Uint8Array; // PNG
+  delay: number; // Milliseconds
+}
+
+/**
+ * Options of a frame sequence
+ */
+export interface FrameSequenceOptions {
+  name: string; // Base name of the written files
+  width: number;
+  height: number;
+  fps: number;
+  layout: FrameSequenceLayout;
+}
+
+/**
+ * A frame of the sprite sheet atlas
+ */
+export interface SpriteAtlasFrame {
+  frame: { x: number; y: number; w: number; h: number };
+  rotated: boolean;
+  trimmed: boolean;
+  spriteSourceSize: { x: number; y: number; w: number; h: number };
+  sourceSize: { w: number; h: number };
+  duration: number; // Milliseconds
+}
+
+/**
+ * JSON atlas written next to a sprite sheet
+ */
+export interface SpriteAtlas {
+  frames: Record<string, SpriteAtlasFrame>;
+  animations: Record<string, string[]>;
+  meta: {
+    app: string;
+    version: string;
+    image: string;
+    format: 'RGBA8888';
+    size: { w: number; h: number };
+    scale: string;
+    frameRate: number;
+  };
+}
+
+// Largest sprite sheet edge most GPUs and players accept
+const MAX_SHEET_SIZE = 4096;
+
+/**
+ * Resample frame delays (ms) to a constant frame rate.
+ * Returns the source frame shown at each output frame; a source frame
+ * shorter than one output frame can be skipped, as in a video export.
+ */
+export function getSequenceFrameIndices(delays: number[], fps: number): number[] {
+  if (delays.length === 0) return [];
+
+  const frameDuration = 1000 / fps;
+  const ends: number[] = [];
+  delays.reduce((total, delay) => {
+    ends.push(total + Math.max(0, delay));
+    return ends[ends.length - 1];
+  }, 0);
+  const totalDuration = ends[ends.length - 1];
+  const frameCount = Math.max(1, Math.round(totalDuration / frameDuration));
+
+  const indices: number[] = [];
+  let source = 0;
+  for (let index = 0; index < frameCount; index++) {
+    const time = index * frameDuration;
+    while (source < ends.length - 1 && time >= ends[source]) source++;
+    indices.push(source);
+  }
+  return indices;
+}
+
+/**
+ * Get the name of the n-th file of a sequence, numbered from 1
+ */
+export function getSequenceFileName(name: string, index: number, count: number): string {
+  const digits = Math.max(4, String(count).length);
+  return `${name}_${String(index + 1).padStart(digits, '0')}.png`;
+}
+
+// Numbered PNG files at the export frame rate
+function buildNumberedFrames(frames: SequenceSourceFrame[], options: FrameSequenceOptions): ZipFiles {
+  const indices = getSequenceFrameIndices(frames.map(frame => frame.delay), options.fps);
+  const files: ZipFiles = {};
+
+  indices.forEach((source, index) => {
+    files[`${options.name}/${getSequenceFileName(options.name, index, indices.length)}`] = frames[source].bytes;
+  });
+  return files;
+}
+
+// Sprite sheet of the distinct frames plus the atlas describing them
+async function buildSpriteSheet(frames: SequenceSourceFrame[], options: FrameSequenceOptions): Promise<ZipFiles> {
+  const width = Math.round(options.width);
+  const height = Math.round(options.height);
+  const maxColumns = Math.max(1, Math.floor(MAX_SHEET_SIZE / width));
+  const columns = Math.min(frames.length, maxColumns, Math.ceil(Math.sqrt(frames.length)));
+  const rows = Math.ceil(frames.length / columns);
+
+  if (rows * height > MAX_SHEET_SIZE) {
+    throw new Error(`${frames.length} frames at ${width}x${height} don't fit a ${MAX_SHEET_SIZE}px sprite sheet. Export numbered frames instead.`);
+  }
+
+  const { canvas, ctx } = createCanvas(columns * width, rows * height);
+  const imageName = `${options.name}.png`;
+  const frameNames = frames.map((_, index) => getSequenceFileName(options.name, index, frames.length));
+  const atlasFrames: Record<string, SpriteAtlasFrame> = {};
+
+  for (let index = 0; index < frames.length; index++) {
+    const x = (index % columns) * width;
+    const y = Math.floor(index / columns) * height;
+    const bitmap = await decodeImageBitmap(frames[index].bytes);
+    ctx.drawImage(bitmap, x, y, width, height);
+    bitmap.close();
+
+    atlasFrames[frameNames[index]] = {
+      frame: { x, y, w: width, h: height },
+      rotated: false,
+      trimmed: false,
+      spriteSourceSize: { x: 0, y: 0, w: width, h: height },
+      sourceSize: { w: width, h: height },
+      duration: Math.round(frames[index].delay)
+    };
+  }
+
+  const atlas: SpriteAtlas = {
+    frames: atlasFrames,
+    // Playback order at the frame rate, for players that don't read durations
+    animations: {
+      [options.name]: getSequenceFrameIndices(frames.map(frame => frame.delay), options.fps)
+        .map(source => frameNames[source])
+    },
+    meta: {
+      app: 'Figma Animation Plugin',
+      version: '1.0',
+      image: imageName,
+      format: 'RGBA8888',
+      size: { w: canvas.width, h: canvas.height },
+      scale: '1',
+      frameRate: options.fps
+    }
+  };
+
+  return {
+    [imageName]: await blobToBytes(await canvasToBlob(canvas, 'image/png')),
+    [`${options.name}.json`]: JSON.stringify(atlas, null, 2)
+  };
+}
+
+/**
+ * Write rendered frames as numbered PNGs or as a sprite sheet with its atlas
+ */
+export async function buildFrameSequence(
+  frames: SequenceSourceFrame[],
+  options: FrameSequenceOptions
+): Promise<ZipFiles> {
+  if (frames.length === 0) {
+    throw new Error('No frames available for export. Please make sure you have frames selected.');
+  }
+
+  return options.layout === 'spritesheet'
+    ? buildSpriteSheet(frames, options)
+    : buildNumberedFrames(frames, options);
+}
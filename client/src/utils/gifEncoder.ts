@@ -0,0 +1,533 @@
+/**
+ * GIF89a Encoder
+ *
+ * Turns a list of rasterized frames into an animated GIF. Colors are reduced
+ * to a single global palette (median cut), optionally dithered, and the pixel
+ * indices are LZW-compressed as required by the GIF specification.
+ */
+
+export type GifDithering = 'none' | 'pattern' | 'diffusion';
+export type GifColorDepth = 8 | 16 | 24;
+export type GifDisposal = 'none' | 'background' | 'previous';
+
+export interface GifEncoderFrame {
+  imageData: ImageData;
+  delay: number; // in milliseconds
+}
+
+export interface GifEncoderOptions {
+  width: number;
+  height: number;
+  dithering?: GifDithering;
+  colorDepth?: GifColorDepth;
+  maxColors?: number; // 2-256, defaults to 256
+  disposal?: GifDisposal;
+  loop?: number | boolean; // true/0 = forever, false = play once, n = repeat n times
+}
+
+// Maximum number of pixels sampled when building the palette
+const PALETTE_SAMPLE_LIMIT = 250000;
+
+// 4x4 Bayer matrix used for ordered ("pattern") dithering
+const BAYER_MATRIX = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5]
+];
+
+/**
+ * Reduce a color channel to the precision allowed by the color depth
+ */
+function reduceChannel(value: number, bits: number): number {
+  if (bits >= 8) return value;
+  const mask = (0xFF << (8 - bits)) & 0xFF;
+  const reduced = value & mask;
+  // Spread the remaining bits so that full white stays white
+  return reduced | (reduced >> bits);
+}
+
+/**
+ * Get the per-channel bit allocation (r, g, b) for a color depth
+ */
+function getChannelBits(colorDepth: GifColorDepth): [number, number, number] {
+  switch (colorDepth) {
+    case 8:
+      return [3, 3, 2];
+    case 16:
+      return [5, 6, 5];
+    default:
+      return [8, 8, 8];
+  }
+}
+
+interface ColorBox {
+  colors: number[];
+  score: number; // weighted range of the widest channel, 0 if the box can't be split
+  channel: number; // 0 = red, 1 = green, 2 = blue
+}
+
+const getChannel = (color: number, index: number) => (color >> (16 - index * 8)) & 0xFF;
+
+/**
+ * Create a box and measure which channel it should be split along
+ */
+function createColorBox(colors: number[], histogram: Map<number, number>): ColorBox {
+  const box: ColorBox = { colors, score: 0, channel: 0 };
+  if (colors.length < 2) return box;
+
+  const min = [255, 255, 255];
+  const max = [0, 0, 0];
+  let weight = 0;
+
+  for (const color of colors) {
+    for (let c = 0; c < 3; c++) {
+      const value = getChannel(color, c);
+      if (value < min[c]) min[c] = value;
+      if (value > max[c]) max[c] = value;
+    }
+    weight += histogram.get(color) || 0;
+  }
+
+  for (let c = 0; c < 3; c++) {
+    const score = (max[c] - min[c]) * Math.sqrt(weight);
+    if (score > box.score) {
+      box.score = score;
+      box.channel = c;
+    }
+  }
+
+  return box;
+}
+
+/**
+ * Build a palette with the median cut algorithm from a color histogram
+ */
+function medianCut(histogram: Map<number, number>, maxColors: number): number[] {
+  const allColors = Array.from(histogram.keys());
+  if (allColors.length <= maxColors) {
+    return allColors;
+  }
+
+  const boxes: ColorBox[] = [createColorBox(allColors, histogram)];
+
+  while (boxes.length < maxColors) {
+    // Pick the box with the largest weighted range to split next
+    let bestIndex = -1;
+    let bestScore = 0;
+    boxes.forEach((box, index) => {
+      if (box.score > bestScore) {
+        bestScore = box.score;
+        bestIndex = index;
+      }
+    });
+
+    if (bestIndex === -1) break;
+
+    // Split the box at the weighted median along its widest channel
+    const box = boxes[bestIndex];
+    box.colors.sort((a, b) => getChannel(a, box.channel) - getChannel(b, box.channel));
+
+    const total = box.colors.reduce((sum, color) => sum + (histogram.get(color) || 0), 0);
+    let running = 0;
+    let splitAt = 1;
+    for (let i = 0; i < box.colors.length - 1; i++) {
+      running += histogram.get(box.colors[i]) || 0;
+      splitAt = i + 1;
+      if (running >= total / 2) break;
+    }
+
+    boxes.splice(bestIndex, 1,
+      createColorBox(box.colors.slice(0, splitAt), histogram),
+      createColorBox(box.colors.slice(splitAt), histogram)
+    );
+  }
+
+  // Average each box (weighted by pixel count) to get the palette entry
+  return boxes.map(box => {
+    let r = 0, g = 0, b = 0, weight = 0;
+    for (const color of box.colors) {
+      const count = histogram.get(color) || 0;
+      r += ((color >> 16) & 0xFF) * count;
+      g += ((color >> 8) & 0xFF) * count;
+      b += (color & 0xFF) * count;
+      weight += count;
+    }
+    if (weight === 0) return box.colors[0];
+    return (Math.round(r / weight) << 16) | (Math.round(g / weight) << 8) | Math.round(b / weight);
+  });
+}
+
+/**
+ * Build a global palette shared by all frames
+ */
+function buildPalette(
+  frames: GifEncoderFrame[],
+  maxColors: number,
+  colorDepth: GifColorDepth
+): { palette: number[]; hasTransparency: boolean } {
+  const [rBits, gBits, bBits] = getChannelBits(colorDepth);
+  const histogram = new Map<number, number>();
+  let hasTransparency = false;
+
+  const totalPixels = frames.reduce((sum, frame) => sum + frame.imageData.width * frame.imageData.height, 0);
+  const stride = Math.max(1, Math.floor(totalPixels / PALETTE_SAMPLE_LIMIT));
+
+  for (const frame of frames) {
+    const data = frame.imageData.data;
+    for (let p = 0; p < data.length / 4; p += stride) {
+      const offset = p * 4;
+      if (data[offset + 3] < 128) {
+        hasTransparency = true;
+        continue;
+      }
+      const color = (reduceChannel(data[offset], rBits) << 16) |
+        (reduceChannel(data[offset + 1], gBits) << 8) |
+        reduceChannel(data[offset + 2], bBits);
+      histogram.set(color, (histogram.get(color) || 0) + 1);
+    }
+  }
+
+  // Reserve one slot for the transparent color if needed
+  const colorSlots = hasTransparency ? maxColors - 1 : maxColors;
+  const palette = histogram.size > 0 ? medianCut(histogram, Math.max(1, colorSlots)) : [0];
+
+  return { palette, hasTransparency };
+}
+
+/**
+ * Find the palette index closest to an RGB color, using a cache keyed on RGB555
+ */
+function createColorMatcher(palette: number[]) {
+  const cache = new Int16Array(1 << 15).fill(-1);
+  const pr = palette.map(color => (color >> 16) & 0xFF);
+  const pg = palette.map(color => (color >> 8) & 0xFF);
+  const pb = palette.map(color => color & 0xFF);
+
+  return (r: number, g: number, b: number): number => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    const cached = cache[key];
+    if (cached !== -1) return cached;
+
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < palette.length; i++) {
+      const dr = r - pr[i];
+      const dg = g - pg[i];
+      const db = b - pb[i];
+      // Weighted distance approximating perceived brightness
+      const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+
+    cache[key] = best;
+    return best;
+  };
+}
+
+const clampByte = (value: number) => value < 0 ? 0 : value > 255 ? 255 : value;
+
+/**
+ * Map a frame's pixels to palette indices, applying the chosen dithering
+ */
+function indexFrame(
+  imageData: ImageData,
+  palette: number[],
+  matchColor: (r: number, g: number, b: number) => number,
+  dithering: GifDithering,
+  transparentIndex: number
+): Uint8Array {
+  const { width, height, data } = imageData;
+  const indices = new Uint8Array(width * height);
+
+  if (dithering === 'diffusion') {
+    // Floyd-Steinberg error diffusion
+    let currentError = new Float32Array((width + 2) * 3);
+    let nextError = new Float32Array((width + 2) * 3);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const pixel = y * width + x;
+        const offset = pixel * 4;
+
+        if (data[offset + 3] < 128 && transparentIndex >= 0) {
+          indices[pixel] = transparentIndex;
+          continue;
+        }
+
+        const e = (x + 1) * 3;
+        const r = clampByte(data[offset] + currentError[e]);
+        const g = clampByte(data[offset + 1] + currentError[e + 1]);
+        const b = clampByte(data[offset + 2] + currentError[e + 2]);
+
+        const index = matchColor(r, g, b);
+        indices[pixel] = index;
+
+        const color = palette[index];
+        const errors = [
+          r - ((color >> 16) & 0xFF),
+          g - ((color >> 8) & 0xFF),
+          b - (color & 0xFF)
+        ];
+
+        for (let c = 0; c < 3; c++) {
+          currentError[e + 3 + c] += errors[c] * 7 / 16;
+          nextError[e - 3 + c] += errors[c] * 3 / 16;
+          nextError[e + c] += errors[c] * 5 / 16;
+          nextError[e + 3 + c] += errors[c] * 1 / 16;
+        }
+      }
+
+      // Move to the next row
+      const swap = currentError;
+      currentError = nextError;
+      nextError = swap;
+      nextError.fill(0);
+    }
+
+    return indices;
+  }
+
+  // Spread used by ordered dithering, roughly one palette step
+  const spread = dithering === 'pattern' ? 256 / Math.cbrt(Math.max(2, palette.length)) : 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      const offset = pixel * 4;
+
+      if (data[offset + 3] < 128 && transparentIndex >= 0) {
+        indices[pixel] = transparentIndex;
+        continue;
+      }
+
+      const bias = spread ? (BAYER_MATRIX[y & 3][x & 3] / 16 - 0.5) * spread : 0;
+      indices[pixel] = matchColor(
+        clampByte(data[offset] + bias),
+        clampByte(data[offset + 1] + bias),
+        clampByte(data[offset + 2] + bias)
+      );
+    }
+  }
+
+  return indices;
+}
+
+/**
+ * Growable byte buffer used to assemble the GIF stream
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(4096);
+  length = 0;
+
+  private ensure(size: number) {
+    if (this.length + size <= this.buffer.length) return;
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + size) capacity *= 2;
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  byte(value: number) {
+    this.ensure(1);
+    this.buffer[this.length++] = value & 0xFF;
+  }
+
+  short(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    this.ensure(values.length);
+    this.buffer.set(values, this.length);
+    this.length += values.length;
+  }
+
+  string(value: string) {
+    for (let i = 0; i < value.length; i++) {
+      this.byte(value.charCodeAt(i));
+    }
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+/**
+ * LZW-compress palette indices and write them as GIF data sub-blocks
+ */
+function writeLzwData(writer: ByteWriter, indices: Uint8Array, minCodeSize: number) {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let dictionary = new Map<number, number>();
+
+  const output: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xFF);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const value = indices[i];
+    const key = (prefix << 8) | value;
+    const existing = dictionary.get(key);
+
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+
+    if (nextCode === 4096) {
+      // Dictionary is full, start over
+      emit(clearCode);
+      dictionary = new Map<number, number>();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= (1 << codeSize)) codeSize++;
+      dictionary.set(key, nextCode++);
+    }
+
+    prefix = value;
+  }
+
+  emit(prefix);
+  emit(endCode);
+
+  if (bitCount > 0) {
+    output.push(bitBuffer & 0xFF);
+  }
+
+  // Write the compressed stream in sub-blocks of at most 255 bytes
+  writer.byte(minCodeSize);
+  for (let i = 0; i < output.length; i += 255) {
+    const block = output.slice(i, i + 255);
+    writer.byte(block.length);
+    writer.bytes(block);
+  }
+  writer.byte(0);
+}
+
+/**
+ * Get the GIF disposal method code
+ */
+function getDisposalCode(disposal: GifDisposal): number {
+  switch (disposal) {
+    case 'background':
+      return 2;
+    case 'previous':
+      return 3;
+    default:
+      return 1; // Do not dispose
+  }
+}
+
+/**
+ * Encode frames as an animated GIF
+ */
+export function encodeGif(frames: GifEncoderFrame[], options: GifEncoderOptions): Uint8Array {
+  if (frames.length === 0) {
+    throw new Error('Cannot encode a GIF without frames');
+  }
+
+  const {
+    width,
+    height,
+    dithering = 'diffusion',
+    colorDepth = 24,
+    disposal = 'none',
+    loop = true
+  } = options;
+  const maxColors = Math.max(2, Math.min(256, Math.round(options.maxColors || 256)));
+
+  const { palette, hasTransparency } = buildPalette(frames, maxColors, colorDepth);
+  const transparentIndex = hasTransparency ? palette.length : -1;
+  const matchColor = createColorMatcher(palette);
+
+  // The color table must hold a power of two entries (at least 2)
+  const usedEntries = palette.length + (hasTransparency ? 1 : 0);
+  let tableBits = 1;
+  while ((1 << tableBits) < usedEntries) tableBits++;
+  const tableSize = 1 << tableBits;
+
+  const writer = new ByteWriter();
+
+  // Header and logical screen descriptor
+  writer.string('GIF89a');
+  writer.short(width);
+  writer.short(height);
+  writer.byte(0x80 | ((tableBits - 1) << 4) | (tableBits - 1)); // Global color table
+  writer.byte(0); // Background color index
+  writer.byte(0); // Pixel aspect ratio
+
+  // Global color table
+  for (let i = 0; i < tableSize; i++) {
+    const color = i < palette.length ? palette[i] : 0;
+    writer.byte((color >> 16) & 0xFF);
+    writer.byte((color >> 8) & 0xFF);
+    writer.byte(color & 0xFF);
+  }
+
+  // Looping (NETSCAPE2.0 application extension)
+  if (loop !== false) {
+    const loopCount = loop === true ? 0 : Math.max(0, Math.round(loop));
+    writer.bytes([0x21, 0xFF, 0x0B]);
+    writer.string('NETSCAPE2.0');
+    writer.bytes([0x03, 0x01]);
+    writer.short(loopCount);
+    writer.byte(0);
+  }
+
+  const disposalCode = getDisposalCode(disposal);
+  const minCodeSize = Math.max(2, tableBits);
+
+  for (const frame of frames) {
+    // Browsers treat delays under 20ms as 100ms, so clamp to the smallest safe value
+    const delay = Math.max(2, Math.round(frame.delay / 10));
+
+    // Graphic control extension
+    writer.bytes([0x21, 0xF9, 0x04]);
+    writer.byte((disposalCode << 2) | (hasTransparency ? 1 : 0));
+    writer.short(delay);
+    writer.byte(hasTransparency ? transparentIndex : 0);
+    writer.byte(0);
+
+    // Image descriptor (full canvas, no local color table)
+    writer.byte(0x2C);
+    writer.short(0);
+    writer.short(0);
+    writer.short(width);
+    writer.short(height);
+    writer.byte(0);
+
+    const indices = indexFrame(frame.imageData, palette, matchColor, dithering, transparentIndex);
+    writeLzwData(writer, indices, minCodeSize);
+  }
+
+  // Trailer
+  writer.byte(0x3B);
+
+  return writer.toUint8Array();
+}
@@ -0,0 +1,438 @@
+/**
+ * GSAP Timelines
+ *
+ * Generates the GSAP script of an HTML5 banner for the GSAP platforms: one
+ * readable `gsap.timeline()` holding a tween per animation of each layer.
+ * The tweens animate the same stops the animation sampler uses for every
+ * animation type, eased with the GSAP ease the easing registry gives for the
+ * animation easing.
+ *
+ * Tweens are ordered by start time, so a later animation wins for the
+ * properties it sets, and only the first tween of a layer renders its start
+ * values before it plays, as in the sampler. Motion paths are tweened
+ * without GSAP's MotionPathPlugin, through keyframes eased as a whole, as the
+ * plugin does. The sampler follows a path flattened into straight segments,
+ * so the keyframes sit at the segments' ends, as many as keep the layer
+ * within a quarter pixel of the path the preview plays. An ease that
+ * overshoots holds the layer at the ends of the keyframes, where the preview
+ * carries it on along the path or around a closed one. Keyframed properties
+ * are left out of the animation tweens and tweened from keyframe to
+ * keyframe; keyed blur is tweened as a `filter` and keyed colors as `color`,
+ * which recolors text layers.
+ *
+ * The keyword easings are GSAP's built-in eases. Easings GSAP has no ease
+ * for (the CSS cubic-bezier keywords, and cubic-bezier, spring and steps
+ * curves) are registered with the script as custom eases that evaluate them
+ * as the preview does.
+ *
+ * GSAP has no tween for rotation around the (1, 1, 0) axis, so the diagonal
+ * rotation is tweened through a `--diagonal` custom property that the
+ * layer's `rotate` property reads.
+ */
+
+import { AnimationLayer } from '../types/animation';
+import type { AdPlatform } from './exportUtils';
+import {
+  getAnimationEnd,
+  getAnimationMotion,
+  getAnimationStart,
+  getColorKeyframes,
+  getKeyframeTracks,
+  getSortedAnimations,
+  IDENTITY_MOTION_STATE,
+  MotionDefinition,
+  MotionProps,
+  sampleMotion
+} from './animationSampler';
+import { getGsapEase } from './easing';
+import { getMotionPathGeometry } from './motionPath';
+import type { BannerPlayback } from './bannerPlayback';
+
+/**
+ * The tweens of a layer, written against its element
+ */
+export interface GsapLayerTimeline {
+  label: string; // Layer name, written as a comment above the tweens
+  tweens: string[];
+  end: number; // Seconds the layer's animations and keyframes take
+  tweensEnd: number; // Seconds the tweens take; jumps end early
+  rotatesDiagonally: boolean;
+  customEases: Record<string, string>; // Eases the tweens use that GSAP doesn't have, by name
+}
+
+/**
+ * Options of a banner timeline script
+ */
+export interface GsapTimelineOptions {
+  playback?: BannerPlayback; // Plays once to the end without one
+}
+
+// Version of GSAP the banners are written against
+export const GSAP_VERSION = '3.12.5';
+
+/**
+ * URL the GSAP platforms load GSAP from
+ */
+export const GSAP_CDN_URL = `https://cdnjs.cloudflare.com/ajax/libs/gsap/${GSAP_VERSION}/gsap.min.js`;
+
+// GSAP property each motion property is tweened with
+const GSAP_PROPERTIES: Record<keyof MotionProps, string> = {
+  opacity: 'opacity',
+  x: 'x',
+  y: 'y',
+  scaleX: 'scaleX',
+  scaleY: 'scaleY',
+  rotate: 'rotation',
+  rotateDiagonal: "'--diagonal'",
+  blur: 'filter'
+};
+
+// Farthest (px) the keyframes of a tween along a path take the layer off
+// the path, and the most keyframes one tween gets; a path with more corners
+// than that is followed less closely
+const PATH_TOLERANCE = 0.25;
+const MAX_PATH_KEYFRAMES = 200;
+
+// Degrees of auto-rotation that count as far as the path tolerance
+const PATH_ANGLE_TOLERANCE = 1;
+
+// Progress an auto-rotating layer turns in at a point of a path; the preview
+// turns at once
+const PATH_TURN_PROGRESS = 1e-6;
+
+// A keyframe of a path tween at a progress (0-1) of the tween
+interface PathKeyframe {
+  progress: number;
+  values: MotionProps;
+}
+
+/**
+ * Whether a platform animates its banners with GSAP
+ */
+export function isGsapPlatform(platform: AdPlatform): boolean {
+  return platform.endsWith('-gsap');
+}
+
+// Round a number for script output
+function round(value: number, decimals = 3): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor || 0;
+}
+
+// Write a vars object literal
+function formatVars(entries: [string, string | number | boolean][]): string {
+  return `{ ${entries.map(([key, value]) => `${key}: ${typeof value === 'string' ? `'${value}'` : value}`).join(', ')} }`;
+}
+
+// Vars entries of motion values. Diagonal rotation is a custom property
+// with a unit and blur a filter function, the rest are numbers.
+function getMotionEntries(values: MotionProps, props: (keyof MotionProps)[]): [string, string | number][] {
+  return props.map(prop => {
+    const value = round(values[prop] ?? IDENTITY_MOTION_STATE[prop], prop === 'scaleX' || prop === 'scaleY' ? 4 : 3);
+    if (prop === 'rotateDiagonal') return [GSAP_PROPERTIES[prop], `${value}deg`];
+    if (prop === 'blur') return [GSAP_PROPERTIES[prop], `blur(${value}px)`];
+    return [GSAP_PROPERTIES[prop], value];
+  });
+}
+
+// Write a fromTo() tween
+function formatTween(
+  selector: string,
+  from: [string, string | number][],
+  to: [string, string | number][],
+  duration: number,
+  ease: string,
+  position: number,
+  immediateRender: boolean
+): string {
+  const toEntries: [string, string | number | boolean][] = [
+    ...to,
+    ['duration', round(duration)],
+    ['ease', ease],
+    ...(immediateRender ? [] : [['immediateRender', false] as [string, boolean]])
+  ];
+  return `tl.fromTo('${selector}', ${formatVars(from)}, ${formatVars(toEntries)}, ${round(position)});`;
+}
+
+// Write a to() tween through percentage keyframes of a path, joined by
+// straight lines and eased as a whole
+function formatPathTween(
+  selector: string,
+  keyframes: PathKeyframe[],
+  props: (keyof MotionProps)[],
+  vars: [string, string | number][],
+  duration: number,
+  ease: string,
+  position: number
+): string {
+  const values = keyframes
+    .map(keyframe => `'${round(keyframe.progress * 100, 5)}%': ${formatVars(getMotionEntries(keyframe.values, props))}`)
+    .join(', ');
+  const entries = formatVars([...vars, ['duration', round(duration)], ['ease', ease]]).slice(2);
+  return `tl.to('${selector}', { keyframes: { ${values}, easeEach: 'none' }, ${entries}, ${round(position)});`;
+}
+
+// How far the straight line between two keyframes passes from a keyframe
+// between them, with auto-rotation weighed against the path tolerance
+function getPathDeviation(from: PathKeyframe, to: PathKeyframe, keyframe: PathKeyframe): number {
+  const share = (keyframe.progress - from.progress) / (to.progress - from.progress);
+  const lerp = (prop: keyof MotionProps) => {
+    const start = from.values[prop] ?? 0;
+    return start + ((to.values[prop] ?? 0) - start) * share;
+  };
+  const distance = Math.hypot(lerp('x') - (keyframe.values.x ?? 0), lerp('y') - (keyframe.values.y ?? 0));
+  const turn = Math.abs(lerp('rotate') - (keyframe.values.rotate ?? 0));
+  return Math.max(distance, (turn * PATH_TOLERANCE) / PATH_ANGLE_TOLERANCE);
+}
+
+// Leave out the keyframes the lines between the others pass within a
+// tolerance of (Douglas-Peucker)
+function simplifyPathKeyframes(keyframes: PathKeyframe[], tolerance: number): PathKeyframe[] {
+  const kept = keyframes.map((_, index) => index === 0 || index === keyframes.length - 1);
+  const spans: [number, number][] = [[0, keyframes.length - 1]];
+
+  while (spans.length > 0) {
+    const [first, last] = spans.pop()!;
+    let farthest = -1;
+    let deviation = tolerance;
+    for (let index = first + 1; index < last; index++) {
+      const indexDeviation = getPathDeviation(keyframes[first], keyframes[last], keyframes[index]);
+      if (indexDeviation > deviation) {
+        farthest = index;
+        deviation = indexDeviation;
+      }
+    }
+    if (farthest >= 0) {
+      kept[farthest] = true;
+      spans.push([first, farthest], [farthest, last]);
+    }
+  }
+  return keyframes.filter((_, index) => kept[index]);
+}
+
+// Keyframes along a path motion: its ends and the points of the flattened
+// path it passes, as few as keep the layer within the path tolerance. An
+// auto-rotating layer holds the direction of each segment and turns at the
+// points between them, as in the preview.
+function getPathKeyframes(motion: MotionDefinition): PathKeyframe[] {
+  const path = motion.path!;
+  const geometry = getMotionPathGeometry(path.data)!;
+  const span = path.end - path.start;
+
+  // Progress the motion passes each point of the path at
+  const passed = geometry.length > 0 && span !== 0
+    ? geometry.lengths
+      .map(length => (length / geometry.length - path.start) / span)
+      .filter(progress => progress > 0 && progress < 1)
+    : [];
+  const points = [0, ...(span < 0 ? passed.reverse() : passed), 1];
+
+  // Direction of the segment between each point and the next
+  const directions = points.slice(1).map((progress, index) => sampleMotion(motion, (points[index] + progress) / 2).rotate);
+
+  const keyframes: PathKeyframe[] = points.flatMap((progress, index) => {
+    const values = sampleMotion(motion, progress);
+    if (!path.autoRotate) return [{ progress, values }];
+
+    const before = directions[index - 1];
+    const after = directions[index];
+    return [
+      ...(before !== undefined ? [{ progress, values: { ...values, rotate: before } }] : []),
+      ...(after !== undefined && after !== before
+        ? [{ progress: before !== undefined ? progress + PATH_TURN_PROGRESS : progress, values: { ...values, rotate: after } }]
+        : [])
+    ];
+  });
+
+  let tolerance = PATH_TOLERANCE;
+  let simplified = simplifyPathKeyframes(keyframes, tolerance);
+  while (simplified.length > MAX_PATH_KEYFRAMES) {
+    tolerance *= 2;
+    simplified = simplifyPathKeyframes(keyframes, tolerance);
+  }
+  return simplified;
+}
+
+// Write a set() that jumps to values. A zero-length fromTo() wouldn't
+// revert when the timeline loops, a set() does.
+function formatSet(selector: string, values: [string, string | number][], position: number, immediateRender = false): string {
+  const entries: [string, string | number | boolean][] = [...values, ...(immediateRender ? [['immediateRender', true] as [string, boolean]] : [])];
+  return `tl.set('${selector}', ${formatVars(entries)}, ${round(position)});`;
+}
+
+/**
+ * Compile a layer's animations and keyframes into timeline tweens on the
+ * element with the given id
+ */
+export function compileLayerTimeline(layer: AnimationLayer, elementId: string): GsapLayerTimeline {
+  const selector = `#${elementId}`;
+  const tracks = getKeyframeTracks(layer);
+  const keyed = Object.keys(tracks) as (keyof MotionProps)[];
+  const tweens: string[] = [];
+  let end = 0;
+  let tweensEnd = 0;
+  let rotatesDiagonally = false;
+  const customEases: Record<string, string> = {};
+
+  // The ease of a tween, noting the eases to register
+  const easeOf = (easing: string | undefined): string => {
+    const { ease, script } = getGsapEase(easing);
+    if (script) customEases[ease] = script;
+    return ease;
+  };
+
+  getSortedAnimations(layer).forEach((animation, animationIndex) => {
+    const motion = getAnimationMotion(animation);
+    if (!motion) return;
+
+    const props = Array.from(new Set(motion.stops.flatMap(stop => Object.keys(stop.props) as (keyof MotionProps)[])))
+      .filter(prop => !keyed.includes(prop));
+    end = Math.max(end, getAnimationEnd(animation));
+    if (props.length === 0) return;
+
+    rotatesDiagonally = rotatesDiagonally || props.includes('rotateDiagonal');
+    const start = getAnimationStart(animation);
+    const duration = Math.max(0, animation.duration || 0);
+    const origin: [string, string] = ['transformOrigin', `${round(motion.origin[0] * 100)}% ${round(motion.origin[1] * 100)}%`];
+    const ease = easeOf(animation.easing);
+
+    // A stepped motion, or one without duration, jumps to its last stop as
+    // it starts; before that the first animation holds its first stop
+    if (motion.stepped || duration === 0) {
+      if (animationIndex === 0) {
+        tweens.push(formatSet(selector, [...getMotionEntries(motion.stops[0].props, props), origin], 0, true));
+      }
+      tweens.push(formatSet(selector, [...getMotionEntries(motion.stops[motion.stops.length - 1].props, props), origin], start));
+      tweensEnd = Math.max(tweensEnd, start);
+      return;
+    }
+
+    // A path is followed from its start, which the first animation holds
+    if (motion.path) {
+      if (animationIndex === 0) {
+        tweens.push(formatSet(selector, [...getMotionEntries(motion.stops[0].props, props), origin], 0, true));
+      }
+      tweens.push(formatPathTween(selector, getPathKeyframes(motion), props, [origin], duration, ease, start));
+      tweensEnd = Math.max(tweensEnd, start + duration);
+      return;
+    }
+
+    motion.stops.slice(0, -1).forEach((from, index) => {
+      const to = motion.stops[index + 1];
+      tweensEnd = Math.max(tweensEnd, start + to.offset * duration);
+      // The origin is in both vars so it jumps instead of tweening
+      tweens.push(formatTween(
+        selector,
+        [...getMotionEntries(from.props, props), origin],
+        [...getMotionEntries(to.props, props), origin],
+        (to.offset - from.offset) * duration,
+        ease,
+        start + from.offset * duration,
+        animationIndex === 0 && index === 0
+      ));
+    });
+  });
+
+  // Keyframes hold their first value until they start
+  keyed.forEach(prop => {
+    const keyframes = tracks[prop]!;
+    rotatesDiagonally = rotatesDiagonally || prop === 'rotateDiagonal';
+    end = Math.max(end, keyframes[keyframes.length - 1].time);
+    tweensEnd = Math.max(tweensEnd, keyframes[keyframes.length - 1].time);
+
+    if (keyframes.length === 1) {
+      tweens.push(formatSet(selector, getMotionEntries({ [prop]: keyframes[0].value }, [prop]), 0, true));
+      return;
+    }
+
+    keyframes.slice(0, -1).forEach((from, index) => {
+      const to = keyframes[index + 1];
+      tweens.push(formatTween(
+        selector,
+        getMotionEntries({ [prop]: from.value }, [prop]),
+        getMotionEntries({ [prop]: to.value }, [prop]),
+        to.time - from.time,
+        easeOf(from.easing),
+        from.time,
+        index === 0
+      ));
+    });
+  });
+
+  // Colors tween the same way, with GSAP mixing their channels
+  const colorKeyframes = getColorKeyframes(layer);
+  if (colorKeyframes.length > 0) {
+    const last = colorKeyframes[colorKeyframes.length - 1];
+    end = Math.max(end, last.time);
+    tweensEnd = Math.max(tweensEnd, last.time);
+
+    if (colorKeyframes.length === 1) {
+      tweens.push(formatSet(selector, [['color', last.value]], 0, true));
+    }
+    colorKeyframes.slice(0, -1).forEach((from, index) => {
+      const to = colorKeyframes[index + 1];
+      tweens.push(formatTween(
+        selector,
+        [['color', from.value]],
+        [['color', to.value]],
+        to.time - from.time,
+        easeOf(from.easing),
+        from.time,
+        index === 0
+      ));
+    });
+  }
+
+  return { label: layer.name, tweens, end, tweensEnd, rotatesDiagonally, customEases };
+}
+
+/**
+ * Write the script that builds a banner's timeline and plays it once the
+ * banner is ready (its images have loaded). The tweens find their elements
+ * only then, after dynamic content has rewritten split text. Without GSAP
+ * the layers stay where the stylesheet puts them.
+ */
+export function buildGsapTimelineScript(timelines: GsapLayerTimeline[], options: GsapTimelineOptions = {}): string {
+  const animated = timelines.filter(timeline => timeline.tweens.length > 0);
+  const duration = Math.max(0, ...timelines.map(timeline => timeline.end));
+  const blocks = animated.map(timeline =>
+    `    // ${timeline.label.replace(/\s+/g, ' ')}\n${timeline.tweens.map(tween => `    ${tween}`).join('\n')}`
+  );
+
+  // Animations that end on a jump still take their full duration
+  if (duration > Math.max(0, ...animated.map(timeline => timeline.tweensEnd))) {
+    blocks.push(`    // Hold until the end of the timeline\n    tl.set({}, {}, ${round(duration)});`);
+  }
+
+  // Custom eases are registered once for the whole timeline
+  const eases: Record<string, string> = Object.assign({}, ...animated.map(timeline => timeline.customEases));
+  const customEases = Object.keys(eases).length > 0
+    ? `  // Easing curves GSAP has no ease for, evaluated as in the preview\n${Object.entries(eases).map(([name, script]) =>
+      `  gsap.registerEase('${name}', ${script});`
+    ).join('\n')}\n\n`
+    : '';
+
+  // Stop where the playback ends: within a play when it's longer than the
+  // platform allows, otherwise once the last play completes
+  const playback = options.playback;
+  if (playback && playback.stopAfter < playback.plays * playback.duration) {
+    const onPause = playback.endFrame === null ? '' : `, function () { tl.pause(${round(playback.endFrame)}); }`;
+    blocks.push(`    // Stop at the platform's animation limit\n    tl.addPause(${round(playback.stopAfter)}${onPause});`);
+  } else if (playback && playback.endFrame !== null) {
+    blocks.push(`    // Freeze on the end frame once the last play completes\n    tl.eventCallback('onComplete', function () { tl.pause(${round(playback.endFrame)}); });`);
+  }
+
+  return `(function () {
+  if (!window.gsap) return;
+
+${customEases}  // Build and play the timeline once the images have loaded
+  document.getElementById('ad').addEventListener('bannerready', function () {
+    var tl = gsap.timeline(${formatVars([['paused', true], ['repeat', playback ? playback.plays - 1 : 0]])});
+
+${blocks.join('\n\n')}
+
+    tl.play();
+  });
+})();
+`;
+}
@@ -0,0 +1,578 @@
+/**
+ * HTML5 Bundle Utilities
+ *
+ * Turns the layer tree and the layer assets exported by the plugin into the
+ * files of an HTML5 banner (markup, stylesheet, script and images), and
+ * packages finished banners into the per-platform ZIP structure.
+ */
+
+import { AnimationLayer } from '../types/animation';
+import type { AdPlatform } from './exportUtils';
+import type { HtmlLayerRequest, RenderedBannerAssets, RenderedLayerAsset } from '../lib/figmaPlugin';
+import { createZip, prefixZipPaths, ZipFiles } from './zipUtils';
+import { compileLayerMotion, TRANSFORM_FALLBACK_CONDITION } from './cssKeyframes';
+import { buildGsapTimelineScript, compileLayerTimeline, GsapLayerTimeline } from './gsapTimeline';
+import { BannerPlayback, getCssPlaybackScript, needsPlaybackRuntime } from './bannerPlayback';
+import type { FlashtalkingInstantAd } from './dcoFeed';
+import { BannerClickZone, getAdformClickTags } from './clickZones';
+import { IN_VIEW_EVENT, POLITE_LOAD_EVENT, POLITE_LOADED_CLASS } from './politeLoading';
+import { BannerLayoutMode, getConstrainedLayoutRules, getLayerConstraints, getScaledLayoutScript, LayoutBox } from './responsiveLayout';
+import { getTextPartLayers, splitLayerText, splitText, TextSplit, TextSplitUnit, TextSplitWord } from './textSplit';
+
+/**
+ * A layer as it will be written to the banner markup.
+ * Layers with animated descendants stay containers so each animated layer
+ * gets its own element; everything else is flattened into one asset.
+ */
+export interface BannerLayerPlan {
+  layer: AnimationLayer;
+  elementId: string;
+  children?: BannerLayerPlan[];
+}
+
+/**
+ * File layout of a banner for an ad platform
+ */
+export interface PlatformBundleLayout {
+  folder: string;
+  cssFile: string;
+  jsFile: string;
+  imageDir: string;
+  getExtraFiles?: (banner: {
+    name: string;
+    width: number;
+    height: number;
+    bannerLink: string;
+    clickZones?: BannerClickZone[];
+    instantAds?: FlashtalkingInstantAd[];
+  }) => ZipFiles;
+}
+
+/**
+ * A finished banner, ready to be packaged
+ */
+export interface Html5BannerBundle {
+  name: string;
+  width: number;
+  height: number;
+  files: ZipFiles;
+  zipOnlyFiles?: ZipFiles; // Only added to the banner's own ZIP, e.g. its backup image
+}
+
+/**
+ * Escape text for use in HTML content and attributes
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Round a pixel value for CSS output
+ */
+export function px(value: number): string {
+  return `${Math.round(value * 100) / 100}px`;
+}
+
+// Whether a layer or any of its descendants needs an element of its own:
+// it is animated, bound to a feed or a click zone
+function hasSeparateContent(layer: AnimationLayer, boundLayerIds: string[] = []): boolean {
+  if ((layer.animations || []).length > 0 || (layer.keyframes || []).length > 0) return true;
+  if (boundLayerIds.includes(layer.id) || layer.clickZone) return true;
+  return (layer.children || []).some(child => hasSeparateContent(child, boundLayerIds));
+}
+
+/**
+ * Turn a layer name into a unique element id
+ */
+export function createElementId(name: string, usedIds: Set<string>): string {
+  let base = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  if (!base || /^[0-9]/.test(base)) base = `layer-${base}`.replace(/-$/, '');
+
+  let elementId = base;
+  for (let index = 2; usedIds.has(elementId); index++) {
+    elementId = `${base}-${index}`;
+  }
+  usedIds.add(elementId);
+  return elementId;
+}
+
+/**
+ * Decide which layers become elements of the banner.
+ * Hidden layers are skipped; a layer is only kept as a container when one of
+ * its children is animated on its own, bound to a feed column so its content
+ * can change, or a click zone.
+ */
+export function planBannerLayers(
+  layers: AnimationLayer[],
+  hiddenLayerIds: string[] = [],
+  usedIds: Set<string> = new Set(['ad', 'preloader']),
+  boundLayerIds: string[] = []
+): BannerLayerPlan[] {
+  return layers
+    .filter(layer => layer.visible !== false && !hiddenLayerIds.includes(layer.id))
+    .map(layer => {
+      const elementId = createElementId(layer.name, usedIds);
+      const children = layer.children || [];
+
+      if (children.some(child => hasSeparateContent(child, boundLayerIds))) {
+        return { layer, elementId, children: planBannerLayers(children, hiddenLayerIds, usedIds, boundLayerIds) };
+      }
+      return { layer, elementId };
+    });
+}
+
+/**
+ * Get the layers the plugin has to export for a layer plan. Text layers in
+ * textLayerIds are exported as text even when other text is drawn as SVG.
+ */
+export function getLayerRequests(plan: BannerLayerPlan[], textLayerIds: string[] = []): HtmlLayerRequest[] {
+  return plan.flatMap(node => [
+    {
+      id: node.layer.id,
+      name: node.layer.name,
+      type: node.layer.type,
+      rasterize: !node.children,
+      ...(textLayerIds.includes(node.layer.id) ? { asText: true } : {})
+    },
+    ...getLayerRequests(node.children || [], textLayerIds)
+  ]);
+}
+
+/**
+ * Find a planned layer by its layer id
+ */
+export function findPlannedLayer(plan: BannerLayerPlan[], layerId: string): BannerLayerPlan | null {
+  for (const node of plan) {
+    if (node.layer.id === layerId) return node;
+    const child = findPlannedLayer(node.children || [], layerId);
+    if (child) return child;
+  }
+  return null;
+}
+
+/**
+ * Get the file layout a platform expects for its banners
+ */
+export function getPlatformBundleLayout(platform: AdPlatform = 'standard-css'): PlatformBundleLayout {
+  switch (platform) {
+    // Google accepts subfolders but its validator reports flat bundles most clearly
+    case 'google-ads':
+    case 'google-display-network':
+    case 'doubleclick-dcm':
+    case 'doubleclick-studio':
+    case 'dv360':
+    case 'google':
+      return { folder: platform, cssFile: 'style.css', jsFile: 'script.js', imageDir: 'images' };
+
+    // Adform reads the banner size and click tags from manifest.json
+    case 'adform':
+    case 'adform-mraid':
+      return {
+        folder: platform,
+        cssFile: 'style.css',
+        jsFile: 'script.js',
+        imageDir: 'images',
+        getExtraFiles: ({ name, width, height, bannerLink, clickZones = [] }) => ({
+          'manifest.json': JSON.stringify({
+            version: '1.0',
+            title: name,
+            description: '',
+            width,
+            height,
+            events: { enabled: 1, list: {} },
+            clicktags: { clickTAG: bannerLink, ...getAdformClickTags(clickZones) },
+            source: 'index.html'
+          }, null, 2)
+        })
+      };
+
+    // Flashtalking requires a manifest.js next to index.html
+    case 'flashtalking':
+      return {
+        folder: platform,
+        cssFile: 'style.css',
+        jsFile: 'script.js',
+        imageDir: 'images',
+        getExtraFiles: ({ width, height, clickZones = [], instantAds }) => ({
+          'manifest.js': `FT.manifest({
+  "filename": "index.html",
+  "width": ${width},
+  "height": ${height},
+  "clickTagCount": ${1 + clickZones.length}${instantAds && instantAds.length > 0 ? `,
+  "instantAds": ${JSON.stringify(instantAds, null, 2).replace(/\n/g, '\n  ')}` : ''}
+});
+`
+        })
+      };
+
+    default:
+      return { folder: platform, cssFile: 'css/style.css', jsFile: 'js/script.js', imageDir: 'images' };
+  }
+}
+
+/**
+ * Get the element id of a part of a split text
+ */
+export function getTextPartId(elementId: string, unit: TextSplitUnit, index: number): string {
+  return `${elementId}-${unit}-${index + 1}`;
+}
+
+/**
+ * Layout rules of the parts of split text: letters and words move on their
+ * own and each line rises inside a mask
+ */
+export const SPLIT_TEXT_RULES = [
+  '.split-mask {\n  display: block;\n  overflow: hidden;\n}',
+  '.split-line,\n.split-word,\n.split-char {\n  display: inline-block;\n}',
+  '.split-word {\n  white-space: nowrap;\n}'
+];
+
+/**
+ * Write the markup of a split text with an element per part its text
+ * animations play on. Letters are kept in their word so lines only break
+ * between words.
+ */
+export function renderSplitText(split: TextSplit, elementId: string): string {
+  const has = (unit: TextSplitUnit) => split.units.includes(unit);
+  const part = (unit: TextSplitUnit, index: number, content: string) =>
+    `<span class="split split-${unit}" id="${getTextPartId(elementId, unit, index)}">${content}</span>`;
+
+  const renderWord = (word: TextSplitWord) => {
+    const chars = word.chars.map(char => (has('char') ? part('char', char.index, escapeHtml(char.text)) : escapeHtml(char.text))).join('');
+    if (has('word')) return part('word', word.index, chars);
+    return has('char') ? `<span class="split-word">${chars}</span>` : chars;
+  };
+
+  const lines = split.lines.map(line => {
+    const content = line.parts.map(item => (typeof item === 'string' ? escapeHtml(item) : renderWord(item))).join('');
+    return has('line') ? `<span class="split-mask">${part('line', line.index, content)}</span>` : content;
+  });
+  // Masked lines are blocks, which break the lines themselves
+  return lines.join(has('line') ? '' : '\n');
+}
+
+// Get the path prefix that leads from a file back to the banner root
+function getRootPrefix(filePath: string): string {
+  return '../'.repeat(filePath.split('/').length - 1);
+}
+
+/**
+ * Remove comments and unneeded whitespace from a stylesheet
+ */
+export function minifyCss(css: string): string {
+  return css
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/\s*([{}:;,])\s*/g, '$1')
+    .replace(/;}/g, '}')
+    .trim();
+}
+
+// Script that reveals the banner once every image has loaded and tells
+// the banner's timeline with a bannerready event on #ad. The images are
+// counted once #ad has fired every loadAfter event (e.g. after dynamic
+// content has replaced them), and the banner is revealed once it has also
+// fired every revealAfter event.
+function getImageLoaderScript(loadAfter: string[] = [], revealAfter: string[] = []): string {
+  const waitForReveal = revealAfter.length > 0
+    ? `  // Reveal once ${revealAfter.join(' and ')} have fired too
+${revealAfter.map(event => `  ad.addEventListener('${event}', unblock);`).join('\n')}
+
+`
+    : '';
+  const waitForLoad = loadAfter.length > 0
+    ? `  // Count the images once ${loadAfter.join(' and ')} have fired
+  var waiting = ${loadAfter.length};
+  function onLoadEvent() {
+    waiting -= 1;
+    if (waiting === 0) loadImages();
+  }
+${loadAfter.map(event => `  ad.addEventListener('${event}', onLoadEvent);`).join('\n')}`
+    : '  loadImages();';
+
+  return `(function () {
+  var ad = document.getElementById('ad');
+  var blocking = ${1 + revealAfter.length};
+
+  function reveal() {
+    ad.className += ' ready';
+    ad.dispatchEvent(new Event('bannerready'));
+  }
+
+  function unblock() {
+    blocking -= 1;
+    if (blocking === 0) reveal();
+  }
+
+  function loadImages() {
+    var images = ad.getElementsByTagName('img');
+    var pending = images.length;
+
+    function onImageDone() {
+      pending -= 1;
+      if (pending === 0) unblock();
+    }
+
+    if (pending === 0) {
+      unblock();
+      return;
+    }
+
+    for (var i = 0; i < images.length; i++) {
+      if (images[i].complete) {
+        onImageDone();
+      } else {
+        images[i].addEventListener('load', onImageDone);
+        images[i].addEventListener('error', onImageDone);
+      }
+    }
+  }
+
+${waitForReveal}${waitForLoad}
+})();
+`;
+}
+
+/**
+ * Build the markup, stylesheet, script and image files of a banner.
+ * Layer motion is compiled to CSS @keyframes, or to a GSAP timeline with the
+ * 'gsap' motion option; the banner script handles playback, loading and the
+ * layout. Returns the markup to place inside #ad and the files to bundle.
+ */
+export function buildBannerContent(
+  plan: BannerLayerPlan[],
+  assets: RenderedBannerAssets,
+  layout: PlatformBundleLayout,
+  options: {
+    minify?: boolean;
+    motion?: 'css' | 'gsap';
+    playback?: BannerPlayback;
+    dynamicContentScript?: string;
+    dynamicTexts?: Record<string, string[]>; // Texts the dynamic content may write into a text layer, by layer id
+    politeLoadingScript?: string;
+    layout?: BannerLayoutMode;
+  } = {}
+): { content: string; files: ZipFiles } {
+  const assetsById = new Map<string, RenderedLayerAsset>(assets.layers.map(asset => [asset.id, asset]));
+  const usedAssetIds = new Set<string>();
+  const usedElementIds = new Set(['ad', 'preloader']);
+  const files: ZipFiles = {};
+  const cssRules: string[] = [];
+  const keyframeRules: string[] = [];
+  const timelines: GsapLayerTimeline[] = [];
+  const cssRoot = getRootPrefix(layout.cssFile);
+
+  // Banner background; a polite banner only downloads its background image
+  // with the other images
+  const backgroundRules: string[] = [];
+  const backgroundImageRules: string[] = [];
+  if (assets.frame.background) {
+    backgroundRules.push(`background-color: ${assets.frame.background};`);
+  }
+  if (assets.frame.backgroundBytes) {
+    const backgroundPath = `${layout.imageDir}/frame-background.${assets.frame.backgroundFormat || 'png'}`;
+    files[backgroundPath] = assets.frame.backgroundBytes;
+    backgroundRules.push('background-size: 100% 100%;');
+    backgroundImageRules.push(`background-image: url("${cssRoot}${backgroundPath}");`);
+  }
+  if (!options.politeLoadingScript) {
+    backgroundRules.push(...backgroundImageRules.splice(0));
+  }
+  if (backgroundRules.length > 0) {
+    cssRules.push(`#ad {\n  ${backgroundRules.join('\n  ')}\n}`);
+  }
+  if (backgroundImageRules.length > 0) {
+    cssRules.push(`#ad.${POLITE_LOADED_CLASS} {\n  ${backgroundImageRules.join('\n  ')}\n}`);
+  }
+
+  // Shared layer rules; layers stay hidden and their timeline waits until
+  // the images have loaded
+  cssRules.push(
+    '.layer {\n  position: absolute;\n  margin: 0;\n}',
+    '.layer img {\n  display: block;\n  width: 100%;\n  height: 100%;\n}',
+    '#ad:not(.ready) .layer {\n  visibility: hidden;\n  animation-play-state: paused;\n}'
+  );
+  let hasSplitText = false;
+
+  // Compile the motion of a layer onto its element, adding the rules it needs
+  const addMotion = (layer: AnimationLayer, elementId: string, box: LayoutBox, rules: string[]) => {
+    if (options.motion === 'gsap') {
+      const timeline = compileLayerTimeline(layer, elementId);
+      if (timeline.rotatesDiagonally) rules.push('rotate: 1 1 0 var(--diagonal, 0deg);');
+      timelines.push(timeline);
+    } else {
+      const motion = compileLayerMotion(layer, elementId, box);
+      if (motion.animation) {
+        rules.push(`animation: ${motion.animation};`);
+        keyframeRules.push(...motion.keyframes);
+      }
+      if (motion.fallbackAnimation) {
+        keyframeRules.push(`@supports ${TRANSFORM_FALLBACK_CONDITION} {\n  #${elementId} {\n    animation: ${motion.fallbackAnimation};\n  }\n}`);
+      }
+    }
+  };
+
+  const renderElement = (
+    elementId: string,
+    asset: RenderedLayerAsset,
+    layer: AnimationLayer | null,
+    parent: LayoutBox,
+    renderChildren: () => string,
+    indent: string
+  ): string => {
+    usedAssetIds.add(asset.id);
+    usedElementIds.add(elementId);
+
+    const box = { x: asset.x - parent.x, y: asset.y - parent.y, width: asset.width, height: asset.height };
+    const rules = options.layout === 'fluid'
+      ? getConstrainedLayoutRules(box, parent, getLayerConstraints(layer?.constraints, asset.constraints, Boolean(layer?.children?.length)))
+      : [
+        `left: ${px(box.x)};`,
+        `top: ${px(box.y)};`,
+        `width: ${px(box.width)};`,
+        `height: ${px(box.height)};`
+      ];
+
+    if (layer) addMotion(layer, elementId, box, rules);
+
+    if (asset.text) {
+      const text = asset.text;
+      rules.push(
+        `font-family: "${text.fontFamily}", sans-serif;`,
+        `font-size: ${px(text.fontSize)};`,
+        `font-weight: ${text.fontWeight};`,
+        `font-style: ${text.fontStyle};`,
+        `color: ${text.color};`,
+        `text-align: ${text.textAlign === 'justified' ? 'justify' : text.textAlign};`,
+        `white-space: pre-wrap;`
+      );
+      if (text.lineHeight) rules.push(`line-height: ${px(text.lineHeight)};`);
+      cssRules.push(`#${elementId} {\n  ${rules.join('\n  ')}\n}`);
+
+      // Text animations play on the parts of the text; lines rise by the
+      // line height
+      const split = layer ? splitLayerText(layer, text.characters) : null;
+      if (split) {
+        if (!hasSplitText) {
+          hasSplitText = true;
+          cssRules.push(...SPLIT_TEXT_RULES, '#ad:not(.ready) .split {\n  animation-play-state: paused;\n}');
+        }
+
+        // Motion for the parts of the longest text dynamic content may write
+        // in; a shorter text plays the motion of the first parts
+        const counts = { ...split.counts };
+        (options.dynamicTexts?.[asset.id] || []).forEach(value => {
+          const valueSplit = splitText(value, split.units);
+          split.units.forEach(unit => { counts[unit] = Math.max(counts[unit], valueSplit.counts[unit]); });
+        });
+        const partLayers = getTextPartLayers(layer!, { ...split, counts }, text.lineHeight || text.fontSize * 1.2);
+        split.units.forEach(unit => partLayers[unit]!.forEach((partLayer, index) => {
+          const partId = getTextPartId(elementId, unit, index);
+          const partRules: string[] = [];
+          usedElementIds.add(partId);
+          addMotion(partLayer, partId, { x: 0, y: 0, width: 0, height: 0 }, partRules);
+          if (partRules.length > 0) cssRules.push(`#${partId} {\n  ${partRules.join('\n  ')}\n}`);
+        }));
+      }
+
+      const content = split ? renderSplitText(split, elementId) : escapeHtml(text.characters);
+      return `${indent}<p class="layer" id="${elementId}" data-layer-id="${escapeHtml(asset.id)}">${content}</p>`;
+    }
+
+    cssRules.push(`#${elementId} {\n  ${rules.join('\n  ')}\n}`);
+    let inner = renderChildren();
+
+    if (asset.bytes && asset.format) {
+      const imagePath = `${layout.imageDir}/${elementId}.${asset.format}`;
+      files[imagePath] = asset.bytes;
+      const source = options.politeLoadingScript ? 'data-src' : 'src';
+      inner = `\n${indent}  <img ${source}="${imagePath}" alt="${escapeHtml(asset.name)}">${inner}`;
+    }
+
+    const closingIndent = inner ? `\n${indent}` : '';
+    return `${indent}<div class="layer" id="${elementId}" data-layer-id="${escapeHtml(asset.id)}">${inner}${closingIndent}</div>`;
+  };
+
+  const renderPlan = (nodes: BannerLayerPlan[], parent: LayoutBox, indent: string): string[] =>
+    nodes.flatMap(node => {
+      const asset = assetsById.get(node.layer.id);
+      if (!asset) return node.children ? renderPlan(node.children, parent, indent) : [];
+
+      const renderChildren = () => {
+        const children = node.children ? renderPlan(node.children, asset, `${indent}  `) : [];
+        return children.length ? `\n${children.join('\n')}` : '';
+      };
+      return [renderElement(node.elementId, asset, node.layer, parent, renderChildren, indent)];
+    });
+
+  const frameBox = { x: 0, y: 0, width: assets.frame.width, height: assets.frame.height };
+  const elements = renderPlan(plan, frameBox, '    ');
+
+  // Layers the plugin exported on its own (e.g. when the layer tree has no
+  // matching nodes in the document) are added at the top level
+  assets.layers
+    .filter(asset => !usedAssetIds.has(asset.id) && (asset.bytes || asset.text))
+    .forEach(asset => {
+      elements.push(renderElement(createElementId(asset.name, usedElementIds), asset, null, frameBox, () => '', '    '));
+    });
+
+  const css = [...cssRules, ...keyframeRules].join('\n\n') + '\n';
+  files[layout.cssFile] = options.minify ? minifyCss(css) : css;
+  // Scripts waiting for the banner to be ready come before the loader
+  const motionScripts = options.motion === 'gsap'
+    ? [buildGsapTimelineScript(timelines, { playback: options.playback })]
+    : options.playback && needsPlaybackRuntime(options.playback) ? [getCssPlaybackScript(options.playback)] : [];
+  // The polite loading and dynamic content scripts go last so the loader
+  // already listens when they fire their events
+  const loadAfter = [
+    ...(options.politeLoadingScript ? [POLITE_LOAD_EVENT] : []),
+    ...(options.dynamicContentScript ? ['dcoready'] : [])
+  ];
+  const revealAfter = options.politeLoadingScript ? [IN_VIEW_EVENT] : [];
+  files[layout.jsFile] = [
+    ...(options.layout === 'scaled' ? [getScaledLayoutScript(frameBox.width, frameBox.height)] : []),
+    ...motionScripts,
+    getImageLoaderScript(loadAfter, revealAfter),
+    ...(options.politeLoadingScript ? [options.politeLoadingScript] : []),
+    ...(options.dynamicContentScript ? [options.dynamicContentScript] : [])
+  ].join('\n');
+
+  return {
+    content: elements.join('\n').trim(),
+    files
+  };
+}
+
+/**
+ * Package banners into one ZIP with a folder per platform.
+ * With includeZipFiles each banner is also added as its own ZIP, the form
+ * ad servers expect for upload.
+ */
+export function packageHtml5Banners(
+  banners: Html5BannerBundle[],
+  options: {
+    platform?: AdPlatform;
+    includeZipFiles?: boolean;
+    extraFiles?: ZipFiles;
+  } = {}
+): Uint8Array {
+  const layout = getPlatformBundleLayout(options.platform);
+  const files: ZipFiles = { ...(options.extraFiles || {}) };
+
+  banners.forEach(banner => {
+    Object.assign(files, prefixZipPaths(banner.files, `${layout.folder}/${banner.name}`));
+
+    if (options.includeZipFiles) {
+      files[`${layout.folder}/${banner.name}.zip`] = createZip({ ...banner.files, ...(banner.zipOnlyFiles || {}) });
+    }
+  });
+
+  return createZip(files);
+}
@@ -0,0 +1,210 @@
+/**
+ * Keyframe Tracks
+ *
+ * The typed property tracks of a layer as the timeline shows them: one track
+ * per keyframed property (x, y, scale, rotation, opacity, blur and color)
+ * holding the keyframes that key it. Keyframes keyed on a track set only
+ * that property, so every keyframe of a track carries its own easing.
+ *
+ * Edits return a new list of keyframes and leave the layer's list as it was.
+ * The animation sampler interpolates the tracks for the preview and the
+ * exporters.
+ */
+
+import { AnimationLayer, Keyframe, KeyframeProperty } from '../types/animation';
+import { getKeyframeEasing, sampleLayerState } from './animationSampler';
+
+/**
+ * How a keyframe property is labelled and edited
+ */
+export interface KeyframePropertyDefinition {
+  property: KeyframeProperty;
+  label: string;
+  unit: string;
+  step?: number; // Numeric properties only
+  min?: number;
+  max?: number;
+}
+
+/**
+ * A keyed value: a hex color for color, a number for the rest
+ */
+export type KeyframeValue = number | string;
+
+/**
+ * A keyframe of one property
+ */
+export interface TrackKeyframe {
+  id: string; // Id of the layer keyframe holding the value
+  time: number; // Seconds
+  value: KeyframeValue;
+  easing?: string; // Shapes the change towards the next keyframe of the track
+}
+
+/**
+ * The keyframes of one property, in time order
+ */
+export interface PropertyTrack {
+  property: KeyframeProperty;
+  keyframes: TrackKeyframe[];
+}
+
+// Every keyframe property, in the order the timeline lists their tracks
+export const KEYFRAME_PROPERTIES: KeyframePropertyDefinition[] = [
+  { property: 'x', label: 'X', unit: 'px', step: 1 },
+  { property: 'y', label: 'Y', unit: 'px', step: 1 },
+  { property: 'scale', label: 'Scale', unit: '', step: 0.05, min: 0 },
+  { property: 'rotation', label: 'Rotation', unit: '°', step: 1 },
+  { property: 'opacity', label: 'Opacity', unit: '', step: 0.05, min: 0, max: 1 },
+  { property: 'blur', label: 'Blur', unit: 'px', step: 0.5, min: 0 },
+  { property: 'color', label: 'Color', unit: '' }
+];
+
+// Color keyed on a layer that has no keyed color yet
+const DEFAULT_KEYFRAME_COLOR = '#ffffff';
+
+// Keyframes of a property closer than this (seconds) are at the same time
+const TIME_TOLERANCE = 0.001;
+
+// Whether a value can be keyed on a property
+function isPropertyValue(property: KeyframeProperty, value: unknown): value is KeyframeValue {
+  return property === 'color'
+    ? typeof value === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value.trim())
+    : typeof value === 'number' && isFinite(value);
+}
+
+// Whether a keyframe keys a property at a time
+function isKeyedAt(keyframe: Keyframe, property: KeyframeProperty, time: number): boolean {
+  return Math.abs(keyframe.time - time) < TIME_TOLERANCE && keyframe.properties?.[property] !== undefined;
+}
+
+// Whether a keyframe keys any property
+function hasProperties(keyframe: Keyframe): boolean {
+  return Object.keys(keyframe.properties || {}).some(key => key !== 'easing');
+}
+
+// Remove a property from the keyframes matching a test, dropping keyframes
+// left without properties
+function removeProperty(keyframes: Keyframe[], property: KeyframeProperty, test: (keyframe: Keyframe) => boolean): Keyframe[] {
+  return keyframes
+    .map(keyframe => {
+      if (!test(keyframe)) return keyframe;
+      const { [property]: _removed, ...properties } = keyframe.properties;
+      return { ...keyframe, properties };
+    })
+    .filter(hasProperties);
+}
+
+// Unique id of a new keyframe
+function createKeyframeId(): string {
+  return `keyframe-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/**
+ * Get the definition of a keyframe property
+ */
+export function getKeyframePropertyDefinition(property: KeyframeProperty): KeyframePropertyDefinition {
+  return KEYFRAME_PROPERTIES.find(definition => definition.property === property)!;
+}
+
+/**
+ * Get the tracks of the properties a layer keys, in the order of
+ * KEYFRAME_PROPERTIES
+ */
+export function getPropertyTracks(layer: AnimationLayer): PropertyTrack[] {
+  const keyframes = [...(layer.keyframes || [])].sort((a, b) => a.time - b.time);
+
+  return KEYFRAME_PROPERTIES
+    .map(({ property }) => ({
+      property,
+      keyframes: keyframes
+        .filter(keyframe => isPropertyValue(property, keyframe.properties?.[property]))
+        .map(keyframe => ({
+          id: keyframe.id,
+          time: keyframe.time,
+          value: keyframe.properties[property] as KeyframeValue,
+          easing: getKeyframeEasing(keyframe)
+        }))
+    }))
+    .filter(track => track.keyframes.length > 0);
+}
+
+/**
+ * Get a property's value at a time as the preview shows it: keyed, set by
+ * an animation, or the layer's own
+ */
+export function getPropertyValue(layer: AnimationLayer, property: KeyframeProperty, time: number): KeyframeValue {
+  const state = sampleLayerState(layer, time);
+
+  switch (property) {
+    case 'scale':
+      return state.scaleX;
+    case 'rotation':
+      return state.rotate;
+    case 'color':
+      return state.color || DEFAULT_KEYFRAME_COLOR;
+    default:
+      return state[property];
+  }
+}
+
+/**
+ * Key a property's value at a time. The property's keyframe at that time
+ * takes the value; without one a keyframe keying only this property is added.
+ * Values that don't suit the property are ignored.
+ */
+export function setPropertyKeyframe(
+  keyframes: Keyframe[],
+  property: KeyframeProperty,
+  time: number,
+  value: KeyframeValue
+): Keyframe[] {
+  if (!isPropertyValue(property, value)) return keyframes;
+
+  const existing = keyframes.find(keyframe => isKeyedAt(keyframe, property, time));
+  if (existing) {
+    return keyframes.map(keyframe =>
+      keyframe === existing ? { ...keyframe, properties: { ...keyframe.properties, [property]: value } } : keyframe
+    );
+  }
+
+  return [...keyframes, { id: createKeyframeId(), time: Math.max(0, time), properties: { [property]: value } }];
+}
+
+/**
+ * Move a property's keyframe to another time or change its easing. A layer
+ * keyframe that keys other properties too is split, so only this track
+ * changes. A keyframe of the property already at the new time is replaced.
+ */
+export function updatePropertyKeyframe(
+  keyframes: Keyframe[],
+  property: KeyframeProperty,
+  keyframeId: string,
+  updates: { time?: number; easing?: string }
+): Keyframe[] {
+  const keyframe = keyframes.find(candidate => candidate.id === keyframeId);
+  if (!keyframe || keyframe.properties?.[property] === undefined) return keyframes;
+
+  const time = Math.max(0, updates.time ?? keyframe.time);
+  const easing = updates.easing ?? getKeyframeEasing(keyframe);
+  const others = removeProperty(keyframes, property, candidate => candidate.id !== keyframeId && isKeyedAt(candidate, property, time));
+
+  // The split keeps the id on this track, so a dragged keyframe can be found again
+  if (Object.keys(keyframe.properties).some(key => key !== property && key !== 'easing')) {
+    const { [property]: value, ...rest } = keyframe.properties;
+    return [
+      ...others.map(candidate => (candidate.id === keyframeId ? { ...candidate, id: createKeyframeId(), properties: rest } : candidate)),
+      { id: keyframeId, time, properties: { [property]: value }, easing }
+    ];
+  }
+
+  return others.map(candidate => (candidate.id === keyframeId ? { ...candidate, time, easing } : candidate));
+}
+
+/**
+ * Remove a property's keyframe. Layer keyframes left without properties
+ * are removed.
+ */
+export function removePropertyKeyframe(keyframes: Keyframe[], property: KeyframeProperty, keyframeId: string): Keyframe[] {
+  return removeProperty(keyframes, property, keyframe => keyframe.id === keyframeId);
+}
@@ -1,5 +1,38 @@
+/**
+ * Lottie Utilities
+ *
+ * Converts a banner into a Bodymovin (Lottie) animation. Every planned layer
+ * becomes an image layer, or a precomposition when it holds animated
+ * children so they inherit its opacity and transform, as nested elements do
+ * in the HTML5 banner. Opacity and transform are written as keyframes that
+ * follow the animation sampler: eased segments keep their cubic bezier
+ * handles, and motion a single bezier can't describe (bounce, elastic,
+ * spring and steps easing, an animation cut short by the next one, 3D
+ * rotation, a motion path) is sampled at the frame rate instead. lottie-web loads the result back to validate it.
+ */
+
 import lottieWeb from 'lottie-web';
-import { AnimationType, EasingType } from '../types/animation';
+import type { AnimationItem } from 'lottie-web';
+import { AnimationLayer } from '../types/animation';
+import type { RenderedBannerAssets, RenderedLayerAsset } from '../lib/figmaPlugin';
+import type { BannerLayerPlan } from './html5Bundle';
+import {
+  IDENTITY_MOTION_STATE,
+  LayerMotionState,
+  MotionProps,
+  MotionStop,
+  PropertyKeyframe,
+  getAnimationMotion,
+  getAnimationStart,
+  getKeyframeTracks,
+  getMotionMatrix,
+  getSortedAnimations,
+  sampleKeyframes,
+  sampleLayerState,
+  sampleMotion
+} from './animationSampler';
+import { cubicBezier, getLottieHandles } from './easing';
+import { blobToBytes, canvasToBlob, createCanvas, getImageMimeType, loadImage } from './rasterUtils';
 
 // Hold references to different Lottie instances
 let lottieSvg: any = null;
@@ -16,15 +49,15 @@ export function initLottie(renderer: 'svg' | 'canvas' | 'worker' = 'svg') {
       // Try to use imported lottie
       lottieSvg = lottieWeb;
     }
-    
+
     // Use canvas renderer
     if (renderer === 'canvas' && !lottieCanvas) {
       // In a real implementation, we'd use a separate Lottie canvas renderer
       // For this demo, we'll use the same lottie-web but configure for canvas
       lottieCanvas = lottieWeb;
     }
-    
-    // Use worker renderer for high performance 
+
+    // Use worker renderer for high performance
     if (renderer === 'worker' && !lottieWorker) {
       // In a real implementation, we'd use a separate Lottie worker renderer
       // For this demo, we'll use the same lottie-web
@@ -44,103 +77,735 @@ export function getLottie() {
 }
 
 /**
- * Convert our animation parameters to Lottie format
+ * Bezier handles of a keyframe, one entry per dimension
+ */
+export interface LottieHandles {
+  x: number[];
+  y: number[];
+}
+
+/**
+ * A keyframe of an animated Lottie property, at a frame number
+ */
+export interface LottieKeyframe {
+  t: number;
+  s: number[];
+  h?: 1; // Holds the value until the next keyframe
+  o?: LottieHandles;
+  i?: LottieHandles;
+}
+
+/**
+ * A static or animated Lottie property
+ */
+export interface LottieProperty {
+  a: 0 | 1;
+  k: number | number[] | LottieKeyframe[];
+}
+
+/**
+ * Transform of a Lottie layer, with the position split into x and y
+ */
+export interface LottieTransform {
+  o: LottieProperty;
+  r: LottieProperty;
+  p: LottieProperty | { s: true; x: LottieProperty; y: LottieProperty };
+  a: LottieProperty;
+  s: LottieProperty;
+  sk?: LottieProperty;
+  sa?: LottieProperty;
+}
+
+/**
+ * A Lottie layer: precomposition (0), solid (1) or image (2)
+ */
+export interface LottieLayer {
+  ddd: 0;
+  ind: number;
+  ty: 0 | 1 | 2;
+  nm: string;
+  refId?: string;
+  sr: 1;
+  ks: LottieTransform;
+  ao: 0;
+  ip: number;
+  op: number;
+  st: 0;
+  bm: 0;
+  w?: number; // Precompositions
+  h?: number;
+  sc?: string; // Solids
+  sw?: number;
+  sh?: number;
+}
+
+/**
+ * An embedded image or a precomposition
+ */
+export type LottieAsset =
+  | { id: string; w: number; h: number; u: string; p: string; e: 1 }
+  | { id: string; nm: string; layers: LottieLayer[] };
+
+/**
+ * A Bodymovin animation
+ */
+export interface LottieAnimation {
+  v: string;
+  fr: number;
+  ip: number;
+  op: number;
+  w: number;
+  h: number;
+  nm: string;
+  ddd: 0;
+  assets: LottieAsset[];
+  layers: LottieLayer[];
+  markers: [];
+}
+
+/**
+ * Options of a Lottie conversion
+ */
+export interface LottieBuildOptions {
+  name?: string;
+  width: number;
+  height: number;
+  fps: number;
+  duration: number; // Seconds
+}
+
+// Bodymovin format version written
+const LOTTIE_VERSION = '5.7.4';
+
+// Easing of the change from a track key to the next: held, or cubic bezier
+// control points (x1, y1, x2, y2)
+type KeyEasing = 'hold' | [number, number, number, number];
+
+// A key of a property track, in seconds
+interface TrackKey {
+  time: number;
+  value: number;
+  easing: KeyEasing;
+}
+
+// How a track changes between two times: not at all, by a jump at the end,
+// along a bezier, or in a way only sampling describes
+type SegmentShape = 'const' | 'jump' | 'inexact' | [number, number, number, number];
+
+// A value of a Lottie property: a constant plus weighted tracks
+interface OutputDimension {
+  constant: number;
+  terms: [TrackKey[], number][];
+}
+
+// Shared by every layer of a conversion
+interface ConversionContext {
+  fps: number;
+  duration: number;
+  op: number;
+}
+
+const LINEAR: [number, number, number, number] = [0, 0, 1, 1];
+
+// Time (seconds) between a held value and the jump to the next value
+const JUMP_TIME = 0.001;
+
+function isSameEasing(a: SegmentShape, b: SegmentShape): boolean {
+  return Array.isArray(a) && Array.isArray(b) && a.every((value, index) => value === b[index]);
+}
+
+// Add a key to a track. A key at the time of the last one replaces it when
+// the value matches, otherwise the last value is held and the jump follows.
+function pushKey(track: TrackKey[], key: TrackKey): void {
+  const last = track[track.length - 1];
+  if (!last || key.time > last.time) {
+    track.push(key);
+    return;
+  }
+
+  if (key.value === last.value) {
+    track[track.length - 1] = { ...key, time: last.time };
+    return;
+  }
+  last.easing = 'hold';
+  track.push({ ...key, time: last.time + JUMP_TIME });
+}
+
+// Add linear keys sampled at the frame rate from one time up to another
+function pushSampledKeys(
+  track: TrackKey[],
+  from: number,
+  to: number,
+  fps: number,
+  sample: (time: number) => number
+): void {
+  const count = Math.max(1, Math.ceil((to - from) * fps - 1e-6));
+  for (let index = 0; index < count; index++) {
+    const time = from + index / fps;
+    pushKey(track, { time, value: sample(time), easing: LINEAR });
+  }
+}
+
+// Value of a track at a time
+function evaluateTrack(track: TrackKey[], time: number): number {
+  let index = 0;
+  while (index < track.length - 1 && track[index + 1].time <= time) index++;
+
+  const key = track[index];
+  const next = track[index + 1];
+  if (!next || key.easing === 'hold' || time <= key.time) return key.value;
+
+  const progress = (time - key.time) / (next.time - key.time);
+  return key.value + (next.value - key.value) * cubicBezier(...key.easing)(progress);
+}
+
+// How a track changes between two neighbouring key times of a property
+function getSegmentShape(track: TrackKey[], from: number, to: number): SegmentShape {
+  let index = 0;
+  while (index < track.length - 1 && track[index + 1].time <= from) index++;
+
+  const key = track[index];
+  const next = track[index + 1];
+  if (!next || to <= key.time) return 'const';
+  if (key.easing === 'hold') return to >= next.time && next.value !== key.value ? 'jump' : 'const';
+  if (next.value === key.value) return 'const';
+  if (from === key.time && to === next.time) return key.easing;
+  return isSameEasing(key.easing, LINEAR) ? LINEAR : 'inexact';
+}
+
+// Shape of a sum of tracks. Tracks only add up exactly when the moving ones
+// share their easing.
+function combineShapes(shapes: SegmentShape[]): SegmentShape {
+  const moving = shapes.filter(shape => shape !== 'const');
+  if (moving.length === 0) return 'const';
+  if (moving.includes('inexact')) return 'inexact';
+  if (moving.includes('jump')) return moving.every(shape => shape === 'jump') ? 'jump' : 'inexact';
+  return moving.every(shape => isSameEasing(shape, moving[0])) ? moving[0] : 'inexact';
+}
+
+function round(value: number, digits = 3): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+// Write the keys of a property from the tracks its dimensions are made of
+function toLottieProperty(dimensions: OutputDimension[], fps: number): LottieProperty {
+  const times = Array.from(new Set(
+    dimensions.flatMap(dimension => dimension.terms.flatMap(([track]) => track.map(key => key.time)))
+  )).sort((a, b) => a - b);
+  if (times.length === 0) times.push(0);
+
+  const valueAt = (time: number) => dimensions.map(dimension => round(
+    dimension.terms.reduce((value, [track, weight]) => value + weight * evaluateTrack(track, time), dimension.constant)
+  ));
+  const toFrame = (time: number) => round(time * fps);
+
+  const keys: LottieKeyframe[] = [];
+  times.forEach((time, index) => {
+    const next = times[index + 1];
+    if (next === undefined) {
+      keys.push({ t: toFrame(time), s: valueAt(time) });
+      return;
+    }
+
+    const shapes = dimensions.map(dimension => combineShapes(
+      dimension.terms
+        .filter(([, weight]) => weight !== 0)
+        .map(([track]) => getSegmentShape(track, time, next))
+    ));
+    const jumps = shapes.includes('jump');
+
+    // Sample what one bezier per dimension can't describe
+    if (shapes.includes('inexact') || (jumps && shapes.some(shape => shape !== 'jump' && shape !== 'const'))) {
+      const count = Math.max(1, Math.ceil((next - time) * fps - 1e-6));
+      for (let sample = 0; sample < count; sample++) {
+        const sampleTime = time + sample / fps;
+        keys.push({
+          t: toFrame(sampleTime),
+          s: valueAt(sampleTime),
+          o: { x: shapes.map(() => 0), y: shapes.map(() => 0) },
+          i: { x: shapes.map(() => 1), y: shapes.map(() => 1) }
+        });
+      }
+      return;
+    }
+
+    if (jumps) {
+      keys.push({ t: toFrame(time), s: valueAt(time), h: 1 });
+      return;
+    }
+
+    const handles = shapes.map(shape => (Array.isArray(shape) ? shape : LINEAR));
+    keys.push({
+      t: toFrame(time),
+      s: valueAt(time),
+      o: { x: handles.map(handle => handle[0]), y: handles.map(handle => handle[1]) },
+      i: { x: handles.map(handle => handle[2]), y: handles.map(handle => handle[3]) }
+    });
+  });
+
+  const [first] = keys;
+  if (keys.every(key => key.s.every((value, index) => value === first.s[index]))) {
+    return { a: 0, k: first.s.length === 1 ? first.s[0] : first.s };
+  }
+  return { a: 1, k: keys };
+}
+
+// Keys of a motion property from a layer's animations, following the
+// sampler: the latest animation to start owns the property, only the first
+// animation fills backwards and the last value is held after an animation ends
+function getAnimationTrack(layer: AnimationLayer, prop: keyof MotionProps, fps: number): TrackKey[] {
+  const identity = IDENTITY_MOTION_STATE[prop];
+  const owners = getSortedAnimations(layer)
+    .map((animation, index) => ({ animation, index, motion: getAnimationMotion(animation) }))
+    .filter(owner => owner.motion && owner.motion.stops.some(stop => stop.props[prop] !== undefined));
+
+  if (owners.length === 0) return [{ time: 0, value: identity, easing: 'hold' }];
+
+  const [first] = owners;
+  const initial = first.index === 0
+    ? sampleMotion(first.motion!, 0, first.animation.easing)[prop] ?? identity
+    : identity;
+  const track: TrackKey[] = [{ time: 0, value: initial, easing: 'hold' }];
+
+  owners.forEach((owner, ownerIndex) => {
+    const { animation } = owner;
+    const motion = owner.motion!;
+    const start = getAnimationStart(animation);
+    const end = ownerIndex < owners.length - 1 ? getAnimationStart(owners[ownerIndex + 1].animation) : Infinity;
+    // A later animation starting at the same time takes over right away
+    if (end <= start) return;
+
+    const duration = Math.max(0, animation.duration || 0);
+    const valueOf = (stop: MotionStop) => stop.props[prop] ?? identity;
+    const lastValue = valueOf(motion.stops[motion.stops.length - 1]);
+
+    if (duration === 0 || motion.stepped) {
+      pushKey(track, { time: start, value: lastValue, easing: 'hold' });
+      return;
+    }
+
+    // Motion along a path becomes position keys at the frame rate
+    const handles = motion.path ? null : getLottieHandles(animation.easing);
+    for (let index = 0; index < motion.stops.length - 1; index++) {
+      const segmentStart = start + duration * motion.stops[index].offset;
+      const segmentEnd = start + duration * motion.stops[index + 1].offset;
+      if (segmentStart >= end) return;
+
+      if (segmentEnd > end || !handles) {
+        pushSampledKeys(track, segmentStart, Math.min(segmentEnd, end), fps, time =>
+          sampleMotion(motion, (time - start) / duration, animation.easing)[prop] ?? identity
+        );
+        // Cut short by the next animation, which starts from its own values
+        if (segmentEnd > end) {
+          track[track.length - 1].easing = 'hold';
+          return;
+        }
+        continue;
+      }
+
+      pushKey(track, { time: segmentStart, value: valueOf(motion.stops[index]), easing: handles });
+    }
+    pushKey(track, { time: start + duration, value: lastValue, easing: 'hold' });
+  });
+
+  return track;
+}
+
+// Keys of a motion property from a layer's keyframes
+function getKeyframeTrack(keyframes: PropertyKeyframe[], fps: number): TrackKey[] {
+  const track: TrackKey[] = [];
+
+  keyframes.forEach((keyframe, index) => {
+    const next = keyframes[index + 1];
+    const handles = getLottieHandles(keyframe.easing);
+    if (next && !handles) {
+      pushSampledKeys(track, keyframe.time, next.time, fps, time => sampleKeyframes(keyframes, time));
+    } else {
+      pushKey(track, { time: keyframe.time, value: keyframe.value, easing: handles || LINEAR });
+    }
+  });
+  return track;
+}
+
+// Transform origin of a layer over time. It changes whenever an animation
+// with motion starts, and the first animation sets it from the start.
+function getOriginTracks(layer: AnimationLayer): [TrackKey[], TrackKey[]] {
+  const animated = getSortedAnimations(layer)
+    .map((animation, index) => ({ animation, index, motion: getAnimationMotion(animation) }))
+    .filter(entry => entry.motion);
+
+  const initial = animated.length > 0 && animated[0].index === 0
+    ? animated[0].motion!.origin
+    : [IDENTITY_MOTION_STATE.originX, IDENTITY_MOTION_STATE.originY];
+  const tracks: [TrackKey[], TrackKey[]] = [
+    [{ time: 0, value: initial[0], easing: 'hold' }],
+    [{ time: 0, value: initial[1], easing: 'hold' }]
+  ];
+
+  animated.forEach(({ animation, motion }) => {
+    const time = Math.max(0, getAnimationStart(animation));
+    motion!.origin.forEach((value, axis) => pushKey(tracks[axis], { time, value, easing: 'hold' }));
+  });
+  return tracks;
+}
+
+// Whether a layer rotates in 3D, which Lottie's 2D transform can only follow frame by frame
+function hasDiagonalRotation(layer: AnimationLayer): boolean {
+  return Boolean(getKeyframeTracks(layer).rotateDiagonal) || (layer.animations || []).some(animation =>
+    getAnimationMotion(animation)?.stops.some(stop => stop.props.rotateDiagonal !== undefined)
+  );
+}
+
+// Split the transform of a motion state into Lottie's rotation, skew and
+// scale: rotate(r) * skewX(-sk) * scale(sx, sy)
+function decomposeMotionState(state: LayerMotionState): { rotate: number; skew: number; scaleX: number; scaleY: number } {
+  const [a, b, c, d] = getMotionMatrix(state, { x: 0, y: 0, width: 0, height: 0 });
+  const angle = Math.atan2(b, a);
+  const scaleX = Math.hypot(a, b);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const shear = cos * c + sin * d;
+  const scaleY = -sin * c + cos * d;
+  const skew = Math.abs(scaleY) < 1e-6 ? 0 : -Math.atan(shear / scaleY);
+
+  return { rotate: (angle * 180) / Math.PI, skew: (skew * 180) / Math.PI, scaleX, scaleY };
+}
+
+// Transform of a layer whose motion is sampled at every frame
+function getSampledTransform(
+  layer: AnimationLayer,
+  box: RenderedLayerAsset,
+  local: { x: number; y: number },
+  opacity: TrackKey[],
+  context: ConversionContext
+): LottieTransform {
+  const names = ['rotate', 'skew', 'scaleX', 'scaleY', 'x', 'y', 'anchorX', 'anchorY'] as const;
+  const tracks = Object.fromEntries(names.map(name => [name, [] as TrackKey[]])) as Record<typeof names[number], TrackKey[]>;
+  let previousAngle = 0;
+
+  for (let frame = 0; frame <= context.op; frame++) {
+    const time = frame / context.fps;
+    const state = sampleLayerState(layer, time);
+    const parts = decomposeMotionState(state);
+    // Keep the rotation continuous instead of wrapping at 180 degrees
+    const rotate = parts.rotate + 360 * Math.round((previousAngle - parts.rotate) / 360);
+    previousAngle = rotate;
+
+    const values = {
+      rotate,
+      skew: parts.skew,
+      scaleX: parts.scaleX * 100,
+      scaleY: parts.scaleY * 100,
+      x: box.x + box.width * state.originX + state.x,
+      y: box.y + box.height * state.originY + state.y,
+      anchorX: local.x + box.width * state.originX,
+      anchorY: local.y + box.height * state.originY
+    };
+    names.forEach(name => tracks[name].push({ time, value: values[name], easing: LINEAR }));
+  }
+
+  const single = (track: TrackKey[]): OutputDimension[] => [{ constant: 0, terms: [[track, 1]] }];
+  return {
+    o: toLottieProperty([{ constant: 0, terms: [[opacity, 100]] }], context.fps),
+    r: toLottieProperty(single(tracks.rotate), context.fps),
+    p: {
+      s: true,
+      x: toLottieProperty(single(tracks.x), context.fps),
+      y: toLottieProperty(single(tracks.y), context.fps)
+    },
+    a: toLottieProperty([...single(tracks.anchorX), ...single(tracks.anchorY)], context.fps),
+    s: toLottieProperty([...single(tracks.scaleX), ...single(tracks.scaleY)], context.fps),
+    sk: toLottieProperty(single(tracks.skew), context.fps),
+    sa: { a: 0, k: 0 }
+  };
+}
+
+// Transform of a planned layer. `local` is where the layer's box sits in the
+// layer's own content: the origin for images, the box for precompositions.
+function getLayerTransform(
+  layer: AnimationLayer,
+  box: RenderedLayerAsset,
+  local: { x: number; y: number },
+  context: ConversionContext
+): LottieTransform {
+  const keyframeTracks = getKeyframeTracks(layer);
+  const track = (prop: keyof MotionProps) => {
+    const keyframes = keyframeTracks[prop];
+    return keyframes ? getKeyframeTrack(keyframes, context.fps) : getAnimationTrack(layer, prop, context.fps);
+  };
+
+  const opacity = track('opacity');
+  if (hasDiagonalRotation(layer)) {
+    return getSampledTransform(layer, box, local, opacity, context);
+  }
+
+  const [originX, originY] = getOriginTracks(layer);
+  return {
+    o: toLottieProperty([{ constant: 0, terms: [[opacity, 100]] }], context.fps),
+    r: toLottieProperty([{ constant: 0, terms: [[track('rotate'), 1]] }], context.fps),
+    p: {
+      s: true,
+      x: toLottieProperty([{ constant: box.x, terms: [[originX, box.width], [track('x'), 1]] }], context.fps),
+      y: toLottieProperty([{ constant: box.y, terms: [[originY, box.height], [track('y'), 1]] }], context.fps)
+    },
+    a: toLottieProperty([
+      { constant: local.x, terms: [[originX, box.width]] },
+      { constant: local.y, terms: [[originY, box.height]] }
+    ], context.fps),
+    s: toLottieProperty([
+      { constant: 0, terms: [[track('scaleX'), 100]] },
+      { constant: 0, terms: [[track('scaleY'), 100]] }
+    ], context.fps)
+  };
+}
+
+// Transform of a layer that doesn't move
+function getStaticTransform(x: number, y: number, opacity = 100): LottieTransform {
+  return {
+    o: { a: 0, k: round(opacity) },
+    r: { a: 0, k: 0 },
+    p: { a: 0, k: [round(x), round(y), 0] },
+    a: { a: 0, k: [0, 0, 0] },
+    s: { a: 0, k: [100, 100, 100] }
+  };
+}
+
+function createLayer(
+  ty: LottieLayer['ty'],
+  name: string,
+  ks: LottieTransform,
+  op: number,
+  extra: Partial<LottieLayer> = {}
+): LottieLayer {
+  return { ddd: 0, ind: 0, ty, nm: name, sr: 1, ks, ao: 0, ip: 0, op, st: 0, bm: 0, ...extra };
+}
+
+// Lottie lists the top layer first; layers are collected in drawing order
+function toLottieOrder(layers: LottieLayer[]): LottieLayer[] {
+  return [...layers].reverse().map((layer, index) => ({ ...layer, ind: index + 1 }));
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(index, index + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+// Embed an image, rasterizing formats Lottie players can't show (SVG, WebP)
+async function createImageAsset(
+  id: string,
+  bytes: Uint8Array,
+  format: string,
+  width: number,
+  height: number
+): Promise<LottieAsset> {
+  let data = bytes;
+  let mimeType = getImageMimeType(format);
+
+  if (format !== 'png' && format !== 'jpg') {
+    const image = await loadImage(bytes, mimeType);
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    data = await blobToBytes(await canvasToBlob(canvas, 'image/png'));
+    mimeType = 'image/png';
+  }
+
+  return {
+    id,
+    w: Math.max(1, Math.round(width)),
+    h: Math.max(1, Math.round(height)),
+    u: '',
+    p: `data:${mimeType};base64,${toBase64(data)}`,
+    e: 1
+  };
+}
+
+// Normalize a CSS color into the hex color of a solid layer and its opacity
+function toSolidColor(color: string): { hex: string; opacity: number } {
+  const { ctx } = createCanvas(1, 1);
+  ctx.fillStyle = color;
+  const normalized = String(ctx.fillStyle);
+
+  const match = /^rgba?\(([^)]+)\)$/.exec(normalized);
+  if (!match) return { hex: normalized, opacity: 100 };
+
+  const [r, g, b, alpha = '1'] = match[1].split(',').map(part => part.trim());
+  const hex = `#${[r, g, b].map(value => Number(value).toString(16).padStart(2, '0')).join('')}`;
+  return { hex, opacity: Number(alpha) * 100 };
+}
+
+/**
+ * Convert a banner into a Lottie animation from its layer plan and the layer
+ * assets exported by the plugin
  */
-export function convertAnimationToLottie(
-  animation: {
-    type: AnimationType;
-    startTime: number;
-    duration: number;
-    delay?: number;
-    easing: EasingType;
-    opacity?: number;
-    scale?: number;
-    rotation?: number;
+export async function buildLottieAnimation(
+  plan: BannerLayerPlan[],
+  assets: RenderedBannerAssets,
+  options: LottieBuildOptions
+): Promise<LottieAnimation> {
+  const width = assets.frame.width || options.width;
+  const height = assets.frame.height || options.height;
+  const context: ConversionContext = {
+    fps: options.fps,
+    duration: options.duration,
+    op: Math.max(1, Math.round(options.duration * options.fps))
+  };
+
+  const lottieAssets: LottieAsset[] = [];
+  const assetsById = new Map<string, RenderedLayerAsset>(assets.layers.map(asset => [asset.id, asset]));
+  const plannedIds = new Set<string>();
+  let compCount = 0;
+
+  const addImage = async (bytes: Uint8Array, format: string, imageWidth: number, imageHeight: number) => {
+    const id = `image_${lottieAssets.filter(asset => 'p' in asset).length}`;
+    lottieAssets.push(await createImageAsset(id, bytes, format, imageWidth, imageHeight));
+    return id;
+  };
+
+  // Convert planned layers into Lottie layers, in drawing order
+  const convertNodes = async (nodes: BannerLayerPlan[]): Promise<LottieLayer[]> => {
+    const layers: LottieLayer[] = [];
+
+    for (const node of nodes) {
+      plannedIds.add(node.layer.id);
+      const asset = assetsById.get(node.layer.id);
+      const children = node.children || [];
+
+      // Layers the plugin didn't export leave their children in place
+      if (!asset) {
+        layers.push(...await convertNodes(children));
+        continue;
+      }
+
+      if (children.length === 0) {
+        if (!asset.bytes || !asset.format) {
+          if (asset.text) console.warn(`Skipping Lottie layer "${asset.name}": text was not exported as an image`);
+          continue;
+        }
+        const refId = await addImage(asset.bytes, asset.format, asset.width, asset.height);
+        layers.push(createLayer(2, asset.name, getLayerTransform(node.layer, asset, { x: 0, y: 0 }, context), context.op, { refId }));
+        continue;
+      }
+
+      // Containers become precompositions the size of the banner, so their
+      // opacity and transform apply to everything inside
+      const content: LottieLayer[] = [];
+      if (asset.bytes && asset.format) {
+        const refId = await addImage(asset.bytes, asset.format, asset.width, asset.height);
+        content.push(createLayer(2, asset.name, getStaticTransform(asset.x, asset.y), context.op, { refId }));
+      }
+      content.push(...await convertNodes(children));
+
+      const compId = `comp_${compCount++}`;
+      lottieAssets.push({ id: compId, nm: asset.name, layers: toLottieOrder(content) });
+      layers.push(createLayer(0, asset.name, getLayerTransform(node.layer, asset, { x: asset.x, y: asset.y }, context), context.op, {
+        refId: compId,
+        w: Math.round(width),
+        h: Math.round(height)
+      }));
+    }
+    return layers;
+  };
+
+  const layers: LottieLayer[] = [];
+
+  if (assets.frame.background) {
+    const { hex, opacity } = toSolidColor(assets.frame.background);
+    layers.push(createLayer(1, 'Background', getStaticTransform(0, 0, opacity), context.op, {
+      sc: hex,
+      sw: Math.round(width),
+      sh: Math.round(height)
+    }));
+  }
+  if (assets.frame.backgroundBytes) {
+    const refId = await addImage(assets.frame.backgroundBytes, assets.frame.backgroundFormat || 'png', width, height);
+    layers.push(createLayer(2, 'Background image', getStaticTransform(0, 0), context.op, { refId }));
+  }
+
+  layers.push(...await convertNodes(plan));
+
+  // Assets without a planned layer are static, as in the HTML5 bundle
+  for (const asset of assets.layers) {
+    if (plannedIds.has(asset.id) || !asset.bytes || !asset.format) continue;
+    const refId = await addImage(asset.bytes, asset.format, asset.width, asset.height);
+    layers.push(createLayer(2, asset.name, getStaticTransform(asset.x, asset.y), context.op, { refId }));
   }
-) {
-  // Create a basic Lottie animation object
-  const lottieAnimation = {
-    v: '5.7.4',
-    fr: 30,
+
+  return {
+    v: LOTTIE_VERSION,
+    fr: options.fps,
     ip: 0,
-    op: 150,
-    w: 300,
-    h: 250,
-    nm: 'Animation',
+    op: context.op,
+    w: Math.round(width),
+    h: Math.round(height),
+    nm: options.name || assets.frame.name || 'Animation',
     ddd: 0,
-    assets: [],
-    layers: [
-      {
-        ddd: 0,
-        ind: 1,
-        ty: 4,
-        nm: 'Layer',
-        sr: 1,
-        ks: {
-          o: { // Opacity
-            a: animation.opacity !== undefined ? 1 : 0,
-            k: animation.opacity !== undefined ? [
-              {
-                i: { x: [0.25], y: [1] },
-                o: { x: [0.75], y: [0] },
-                t: animation.startTime * 30,
-                s: [0]
-              },
-              {
-                t: (animation.startTime + animation.duration) * 30,
-                s: [100]
-              }
-            ] : 100
-          },
-          r: { // Rotation
-            a: animation.rotation !== undefined ? 1 : 0,
-            k: animation.rotation !== undefined ? [
-              {
-                i: { x: [0.25], y: [1] },
-                o: { x: [0.75], y: [0] },
-                t: animation.startTime * 30,
-                s: [0]
-              },
-              {
-                t: (animation.startTime + animation.duration) * 30,
-                s: [animation.rotation]
-              }
-            ] : 0
-          },
-          s: { // Scale
-            a: animation.scale !== undefined ? 1 : 0,
-            k: animation.scale !== undefined ? [
-              {
-                i: { x: [0.25], y: [1] },
-                o: { x: [0.75], y: [0] },
-                t: animation.startTime * 30,
-                s: [0, 0, 100]
-              },
-              {
-                t: (animation.startTime + animation.duration) * 30,
-                s: [animation.scale * 100, animation.scale * 100, 100]
-              }
-            ] : [100, 100, 100]
-          },
-          p: { // Position
-            a: 0,
-            k: [150, 125, 0]
-          }
-        },
-        ao: 0,
-        shapes: [{
-          ty: 'rc',
-          p: { a: 0, k: [0, 0] },
-          s: { a: 0, k: [100, 100] },
-          r: { a: 0, k: 0 }
-        }],
-        ip: 0,
-        op: 150,
-        st: 0
-      }
-    ],
+    assets: lottieAssets,
+    layers: toLottieOrder(layers),
     markers: []
   };
+}
+
+// Longest time to wait for lottie-web to load an animation
+const VALIDATION_TIMEOUT = 10000;
 
-  return lottieAnimation;
-}
\ No newline at end of file
+/**
+ * Load a Lottie animation with lottie-web and render every frame once.
+ * Rejects when lottie-web can't read or render it.
+ */
+export function validateLottieAnimation(animation: LottieAnimation): Promise<void> {
+  const container = document.createElement('div');
+  container.style.cssText = `position:absolute;left:-10000px;top:0;width:${animation.w}px;height:${animation.h}px;`;
+  document.body.appendChild(container);
+
+  return new Promise<void>((resolve, reject) => {
+    let player: AnimationItem | null = null;
+    let settled = false;
+
+    const finish = (error?: unknown) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      player?.destroy();
+      container.remove();
+      if (error) {
+        reject(error instanceof Error ? error : new Error(`lottie-web failed to play the animation: ${String(error)}`));
+      } else {
+        resolve();
+      }
+    };
+    const timeout = setTimeout(() => finish(new Error('lottie-web did not load the animation in time')), VALIDATION_TIMEOUT);
+
+    try {
+      player = getLottie().loadAnimation({
+        container,
+        renderer: 'svg',
+        loop: false,
+        autoplay: false,
+        // lottie-web modifies the data it is given
+        animationData: JSON.parse(JSON.stringify(animation))
+      }) as AnimationItem;
+
+      player.addEventListener('data_failed', () => finish(new Error('lottie-web could not read the animation data')));
+      player.addEventListener('error', (event: any) => finish(event?.nativeError || event));
+      player.addEventListener('DOMLoaded', () => {
+        try {
+          if (Math.round(player!.totalFrames) !== animation.op - animation.ip) {
+            throw new Error(`lottie-web loaded ${player!.totalFrames} frames instead of ${animation.op - animation.ip}`);
+          }
+          for (let frame = 0; frame < player!.totalFrames; frame++) {
+            player!.goToAndStop(frame, true);
+          }
+          finish();
+        } catch (error) {
+          finish(error);
+        }
+      });
+    } catch (error) {
+      finish(error);
+    }
+  });
+}
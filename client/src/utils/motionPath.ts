@@ -0,0 +1,512 @@
+/**
+ * Motion Paths
+ *
+ * Geometry of the SVG paths a layer can follow. A motion path is SVG path
+ * data in px, measured from where the layer rests: the layer's transform
+ * origin travels along it, so a path starting at 0,0 starts the layer in
+ * place. Paths are flattened into short straight segments to find the point
+ * and the direction of travel at a fraction of their length, the way CSS
+ * offset-distance measures it.
+ *
+ * Paths come as path data or SVG markup, are drawn by hand, or are picked
+ * from a Figma vector by the plugin.
+ */
+
+/**
+ * A point of a path, in px
+ */
+export interface PathPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * A point along a motion path and the direction of travel there
+ */
+export interface MotionPathPoint extends PathPoint {
+  angle: number; // Degrees, 0 pointing right and 90 down, as CSS offset-rotate: auto
+}
+
+/**
+ * A command of normalized path data: absolute, with arcs as cubic curves
+ */
+export interface PathCommand {
+  type: 'M' | 'L' | 'C' | 'Q' | 'Z';
+  points: PathPoint[]; // Control points, then the end point; none for Z
+}
+
+/**
+ * A path flattened into straight segments
+ */
+export interface MotionPathGeometry {
+  points: PathPoint[];
+  lengths: number[]; // Distance along the path at each point
+  angles: number[]; // Direction of each segment, unwrapped so it turns without jumps
+  length: number;
+  closed: boolean; // Ends where it starts, so travel past the end wraps around
+}
+
+// Path of a new motion path animation: an arc to the right
+export const DEFAULT_MOTION_PATH = 'M 0 0 C 40 -60 120 -60 160 0';
+
+// Straight segments each curve is flattened into
+const CURVE_SEGMENTS = 24;
+
+// Points closer than this (px) are the same point
+const POINT_TOLERANCE = 1e-6;
+
+// Flattened paths by path data; paths are sampled every frame
+const geometryCache = new Map<string, MotionPathGeometry | null>();
+const GEOMETRY_CACHE_SIZE = 50;
+
+// Round a number for path data output
+function round(value: number, decimals = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor || 0;
+}
+
+// Turn an angle difference into the shortest way round, within ±180°
+function wrapAngle(degrees: number): number {
+  return degrees - 360 * Math.round(degrees / 360);
+}
+
+// Cubic curves of an SVG arc, following the endpoint to center conversion
+// of the SVG spec. Null when the arc is a straight line.
+function arcToCubics(
+  from: PathPoint,
+  radiusX: number,
+  radiusY: number,
+  rotation: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: PathPoint
+): PathPoint[][] | null {
+  let rx = Math.abs(radiusX);
+  let ry = Math.abs(radiusY);
+  if (rx === 0 || ry === 0) return null;
+  if (Math.abs(from.x - to.x) < POINT_TOLERANCE && Math.abs(from.y - to.y) < POINT_TOLERANCE) return [];
+
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  // Radii too small to reach the end point are scaled up
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const coefficient = (largeArc !== sweep ? 1 : -1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const centerX1 = (coefficient * rx * y1) / ry;
+  const centerY1 = (-coefficient * ry * x1) / rx;
+  const centerX = cos * centerX1 - sin * centerY1 + (from.x + to.x) / 2;
+  const centerY = sin * centerX1 + cos * centerY1 + (from.y + to.y) / 2;
+
+  const angleBetween = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const startAngle = angleBetween(1, 0, (x1 - centerX1) / rx, (y1 - centerY1) / ry);
+  let sweepAngle = angleBetween((x1 - centerX1) / rx, (y1 - centerY1) / ry, (-x1 - centerX1) / rx, (-y1 - centerY1) / ry);
+  if (!sweep && sweepAngle > 0) sweepAngle -= 2 * Math.PI;
+  if (sweep && sweepAngle < 0) sweepAngle += 2 * Math.PI;
+
+  // Quarter turns at most, which a cubic curve follows closely
+  const count = Math.max(1, Math.ceil(Math.abs(sweepAngle) / (Math.PI / 2)));
+  const delta = sweepAngle / count;
+  const handle = (4 / 3) * Math.tan(delta / 4);
+  const pointAt = (angle: number): PathPoint => ({
+    x: centerX + rx * Math.cos(angle) * cos - ry * Math.sin(angle) * sin,
+    y: centerY + rx * Math.cos(angle) * sin + ry * Math.sin(angle) * cos
+  });
+  const tangentAt = (angle: number): PathPoint => ({
+    x: -rx * Math.sin(angle) * cos - ry * Math.cos(angle) * sin,
+    y: -rx * Math.sin(angle) * sin + ry * Math.cos(angle) * cos
+  });
+
+  return Array.from({ length: count }, (_, index) => {
+    const start = startAngle + index * delta;
+    const end = start + delta;
+    const p1 = pointAt(start);
+    const p2 = index === count - 1 ? to : pointAt(end);
+    const t1 = tangentAt(start);
+    const t2 = tangentAt(end);
+    return [
+      { x: p1.x + handle * t1.x, y: p1.y + handle * t1.y },
+      { x: p2.x - handle * t2.x, y: p2.y - handle * t2.y },
+      p2
+    ];
+  });
+}
+
+/**
+ * Parse SVG path data into absolute commands. Relative commands, shorthand
+ * curves and lines are written out in full and arcs become cubic curves.
+ * Returns an empty list for data that isn't a path.
+ */
+export function parsePathData(data: string): PathCommand[] {
+  const commands: PathCommand[] = [];
+  let position = 0;
+
+  const skipSeparators = () => {
+    while (position < data.length && /[\s,]/.test(data[position])) position++;
+  };
+  const readNumber = (): number | null => {
+    skipSeparators();
+    const match = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(data.slice(position));
+    if (!match) return null;
+    position += match[0].length;
+    return parseFloat(match[0]);
+  };
+  // Arc flags may be written without separators, e.g. a1 1 0 011 1
+  const readFlag = (): boolean | null => {
+    skipSeparators();
+    const flag = data[position];
+    if (flag !== '0' && flag !== '1') return null;
+    position++;
+    return flag === '1';
+  };
+
+  let current: PathPoint = { x: 0, y: 0 };
+  let subpathStart: PathPoint = { x: 0, y: 0 };
+  let lastControl: PathPoint | null = null;
+  let lastType = '';
+  let command = '';
+
+  while (true) {
+    skipSeparators();
+    if (position >= data.length) break;
+
+    if (/[a-z]/i.test(data[position])) {
+      command = data[position++];
+      if (!/[mlhvcsqtaz]/i.test(command)) return [];
+    } else if (!command || /z/i.test(command)) {
+      return [];
+    }
+    if (commands.length === 0 && !/m/i.test(command)) return [];
+
+    const relative = command === command.toLowerCase();
+    const type = command.toUpperCase();
+    const base = relative ? current : { x: 0, y: 0 };
+    const readPoint = (): PathPoint | null => {
+      const x = readNumber();
+      const y = x === null ? null : readNumber();
+      return x === null || y === null ? null : { x: base.x + x, y: base.y + y };
+    };
+
+    let control: PathPoint | null = null;
+    switch (type) {
+      case 'M': {
+        const point = readPoint();
+        if (!point) return [];
+        commands.push({ type: 'M', points: [point] });
+        current = subpathStart = point;
+        // Further coordinate pairs are lines
+        command = relative ? 'l' : 'L';
+        break;
+      }
+      case 'L':
+      case 'H':
+      case 'V': {
+        let point: PathPoint | null;
+        if (type === 'L') {
+          point = readPoint();
+        } else {
+          const value = readNumber();
+          point = value === null ? null : type === 'H'
+            ? { x: (relative ? current.x : 0) + value, y: current.y }
+            : { x: current.x, y: (relative ? current.y : 0) + value };
+        }
+        if (!point) return [];
+        commands.push({ type: 'L', points: [point] });
+        current = point;
+        break;
+      }
+      case 'C':
+      case 'S': {
+        // A shorthand curve mirrors the last handle of a previous curve
+        const first: PathPoint | null = type === 'C'
+          ? readPoint()
+          : lastControl && /[CS]/.test(lastType)
+            ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+            : current;
+        const second: PathPoint | null = first ? readPoint() : null;
+        const end = second ? readPoint() : null;
+        if (!first || !second || !end) return [];
+        commands.push({ type: 'C', points: [first, second, end] });
+        control = second;
+        current = end;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const handle: PathPoint | null = type === 'Q'
+          ? readPoint()
+          : lastControl && /[QT]/.test(lastType)
+            ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+            : current;
+        const end = handle ? readPoint() : null;
+        if (!handle || !end) return [];
+        commands.push({ type: 'Q', points: [handle, end] });
+        control = handle;
+        current = end;
+        break;
+      }
+      case 'A': {
+        const radiusX = readNumber();
+        const radiusY = radiusX === null ? null : readNumber();
+        const rotation = radiusY === null ? null : readNumber();
+        const largeArc = rotation === null ? null : readFlag();
+        const sweep = largeArc === null ? null : readFlag();
+        const end = sweep === null ? null : readPoint();
+        if (!end) return [];
+        const curves = arcToCubics(current, radiusX!, radiusY!, rotation!, largeArc!, sweep!, end);
+        if (curves) {
+          curves.forEach(points => commands.push({ type: 'C', points }));
+        } else {
+          commands.push({ type: 'L', points: [end] });
+        }
+        current = end;
+        break;
+      }
+      case 'Z':
+        commands.push({ type: 'Z', points: [] });
+        current = subpathStart;
+        break;
+    }
+
+    lastControl = control;
+    lastType = type;
+  }
+
+  return commands;
+}
+
+/**
+ * Write commands as path data
+ */
+export function formatPathData(commands: PathCommand[]): string {
+  return commands
+    .map(command => [command.type, ...command.points.map(point => `${round(point.x)} ${round(point.y)}`)].join(' '))
+    .join(' ');
+}
+
+/**
+ * Move path data by an offset. Returns the data normalized to absolute
+ * commands, or as it was when it isn't a path.
+ */
+export function translatePathData(data: string, dx: number, dy: number): string {
+  const commands = parsePathData(data);
+  if (commands.length === 0) return data;
+
+  return formatPathData(commands.map(command => ({
+    ...command,
+    points: command.points.map(point => ({ x: point.x + dx, y: point.y + dy }))
+  })));
+}
+
+// Flatten commands into points, leaving out zero-length segments
+function flattenCommands(commands: PathCommand[]): PathPoint[] {
+  const points: PathPoint[] = [];
+  let current: PathPoint = { x: 0, y: 0 };
+  let subpathStart: PathPoint = { x: 0, y: 0 };
+
+  const add = (point: PathPoint) => {
+    const last = points[points.length - 1];
+    if (!last || Math.hypot(point.x - last.x, point.y - last.y) > POINT_TOLERANCE) points.push(point);
+  };
+
+  commands.forEach(command => {
+    const [first, second, third] = command.points;
+    switch (command.type) {
+      case 'M':
+        // A layer can't jump between subpaths, so it follows a later move as a line
+        add(first);
+        current = subpathStart = first;
+        break;
+      case 'L':
+        add(first);
+        current = first;
+        break;
+      case 'Q':
+        for (let index = 1; index <= CURVE_SEGMENTS; index++) {
+          const t = index / CURVE_SEGMENTS;
+          const u = 1 - t;
+          add({
+            x: u * u * current.x + 2 * u * t * first.x + t * t * second.x,
+            y: u * u * current.y + 2 * u * t * first.y + t * t * second.y
+          });
+        }
+        current = second;
+        break;
+      case 'C':
+        for (let index = 1; index <= CURVE_SEGMENTS; index++) {
+          const t = index / CURVE_SEGMENTS;
+          const u = 1 - t;
+          add({
+            x: u * u * u * current.x + 3 * u * u * t * first.x + 3 * u * t * t * second.x + t * t * t * third.x,
+            y: u * u * u * current.y + 3 * u * u * t * first.y + 3 * u * t * t * second.y + t * t * t * third.y
+          });
+        }
+        current = third;
+        break;
+      case 'Z':
+        add(subpathStart);
+        current = subpathStart;
+        break;
+    }
+  });
+  return points;
+}
+
+/**
+ * Get the flattened geometry of path data. Returns null for data that isn't
+ * a path.
+ */
+export function getMotionPathGeometry(data: string): MotionPathGeometry | null {
+  if (geometryCache.has(data)) return geometryCache.get(data)!;
+
+  const points = flattenCommands(parsePathData(data));
+  let geometry: MotionPathGeometry | null = null;
+
+  if (points.length > 0) {
+    const lengths = [0];
+    const angles: number[] = [];
+    points.slice(1).forEach((point, index) => {
+      const previous = points[index];
+      lengths.push(lengths[index] + Math.hypot(point.x - previous.x, point.y - previous.y));
+      const angle = (Math.atan2(point.y - previous.y, point.x - previous.x) * 180) / Math.PI;
+      angles.push(index === 0 ? angle : angles[index - 1] + wrapAngle(angle - angles[index - 1]));
+    });
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    geometry = {
+      points,
+      lengths,
+      angles: angles.length > 0 ? angles : [0],
+      length: lengths[lengths.length - 1],
+      closed: points.length > 2 && Math.hypot(last.x - first.x, last.y - first.y) < POINT_TOLERANCE
+    };
+  }
+
+  if (geometryCache.size >= GEOMETRY_CACHE_SIZE) geometryCache.clear();
+  geometryCache.set(data, geometry);
+  return geometry;
+}
+
+/**
+ * Get the point at a fraction (0-1) of a path's length and the direction of
+ * travel there. Past either end an open path holds its end and a closed
+ * path goes round again, as CSS offset-distance does.
+ */
+export function getMotionPathPoint(geometry: MotionPathGeometry, fraction: number): MotionPathPoint {
+  const { points, lengths, angles, length } = geometry;
+  if (points.length === 1 || length === 0) return { ...points[0], angle: angles[0] };
+
+  let distance = fraction * length;
+  let laps = 0;
+  if (geometry.closed) {
+    laps = Math.floor(distance / length);
+    distance -= laps * length;
+  } else {
+    distance = Math.min(length, Math.max(0, distance));
+  }
+
+  // The segment holding the distance
+  let low = 0;
+  let high = points.length - 1;
+  while (high - low > 1) {
+    const middle = (low + high) >> 1;
+    if (lengths[middle] <= distance) low = middle;
+    else high = middle;
+  }
+
+  const from = points[low];
+  const to = points[high];
+  const span = lengths[high] - lengths[low];
+  const progress = span > 0 ? (distance - lengths[low]) / span : 0;
+
+  // Each lap round a closed path keeps turning the way it went
+  const lastAngle = angles[angles.length - 1];
+  const lapTurn = lastAngle + wrapAngle(angles[0] - lastAngle) - angles[0];
+
+  return {
+    x: from.x + (to.x - from.x) * progress,
+    y: from.y + (to.y - from.y) * progress,
+    angle: angles[low] + laps * lapTurn
+  };
+}
+
+/**
+ * Get the bounding box of a path's points
+ */
+export function getMotionPathBounds(geometry: MotionPathGeometry): { x: number; y: number; width: number; height: number } {
+  const xs = geometry.points.map(point => point.x);
+  const ys = geometry.points.map(point => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Get the path data of pasted text: path data itself, or the first path,
+ * polyline or polygon of SVG markup. Returns null when none is found.
+ */
+export function extractPathData(text: string): string | null {
+  const source = text.trim();
+  if (!source) return null;
+
+  if (!source.startsWith('<')) {
+    return parsePathData(source).length > 0 ? source : null;
+  }
+
+  const path = /<path\b[^>]*?\sd\s*=\s*("([^"]*)"|'([^']*)')/i.exec(source);
+  if (path) {
+    const data = (path[2] ?? path[3]).trim();
+    return parsePathData(data).length > 0 ? data : null;
+  }
+
+  const shape = /<(polyline|polygon)\b[^>]*?\spoints\s*=\s*("([^"]*)"|'([^']*)')/i.exec(source);
+  if (shape) {
+    const values = (shape[3] ?? shape[4]).trim().split(/[\s,]+/).map(parseFloat);
+    if (values.length < 4 || values.some(value => !isFinite(value))) return null;
+    const pairs = values.slice(0, values.length - (values.length % 2));
+    const data = pairs.reduce((parts: string[], value, index) => {
+      if (index % 2 === 1) parts.push(`${index === 1 ? 'M' : 'L'} ${pairs[index - 1]} ${value}`);
+      return parts;
+    }, []).join(' ');
+    return shape[1].toLowerCase() === 'polygon' ? `${data} Z` : data;
+  }
+
+  return null;
+}
+
+/**
+ * Write a smooth path through drawn points, as a Catmull-Rom spline of
+ * cubic curves
+ */
+export function createSmoothPath(points: PathPoint[]): string {
+  if (points.length === 0) return '';
+  if (points.length === 1) return formatPathData([{ type: 'M', points: [points[0]] }]);
+
+  const commands: PathCommand[] = [{ type: 'M', points: [points[0]] }];
+  points.slice(1).forEach((point, index) => {
+    const from = points[index];
+    const before = points[index - 1] || from;
+    const after = points[index + 2] || point;
+    commands.push({
+      type: 'C',
+      points: [
+        { x: from.x + (point.x - before.x) / 6, y: from.y + (point.y - before.y) / 6 },
+        { x: point.x - (after.x - from.x) / 6, y: point.y - (after.y - from.y) / 6 },
+        point
+      ]
+    });
+  });
+  return formatPathData(commands);
+}
@@ -0,0 +1,101 @@
+/**
+ * Motion path round-trip tests
+ *
+ * Checks that the GSAP keyframes a motion path animation exports to keep the
+ * layer on the path the preview plays: each tween of the timeline script is
+ * played on a plain object by GSAP itself and sampled against sampleMotion().
+ */
+
+import { gsap } from 'gsap';
+import { AnimationLayer, AnimationType } from '../types/animation';
+import { getAnimationMotion, sampleMotion } from './animationSampler';
+import { compileLayerTimeline } from './gsapTimeline';
+
+// Paths of each kind: curves, a long path, corners and arcs
+const PATHS: { name: string; customProps: Record<string, any> }[] = [
+  { name: 'S curve', customProps: { path: 'M0,0 C100,-150 200,150 300,0' } },
+  {
+    name: 'Long wave',
+    customProps: { path: 'M0,0 C150,-200 250,200 400,0 C550,-200 650,200 800,0 C950,-200 1050,200 1200,0 C1350,-200 1450,200 1600,0' }
+  },
+  { name: 'Rectangle', customProps: { path: 'M0,0 L120,0 L120,90 L0,90 Z', autoRotate: true } },
+  { name: 'Part of an S curve, backwards', customProps: { path: 'M0,0 C100,-150 200,150 300,0', startOffset: 0.9, endOffset: 0.15 } },
+  { name: 'Circle', customProps: { path: 'M50,0 A50,50 0 1,1 -50,0 A50,50 0 1,1 50,0', autoRotate: true } }
+];
+
+// A built-in GSAP ease and one the script registers. Eases that overshoot
+// are left out: GSAP holds the ends of the keyframes where the preview
+// carries on along the path.
+const EASINGS = ['easeInOut', 'cubic-bezier(0.7, 0, 0.2, 1)'];
+
+// Farthest (px) the layer may be off the preview's path, and the most
+// degrees it may face away from the preview's direction
+const TOLERANCE = 0.5;
+const ANGLE_TOLERANCE = 1.5;
+
+// Progress points compared
+const SAMPLES = 500;
+const PROGRESS = Array.from({ length: SAMPLES }, (_, index) => (index + 0.5) / SAMPLES);
+
+// The vars of the path tween in a layer's timeline, read by running its
+// script against a timeline that only records them
+function getPathTweenVars(layer: AnimationLayer): Record<string, any> | null {
+  const timeline = compileLayerTimeline(layer, 'layer');
+  Object.entries(timeline.customEases).forEach(([ease, script]) => {
+    gsap.registerEase(ease, new Function(`return ${script};`)());
+  });
+
+  let vars: Record<string, any> | null = null;
+  const recorder = { to: (_: string, tweenVars: Record<string, any>) => { vars = tweenVars; }, set: () => {}, fromTo: () => {} };
+  new Function('tl', timeline.tweens.join('\n'))(recorder);
+  return vars;
+}
+
+/**
+ * Play the GSAP path tweens of motion path animations and compare where they
+ * take the layer with the preview. Failures are logged as errors.
+ */
+export function runMotionPathRoundTripTests(): void {
+  console.log('%c === MOTION PATH ROUND-TRIP TEST ===', 'background: #00796b; color: #fff; padding: 5px; font-weight: bold;');
+
+  let failures = 0;
+
+  PATHS.forEach(({ name, customProps }) => {
+    EASINGS.forEach(easing => {
+      const animation = { id: 'path', type: AnimationType.MotionPath, easing, duration: 2, delay: 0, startTime: 0, customProps };
+      const layer: AnimationLayer = { id: 'layer', name, type: 'shape', visible: true, parentId: null, isLinked: false, animations: [animation] };
+      const motion = getAnimationMotion(animation)!;
+      const vars = getPathTweenVars(layer);
+      if (!vars) {
+        failures++;
+        console.error(`❌ ${name}, ${easing}: no path tween was written`);
+        return;
+      }
+
+      const target: Record<string, any> = { x: 0, y: 0, rotation: 0, transformOrigin: '' };
+      const tween = gsap.to(target, { ...vars, paused: true });
+      let distance = 0;
+      let turn = 0;
+      PROGRESS.forEach(progress => {
+        tween.progress(progress);
+        const expected = sampleMotion(motion, progress, easing);
+        distance = Math.max(distance, Math.hypot(target.x - expected.x!, target.y - expected.y!));
+        if (customProps.autoRotate) turn = Math.max(turn, Math.abs(target.rotation - expected.rotate!));
+      });
+      tween.kill();
+
+      const keyframes = Object.keys(vars.keyframes).filter(key => key.endsWith('%')).length;
+      const summary = `${keyframes} keyframes, ${distance.toFixed(3)}px${customProps.autoRotate ? ` and ${turn.toFixed(3)}°` : ''} off the preview`;
+      if (!(distance <= TOLERANCE && turn <= ANGLE_TOLERANCE)) {
+        failures++;
+        console.error(`❌ ${name}, ${easing}: ${summary}`);
+      } else {
+        console.log(`✅ ${name}, ${easing}: ${summary}`);
+      }
+    });
+  });
+
+  console.log(failures === 0
+    ? `All ${PATHS.length * EASINGS.length} path tweens follow the preview`
+    : `${failures} path tweens leave the preview's path`);
+}
@@ -0,0 +1,171 @@
+/**
+ * Polite Loading
+ *
+ * Publishers limit what a banner may load before their page has finished
+ * loading. A politely loaded banner ships a light shell (markup, styles and
+ * scripts) whose layer images only start downloading once the host page has
+ * loaded, as the platform reports it: the page `load` event, MRAID `ready`
+ * or the Studio Enabler's page-loaded state. Its animation only starts once
+ * the banner is in view, through the platform's visibility API or an
+ * IntersectionObserver. The preloader shows until then.
+ *
+ * The script fires politeload on #ad when the images may load and
+ * bannerinview when the banner is first seen; the image loader waits for
+ * both.
+ */
+
+import type { AdPlatform } from './exportUtils';
+
+// Share of the banner that has to be on screen for it to count as in view,
+// the IAB viewability threshold
+const IN_VIEW_RATIO = 0.5;
+
+// Events the image loader waits for
+export const POLITE_LOAD_EVENT = 'politeload';
+export const IN_VIEW_EVENT = 'bannerinview';
+
+// Class #ad gets once its assets may load; the background image waits for it
+export const POLITE_LOADED_CLASS = 'polite-loaded';
+
+/**
+ * Whether a polite banner on a platform needs the Studio Enabler loaded
+ */
+export function needsEnablerForPoliteLoading(platform: AdPlatform): boolean {
+  return platform === 'doubleclick-studio';
+}
+
+// Statements that call back once the host page has loaded
+function getPageLoadedCheck(platform: AdPlatform): string {
+  switch (platform) {
+    case 'doubleclick-studio':
+      return `  function whenPageLoaded(callback) {
+    if (typeof Enabler === 'undefined') return whenWindowLoaded(callback);
+
+    function onInit() {
+      if (Enabler.isPageLoaded()) {
+        callback();
+      } else {
+        Enabler.addEventListener(studio.events.StudioEvent.PAGE_LOADED, callback);
+      }
+    }
+
+    if (Enabler.isInitialized()) {
+      onInit();
+    } else {
+      Enabler.addEventListener(studio.events.StudioEvent.INIT, onInit);
+    }
+  }`;
+
+    case 'adform-mraid':
+      return `  function whenPageLoaded(callback) {
+    if (typeof mraid === 'undefined') return whenWindowLoaded(callback);
+
+    if (mraid.getState() === 'loading') {
+      mraid.addEventListener('ready', callback);
+    } else {
+      callback();
+    }
+  }`;
+
+    default:
+      return `  function whenPageLoaded(callback) {
+    whenWindowLoaded(callback);
+  }`;
+  }
+}
+
+// Statements that call back once the banner is in view
+function getInViewCheck(platform: AdPlatform): string {
+  const observe = `  function whenObservedInView(callback) {
+    if (!window.IntersectionObserver) return callback();
+
+    var observer = new IntersectionObserver(function (entries) {
+      if (entries[0].intersectionRatio >= ${IN_VIEW_RATIO}) {
+        observer.disconnect();
+        callback();
+      }
+    }, { threshold: ${IN_VIEW_RATIO} });
+    observer.observe(ad);
+  }`;
+
+  switch (platform) {
+    case 'doubleclick-studio':
+      return `${observe}
+
+  function whenInView(callback) {
+    if (typeof Enabler === 'undefined') return whenObservedInView(callback);
+
+    if (Enabler.isVisible()) {
+      callback();
+    } else {
+      Enabler.addEventListener(studio.events.StudioEvent.VISIBLE, callback);
+    }
+  }`;
+
+    case 'adform-mraid':
+      return `${observe}
+
+  function whenInView(callback) {
+    if (typeof mraid === 'undefined') return whenObservedInView(callback);
+
+    function onViewableChange(viewable) {
+      if (!viewable) return;
+      mraid.removeEventListener('viewableChange', onViewableChange);
+      callback();
+    }
+
+    if (mraid.isViewable()) {
+      callback();
+    } else {
+      mraid.addEventListener('viewableChange', onViewableChange);
+    }
+  }`;
+
+    default:
+      return `${observe}
+
+  function whenInView(callback) {
+    whenObservedInView(callback);
+  }`;
+  }
+}
+
+/**
+ * Write the script that loads a banner's images after the host page and
+ * starts its animation once it is in view, with the platform's APIs where
+ * it has them
+ */
+export function getPoliteLoadingScript(platform: AdPlatform): string {
+  return `(function () {
+  var ad = document.getElementById('ad');
+
+  function whenWindowLoaded(callback) {
+    if (document.readyState === 'complete') {
+      callback();
+    } else {
+      window.addEventListener('load', callback);
+    }
+  }
+
+${getPageLoadedCheck(platform)}
+
+${getInViewCheck(platform)}
+
+  // Swap in the layer images and the background
+  function loadAssets() {
+    var images = ad.querySelectorAll('img[data-src]');
+    for (var i = 0; i < images.length; i++) {
+      images[i].src = images[i].getAttribute('data-src');
+      images[i].removeAttribute('data-src');
+    }
+    ad.className += ' ${POLITE_LOADED_CLASS}';
+    ad.dispatchEvent(new Event('${POLITE_LOAD_EVENT}'));
+  }
+
+  whenPageLoaded(loadAssets);
+  whenInView(function () {
+    ad.dispatchEvent(new Event('${IN_VIEW_EVENT}'));
+  });
+})();
+`;
+}
@@ -0,0 +1,275 @@
+/**
+ * Raster Utilities
+ *
+ * Canvas helpers shared by the exporters: decoding the PNG bytes rendered by
+ * the plugin, drawing fallback frames in development mode and triggering
+ * downloads of generated files.
+ */
+
+import { AnimationFrame } from '../types/animation';
+
+/**
+ * Create a 2D canvas of the given size
+ */
+export function createCanvas(width: number, height: number): {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+} {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  return { canvas, ctx };
+}
+
+/**
+ * Decode encoded image bytes (PNG, JPG, SVG...) into an image bitmap
+ */
+export async function decodeImageBitmap(bytes: Uint8Array, mimeType = 'image/png'): Promise<ImageBitmap> {
+  const blob = new Blob([bytes], { type: mimeType });
+  return createImageBitmap(blob);
+}
+
+/**
+ * Get the MIME type of an image file format
+ */
+export function getImageMimeType(format: string): string {
+  switch (format) {
+    case 'jpg':
+    case 'jpeg':
+      return 'image/jpeg';
+    case 'svg':
+      return 'image/svg+xml';
+    default:
+      return `image/${format}`;
+  }
+}
+
+/**
+ * Load encoded image bytes into an image element.
+ * Unlike createImageBitmap this also decodes SVG in every browser.
+ */
+export function loadImage(bytes: Uint8Array, mimeType = 'image/png'): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(new Blob([bytes], { type: mimeType }));
+  const image = new Image();
+
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to decode ${mimeType} image`));
+    image.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+}
+
+/**
+ * Decode encoded image bytes into ImageData scaled to the requested size
+ */
+export async function decodeImageBytes(
+  bytes: Uint8Array,
+  width: number,
+  height: number,
+  mimeType = 'image/png'
+): Promise<ImageData> {
+  const bitmap = await decodeImageBitmap(bytes, mimeType);
+  const { ctx } = createCanvas(width, height);
+
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  return ctx.getImageData(0, 0, width, height);
+}
+
+/**
+ * Convert a canvas to an encoded Blob
+ */
+export function canvasToBlob(
+  canvas: HTMLCanvasElement,
+  type: 'image/png' | 'image/jpeg' | 'image/webp' = 'image/png',
+  quality?: number
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error(`Failed to encode canvas as ${type}`));
+      }
+    }, type, quality);
+  });
+}
+
+/**
+ * Convert a Blob to raw bytes
+ */
+export async function blobToBytes(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Draw a frame the same way PreviewCanvas lays out its content.
+ * Used when there is no Figma document to rasterize (development mode).
+ */
+export function drawFrameFallback(
+  ctx: CanvasRenderingContext2D,
+  frame: Partial<AnimationFrame>,
+  width: number,
+  height: number
+): void {
+  const scale = Math.min(width / (frame.width || width), height / (frame.height || height)) || 1;
+
+  // Background gradient (from-blue-500 to-indigo-700)
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, '#3B82F6');
+  gradient.addColorStop(1, '#4338CA');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+
+  // Headline and description
+  ctx.fillStyle = '#FFFFFF';
+  ctx.font = `bold ${Math.round(24 * scale)}px Arial, sans-serif`;
+  ctx.fillText(frame.headlineText || 'Amazing Offer', width / 2, 40 * scale);
+
+  ctx.font = `${Math.round(14 * scale)}px Arial, sans-serif`;
+  ctx.fillText(frame.description || 'Limited time only!', width / 2, 76 * scale);
+
+  // CTA button
+  const buttonText = frame.buttonText || 'Shop Now';
+  ctx.font = `500 ${Math.round(16 * scale)}px Arial, sans-serif`;
+  const buttonWidth = ctx.measureText(buttonText).width + 32 * scale;
+  const buttonHeight = 40 * scale;
+  const buttonY = height - 48 * scale - buttonHeight;
+  ctx.fillStyle = '#EAB308';
+  ctx.fillRect((width - buttonWidth) / 2, buttonY, buttonWidth, buttonHeight);
+  ctx.fillStyle = '#000000';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(buttonText, width / 2, buttonY + buttonHeight / 2);
+
+  // Logo pill
+  const logoText = frame.logoText || 'LOGO';
+  ctx.font = `${Math.round(12 * scale)}px Arial, sans-serif`;
+  const logoWidth = ctx.measureText(logoText).width + 16 * scale;
+  const logoHeight = 24 * scale;
+  const logoY = height - 8 * scale - logoHeight;
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect((width - logoWidth) / 2, logoY, logoWidth, logoHeight);
+  ctx.fillStyle = '#000000';
+  ctx.fillText(logoText, width / 2, logoY + logoHeight / 2);
+}
+
+/**
+ * Render a frame without Figma and return it as PNG bytes
+ */
+export async function renderFrameFallback(
+  frame: Partial<AnimationFrame>,
+  width: number,
+  height: number
+): Promise<Uint8Array> {
+  const { canvas, ctx } = createCanvas(width, height);
+  drawFrameFallback(ctx, frame, width, height);
+  return blobToBytes(await canvasToBlob(canvas, 'image/png'));
+}
+
+/**
+ * Render a single banner layer without Figma, using the same layout as
+ * drawFrameFallback. Layers are matched by name; returns null for layers the
+ * fallback layout does not know how to draw.
+ */
+export async function renderLayerFallback(
+  layer: { name: string; type: string },
+  frame: Partial<AnimationFrame>,
+  width: number,
+  height: number,
+  pixelRatio = 1
+): Promise<{ x: number; y: number; width: number; height: number; bytes: Uint8Array } | null> {
+  const scale = Math.min(width / (frame.width || width), height / (frame.height || height)) || 1;
+  const { ctx: measureCtx } = createCanvas(1, 1);
+  const name = layer.name.toLowerCase();
+
+  let box: { x: number; y: number; width: number; height: number };
+  let draw: (ctx: CanvasRenderingContext2D, w: number, h: number) => void;
+
+  const drawText = (ctx: CanvasRenderingContext2D, text: string, font: string, color: string, w: number, h: number) => {
+    ctx.font = font;
+    ctx.fillStyle = color;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, w / 2, h / 2);
+  };
+
+  if (name.includes('background') || layer.type === 'rectangle') {
+    box = { x: 0, y: 0, width, height };
+    draw = (ctx, w, h) => {
+      const gradient = ctx.createLinearGradient(0, 0, w, h);
+      gradient.addColorStop(0, '#3B82F6');
+      gradient.addColorStop(1, '#4338CA');
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, w, h);
+    };
+  } else if (name.includes('headline') || name.includes('title')) {
+    const font = `bold ${Math.round(24 * scale)}px Arial, sans-serif`;
+    box = { x: 0, y: 40 * scale, width, height: 30 * scale };
+    draw = (ctx, w, h) => drawText(ctx, frame.headlineText || 'Amazing Offer', font, '#FFFFFF', w, h);
+  } else if (name.includes('subhead') || name.includes('description') || name.includes('tagline')) {
+    const font = `${Math.round(14 * scale)}px Arial, sans-serif`;
+    box = { x: 0, y: 76 * scale, width, height: 20 * scale };
+    draw = (ctx, w, h) => drawText(ctx, frame.description || 'Limited time only!', font, '#FFFFFF', w, h);
+  } else if (name.includes('cta') || name.includes('button')) {
+    const text = frame.buttonText || 'Shop Now';
+    const font = `500 ${Math.round(16 * scale)}px Arial, sans-serif`;
+    measureCtx.font = font;
+    const buttonWidth = measureCtx.measureText(text).width + 32 * scale;
+    const buttonHeight = 40 * scale;
+    box = { x: (width - buttonWidth) / 2, y: height - 48 * scale - buttonHeight, width: buttonWidth, height: buttonHeight };
+    draw = (ctx, w, h) => {
+      ctx.fillStyle = '#EAB308';
+      ctx.fillRect(0, 0, w, h);
+      drawText(ctx, text, font, '#000000', w, h);
+    };
+  } else if (name.includes('logo')) {
+    const text = frame.logoText || 'LOGO';
+    const font = `${Math.round(12 * scale)}px Arial, sans-serif`;
+    measureCtx.font = font;
+    const logoWidth = measureCtx.measureText(text).width + 16 * scale;
+    const logoHeight = 24 * scale;
+    box = { x: (width - logoWidth) / 2, y: height - 8 * scale - logoHeight, width: logoWidth, height: logoHeight };
+    draw = (ctx, w, h) => {
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(0, 0, w, h);
+      drawText(ctx, text, font, '#000000', w, h);
+    };
+  } else {
+    return null;
+  }
+
+  const { canvas, ctx } = createCanvas(box.width * pixelRatio, box.height * pixelRatio);
+  ctx.scale(pixelRatio, pixelRatio);
+  draw(ctx, box.width, box.height);
+
+  return {
+    ...box,
+    bytes: await blobToBytes(await canvasToBlob(canvas, 'image/png'))
+  };
+}
+
+/**
+ * Trigger a browser download for a generated file
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => {
+    URL.revokeObjectURL(url);
+  }, 1000);
+}
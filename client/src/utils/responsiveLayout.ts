@@ -0,0 +1,218 @@
+/**
+ * Responsive Layout
+ *
+ * Banners for the responsive platforms don't have a fixed size: the ad slot
+ * decides it. Fluid banners fill the slot and place each layer by its
+ * constraints, captured from Figma, so a layer pinned to the right stays at
+ * the right edge and a stretched layer grows with its parent. Scaled banners
+ * keep their design and are scaled as a whole to fit the slot.
+ *
+ * The same constraint maths drives the exported CSS and the resizable
+ * preview.
+ */
+
+import type { LayerConstraints } from '../types/animation';
+import type { AdPlatform } from './exportUtils';
+
+/**
+ * How a banner follows the size of its ad slot
+ */
+export type BannerLayoutMode = 'fixed' | 'fluid' | 'scaled';
+
+/**
+ * A layer's box, relative to its parent
+ */
+export interface LayoutBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Figma's default: pinned to the top left
+export const DEFAULT_CONSTRAINTS: LayerConstraints = { horizontal: 'left', vertical: 'top' };
+
+// Containers without constraints of their own (e.g. groups) scale with their
+// parent so their children keep their places
+const CONTAINER_CONSTRAINTS: LayerConstraints = { horizontal: 'scale', vertical: 'scale' };
+
+/**
+ * Get how a platform's banners follow the size of the ad slot
+ */
+export function getBannerLayoutMode(platform: AdPlatform): BannerLayoutMode {
+  switch (platform) {
+    case 'responsive':
+    case 'responsive-display-ad':
+      return 'fluid';
+    case 'scalable':
+      return 'scaled';
+    default:
+      return 'fixed';
+  }
+}
+
+/**
+ * Get the constraints a layer is laid out with: its own, those the plugin
+ * reported for it, or the defaults
+ */
+export function getLayerConstraints(
+  constraints: LayerConstraints | undefined,
+  fallback: LayerConstraints | undefined,
+  isContainer: boolean
+): LayerConstraints {
+  return constraints || fallback || (isContainer ? CONTAINER_CONSTRAINTS : DEFAULT_CONSTRAINTS);
+}
+
+// Place a span along one axis of a parent resized from designSize to size
+function resolveSpan(
+  start: number,
+  length: number,
+  designSize: number,
+  size: number,
+  constraint: LayerConstraints['horizontal'] | LayerConstraints['vertical']
+): { start: number; length: number } {
+  const end = designSize - start - length;
+  switch (constraint) {
+    case 'right':
+    case 'bottom':
+      return { start: size - end - length, length };
+    case 'left-right':
+    case 'top-bottom':
+      return { start, length: Math.max(0, size - start - end) };
+    case 'center':
+      return { start: size / 2 + (start - designSize / 2), length };
+    case 'scale': {
+      const ratio = designSize > 0 ? size / designSize : 1;
+      return { start: start * ratio, length: length * ratio };
+    }
+    default:
+      return { start, length };
+  }
+}
+
+/**
+ * Place a layer's box in a parent resized from its design size, the way
+ * Figma applies constraints
+ */
+export function resolveConstrainedBox(
+  box: LayoutBox,
+  parentDesign: { width: number; height: number },
+  parentSize: { width: number; height: number },
+  constraints: LayerConstraints
+): LayoutBox {
+  const horizontal = resolveSpan(box.x, box.width, parentDesign.width, parentSize.width, constraints.horizontal);
+  const vertical = resolveSpan(box.y, box.height, parentDesign.height, parentSize.height, constraints.vertical);
+  return { x: horizontal.start, y: vertical.start, width: horizontal.length, height: vertical.length };
+}
+
+// Round a length for CSS
+function formatPx(value: number): string {
+  return `${Math.round(value * 100) / 100}px`;
+}
+
+// Round a share of the parent for CSS
+function formatPercent(value: number, total: number): string {
+  return `${total > 0 ? Math.round((value / total) * 10000) / 100 : 0}%`;
+}
+
+// CSS offset from the middle of the parent
+function formatCenterOffset(offset: number): string {
+  return offset < 0 ? `calc(50% - ${formatPx(-offset)})` : `calc(50% + ${formatPx(offset)})`;
+}
+
+// CSS rules placing a span along one axis of the parent
+function getSpanRules(
+  start: number,
+  length: number,
+  parentLength: number,
+  constraint: LayerConstraints['horizontal'] | LayerConstraints['vertical'],
+  properties: { start: string; end: string; length: string }
+): string[] {
+  const end = parentLength - start - length;
+  switch (constraint) {
+    case 'right':
+    case 'bottom':
+      return [`${properties.end}: ${formatPx(end)};`, `${properties.length}: ${formatPx(length)};`];
+    case 'left-right':
+    case 'top-bottom':
+      return [`${properties.start}: ${formatPx(start)};`, `${properties.end}: ${formatPx(end)};`];
+    case 'center':
+      return [`${properties.start}: ${formatCenterOffset(start - parentLength / 2)};`, `${properties.length}: ${formatPx(length)};`];
+    case 'scale':
+      return [`${properties.start}: ${formatPercent(start, parentLength)};`, `${properties.length}: ${formatPercent(length, parentLength)};`];
+    default:
+      return [`${properties.start}: ${formatPx(start)};`, `${properties.length}: ${formatPx(length)};`];
+  }
+}
+
+/**
+ * Write the CSS rules that keep a layer in place by its constraints as its
+ * parent is resized. The box is relative to the parent's design size.
+ */
+export function getConstrainedLayoutRules(
+  box: LayoutBox,
+  parent: { width: number; height: number },
+  constraints: LayerConstraints
+): string[] {
+  return [
+    ...getSpanRules(box.x, box.width, parent.width, constraints.horizontal, { start: 'left', end: 'right', length: 'width' }),
+    ...getSpanRules(box.y, box.height, parent.height, constraints.vertical, { start: 'top', end: 'bottom', length: 'height' })
+  ];
+}
+
+/**
+ * Write the styles that size #ad for a layout mode. Fixed banners keep the
+ * size set on #ad.
+ */
+export function getBannerLayoutCss(mode: BannerLayoutMode): string {
+  switch (mode) {
+    case 'fluid':
+      return `
+    /* Fluid layout: the banner fills its ad slot */
+    html, body {
+      width: 100%;
+      height: 100%;
+    }
+    #ad {
+      width: 100%;
+      height: 100%;
+    }
+    #ad .layer img {
+      object-fit: cover;
+    }`;
+
+    case 'scaled':
+      return `
+    /* Scaled layout: the banner is scaled as a whole to fit its ad slot */
+    html, body {
+      width: 100%;
+      height: 100%;
+      overflow: hidden;
+    }
+    #ad {
+      transform-origin: 0 0;
+    }`;
+
+    default:
+      return '';
+  }
+}
+
+/**
+ * Write the script that scales a banner designed at width x height to fit
+ * the window, keeping its proportions. It goes in the banner script, which
+ * loads after #ad.
+ */
+export function getScaledLayoutScript(width: number, height: number): string {
+  return `(function () {
+  // Scale the banner to fit its ad slot
+  var ad = document.getElementById('ad');
+  function fit() {
+    var scale = Math.min(window.innerWidth / ${width}, window.innerHeight / ${height});
+    ad.style.transform = 'scale(' + scale + ')';
+  }
+  window.addEventListener('resize', fit);
+  fit();
+})();
+`;
+}
@@ -0,0 +1,392 @@
+/**
+ * Review Site
+ *
+ * Builds the static site clients review an export on: one page showing every
+ * exported size live, with a replay button, the banner's weight and its
+ * backup image, labelled with the version under review. The site is written
+ * to its own folder of the export ZIP with copies of the banners it shows, so
+ * the folder can be dropped onto any static host as it is.
+ */
+
+import { formatKb } from './adPlatformSpecs';
+import { getFileExtension, prefixZipPaths, ZipFiles } from './zipUtils';
+
+// Folder of the export ZIP the review site is written to
+export const REVIEW_SITE_FOLDER = 'review';
+
+/**
+ * A file shown on the review site, e.g. a GIF or a backup image
+ */
+export interface ReviewSiteImage {
+  fileName: string;
+  bytes: Uint8Array;
+}
+
+/**
+ * One exported size on the review site: an HTML5 banner or an image
+ */
+export interface ReviewSiteEntry {
+  name: string; // Unique within the site, used as the folder name
+  width: number;
+  height: number;
+  label: string; // e.g. the ad platform, or "GIF"
+  size: number; // Bytes, as delivered
+  passed?: boolean; // Whether the export met its platform spec
+  files?: ZipFiles; // HTML5 banner files, index.html at the root
+  image?: ReviewSiteImage; // Image exports, shown instead of a banner
+  backup?: ReviewSiteImage | null;
+}
+
+/**
+ * How the review page looks
+ */
+export interface ReviewSiteOptions {
+  title?: string;
+  version?: string; // Version label shown next to the title, e.g. "v2"
+  layout?: 'masonry' | 'grid' | 'list';
+  useDarkMode?: boolean; // Initial theme; reviewers can toggle it
+  customCss?: string;
+  exportedAt?: Date;
+}
+
+// Escape text for HTML content and attributes
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Path of an entry's preview, relative to the site root
+function getEntrySrc(entry: ReviewSiteEntry): string {
+  return entry.image
+    ? `images/${entry.name}.${getFileExtension(entry.image.fileName)}`
+    : `banners/${entry.name}/index.html`;
+}
+
+// Path of an entry's backup image, relative to the site root
+function getBackupSrc(entry: ReviewSiteEntry, backup: ReviewSiteImage): string {
+  return `backups/${entry.name}.${getFileExtension(backup.fileName)}`;
+}
+
+// Card of one exported size
+function renderEntry(entry: ReviewSiteEntry): string {
+  const src = escapeHtml(getEntrySrc(entry));
+  const name = escapeHtml(entry.name);
+  const status = entry.passed === undefined ? '' : entry.passed ? ' pass' : ' fail';
+  const preview = entry.image
+    ? `<img class="banner-frame" src="${src}" width="${entry.width}" height="${entry.height}" alt="${name}">`
+    : `<iframe class="banner-frame" src="${src}" width="${entry.width}" height="${entry.height}" frameborder="0" scrolling="no" title="${name}"></iframe>`;
+  const backupSrc = entry.backup ? escapeHtml(getBackupSrc(entry, entry.backup)) : '';
+  const backup = entry.backup
+    ? `
+        <div class="banner-backup">
+          <a href="${backupSrc}" target="_blank" rel="noopener">
+            <img src="${backupSrc}" alt="Backup image of ${name}">
+          </a>
+          <span>Backup image · ${formatKb(entry.backup.bytes.length)}</span>
+        </div>`
+    : '';
+
+  return `
+      <div class="banner-container">
+        <div class="banner-header">
+          <h3>${name}</h3>
+          <span class="banner-size">${entry.width}x${entry.height} · ${escapeHtml(entry.label)}</span>
+        </div>
+        <div class="banner-content">
+          ${preview}
+        </div>
+        <div class="banner-footer">
+          <span class="banner-weight${status}">${formatKb(entry.size)}</span>
+          <span class="banner-actions">
+            <button type="button" class="replay">Replay</button>
+            <a href="${src}" target="_blank" rel="noopener">Open</a>
+          </span>
+        </div>${backup}
+      </div>`;
+}
+
+/**
+ * Write the review page for a set of exported sizes. Previews are loaded
+ * from the paths buildReviewSite writes them to.
+ */
+export function generateReviewPage(entries: ReviewSiteEntry[], options: ReviewSiteOptions = {}): string {
+  const {
+    title = 'HTML5 Banner Preview',
+    version = '',
+    layout = 'masonry',
+    useDarkMode = false,
+    customCss = '',
+    exportedAt = new Date()
+  } = options;
+
+  const layoutClass =
+    layout === 'masonry' ? 'preview-masonry-layout' :
+    layout === 'grid' ? 'preview-grid-layout' :
+    'preview-list-layout';
+  const versionLabel = version.trim() ? escapeHtml(version.trim()) : '';
+  const totalSize = entries.reduce((total, entry) => total + entry.size, 0);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}${versionLabel ? ` · ${versionLabel}` : ''}</title>
+  <style>
+    body {
+      --background: #ffffff;
+      --text: #000000;
+      --muted: #666666;
+      --border: #dddddd;
+      --card: #f5f5f5;
+      --card-header: #eaeaea;
+      --stage: #ffffff;
+      --button: #eeeeee;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, 'Open Sans', 'Helvetica Neue', sans-serif;
+      margin: 0;
+      padding: 20px;
+      background-color: var(--background);
+      color: var(--text);
+      transition: background-color 0.3s, color 0.3s;
+    }
+    body.dark {
+      --background: #121212;
+      --text: #ffffff;
+      --muted: #aaaaaa;
+      --border: #333333;
+      --card: #1e1e1e;
+      --card-header: #272727;
+      --stage: #333333;
+      --button: #333333;
+    }
+    .container {
+      max-width: 1200px;
+      margin: 0 auto;
+    }
+    .header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: 12px;
+      margin-bottom: 20px;
+      padding-bottom: 20px;
+      border-bottom: 1px solid var(--border);
+    }
+    .header h1 {
+      margin: 0 0 4px;
+    }
+    .version {
+      display: inline-block;
+      margin-left: 8px;
+      padding: 2px 8px;
+      border-radius: 4px;
+      background: #4A7CFF;
+      color: #ffffff;
+      font-size: 14px;
+      vertical-align: middle;
+    }
+    .summary {
+      font-size: 13px;
+      color: var(--muted);
+    }
+    .header-actions {
+      display: flex;
+      gap: 8px;
+    }
+    button, .banner-actions a {
+      background: var(--button);
+      border: none;
+      color: var(--text);
+      padding: 8px 16px;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 13px;
+      text-decoration: none;
+    }
+    .banner-container {
+      background-color: var(--card);
+      border-radius: 6px;
+      overflow: hidden;
+      margin-bottom: 20px;
+      border: 1px solid var(--border);
+    }
+    .banner-header, .banner-footer {
+      padding: 12px 15px;
+      background-color: var(--card-header);
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+    }
+    .banner-header h3 {
+      margin: 0;
+      font-size: 16px;
+      font-weight: 500;
+      word-break: break-all;
+    }
+    .banner-size {
+      font-size: 13px;
+      color: var(--muted);
+      white-space: nowrap;
+      margin-left: 8px;
+    }
+    .banner-content {
+      padding: 15px;
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      background-color: var(--stage);
+    }
+    .banner-frame {
+      max-width: 100%;
+      border: 1px solid var(--border);
+      background-color: white;
+    }
+    .banner-weight {
+      font-size: 13px;
+    }
+    .banner-weight.pass {
+      color: #22a06b;
+    }
+    .banner-weight.fail {
+      color: #e5484d;
+    }
+    .banner-actions {
+      display: flex;
+      gap: 6px;
+    }
+    .banner-actions button, .banner-actions a {
+      padding: 4px 10px;
+      font-size: 12px;
+    }
+    .banner-backup {
+      padding: 10px 15px;
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      font-size: 12px;
+      color: var(--muted);
+      border-top: 1px solid var(--border);
+    }
+    .banner-backup img {
+      display: block;
+      max-width: 120px;
+      max-height: 60px;
+      border: 1px solid var(--border);
+    }
+
+    /* Layout styles */
+    .preview-masonry-layout {
+      column-count: 2;
+      column-gap: 20px;
+    }
+    .preview-masonry-layout .banner-container {
+      break-inside: avoid;
+      page-break-inside: avoid;
+    }
+    .preview-grid-layout {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(300px, 1fr));
+      gap: 20px;
+    }
+    .preview-list-layout .banner-container {
+      max-width: 800px;
+      margin: 0 auto 20px;
+    }
+
+    @media (max-width: 768px) {
+      .preview-masonry-layout {
+        column-count: 1;
+      }
+      .preview-grid-layout {
+        grid-template-columns: 1fr;
+      }
+    }
+
+    ${customCss}
+  </style>
+</head>
+<body${useDarkMode ? ' class="dark"' : ''}>
+  <div class="container">
+    <div class="header">
+      <div>
+        <h1>${escapeHtml(title)}${versionLabel ? `<span class="version">${versionLabel}</span>` : ''}</h1>
+        <div class="summary">
+          ${entries.length} ${entries.length === 1 ? 'size' : 'sizes'} · ${formatKb(totalSize)} in total · Exported ${escapeHtml(exportedAt.toLocaleString())}
+        </div>
+      </div>
+      <div class="header-actions">
+        <button type="button" id="replay-all">Replay all</button>
+        <button type="button" id="theme-toggle">${useDarkMode ? 'Light Mode' : 'Dark Mode'}</button>
+      </div>
+    </div>
+
+    <div class="${layoutClass}">
+      ${entries.map(renderEntry).join('')}
+    </div>
+  </div>
+
+  <script>
+    (function() {
+      // Reloading a banner restarts its animation; an image restarts with a new src
+      function replay(container) {
+        var frame = container.querySelector('.banner-frame');
+        var src = frame.getAttribute('src');
+        frame.src = frame.tagName === 'IFRAME' ? src : src.split('?')[0] + '?replay=' + Date.now();
+      }
+
+      var containers = document.querySelectorAll('.banner-container');
+      Array.prototype.forEach.call(containers, function(container) {
+        container.querySelector('.replay').addEventListener('click', function() {
+          replay(container);
+        });
+      });
+      document.getElementById('replay-all').addEventListener('click', function() {
+        Array.prototype.forEach.call(containers, replay);
+      });
+
+      // The reviewer's theme is remembered across visits
+      var toggle = document.getElementById('theme-toggle');
+      function setTheme(dark) {
+        document.body.classList.toggle('dark', dark);
+        toggle.textContent = dark ? 'Light Mode' : 'Dark Mode';
+      }
+      try {
+        var saved = localStorage.getItem('review-theme');
+        if (saved) setTheme(saved === 'dark');
+      } catch (error) {}
+      toggle.addEventListener('click', function() {
+        var dark = !document.body.classList.contains('dark');
+        setTheme(dark);
+        try {
+          localStorage.setItem('review-theme', dark ? 'dark' : 'light');
+        } catch (error) {}
+      });
+    })();
+  </script>
+</body>
+</html>`;
+}
+
+/**
+ * Build the review site's files: the page and everything it shows, under
+ * the review site folder
+ */
+export function buildReviewSite(entries: ReviewSiteEntry[], options: ReviewSiteOptions = {}): ZipFiles {
+  const files: ZipFiles = { 'index.html': generateReviewPage(entries, options) };
+
+  entries.forEach(entry => {
+    if (entry.image) {
+      files[getEntrySrc(entry)] = entry.image.bytes;
+    } else if (entry.files) {
+      Object.assign(files, prefixZipPaths(entry.files, `banners/${entry.name}`));
+    }
+    if (entry.backup) {
+      files[getBackupSrc(entry, entry.backup)] = entry.backup.bytes;
+    }
+  });
+
+  return prefixZipPaths(files, REVIEW_SITE_FOLDER);
+}
@@ -0,0 +1,292 @@
+/**
+ * Size Optimizer
+ *
+ * Recompression loops that step an export down in quality until it fits a
+ * file size target. HTML5 banners re-encode their raster layers as JPEG/WebP
+ * and can drop their @2x images; GIFs shrink their palette and color depth.
+ * Every step taken is reported so the user knows what was degraded.
+ */
+
+import type { RenderedBannerAssets, RenderedLayerAsset } from '../lib/figmaPlugin';
+import { GifColorDepth } from './gifEncoder';
+import { blobToBytes, canvasToBlob, createCanvas, decodeImageBitmap } from './rasterUtils';
+
+export type CompressionSpeed = 'faster' | 'balanced' | 'smaller';
+
+/**
+ * Outcome of a recompression search
+ */
+export interface RecompressionResult<T> {
+  value: T;
+  size: number; // Bytes
+  fits: boolean;
+  degradations: string[];
+}
+
+/**
+ * Get the lossy quality steps tried for a compression speed.
+ * Faster takes a few coarse steps, smaller searches finely down to a lower floor.
+ */
+export function getQualityLadder(speed: CompressionSpeed = 'faster'): number[] {
+  switch (speed) {
+    case 'smaller':
+      return [0.9, 0.85, 0.8, 0.75, 0.7, 0.65, 0.6, 0.55, 0.5, 0.45, 0.4, 0.35, 0.3, 0.25];
+    case 'balanced':
+      return [0.9, 0.8, 0.7, 0.6, 0.5, 0.4];
+    case 'faster':
+    default:
+      return [0.85, 0.65, 0.5];
+  }
+}
+
+/**
+ * Get the GIF palette/color depth steps tried for a compression speed,
+ * starting below the current settings
+ */
+export function getGifSettingsLadder(
+  speed: CompressionSpeed = 'faster',
+  start: { maxColors: number; colorDepth: GifColorDepth }
+): { maxColors: number; colorDepth: GifColorDepth }[] {
+  const paletteSizes = speed === 'smaller'
+    ? [224, 192, 160, 128, 96, 64, 48, 32, 16]
+    : speed === 'balanced'
+      ? [192, 128, 96, 64, 32]
+      : [128, 64, 32];
+  const colorDepths: GifColorDepth[] = [16, 8];
+
+  const ladder = paletteSizes
+    .filter(maxColors => maxColors < start.maxColors)
+    .map(maxColors => ({ maxColors, colorDepth: start.colorDepth }));
+
+  // Once the palette is small, reduce the color depth as well
+  const smallestColors = ladder.length > 0 ? ladder[ladder.length - 1].maxColors : start.maxColors;
+  colorDepths
+    .filter(colorDepth => colorDepth < start.colorDepth)
+    .forEach(colorDepth => ladder.push({ maxColors: smallestColors, colorDepth }));
+
+  return ladder;
+}
+
+// A raster image of the banner that can be re-encoded
+interface RasterSource {
+  layerId: string | null; // null for the frame background
+  bitmap: ImageBitmap;
+  cssWidth: number;
+  cssHeight: number;
+  opaque: boolean;
+  originalBytes: Uint8Array;
+}
+
+// Check whether every pixel of a bitmap is fully opaque
+function isOpaque(bitmap: ImageBitmap): boolean {
+  const { ctx } = createCanvas(bitmap.width, bitmap.height);
+  ctx.drawImage(bitmap, 0, 0);
+  const { data } = ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return false;
+  }
+  return true;
+}
+
+// Decode the PNG layers and background of a banner
+async function collectRasterSources(assets: RenderedBannerAssets): Promise<RasterSource[]> {
+  const sources: RasterSource[] = [];
+
+  const addSource = async (layerId: string | null, bytes: Uint8Array, cssWidth: number, cssHeight: number) => {
+    const bitmap = await decodeImageBitmap(bytes);
+    sources.push({ layerId, bitmap, cssWidth, cssHeight, opaque: isOpaque(bitmap), originalBytes: bytes });
+  };
+
+  if (assets.frame.backgroundBytes && (assets.frame.backgroundFormat || 'png') === 'png') {
+    await addSource(null, assets.frame.backgroundBytes, assets.frame.width, assets.frame.height);
+  }
+
+  for (const layer of assets.layers) {
+    if (layer.bytes && layer.format === 'png') {
+      await addSource(layer.id, layer.bytes, layer.width, layer.height);
+    }
+  }
+
+  return sources;
+}
+
+// Encode one raster source, keeping whichever encoding is smallest
+async function encodeRasterSource(
+  source: RasterSource,
+  settings: { quality: number; pixelRatio: number | null; allowJpeg: boolean; allowWebp: boolean }
+): Promise<{ bytes: Uint8Array; format: 'png' | 'jpg' | 'webp' }> {
+  const keepSize = settings.pixelRatio === null;
+  const width = keepSize ? source.bitmap.width : Math.max(1, Math.round(source.cssWidth * settings.pixelRatio!));
+  const height = keepSize ? source.bitmap.height : Math.max(1, Math.round(source.cssHeight * settings.pixelRatio!));
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(source.bitmap, 0, 0, width, height);
+
+  const candidates: { bytes: Uint8Array; format: 'png' | 'jpg' | 'webp' }[] = [];
+  if (keepSize) {
+    candidates.push({ bytes: source.originalBytes, format: 'png' });
+  } else {
+    candidates.push({ bytes: await blobToBytes(await canvasToBlob(canvas, 'image/png')), format: 'png' });
+  }
+
+  if (source.opaque && settings.allowJpeg) {
+    candidates.push({ bytes: await blobToBytes(await canvasToBlob(canvas, 'image/jpeg', settings.quality)), format: 'jpg' });
+  } else if (settings.allowWebp) {
+    const blob = await canvasToBlob(canvas, 'image/webp', settings.quality);
+    // Browsers without WebP encoding silently fall back to PNG
+    if (blob.type === 'image/webp') {
+      candidates.push({ bytes: await blobToBytes(blob), format: 'webp' });
+    }
+  }
+
+  return candidates.reduce((smallest, candidate) =>
+    candidate.bytes.length < smallest.bytes.length ? candidate : smallest
+  );
+}
+
+/**
+ * Recompress the raster layers of an HTML5 banner until the bundle fits.
+ * Quality is stepped down along the ladder for the compression speed; when
+ * retina images are exported they are kept at 2x for as long as possible and
+ * dropped to 1x before giving up.
+ */
+export async function recompressBannerAssets(
+  assets: RenderedBannerAssets,
+  options: {
+    maxBytes: number;
+    measure: (assets: RenderedBannerAssets) => number;
+    speed?: CompressionSpeed;
+    renderRetina?: boolean;
+    allowedFileTypes?: string[];
+  }
+): Promise<RecompressionResult<RenderedBannerAssets>> {
+  const initialSize = options.measure(assets);
+  if (initialSize <= options.maxBytes) {
+    return { value: assets, size: initialSize, fits: true, degradations: [] };
+  }
+
+  const sources = await collectRasterSources(assets);
+  const allowedFileTypes = options.allowedFileTypes || ['jpg', 'png', 'webp'];
+  const allowJpeg = allowedFileTypes.includes('jpg');
+  const allowWebp = allowedFileTypes.includes('webp');
+  const pixelRatios: (number | null)[] = options.renderRetina ? [null, 1] : [null];
+
+  let best: RecompressionResult<RenderedBannerAssets> = {
+    value: assets,
+    size: initialSize,
+    fits: false,
+    degradations: []
+  };
+
+  try {
+    for (const pixelRatio of pixelRatios) {
+      for (const quality of getQualityLadder(options.speed)) {
+        const encoded = new Map<string | null, { bytes: Uint8Array; format: 'png' | 'jpg' | 'webp' }>();
+        for (const source of sources) {
+          encoded.set(source.layerId, await encodeRasterSource(source, {
+            quality,
+            pixelRatio,
+            allowJpeg,
+            allowWebp
+          }));
+        }
+
+        const background = encoded.get(null);
+        const candidate: RenderedBannerAssets = {
+          frame: background
+            ? { ...assets.frame, backgroundBytes: background.bytes, backgroundFormat: background.format }
+            : assets.frame,
+          layers: assets.layers.map((layer): RenderedLayerAsset => {
+            const result = encoded.get(layer.id);
+            return result ? { ...layer, bytes: result.bytes, format: result.format } : layer;
+          })
+        };
+
+        const size = options.measure(candidate);
+        if (size < best.size) {
+          best = {
+            value: candidate,
+            size,
+            fits: size <= options.maxBytes,
+            degradations: describeRasterDegradations(encoded, quality, pixelRatio !== null)
+          };
+        }
+
+        if (size <= options.maxBytes) {
+          return best;
+        }
+      }
+    }
+  } finally {
+    sources.forEach(source => source.bitmap.close());
+  }
+
+  return best;
+}
+
+// Describe the raster changes of a recompression step
+function describeRasterDegradations(
+  encoded: Map<string | null, { format: 'png' | 'jpg' | 'webp' }>,
+  quality: number,
+  droppedRetina: boolean
+): string[] {
+  const degradations: string[] = [];
+  const results = Array.from(encoded.values());
+  const percent = Math.round(quality * 100);
+
+  const jpegCount = results.filter(result => result.format === 'jpg').length;
+  if (jpegCount > 0) {
+    degradations.push(`Re-encoded ${jpegCount} opaque image${jpegCount === 1 ? '' : 's'} as JPEG at ${percent}% quality`);
+  }
+
+  const webpCount = results.filter(result => result.format === 'webp').length;
+  if (webpCount > 0) {
+    degradations.push(`Re-encoded ${webpCount} image${webpCount === 1 ? '' : 's'} as WebP at ${percent}% quality`);
+  }
+
+  if (droppedRetina) {
+    degradations.push('Dropped @2x retina images; layers are rendered at 1x');
+  }
+
+  return degradations;
+}
+
+/**
+ * Re-encode a GIF with a smaller palette, then a lower color depth, until it fits
+ */
+export function recompressGif(
+  encode: (settings: { maxColors: number; colorDepth: GifColorDepth }) => Uint8Array,
+  options: {
+    maxBytes: number;
+    speed?: CompressionSpeed;
+    maxColors: number;
+    colorDepth: GifColorDepth;
+  }
+): RecompressionResult<Uint8Array> {
+  const start = { maxColors: options.maxColors, colorDepth: options.colorDepth };
+  const initialBytes = encode(start);
+  let best: RecompressionResult<Uint8Array> = {
+    value: initialBytes,
+    size: initialBytes.length,
+    fits: initialBytes.length <= options.maxBytes,
+    degradations: []
+  };
+
+  if (best.fits) return best;
+
+  for (const settings of getGifSettingsLadder(options.speed, start)) {
+    const bytes = encode(settings);
+    if (bytes.length < best.size) {
+      const degradations = [`Reduced the palette from ${start.maxColors} to ${settings.maxColors} colors`];
+      if (settings.colorDepth !== start.colorDepth) {
+        degradations.push(`Reduced the color depth from ${start.colorDepth}-bit to ${settings.colorDepth}-bit`);
+      }
+      best = { value: bytes, size: bytes.length, fits: bytes.length <= options.maxBytes, degradations };
+    }
+
+    if (best.fits) break;
+  }
+
+  return best;
+}
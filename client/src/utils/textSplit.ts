@@ -0,0 +1,246 @@
+/**
+ * Text Split
+ *
+ * Splits the text of a layer into lines, words and letters for the text
+ * animations, which play their motion on each part in turn rather than on
+ * the layer as a whole. Every part gets a layer of its own holding its
+ * animations, timed for the part, so the preview, the exporters and the
+ * banner renderer sample and compile it like any other layer.
+ *
+ * Lines are the line breaks of the text. The parts start a stagger apart in
+ * the animation's order and each takes the rest of the animation's
+ * duration, so the last part ends with the animation.
+ */
+
+import { Animation, AnimationLayer, AnimationType, TextSplitOrder } from '../types/animation';
+import { getSortedAnimations } from './animationSampler';
+
+/**
+ * The parts a text animation plays on
+ */
+export type TextSplitUnit = 'char' | 'word' | 'line';
+
+/**
+ * A word of a split text, with its letters. Indices count the parts of a
+ * unit across the whole text.
+ */
+export interface TextSplitWord {
+  index: number;
+  chars: { index: number; text: string }[];
+}
+
+/**
+ * A line of a split text: its words and the whitespace between them
+ */
+export interface TextSplitLine {
+  index: number;
+  parts: (TextSplitWord | string)[];
+}
+
+/**
+ * A text split into the parts its layer's text animations play on
+ */
+export interface TextSplit {
+  units: TextSplitUnit[]; // Units the layer animates, which get elements of their own
+  lines: TextSplitLine[];
+  counts: Record<TextSplitUnit, number>;
+}
+
+/**
+ * Layers of the parts of a split text per unit, by part index
+ */
+export type TextPartLayers = Partial<Record<TextSplitUnit, AnimationLayer[]>>;
+
+// Unit each text animation type plays on
+const TEXT_SPLIT_UNITS: Record<string, TextSplitUnit> = {
+  [AnimationType.TextTypewriter]: 'char',
+  [AnimationType.TextLetterFade]: 'char',
+  [AnimationType.TextLetterSlide]: 'char',
+  [AnimationType.TextWordStagger]: 'word',
+  [AnimationType.TextLineMask]: 'line'
+};
+
+const TEXT_SPLIT_ORDERS: TextSplitOrder[] = ['forward', 'reverse', 'center', 'random'];
+
+/**
+ * Seconds between the starts of two parts unless an animation sets it
+ */
+export const DEFAULT_TEXT_STAGGER = 0.05;
+
+/**
+ * Distance (px) letters and words slide in from unless an animation sets it
+ */
+export const DEFAULT_TEXT_DISTANCE = 20;
+
+// Share of the animation's duration each part keeps at least; the stagger
+// shrinks when the parts wouldn't fit otherwise
+const MIN_PART_SHARE = 0.2;
+
+/**
+ * Get the unit a text animation plays on, or null for other animations
+ */
+export function getTextSplitUnit(animation: Animation): TextSplitUnit | null {
+  return TEXT_SPLIT_UNITS[animation.type] || null;
+}
+
+/**
+ * Get a layer's text animations in the order they start
+ */
+export function getTextSplitAnimations(layer: AnimationLayer): Animation[] {
+  return getSortedAnimations(layer).filter(animation => getTextSplitUnit(animation));
+}
+
+/**
+ * Get the ids of the layers in a layer tree with text animations, whose
+ * text has to be exported as text to be split
+ */
+export function getTextSplitLayerIds(layers: AnimationLayer[]): string[] {
+  return layers.flatMap(layer => [
+    ...(getTextSplitAnimations(layer).length > 0 ? [layer.id] : []),
+    ...getTextSplitLayerIds(layer.children || [])
+  ]);
+}
+
+/**
+ * Split a text into lines, words and letters. Whitespace stays between the
+ * words, outside of them.
+ */
+export function splitText(text: string, units: TextSplitUnit[]): TextSplit {
+  const counts: Record<TextSplitUnit, number> = { char: 0, word: 0, line: 0 };
+
+  const lines = text.replace(/\r\n?/g, '\n').split('\n').map(line => ({
+    index: counts.line++,
+    parts: line.split(/(\s+)/).filter(Boolean).map(part => /^\s/.test(part)
+      ? part
+      : { index: counts.word++, chars: Array.from(part).map(char => ({ index: counts.char++, text: char })) })
+  }));
+
+  return { units, lines, counts };
+}
+
+/**
+ * Split the text of a layer for its text animations, or null when the
+ * layer has none
+ */
+export function splitLayerText(layer: AnimationLayer, text: string): TextSplit | null {
+  const units = Array.from(new Set(getTextSplitAnimations(layer).map(animation => getTextSplitUnit(animation)!)));
+  return units.length > 0 ? splitText(text, units) : null;
+}
+
+// Hash a string into a 32-bit seed
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let index = 0; index < value.length; index++) {
+    hash = Math.imul(hash ^ value.charCodeAt(index), 16777619);
+  }
+  return hash >>> 0;
+}
+
+// Random numbers (0-1) that repeat for the same seed (mulberry32)
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = Math.imul(state ^ (state >>> 15), state | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Get the step each of count parts starts at in an order. Parts equally far
+ * from the middle start together in center order; random order shuffles
+ * the parts the same way every time for the same seed.
+ */
+export function getPartSteps(count: number, order: TextSplitOrder, seed = ''): number[] {
+  const indices = Array.from({ length: count }, (_, index) => index);
+
+  switch (order) {
+    case 'reverse':
+      return indices.map(index => count - 1 - index);
+    case 'center':
+      return indices.map(index => Math.floor(Math.abs(index - (count - 1) / 2)));
+    case 'random': {
+      const random = createRandom(hashString(seed));
+      const steps = [...indices];
+      for (let index = count - 1; index > 0; index--) {
+        const other = Math.floor(random() * (index + 1));
+        [steps[index], steps[other]] = [steps[other], steps[index]];
+      }
+      return steps;
+    }
+    default:
+      return indices;
+  }
+}
+
+// The type and customProps of the motion a text animation plays on a part.
+// A line rises into view from one line height below.
+function getPartMotion(animation: Animation, lineHeight: number): Pick<Animation, 'type' | 'customProps'> {
+  const customProps = animation.customProps || {};
+  const distance = typeof customProps.distance === 'number' ? customProps.distance : DEFAULT_TEXT_DISTANCE;
+
+  switch (animation.type) {
+    case AnimationType.TextTypewriter:
+      return { type: AnimationType.InstantShow, customProps: {} };
+    case AnimationType.TextLetterFade:
+      return { type: AnimationType.Custom, customProps: { from: { opacity: 0 }, to: { opacity: 1 } } };
+    case AnimationType.TextLineMask:
+      return { type: AnimationType.Custom, customProps: { from: { y: lineHeight }, to: { y: 0 } } };
+    default:
+      return { type: AnimationType.Custom, customProps: { from: { y: distance, opacity: 0 }, to: { y: 0, opacity: 1 } } };
+  }
+}
+
+// The animation a part plays of a text animation, started at its step
+function getPartAnimation(animation: Animation, step: number, steps: number, lineHeight: number): Animation {
+  const customProps = animation.customProps || {};
+  const duration = Math.max(0, animation.duration || 0);
+  const requested = typeof customProps.stagger === 'number' && customProps.stagger >= 0 ? customProps.stagger : DEFAULT_TEXT_STAGGER;
+  const stagger = steps > 0 ? Math.min(requested, (duration * (1 - MIN_PART_SHARE)) / steps) : 0;
+
+  return {
+    ...animation,
+    ...getPartMotion(animation, lineHeight),
+    id: `${animation.id}-${step}`,
+    startTime: (animation.startTime || 0) + (animation.delay || 0) + stagger * step,
+    delay: 0,
+    duration: duration - stagger * steps
+  };
+}
+
+/**
+ * Get the layers of the parts of a layer's split text, holding the part's
+ * share of each text animation playing on its unit. Lines rise by the line
+ * height of the text.
+ */
+export function getTextPartLayers(layer: AnimationLayer, split: TextSplit, lineHeight: number): TextPartLayers {
+  const partLayers: TextPartLayers = {};
+
+  split.units.forEach(unit => {
+    const count = split.counts[unit];
+    const layers: AnimationLayer[] = Array.from({ length: count }, (_, index) => ({
+      id: `${layer.id}-${unit}-${index}`,
+      name: `${layer.name} ${unit} ${index + 1}`,
+      type: 'text',
+      visible: true,
+      parentId: layer.id,
+      isLinked: false,
+      animations: []
+    }));
+
+    getTextSplitAnimations(layer)
+      .filter(animation => getTextSplitUnit(animation) === unit)
+      .forEach(animation => {
+        const order = TEXT_SPLIT_ORDERS.includes(animation.customProps?.order) ? animation.customProps!.order : 'forward';
+        const steps = getPartSteps(count, order, animation.id);
+        const lastStep = Math.max(0, ...steps);
+        steps.forEach((step, index) => {
+          layers[index].animations!.push(getPartAnimation(animation, step, lastStep, lineHeight));
+        });
+      });
+
+    partLayers[unit] = layers;
+  });
+  return partLayers;
+}
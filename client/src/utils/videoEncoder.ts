@@ -0,0 +1,169 @@
+/**
+ * Video Encoder
+ *
+ * Encodes frames drawn by a deterministic renderer to H.264 MP4 or VP9 WebM
+ * with WebCodecs, muxed in the browser. Every frame is drawn at its exact
+ * timestamp, so the output does not depend on how fast the machine renders.
+ * WebM can keep an alpha channel for transparent video.
+ */
+
+import { ArrayBufferTarget as Mp4Target, Muxer as Mp4Muxer } from 'mp4-muxer';
+import { ArrayBufferTarget as WebmTarget, Muxer as WebmMuxer } from 'webm-muxer';
+import { createCanvas } from './rasterUtils';
+
+export type VideoCodec = 'h264' | 'vp9';
+
+/**
+ * Options of a video encode
+ */
+export interface VideoEncodeOptions {
+  width: number;
+  height: number;
+  fps: number;
+  duration: number; // Seconds
+  bitrate: number; // kbps
+  codec: VideoCodec;
+  transparent?: boolean; // WebM only
+  drawFrame: (ctx: CanvasRenderingContext2D, time: number) => void;
+  onProgress?: (frameIndex: number, frameCount: number) => void;
+}
+
+/**
+ * An encoded video
+ */
+export interface EncodedVideo {
+  bytes: Uint8Array;
+  mimeType: 'video/mp4' | 'video/webm';
+  frameCount: number;
+  hasAlpha: boolean;
+}
+
+// Frames waiting in the encoder before the renderer pauses
+const MAX_ENCODE_QUEUE = 8;
+
+// Seconds between key frames
+const KEY_FRAME_INTERVAL = 2;
+
+/**
+ * Whether the browser can encode video with WebCodecs
+ */
+export function isVideoEncodingSupported(): boolean {
+  return typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+}
+
+// H.264 profile and level for the frame size: Baseline 3.1 up to 720p,
+// High 4.0 up to 1080p and High 5.1 above that
+function getAvcCodecString(width: number, height: number): string {
+  const pixels = width * height;
+  if (pixels <= 1280 * 720) return 'avc1.42001f';
+  if (pixels <= 1920 * 1088) return 'avc1.640028';
+  return 'avc1.640033';
+}
+
+// Find an encoder configuration the browser supports, dropping alpha if needed
+async function getEncoderConfig(options: VideoEncodeOptions, width: number, height: number): Promise<VideoEncoderConfig> {
+  const config: VideoEncoderConfig = {
+    codec: options.codec === 'vp9' ? 'vp09.00.10.08' : getAvcCodecString(width, height),
+    width,
+    height,
+    bitrate: options.bitrate * 1000,
+    framerate: options.fps,
+    ...(options.codec === 'h264' && { avc: { format: 'avc' as const } })
+  };
+
+  if (options.codec === 'vp9' && options.transparent) {
+    const alphaConfig = { ...config, alpha: 'keep' as const };
+    const { supported } = await VideoEncoder.isConfigSupported(alphaConfig);
+    if (supported) return alphaConfig;
+    console.warn('This browser cannot encode VP9 with alpha; the video will be opaque');
+  }
+
+  const { supported } = await VideoEncoder.isConfigSupported(config);
+  if (!supported) {
+    throw new Error(`This browser cannot encode ${options.codec === 'vp9' ? 'VP9' : 'H.264'} video at ${width}x${height}`);
+  }
+  return config;
+}
+
+/**
+ * Render and encode a video frame by frame.
+ * H.264 needs even dimensions, so odd sizes are padded by one pixel.
+ */
+export async function encodeVideo(options: VideoEncodeOptions): Promise<EncodedVideo> {
+  if (!isVideoEncodingSupported()) {
+    throw new Error('Video export needs WebCodecs, which this browser does not support');
+  }
+
+  const width = options.codec === 'h264' ? Math.ceil(options.width / 2) * 2 : Math.round(options.width);
+  const height = options.codec === 'h264' ? Math.ceil(options.height / 2) * 2 : Math.round(options.height);
+  const config = await getEncoderConfig(options, width, height);
+  const hasAlpha = config.alpha === 'keep';
+
+  const mp4Muxer = options.codec === 'h264'
+    ? new Mp4Muxer({
+        target: new Mp4Target(),
+        video: { codec: 'avc', width, height, frameRate: options.fps },
+        fastStart: 'in-memory'
+      })
+    : null;
+  const webmMuxer = options.codec === 'vp9'
+    ? new WebmMuxer({
+        target: new WebmTarget(),
+        video: { codec: 'V_VP9', width, height, frameRate: options.fps, alpha: hasAlpha }
+      })
+    : null;
+
+  let encodeError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => {
+      if (mp4Muxer) mp4Muxer.addVideoChunk(chunk, meta);
+      if (webmMuxer) webmMuxer.addVideoChunk(chunk, meta);
+    },
+    error: error => {
+      encodeError = error;
+    }
+  });
+  encoder.configure(config);
+
+  const { canvas, ctx } = createCanvas(width, height);
+  const frameCount = Math.max(1, Math.ceil(options.duration * options.fps));
+  const frameDuration = 1e6 / options.fps; // Microseconds
+  const keyFrameInterval = Math.max(1, Math.round(options.fps * KEY_FRAME_INTERVAL));
+
+  try {
+    for (let index = 0; index < frameCount; index++) {
+      if (encodeError) throw encodeError;
+
+      ctx.clearRect(0, 0, width, height);
+      options.drawFrame(ctx, index / options.fps);
+
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(index * frameDuration),
+        duration: Math.round(frameDuration),
+        alpha: hasAlpha ? 'keep' : 'discard'
+      });
+      encoder.encode(frame, { keyFrame: index % keyFrameInterval === 0 });
+      frame.close();
+
+      options.onProgress?.(index + 1, frameCount);
+
+      // Let the encoder catch up instead of queueing every frame in memory
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise(resolve => setTimeout(resolve, 1));
+      }
+    }
+
+    await encoder.flush();
+    if (encodeError) throw encodeError;
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+
+  if (mp4Muxer) {
+    mp4Muxer.finalize();
+    return { bytes: new Uint8Array(mp4Muxer.target.buffer), mimeType: 'video/mp4', frameCount, hasAlpha: false };
+  }
+
+  webmMuxer!.finalize();
+  return { bytes: new Uint8Array(webmMuxer!.target.buffer), mimeType: 'video/webm', frameCount, hasAlpha };
+}
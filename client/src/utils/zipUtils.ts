@@ -0,0 +1,79 @@
+/**
+ * ZIP Utilities
+ *
+ * Thin wrapper around fflate used to package exported banners. Entries are
+ * keyed by their path inside the archive, using forward slashes for folders.
+ */
+
+import { zipSync, strToU8, Zippable } from 'fflate';
+
+// Contents of a single archive entry
+export type ZipFileContent = string | Uint8Array;
+
+// Files to package, keyed by their path inside the archive
+export type ZipFiles = Record<string, ZipFileContent>;
+
+// File types that are already compressed and are stored as-is
+const STORED_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'mp4', 'webm', 'zip', 'woff', 'woff2'];
+
+/**
+ * Get the extension of a file path, lowercased
+ */
+export function getFileExtension(path: string): string {
+  const fileName = path.split('/').pop() || '';
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex > 0 ? fileName.slice(dotIndex + 1).toLowerCase() : '';
+}
+
+/**
+ * Convert a file's contents to raw bytes
+ */
+export function toBytes(content: ZipFileContent): Uint8Array {
+  return typeof content === 'string' ? strToU8(content) : content;
+}
+
+/**
+ * Package files into a ZIP archive
+ */
+export function createZip(files: ZipFiles, level: 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 = 9): Uint8Array {
+  const entries: Zippable = {};
+
+  Object.entries(files).forEach(([path, content]) => {
+    const stored = STORED_EXTENSIONS.includes(getFileExtension(path));
+    entries[path] = [toBytes(content), { level: stored ? 0 : level }];
+  });
+
+  return zipSync(entries);
+}
+
+/**
+ * Prefix every path of a file set with a folder name
+ */
+export function prefixZipPaths(files: ZipFiles, folder: string): ZipFiles {
+  if (!folder) return files;
+
+  const prefixed: ZipFiles = {};
+  Object.entries(files).forEach(([path, content]) => {
+    prefixed[`${folder}/${path}`] = content;
+  });
+  return prefixed;
+}
+
+/**
+ * Get the total uncompressed size of a file set in bytes
+ */
+export function getZipFilesSize(files: ZipFiles): number {
+  return Object.values(files).reduce((total, content) => total + toBytes(content).length, 0);
+}
+
+/**
+ * Turn a display name into a safe file or folder name
+ */
+export function toFileName(name: string, fallback = 'banner'): string {
+  const safeName = name
+    .trim()
+    .replace(/[^a-zA-Z0-9._-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+  return safeName || fallback;
+}
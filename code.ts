@@ -53,7 +53,16 @@ enum MessageType {
   SELECT_LAYER = 'SELECT_LAYER',
   UPDATE_ANIMATION = 'UPDATE_ANIMATION',
   EXPORT_GIF = 'EXPORT_GIF',
+  GIF_FRAMES_RENDERED = 'GIF_FRAMES_RENDERED',
   EXPORT_HTML = 'EXPORT_HTML',
+  HTML_ASSETS_RENDERED = 'HTML_ASSETS_RENDERED',
+  EXPORT_MP4 = 'EXPORT_MP4',
+  EXPORT_WEBM = 'EXPORT_WEBM',
+  VIDEO_ASSETS_RENDERED = 'VIDEO_ASSETS_RENDERED',
+  EXPORT_LOTTIE = 'EXPORT_LOTTIE',
+  LOTTIE_ASSETS_RENDERED = 'LOTTIE_ASSETS_RENDERED',
+  GET_VECTOR_PATH = 'GET_VECTOR_PATH',
+  VECTOR_PATH_RESPONSE = 'VECTOR_PATH_RESPONSE',
   LOAD_STATE = 'LOAD_STATE',
   STATE_LOADED = 'STATE_LOADED',
   SAVE_STATE = 'SAVE_STATE',
@@ -74,6 +83,10 @@ figma.showUI(__html__, { width: 860, height: 600 });
 
 // Listen for messages from the UI
 figma.ui.onmessage = async (msg) => {
+  // Requests the UI waits on carry an id, which their reply and any error
+  // carry back so the UI can tell whose they are
+  const requestId: string | undefined = msg.requestId;
+  
   try {
     const { type, ...data } = msg;
 
@@ -99,11 +112,24 @@ figma.ui.onmessage = async (msg) => {
         break;
       
       case MessageType.EXPORT_GIF:
-        handleExportGifMessage(data.options);
+        await handleExportGifMessage(data.options, requestId);
         break;
       
       case MessageType.EXPORT_HTML:
-        handleExportHtmlMessage(data.options);
+        await handleExportHtmlMessage(data.options, requestId);
+        break;
+      
+      case MessageType.EXPORT_MP4:
+      case MessageType.EXPORT_WEBM:
+        await handleExportVideoMessage(data.options, requestId);
+        break;
+      
+      case MessageType.EXPORT_LOTTIE:
+        await handleExportLottieMessage(data.options, requestId);
+        break;
+      
+      case MessageType.GET_VECTOR_PATH:
+        await handleGetVectorPathMessage(data.layerId, requestId);
         break;
       
       case MessageType.LOAD_STATE:
@@ -121,6 +147,7 @@ figma.ui.onmessage = async (msg) => {
     console.error('Error processing message:', error);
     figma.ui.postMessage({
       type: MessageType.ERROR,
+      requestId,
       message: error.message || 'An unknown error occurred'
     });
   }
@@ -220,27 +247,403 @@ function handleUpdateAnimationMessage(nodeId: string, animation: Animation) {
 }
 
 // Handle EXPORT_GIF message
-function handleExportGifMessage(options: any) {
-  // In a real plugin, we would generate a GIF here
-  // For this implementation, we'll just show a notice that it would be exported
-  figma.notify(`Exporting GIF at ${options.width}x${options.height} with quality ${options.quality}`);
-  
-  // Simulate a slight delay for "processing"
-  setTimeout(() => {
-    figma.notify('GIF export complete! (simulated)');
-  }, 1500);
+// Rasterizes every requested frame and sends the PNG bytes back to the UI,
+// which quantizes and encodes them into the final GIF
+async function handleExportGifMessage(options: any, requestId?: string) {
+  const frames: any[] = Array.isArray(options.frames) ? options.frames : [];
+  figma.notify(`Rendering ${frames.length} GIF frame${frames.length === 1 ? '' : 's'} at ${options.width}x${options.height}...`);
+  
+  const renderedFrames = [];
+  for (const frame of frames) {
+    const node = await resolveExportFrame(frame);
+    if (!node) {
+      console.warn(`Skipping GIF frame ${frame.id}: no matching frame in the document`);
+      continue;
+    }
+    
+    const bytes = await rasterizeFrame(node, frame, options.width);
+    renderedFrames.push({
+      id: frame.id,
+      delay: frame.delay,
+      bytes
+    });
+  }
+  
+  if (renderedFrames.length === 0) {
+    throw new Error('None of the selected frames could be found in the document');
+  }
+  
+  figma.ui.postMessage({
+    type: MessageType.GIF_FRAMES_RENDERED,
+    requestId,
+    frames: renderedFrames
+  });
+}
+
+// Helper function to find the Figma frame to render for an exported frame
+async function resolveExportFrame(frame: any): Promise<FrameNode | null> {
+  const selectedFrameId = Object.keys(animationData.frames).find(
+    id => animationData.frames[id].selected
+  );
+  
+  // Try the frame itself, then its ad size, then the selected frame
+  const candidateIds = [frame.id, frame.adSizeId, selectedFrameId];
+  
+  for (const id of candidateIds) {
+    if (!id) continue;
+    
+    try {
+      const node = await figma.getNodeByIdAsync(id);
+      if (node && (node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'INSTANCE')) {
+        return node as FrameNode;
+      }
+    } catch (error) {
+      // Ids created by the UI (e.g. "gif-frame-...") are not valid node ids
+    }
+  }
+  
+  return null;
+}
+
+// Helper function to get the child index path from a root node to a descendant
+function getNodePath(root: BaseNode, target: BaseNode): number[] | null {
+  const path: number[] = [];
+  let current: BaseNode | null = target;
+  
+  while (current && current !== root) {
+    const parent = current.parent;
+    if (!parent) return null;
+    path.unshift(parent.children.indexOf(current as SceneNode));
+    current = parent;
+  }
+  
+  return current === root ? path : null;
+}
+
+// Helper function to follow a child index path from a root node
+function getNodeAtPath(root: FrameNode, path: number[]): SceneNode | null {
+  let current: SceneNode = root;
+  
+  for (const index of path) {
+    if (!('children' in current) || !current.children[index]) return null;
+    current = current.children[index];
+  }
+  
+  return current;
+}
+
+// Helper function to replace the text of the first text layer matching one of the names
+async function applyTextOverride(frame: FrameNode, layerNames: string[], text?: string) {
+  if (!text) return;
+  
+  const textNode = frame.findOne(
+    node => node.type === 'TEXT' && layerNames.includes(node.name)
+  ) as TextNode | null;
+  
+  if (!textNode || textNode.hasMissingFont) return;
+  
+  const fonts = textNode.getRangeAllFontNames(0, textNode.characters.length);
+  await Promise.all(fonts.map(font => figma.loadFontAsync(font)));
+  textNode.characters = text;
+}
+
+// Helper function to rasterize a frame as PNG with its per-frame overrides.
+// Overrides (hidden layers, custom text) are applied to a temporary clone so
+// the user's document is never modified.
+async function rasterizeFrame(node: FrameNode, frame: any, width: number): Promise<Uint8Array> {
+  const hiddenLayers: string[] = Array.isArray(frame.hiddenLayers) ? frame.hiddenLayers : [];
+  const customContent = frame.customContent;
+  const constraint: ExportSettingsConstraints = { type: 'WIDTH', value: width || node.width };
+  
+  if (hiddenLayers.length === 0 && !customContent) {
+    return node.exportAsync({ format: 'PNG', constraint });
+  }
+  
+  const clone = node.clone();
+  try {
+    for (const layerId of hiddenLayers) {
+      const layer = await figma.getNodeByIdAsync(layerId);
+      const path = layer ? getNodePath(node, layer) : null;
+      const clonedLayer = path ? getNodeAtPath(clone, path) : null;
+      
+      if (clonedLayer) {
+        clonedLayer.visible = false;
+      }
+    }
+    
+    if (customContent) {
+      await applyTextOverride(clone, ['Headline', 'Title'], customContent.headlineText);
+      await applyTextOverride(clone, ['Subhead', 'Tagline', 'Description'], customContent.description);
+    }
+    
+    return await clone.exportAsync({ format: 'PNG', constraint });
+  } finally {
+    clone.remove();
+  }
 }
 
 // Handle EXPORT_HTML message
-function handleExportHtmlMessage(options: any) {
-  // In a real plugin, we would generate HTML5 banner code here
-  // For this implementation, we'll just show a notice that it would be exported
-  figma.notify(`Exporting HTML5 banner at ${options.width}x${options.height}`);
-  
-  // Simulate a slight delay for "processing"
-  setTimeout(() => {
-    figma.notify('HTML5 export complete! (simulated)');
-  }, 1500);
+// Exports the banner layers as individual assets with their geometry so the
+// UI can assemble the HTML5 bundle around them
+async function handleExportHtmlMessage(options: any, requestId?: string) {
+  figma.notify(`Exporting HTML5 banner layers at ${options.width}x${options.height}...`);
+  
+  figma.ui.postMessage({
+    type: MessageType.HTML_ASSETS_RENDERED,
+    requestId,
+    ...(await exportBannerAssets(options, {
+      useTextTags: Boolean(options.usePTagsInsteadOfSvg),
+      includeBackground: true
+    }))
+  });
+}
+
+// Handle EXPORT_MP4 and EXPORT_WEBM messages
+// Exports the same layer assets as HTML5; the UI animates and encodes them
+// frame by frame. Text is always exported as an image so it renders exactly.
+async function handleExportVideoMessage(options: any, requestId?: string) {
+  figma.notify(`Exporting video layers at ${options.width}x${options.height}...`);
+  
+  figma.ui.postMessage({
+    type: MessageType.VIDEO_ASSETS_RENDERED,
+    requestId,
+    ...(await exportBannerAssets({ ...options, renderRetina: false }, {
+      useTextTags: false,
+      // Transparent video leaves the frame background out
+      includeBackground: !options.transparent
+    }))
+  });
+}
+
+// Handle EXPORT_LOTTIE messages
+// Lottie players only show images, so text is exported as images as well
+async function handleExportLottieMessage(options: any, requestId?: string) {
+  figma.notify(`Exporting Lottie layers at ${options.width}x${options.height}...`);
+  
+  figma.ui.postMessage({
+    type: MessageType.LOTTIE_ASSETS_RENDERED,
+    requestId,
+    ...(await exportBannerAssets({ ...options, renderRetina: false }, {
+      useTextTags: false,
+      includeBackground: true
+    }))
+  });
+}
+
+// Handle GET_VECTOR_PATH message
+// Sends the path of the selected vector for a layer's motion path, measured
+// from the layer's center, or from the start of the path when the layer
+// isn't in the document
+async function handleGetVectorPathMessage(layerId: string, requestId?: string) {
+  const vector = figma.currentPage.selection.find(node => node.type === 'VECTOR') as VectorNode | undefined;
+  if (!vector || vector.vectorPaths.length === 0) {
+    throw new Error('Select a vector in Figma to use as the motion path');
+  }
+  
+  let layer: BaseNode | null = null;
+  try {
+    layer = await figma.getNodeByIdAsync(layerId);
+  } catch (error) {
+    // Ids created by the UI are not valid node ids
+  }
+  
+  // Vector paths are absolute M, L, Q, C and Z commands in the vector's own
+  // coordinates; the vector's transform places them on the page
+  const [[a, c, e], [b, d, f]] = vector.absoluteTransform;
+  const data = vector.vectorPaths.map(vectorPath => vectorPath.data).join(' ');
+  const numbers = (data.match(/-?[\d.]+(e-?\d+)?/gi) || []).map(Number);
+  
+  let originX = a * numbers[0] + c * numbers[1] + e;
+  let originY = b * numbers[0] + d * numbers[1] + f;
+  const bounds = layer && 'absoluteBoundingBox' in layer ? layer.absoluteBoundingBox : null;
+  if (bounds) {
+    originX = bounds.x + bounds.width / 2;
+    originY = bounds.y + bounds.height / 2;
+  }
+  
+  const path = data.replace(/(-?[\d.]+(?:e-?\d+)?)[\s,]+(-?[\d.]+(?:e-?\d+)?)/gi, (_match, x, y) => {
+    const pointX = a * Number(x) + c * Number(y) + e - originX;
+    const pointY = b * Number(x) + d * Number(y) + f - originY;
+    return `${Math.round(pointX * 100) / 100} ${Math.round(pointY * 100) / 100}`;
+  });
+  
+  figma.ui.postMessage({
+    type: MessageType.VECTOR_PATH_RESPONSE,
+    requestId,
+    path,
+    name: vector.name
+  });
+}
+
+// Helper function to export the requested layers of a banner frame as assets
+// with their geometry relative to the frame
+async function exportBannerAssets(options: any, settings: { useTextTags: boolean; includeBackground: boolean }) {
+  const frame = Array.isArray(options.frames) && options.frames.length > 0 ? options.frames[0] : {};
+  const node = await resolveExportFrame(frame);
+  if (!node) {
+    throw new Error('The banner frame could not be found in the document');
+  }
+  
+  // Layers requested by the UI; default to every visible top-level layer.
+  // asText marks text the UI changes after export, e.g. from a feed, or
+  // splits for its text animations.
+  const requests: { id: string; rasterize: boolean; asText?: boolean }[] = Array.isArray(options.layers)
+    ? options.layers
+    : node.children.filter(child => child.visible).map(child => ({ id: child.id, rasterize: true }));
+  
+  const scale = (options.width || node.width) / node.width;
+  const imageScale = scale * (options.renderRetina ? 2 : 1);
+  
+  const layers = [];
+  for (const request of requests) {
+    let layer: BaseNode | null = null;
+    try {
+      layer = await figma.getNodeByIdAsync(request.id);
+    } catch (error) {
+      // Ids created by the UI are not valid node ids
+    }
+    
+    if (!layer || !getNodePath(node, layer) || !('absoluteBoundingBox' in layer)) {
+      console.warn(`Skipping banner layer ${request.id}: not found in frame "${node.name}"`);
+      continue;
+    }
+    
+    layers.push(await exportLayerAsset(node, layer as SceneNode, request.rasterize, {
+      scale,
+      imageScale,
+      useTextTags: settings.useTextTags || Boolean(request.asText)
+    }));
+  }
+  
+  return {
+    frame: {
+      id: node.id,
+      name: node.name,
+      width: node.width * scale,
+      height: node.height * scale,
+      ...(settings.includeBackground ? await exportFrameBackground(node, imageScale) : {})
+    },
+    layers
+  };
+}
+
+// Helper function to convert a solid paint to a CSS color
+function toCssColor(paint: SolidPaint): string {
+  const { r, g, b } = paint.color;
+  const alpha = paint.opacity !== undefined ? paint.opacity : 1;
+  return `rgba(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}, ${Number(alpha.toFixed(3))})`;
+}
+
+// Helper function to get the first visible fill of a node if it is a solid color
+function getSolidFill(node: SceneNode): SolidPaint | null {
+  if (!('fills' in node) || node.fills === figma.mixed) return null;
+  
+  const fills = (node.fills as ReadonlyArray<Paint>).filter(fill => fill.visible !== false);
+  if (fills.length === 0) return null;
+  
+  return fills.length === 1 && fills[0].type === 'SOLID' ? fills[0] : null;
+}
+
+// Helper function to export a frame's own background. Solid fills become a CSS
+// color; anything else (gradients, images) is rendered from an empty clone.
+async function exportFrameBackground(node: FrameNode, imageScale: number) {
+  const fills = node.fills === figma.mixed
+    ? []
+    : (node.fills as ReadonlyArray<Paint>).filter(fill => fill.visible !== false);
+  
+  if (fills.length === 0) return {};
+  
+  const solidFill = getSolidFill(node);
+  if (solidFill) return { background: toCssColor(solidFill) };
+  
+  const clone = node.clone();
+  try {
+    for (const child of [...clone.children]) {
+      child.remove();
+    }
+    const backgroundBytes = await clone.exportAsync({
+      format: 'PNG',
+      constraint: { type: 'SCALE', value: imageScale }
+    });
+    return { backgroundBytes };
+  } finally {
+    clone.remove();
+  }
+}
+
+// Helper function to describe a text layer so it can be written as HTML text
+function getTextStyle(node: TextNode, scale: number) {
+  const fontSize = node.fontSize === figma.mixed ? 16 : node.fontSize;
+  const fontName = node.fontName === figma.mixed ? null : node.fontName;
+  const lineHeight = node.lineHeight === figma.mixed ? null : node.lineHeight;
+  const fill = getSolidFill(node);
+  
+  return {
+    characters: node.characters,
+    fontSize: fontSize * scale,
+    fontFamily: fontName ? fontName.family : 'sans-serif',
+    fontWeight: fontName && /bold/i.test(fontName.style) ? 'bold' : 'normal',
+    fontStyle: fontName && /italic/i.test(fontName.style) ? 'italic' : 'normal',
+    color: fill ? toCssColor(fill) : '#000000',
+    textAlign: node.textAlignHorizontal.toLowerCase(),
+    lineHeight: lineHeight && lineHeight.unit === 'PIXELS' ? lineHeight.value * scale : undefined
+  };
+}
+
+// Helper function to describe a layer's constraints the way the UI stores them.
+// Groups have none; their children follow the nearest frame.
+function getLayerConstraints(node: SceneNode) {
+  if (!('constraints' in node)) return undefined;
+  const horizontal: Record<ConstraintType, string> = { MIN: 'left', MAX: 'right', STRETCH: 'left-right', CENTER: 'center', SCALE: 'scale' };
+  const vertical: Record<ConstraintType, string> = { MIN: 'top', MAX: 'bottom', STRETCH: 'top-bottom', CENTER: 'center', SCALE: 'scale' };
+  return {
+    horizontal: horizontal[node.constraints.horizontal],
+    vertical: vertical[node.constraints.vertical]
+  };
+}
+
+// Helper function to export one layer of an HTML5 banner. Positions are
+// relative to the banner frame; layers that only act as containers for
+// animated children are returned without image data.
+async function exportLayerAsset(
+  frame: FrameNode,
+  layer: SceneNode,
+  rasterize: boolean,
+  settings: { scale: number; imageScale: number; useTextTags: boolean }
+) {
+  const origin = frame.absoluteBoundingBox;
+  const bounds = ('absoluteRenderBounds' in layer && layer.absoluteRenderBounds) || layer.absoluteBoundingBox;
+  if (!origin || !bounds) {
+    throw new Error(`Layer "${layer.name}" has no bounds to export`);
+  }
+  
+  const asset: Record<string, any> = {
+    id: layer.id,
+    name: layer.name,
+    type: layer.type,
+    x: (bounds.x - origin.x) * settings.scale,
+    y: (bounds.y - origin.y) * settings.scale,
+    width: bounds.width * settings.scale,
+    height: bounds.height * settings.scale,
+    constraints: getLayerConstraints(layer)
+  };
+  
+  if (!rasterize) return asset;
+  
+  if (layer.type === 'TEXT' && settings.useTextTags) {
+    asset.text = getTextStyle(layer, settings.scale);
+  } else if (layer.type === 'TEXT' || layer.type === 'VECTOR' || layer.type === 'BOOLEAN_OPERATION') {
+    asset.format = 'svg';
+    asset.bytes = await layer.exportAsync({ format: 'SVG' });
+  } else {
+    asset.format = 'png';
+    asset.bytes = await layer.exportAsync({
+      format: 'PNG',
+      constraint: { type: 'SCALE', value: settings.imageScale }
+    });
+  }
+  
+  return asset;
 }
 
 // Handle LOAD_STATE message
@@ -415,6 +818,7 @@ function scanLayersInFrame(frame: FrameNode) {
       type: layerType,
       visible: node.visible !== false,
       locked: node.locked || false,
+      constraints: getLayerConstraints(node),
       animations: animationData.layers[node.id].animations,
       keyframes: animationData.layers[node.id].keyframes
     };